@@ -1,5 +1,6 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
 import fs from "fs";
 import path from "path";
 import {
@@ -7,8 +8,18 @@ import {
   getAvailableFlavors,
   generateFlavorCode,
   generateCategoryCode,
+  isValidCategory,
 } from "../utils/skuGenerator";
 import { uploadToCloudinary, deleteFromCloudinary } from "../config/cloudinary";
+import {
+  MANUAL_MOVEMENT_TYPES,
+  isManualMovementType,
+  isStockMovementType,
+  setStockLevels,
+} from "../services/stockMovementService";
+import { getActivePackDefinitions } from "../services/packDefinitionService";
+import { parseItemSize } from "../services/parcelPackingService";
+import { parseCustomsInfo } from "../services/customsService";
 
 const prisma = new PrismaClient();
 
@@ -69,7 +80,7 @@ export const getAllFlavors = async (req: Request, res: Response) => {
 // Create new flavor (Admin)
 export const createFlavor = async (req: Request, res: Response) => {
   try {
-    const { name, aliases = [] } = req.body;
+    const { name, aliases = [], category } = req.body;
     const imageFile = req.file;
 
     // Handle aliases - could be string (JSON) or array
@@ -91,6 +102,14 @@ export const createFlavor = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Flavor name is required" });
     }
 
+    if (category && !(await isValidCategory(category))) {
+      return res.status(400).json({ message: `Unknown category: ${category}` });
+    }
+
+    // Optional weight and dimensions for parcel packing, and customs details
+    const size = parseItemSize(req.body);
+    const customs = parseCustomsInfo(req.body);
+
     // Check if flavor already exists (case-insensitive for both name and aliases)
     const trimmedName = name.trim();
     const lowerCaseName = trimmedName.toLowerCase();
@@ -154,9 +173,12 @@ export const createFlavor = async (req: Request, res: Response) => {
         data: {
           name: name.trim(),
           aliases: aliasesArray.filter(Boolean),
+          category: category || null,
           active: true,
           imageUrl: imageUrl,
           cloudinaryPublicId: cloudinaryPublicId,
+          ...size,
+          ...customs,
         },
       });
 
@@ -179,6 +201,9 @@ export const createFlavor = async (req: Request, res: Response) => {
       generatedCode: generateFlavorCode(name.trim()),
     });
   } catch (err: any) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Create flavor error:", err);
     
     // Provide more specific error messages
@@ -202,9 +227,16 @@ export const createFlavor = async (req: Request, res: Response) => {
 export const updateFlavor = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { name, aliases, active } = req.body;
+    const { name, aliases, active, category } = req.body;
     const imageFile = req.file;
 
+    if (category && !(await isValidCategory(category))) {
+      return res.status(400).json({ message: `Unknown category: ${category}` });
+    }
+
+    const size = parseItemSize(req.body);
+    const customs = parseCustomsInfo(req.body);
+
     // Get the current flavor to check for existing image
     const currentFlavor = await prisma.flavor.findUnique({
       where: { id },
@@ -236,6 +268,9 @@ export const updateFlavor = async (req: Request, res: Response) => {
       name: name ? name.trim() : undefined,
       aliases: aliases !== undefined ? aliasesArray.filter(Boolean) : undefined,
       active: active !== undefined ? Boolean(active) : undefined,
+      category: category !== undefined ? category || null : undefined,
+      ...size,
+      ...customs,
     };
 
     // If a new image is uploaded, update the imageUrl and delete the old one
@@ -262,6 +297,9 @@ export const updateFlavor = async (req: Request, res: Response) => {
       generatedCode: generateFlavorCode(flavor.name),
     });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Update flavor error:", err);
     res.status(500).json({ message: "Error updating flavor" });
   }
@@ -294,7 +332,10 @@ export const deleteFlavor = async (req: Request, res: Response) => {
     }
 
     await prisma.$transaction(async (tx) => {
-      // Delete inventory first
+      // Delete inventory and its history first
+      await tx.stockMovement.deleteMany({
+        where: { flavorId: id },
+      });
       await tx.flavorInventory.deleteMany({
         where: { flavorId: id },
       });
@@ -556,7 +597,8 @@ export const deleteCategory = async (req: Request, res: Response) => {
 export const updateFlavorInventory = async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const { onHand, reserved, safetyStock, stock } = req.body;
+    const { onHand, reserved, safetyStock, stock, movementType, reason } =
+      req.body;
 
     // Support both 'stock' and 'onHand' for backward compatibility
     const newOnHand =
@@ -566,15 +608,24 @@ export const updateFlavorInventory = async (req: Request, res: Response) => {
         ? parseInt(onHand)
         : undefined;
 
-    const inventory = await prisma.flavorInventory.update({
-      where: { flavorId: id },
-      data: {
+    const type = movementType ?? "adjustment";
+    if (!isManualMovementType(type)) {
+      return res.status(400).json({
+        message: `movementType must be one of: ${MANUAL_MOVEMENT_TYPES.join(", ")}`,
+      });
+    }
+
+    const inventory = await setStockLevels(
+      id,
+      {
         onHand: newOnHand,
         reserved: reserved !== undefined ? parseInt(reserved) : undefined,
         safetyStock:
           safetyStock !== undefined ? parseInt(safetyStock) : undefined,
       },
-    });
+      type,
+      { reason, createdById: (req as any).user?.id }
+    );
 
     res.json({
       message: "Inventory updated successfully",
@@ -609,24 +660,70 @@ export const getInventoryAlerts = async (req: Request, res: Response) => {
   }
 };
 
+// Get stock movement history (Admin)
+export const getStockMovements = async (req: Request, res: Response) => {
+  try {
+    const { flavorId, type, orderId, page = 1, limit = 50 } = req.query;
+
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+    const take = Math.min(parseInt(limit as string), 200);
+
+    const where: any = {};
+    if (flavorId) where.flavorId = flavorId;
+    if (orderId) where.orderId = orderId;
+    if (type) {
+      if (!isStockMovementType(type)) {
+        return res.status(400).json({ message: "Invalid movement type" });
+      }
+      where.type = type;
+    }
+
+    const [movements, total] = await Promise.all([
+      prisma.stockMovement.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { createdAt: "desc" },
+        include: {
+          flavor: {
+            select: { id: true, name: true },
+          },
+        },
+      }),
+      prisma.stockMovement.count({ where }),
+    ]);
+
+    res.json({
+      movements,
+      pagination: {
+        page: parseInt(page as string),
+        limit: take,
+        total,
+        pages: Math.ceil(total / take),
+      },
+    });
+  } catch (err) {
+    console.error("Get stock movements error:", err);
+    res.status(500).json({ message: "Error fetching stock movements" });
+  }
+};
+
 // ==================== SYSTEM CONFIGURATION ====================
 
 // Get system configuration (Admin)
 export const getSystemConfig = async (req: Request, res: Response) => {
   try {
+    const packs = await getActivePackDefinitions();
     const config = {
       supportedCategories: process.env.SUPPORTED_CATEGORIES?.split(",") || [
         "Traditional",
         "Sour",
         "Sweet",
       ],
-      supportedProductTypes: process.env.SUPPORTED_PRODUCT_TYPES?.split(
-        ","
-      ) || ["3-pack", "5-pack"],
-      defaultPrices: {
-        "3-pack": parseFloat(process.env.DEFAULT_3PACK_PRICE || "27.00"),
-        "5-pack": parseFloat(process.env.DEFAULT_5PACK_PRICE || "45.00"),
-      },
+      supportedProductTypes: packs.map((pack) => pack.id),
+      defaultPrices: Object.fromEntries(
+        packs.map((pack) => [pack.id, pack.price])
+      ),
       totalFlavors: await prisma.flavor.count(),
       totalProducts: await prisma.product.count(),
       totalCategories: (await getAvailableCategories()).length,
@@ -11,6 +11,36 @@ import {
   resendVerificationEmail,
   isUserVerified 
 } from "../utils/emailVerification";
+import {
+  claimGuestOrders,
+  GuestMergeResult,
+  mergeGuestIntoAccount,
+} from "../services/guestMergeService";
+
+// Carry the guest cart (and, for verified emails, guest orders) over to the
+// account that just signed in. Never fails the sign-in itself.
+const adoptGuestSession = async (
+  req: Request,
+  res: Response,
+  user: { id: string; email: string | null; isVerified: boolean }
+): Promise<GuestMergeResult | null> => {
+  const guestId = req.cookies?.guestId;
+  try {
+    const merged = await mergeGuestIntoAccount({
+      userId: user.id,
+      guestId,
+      email: user.email,
+      isVerified: user.isVerified,
+    });
+    if (guestId) {
+      res.clearCookie("guestId");
+    }
+    return merged;
+  } catch (mergeError) {
+    logger.error("Guest session merge failed:", mergeError);
+    return null;
+  }
+};
 
 export const register = async (req: Request, res: Response) => {
   const { name, email, password } = req.body;
@@ -43,6 +73,9 @@ export const register = async (req: Request, res: Response) => {
       // Don't fail registration if email fails
     }
 
+    // Unverified, so this only brings the cart along
+    const guestMerge = await adoptGuestSession(req, res, newUser);
+
     const token = generateToken(String(newUser.id), newUser.role);
 
     // Determine cookie domain based on environment and request origin
@@ -69,7 +102,8 @@ export const register = async (req: Request, res: Response) => {
         message: "Registration successful. Please check your email to verify your account.",
         user: { ...newUser, password: undefined },
         token: token,
-        requiresVerification: true
+        requiresVerification: true,
+        guestMerge
       });
   } catch (err) {
     logger.error("Registration error:", err);
@@ -114,6 +148,8 @@ export const login = async (req: Request, res: Response) => {
       });
     }
 
+    const guestMerge = await adoptGuestSession(req, res, user);
+
     const token = generateToken(String(user.id), user.role);
     // Determine cookie domain based on environment and request origin
     let cookieDomain = undefined;
@@ -138,6 +174,7 @@ export const login = async (req: Request, res: Response) => {
       .json({
         user: { ...user, password: undefined },
         token: token,
+        guestMerge,
       });
   } catch (err) {
     logger.error("Login error:", err);
@@ -321,6 +358,13 @@ export const verifyEmail = async (req: Request, res: Response) => {
       });
     }
 
+    // The address is proven now, so orders placed with it as a guest are theirs
+    try {
+      await claimGuestOrders(result.user.id, email as string);
+    } catch (claimError) {
+      logger.error("Claiming guest orders failed:", claimError);
+    }
+
     res.status(200).json({
       message: result.message,
       verified: true,
@@ -0,0 +1,49 @@
+import { Request, Response } from "express";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  getOutboundEmail,
+  listOutboundEmails,
+  resendOutboundEmail,
+} from "../services/emailOutboxService";
+
+// List queued, sent and dead emails (Admin)
+export const getOutboundEmails = async (req: Request, res: Response) => {
+  try {
+    const result = await listOutboundEmails(req.query);
+    res.json(result);
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get outbound emails error:", err);
+    res.status(500).json({ message: "Error fetching emails" });
+  }
+};
+
+// Get one email with its rendered content (Admin)
+export const getOutboundEmailById = async (req: Request, res: Response) => {
+  try {
+    const result = await getOutboundEmail(req.params.id);
+    res.json(result);
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get outbound email error:", err);
+    res.status(500).json({ message: "Error fetching email" });
+  }
+};
+
+// Queue an email to be sent again (Admin)
+export const resendOutboundEmailById = async (req: Request, res: Response) => {
+  try {
+    const email = await resendOutboundEmail(req.params.id);
+    res.json({ message: "Email queued to send again", email });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Resend outbound email error:", err);
+    res.status(500).json({ message: "Error resending email" });
+  }
+};
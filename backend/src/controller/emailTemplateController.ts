@@ -0,0 +1,36 @@
+import { Request, Response } from "express";
+import { CustomError } from "../middlewares/error.middleware";
+import { listEmailTemplates, previewEmail } from "../mail";
+
+// List email templates (Admin)
+export const getEmailTemplates = async (req: Request, res: Response) => {
+  try {
+    res.json({ templates: listEmailTemplates() });
+  } catch (err) {
+    console.error("Get email templates error:", err);
+    res.status(500).json({ message: "Error fetching email templates" });
+  }
+};
+
+// Render an email template with sample data (Admin)
+// ?format=html or ?format=text returns just that body, e.g. to open in a tab
+export const previewEmailTemplate = async (req: Request, res: Response) => {
+  try {
+    const preview = previewEmail(req.params.name);
+    const format = String(req.query.format || "json");
+
+    if (format === "html") {
+      return res.type("html").send(preview.html);
+    }
+    if (format === "text") {
+      return res.type("text").send(preview.text);
+    }
+    res.json({ preview });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Preview email template error:", err);
+    res.status(500).json({ message: "Error rendering email template" });
+  }
+};
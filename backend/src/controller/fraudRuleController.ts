@@ -0,0 +1,240 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  FRAUD_RULE_CONDITIONS,
+  FraudRuleInput,
+  FraudThresholds,
+  getActiveFraudRules,
+  getFraudThresholds,
+  validateFraudRule,
+  validateFraudThresholds,
+  WINDOWED_CONDITIONS,
+} from "../services/fraudRuleService";
+import { orderVerificationService } from "../services/orderVerificationService";
+
+const prisma = new PrismaClient();
+
+const toNumberOrNull = (value: any) =>
+  value === undefined || value === null || value === "" ? null : Number(value);
+
+// Validate the admin form and turn it into FraudRule fields
+const parseFraudRuleInput = (
+  body: any,
+  existing?: FraudRuleInput
+): FraudRuleInput & { sortOrder?: number } => {
+  if (existing && body.id !== undefined && body.id !== existing.id) {
+    // Orders store the flags they were scored with
+    throw new CustomError(
+      "Rule id can't be changed; create a new rule instead",
+      400
+    );
+  }
+
+  const rule: FraudRuleInput = {
+    id: existing ? existing.id : String(body.id || "").trim().toUpperCase(),
+    name: body.name !== undefined ? String(body.name).trim() : existing?.name || "",
+    condition: body.condition ?? existing?.condition,
+    threshold:
+      body.threshold !== undefined
+        ? toNumberOrNull(body.threshold)
+        : existing?.threshold ?? null,
+    windowHours:
+      body.windowHours !== undefined
+        ? toNumberOrNull(body.windowHours)
+        : existing?.windowHours ?? null,
+    weight: body.weight !== undefined ? Number(body.weight) : existing?.weight!,
+    active: body.active !== undefined ? Boolean(body.active) : existing?.active ?? true,
+  };
+
+  const problem = validateFraudRule(rule);
+  if (problem) {
+    throw new CustomError(problem, 400);
+  }
+  if (!WINDOWED_CONDITIONS.includes(rule.condition as any)) {
+    rule.windowHours = null;
+  }
+
+  return body.sortOrder !== undefined
+    ? { ...rule, sortOrder: parseInt(body.sortOrder) || 0 }
+    : rule;
+};
+
+// Validate score cut-offs, filling in whichever one wasn't sent
+const parseThresholdsInput = (
+  body: any,
+  current: FraudThresholds
+): FraudThresholds => {
+  const thresholds = {
+    highRiskThreshold:
+      body.highRiskThreshold !== undefined
+        ? Number(body.highRiskThreshold)
+        : current.highRiskThreshold,
+    autoApproveThreshold:
+      body.autoApproveThreshold !== undefined
+        ? Number(body.autoApproveThreshold)
+        : current.autoApproveThreshold,
+  };
+
+  const problem = validateFraudThresholds(thresholds);
+  if (problem) {
+    throw new CustomError(problem, 400);
+  }
+  return thresholds;
+};
+
+// Get fraud rules and score thresholds (Admin)
+export const getFraudRules = async (req: Request, res: Response) => {
+  try {
+    const [rules, thresholds] = await Promise.all([
+      prisma.fraudRule.findMany({
+        orderBy: [{ sortOrder: "asc" }, { id: "asc" }],
+      }),
+      getFraudThresholds(),
+    ]);
+    res.json({
+      rules,
+      settings: thresholds,
+      conditions: FRAUD_RULE_CONDITIONS,
+      windowedConditions: WINDOWED_CONDITIONS,
+    });
+  } catch (err) {
+    console.error("Get fraud rules error:", err);
+    res.status(500).json({ message: "Error fetching fraud rules" });
+  }
+};
+
+// Create fraud rule (Admin)
+export const createFraudRule = async (req: Request, res: Response) => {
+  try {
+    const data = parseFraudRuleInput(req.body);
+
+    const existing = await prisma.fraudRule.findUnique({
+      where: { id: data.id },
+    });
+    if (existing) {
+      return res
+        .status(400)
+        .json({ message: `A rule with id '${data.id}' already exists` });
+    }
+
+    const rule = await prisma.fraudRule.create({ data });
+    res.status(201).json({ message: "Fraud rule created successfully", rule });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create fraud rule error:", err);
+    res.status(500).json({ message: "Error creating fraud rule" });
+  }
+};
+
+// Update fraud rule (Admin)
+export const updateFraudRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.fraudRule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Fraud rule not found" });
+    }
+
+    const { id: _id, ...data } = parseFraudRuleInput(req.body, existing);
+    const rule = await prisma.fraudRule.update({ where: { id }, data });
+
+    res.json({ message: "Fraud rule updated successfully", rule });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update fraud rule error:", err);
+    res.status(500).json({ message: "Error updating fraud rule" });
+  }
+};
+
+// Delete fraud rule (Admin)
+export const deleteFraudRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.fraudRule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Fraud rule not found" });
+    }
+
+    await prisma.fraudRule.delete({ where: { id } });
+    res.json({ message: "Fraud rule deleted successfully" });
+  } catch (err) {
+    console.error("Delete fraud rule error:", err);
+    res.status(500).json({ message: "Error deleting fraud rule" });
+  }
+};
+
+// Update risk score thresholds (Admin)
+export const updateFraudSettings = async (req: Request, res: Response) => {
+  try {
+    const thresholds = parseThresholdsInput(req.body, await getFraudThresholds());
+
+    const settings = await prisma.fraudSettings.upsert({
+      where: { id: "default" },
+      update: thresholds,
+      create: { id: "default", ...thresholds },
+    });
+
+    res.json({ message: "Fraud settings updated successfully", settings });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update fraud settings error:", err);
+    res.status(500).json({ message: "Error updating fraud settings" });
+  }
+};
+
+// Score recent orders with proposed rules without saving anything (Admin)
+export const dryRunFraudRules = async (req: Request, res: Response) => {
+  try {
+    const { rules: proposedRules, thresholds: proposedThresholds } = req.body;
+
+    let rules: FraudRuleInput[];
+    if (proposedRules === undefined) {
+      rules = await getActiveFraudRules();
+    } else if (!Array.isArray(proposedRules)) {
+      throw new CustomError("rules must be a list", 400);
+    } else {
+      rules = proposedRules.map((rule: any) => parseFraudRuleInput(rule));
+      const ids = new Set(rules.map((rule) => rule.id));
+      if (ids.size !== rules.length) {
+        throw new CustomError("Rule ids must be unique", 400);
+      }
+    }
+
+    const thresholds = parseThresholdsInput(
+      proposedThresholds || {},
+      await getFraudThresholds()
+    );
+
+    const days = parseInt(req.body.days) || 30;
+    const limit = parseInt(req.body.limit) || 200;
+    if (days < 1 || days > 365) {
+      throw new CustomError("days must be from 1 to 365", 400);
+    }
+    if (limit < 1 || limit > 1000) {
+      throw new CustomError("limit must be from 1 to 1000", 400);
+    }
+
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const preview = await orderVerificationService.previewRules(
+      { rules, thresholds },
+      { since, limit }
+    );
+
+    res.json({ days, thresholds, ...preview });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Fraud rule dry run error:", err);
+    res.status(500).json({ message: "Error running fraud rule preview" });
+  }
+};
@@ -0,0 +1,65 @@
+import { Request, Response } from "express";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  buildLabelsPdf,
+  buildPackingSlipsPdf,
+  createLabelBatch,
+} from "../services/fulfillmentService";
+
+const sendPdf = (res: Response, pdf: Buffer, filename: string) => {
+  res.setHeader("Content-Type", "application/pdf");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(pdf);
+};
+
+// Today's date for download filenames, e.g. 2025-03-14
+const today = () => new Date().toISOString().slice(0, 10);
+
+// Buy labels for selected orders and mark them shipped (Admin only)
+export const purchaseBatchLabels = async (req: Request, res: Response) => {
+  try {
+    const { results, labelledIds } = await createLabelBatch(req.body.orderIds);
+    const failed = results.filter((result) => result.status === "failed").length;
+
+    res.json({
+      message: `${labelledIds.length} of ${results.length} orders labelled and marked shipped`,
+      results,
+      labelledIds,
+      failedCount: failed,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Batch label purchase error:", err);
+    res.status(500).json({ message: "Error purchasing labels" });
+  }
+};
+
+// Download selected orders' labels as one PDF (Admin only)
+export const downloadBatchLabels = async (req: Request, res: Response) => {
+  try {
+    const pdf = await buildLabelsPdf(req.body.orderIds);
+    sendPdf(res, pdf, `labels-${today()}.pdf`);
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Merge labels error:", err);
+    res.status(500).json({ message: "Error merging labels" });
+  }
+};
+
+// Download packing slips for selected orders as one PDF (Admin only)
+export const downloadPackingSlips = async (req: Request, res: Response) => {
+  try {
+    const pdf = await buildPackingSlipsPdf(req.body.orderIds);
+    sendPdf(res, pdf, `packing-slips-${today()}.pdf`);
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Packing slips error:", err);
+    res.status(500).json({ message: "Error generating packing slips" });
+  }
+};
@@ -0,0 +1,444 @@
+import { Request, Response } from "express";
+import { Campaign, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  getCampaignProgress,
+  getPayoutReport,
+  getSellerLeaderboard,
+  isCampaignOpen,
+  normalizeSlug,
+} from "../services/fundraisingService";
+
+const prisma = new PrismaClient();
+
+// Campaign fields that are safe to show on the public storefront
+const toPublicCampaign = (campaign: Campaign) => ({
+  id: campaign.id,
+  name: campaign.name,
+  slug: campaign.slug,
+  organization: campaign.organization,
+  description: campaign.description,
+  goalAmount: campaign.goalAmount,
+  startsAt: campaign.startsAt,
+  endsAt: campaign.endsAt,
+  isOpen: isCampaignOpen(campaign),
+});
+
+// Validate the admin form and turn it into Campaign fields
+const parseCampaignInput = (body: any, partial = false) => {
+  const data: any = {};
+
+  if (body.name !== undefined || !partial) {
+    if (!body.name || !String(body.name).trim()) {
+      throw new CustomError("Campaign name is required", 400);
+    }
+    data.name = String(body.name).trim();
+  }
+
+  if (body.organization !== undefined || !partial) {
+    if (!body.organization || !String(body.organization).trim()) {
+      throw new CustomError("Organization is required", 400);
+    }
+    data.organization = String(body.organization).trim();
+  }
+
+  if (body.slug !== undefined || !partial) {
+    const slug = normalizeSlug(String(body.slug || body.name || ""));
+    if (!slug) {
+      throw new CustomError("Campaign slug is required", 400);
+    }
+    data.slug = slug;
+  }
+
+  if (body.goalAmount !== undefined || !partial) {
+    const goalAmount = parseFloat(body.goalAmount);
+    if (isNaN(goalAmount) || goalAmount <= 0) {
+      throw new CustomError("goalAmount must be a positive number", 400);
+    }
+    data.goalAmount = goalAmount;
+  }
+
+  if (body.profitSharePercent !== undefined) {
+    const percent = parseFloat(body.profitSharePercent);
+    if (isNaN(percent) || percent < 0 || percent > 100) {
+      throw new CustomError("profitSharePercent must be between 0 and 100", 400);
+    }
+    data.profitSharePercent = percent;
+  }
+
+  if (body.description !== undefined) data.description = body.description || null;
+  if (body.startsAt !== undefined) {
+    data.startsAt = body.startsAt ? new Date(body.startsAt) : null;
+  }
+  if (body.endsAt !== undefined) {
+    data.endsAt = body.endsAt ? new Date(body.endsAt) : null;
+  }
+  if (data.startsAt && data.endsAt && data.startsAt > data.endsAt) {
+    throw new CustomError("End date must be after the start date", 400);
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return data;
+};
+
+// Validate the admin form and turn it into Seller fields
+const parseSellerInput = (body: any, partial = false) => {
+  const data: any = {};
+
+  if (body.name !== undefined || !partial) {
+    if (!body.name || !String(body.name).trim()) {
+      throw new CustomError("Seller name is required", 400);
+    }
+    data.name = String(body.name).trim();
+  }
+
+  if (body.code !== undefined || !partial) {
+    const code = normalizeSlug(String(body.code || body.name || ""));
+    if (!code) {
+      throw new CustomError("Seller code is required", 400);
+    }
+    data.code = code;
+  }
+
+  if (body.goalAmount !== undefined) {
+    data.goalAmount =
+      body.goalAmount === null || body.goalAmount === ""
+        ? null
+        : parseFloat(body.goalAmount);
+    if (data.goalAmount !== null && (isNaN(data.goalAmount) || data.goalAmount < 0)) {
+      throw new CustomError("goalAmount must be a non-negative number", 400);
+    }
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return data;
+};
+
+// Get campaign with progress (Public)
+export const getCampaign = async (req: Request, res: Response) => {
+  try {
+    const campaign = await prisma.campaign.findUnique({
+      where: { slug: normalizeSlug(req.params.slug) },
+    });
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const progress = await getCampaignProgress(campaign);
+
+    res.json({
+      campaign: toPublicCampaign(campaign),
+      progress,
+    });
+  } catch (err) {
+    console.error("Get campaign error:", err);
+    res.status(500).json({ message: "Error fetching campaign" });
+  }
+};
+
+// Get a seller's storefront for a campaign (Public)
+export const getCampaignSeller = async (req: Request, res: Response) => {
+  try {
+    const { slug, code } = req.params;
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { slug: normalizeSlug(slug) },
+    });
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const seller = await prisma.seller.findUnique({
+      where: {
+        campaignId_code: { campaignId: campaign.id, code: normalizeSlug(code) },
+      },
+      select: { id: true, name: true, code: true, goalAmount: true, active: true },
+    });
+    if (!seller || !seller.active) {
+      return res.status(404).json({ message: "Seller not found" });
+    }
+
+    const [progress, leaderboard] = await Promise.all([
+      getCampaignProgress(campaign),
+      getSellerLeaderboard(campaign.id),
+    ]);
+    const standing = leaderboard.find((entry) => entry.sellerId === seller.id);
+
+    res.json({
+      campaign: toPublicCampaign(campaign),
+      seller: {
+        ...seller,
+        raised: standing?.raised || 0,
+        orderCount: standing?.orderCount || 0,
+        rank: standing?.rank || null,
+      },
+      progress,
+    });
+  } catch (err) {
+    console.error("Get campaign seller error:", err);
+    res.status(500).json({ message: "Error fetching seller" });
+  }
+};
+
+// Get seller leaderboard for a campaign (Public)
+export const getCampaignLeaderboard = async (req: Request, res: Response) => {
+  try {
+    const { limit = 10 } = req.query;
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { slug: normalizeSlug(req.params.slug) },
+      select: { id: true },
+    });
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const leaderboard = await getSellerLeaderboard(campaign.id);
+
+    res.json({
+      leaderboard: leaderboard
+        .slice(0, Math.min(Number(limit) || 10, 100))
+        .map(({ sellerId, ...standing }) => standing),
+    });
+  } catch (err) {
+    console.error("Get campaign leaderboard error:", err);
+    res.status(500).json({ message: "Error fetching leaderboard" });
+  }
+};
+
+// Get all campaigns with progress (Admin)
+export const getAllCampaigns = async (req: Request, res: Response) => {
+  try {
+    const campaigns = await prisma.campaign.findMany({
+      orderBy: { createdAt: "desc" },
+      include: {
+        sellers: { orderBy: { name: "asc" } },
+        _count: { select: { orders: true } },
+      },
+    });
+
+    const campaignsWithProgress = await Promise.all(
+      campaigns.map(async (campaign) => ({
+        ...campaign,
+        isOpen: isCampaignOpen(campaign),
+        progress: await getCampaignProgress(campaign),
+      }))
+    );
+
+    res.json({ campaigns: campaignsWithProgress });
+  } catch (err) {
+    console.error("Get all campaigns error:", err);
+    res.status(500).json({ message: "Error fetching campaigns" });
+  }
+};
+
+// Create campaign (Admin)
+export const createCampaign = async (req: Request, res: Response) => {
+  try {
+    const data = parseCampaignInput(req.body);
+
+    const existing = await prisma.campaign.findUnique({
+      where: { slug: data.slug },
+    });
+    if (existing) {
+      return res.status(400).json({ message: "Campaign slug already exists" });
+    }
+
+    const campaign = await prisma.campaign.create({ data });
+
+    res.status(201).json({
+      message: "Campaign created successfully",
+      campaign,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create campaign error:", err);
+    res.status(500).json({ message: "Error creating campaign" });
+  }
+};
+
+// Update campaign (Admin)
+export const updateCampaign = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.campaign.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const data = parseCampaignInput(req.body, true);
+
+    if (data.slug && data.slug !== existing.slug) {
+      const duplicate = await prisma.campaign.findUnique({
+        where: { slug: data.slug },
+      });
+      if (duplicate) {
+        return res.status(400).json({ message: "Campaign slug already exists" });
+      }
+    }
+
+    const campaign = await prisma.campaign.update({
+      where: { id },
+      data,
+    });
+
+    res.json({
+      message: "Campaign updated successfully",
+      campaign,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update campaign error:", err);
+    res.status(500).json({ message: "Error updating campaign" });
+  }
+};
+
+// Add seller to campaign (Admin)
+export const createSeller = async (req: Request, res: Response) => {
+  try {
+    const { id: campaignId } = req.params;
+
+    const campaign = await prisma.campaign.findUnique({
+      where: { id: campaignId },
+    });
+    if (!campaign) {
+      return res.status(404).json({ message: "Campaign not found" });
+    }
+
+    const data = parseSellerInput(req.body);
+
+    const existing = await prisma.seller.findUnique({
+      where: { campaignId_code: { campaignId, code: data.code } },
+    });
+    if (existing) {
+      return res
+        .status(400)
+        .json({ message: "Seller code already exists in this campaign" });
+    }
+
+    const seller = await prisma.seller.create({
+      data: { ...data, campaignId },
+    });
+
+    res.status(201).json({
+      message: "Seller added successfully",
+      seller,
+      link: `/fundraise/${campaign.slug}/${seller.code}`,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create seller error:", err);
+    res.status(500).json({ message: "Error adding seller" });
+  }
+};
+
+// Update seller (Admin)
+export const updateSeller = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.seller.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Seller not found" });
+    }
+
+    const data = parseSellerInput(req.body, true);
+
+    if (data.code && data.code !== existing.code) {
+      const duplicate = await prisma.seller.findUnique({
+        where: {
+          campaignId_code: { campaignId: existing.campaignId, code: data.code },
+        },
+      });
+      if (duplicate) {
+        return res
+          .status(400)
+          .json({ message: "Seller code already exists in this campaign" });
+      }
+    }
+
+    const seller = await prisma.seller.update({
+      where: { id },
+      data,
+    });
+
+    res.json({
+      message: "Seller updated successfully",
+      seller,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update seller error:", err);
+    res.status(500).json({ message: "Error updating seller" });
+  }
+};
+
+// Delete seller (Admin)
+export const deleteSeller = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const seller = await prisma.seller.findUnique({
+      where: { id },
+      include: { _count: { select: { orders: true } } },
+    });
+    if (!seller) {
+      return res.status(404).json({ message: "Seller not found" });
+    }
+
+    // Sellers with sales stay so payouts still add up; deactivate them instead
+    if (seller._count.orders > 0) {
+      return res.status(400).json({
+        message: `Cannot delete seller with ${seller._count.orders} order(s). Deactivate them instead.`,
+      });
+    }
+
+    await prisma.seller.delete({ where: { id } });
+
+    res.json({ message: "Seller deleted successfully" });
+  } catch (err) {
+    console.error("Delete seller error:", err);
+    res.status(500).json({ message: "Error deleting seller" });
+  }
+};
+
+// Get profit-share payout report (Admin)
+export const getFundraisingPayouts = async (req: Request, res: Response) => {
+  try {
+    const { from, to, campaignId } = req.query;
+
+    const range = {
+      from: from ? new Date(String(from)) : undefined,
+      to: to ? new Date(String(to)) : undefined,
+    };
+    if (
+      (range.from && isNaN(range.from.getTime())) ||
+      (range.to && isNaN(range.to.getTime()))
+    ) {
+      return res.status(400).json({ message: "Invalid date range" });
+    }
+
+    const report = await getPayoutReport(
+      range,
+      campaignId ? String(campaignId) : undefined
+    );
+
+    res.json({
+      from: range.from || null,
+      to: range.to || null,
+      ...report,
+    });
+  } catch (err) {
+    console.error("Get fundraising payouts error:", err);
+    res.status(500).json({ message: "Error generating payout report" });
+  }
+};
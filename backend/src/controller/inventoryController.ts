@@ -1,5 +1,10 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "../generated/prisma";
+import {
+  MANUAL_MOVEMENT_TYPES,
+  isManualMovementType,
+  setStockLevels,
+} from "../services/stockMovementService";
 
 const prisma = new PrismaClient();
 
@@ -76,7 +81,7 @@ export const getFlavorInventory = async (req: Request, res: Response) => {
 export const updateInventory = async (req: Request, res: Response) => {
   try {
     const { flavorId } = req.params;
-    const { on_hand, safety_stock } = req.body;
+    const { on_hand, safety_stock, movement_type, reason } = req.body;
 
     if (on_hand !== undefined && (typeof on_hand !== "number" || on_hand < 0)) {
       return res.status(400).json({
@@ -93,17 +98,19 @@ export const updateInventory = async (req: Request, res: Response) => {
       });
     }
 
-    const updateData: any = {};
-    if (on_hand !== undefined) updateData.onHand = on_hand;
-    if (safety_stock !== undefined) updateData.safetyStock = safety_stock;
+    const movementType = movement_type ?? "adjustment";
+    if (!isManualMovementType(movementType)) {
+      return res.status(400).json({
+        message: `movement_type must be one of: ${MANUAL_MOVEMENT_TYPES.join(", ")}`,
+      });
+    }
 
-    const updatedInventory = await prisma.flavorInventory.update({
-      where: { flavorId },
-      data: updateData,
-      include: {
-        flavor: true,
-      },
-    });
+    const updatedInventory = await setStockLevels(
+      flavorId,
+      { onHand: on_hand, safetyStock: safety_stock },
+      movementType,
+      { reason, createdById: (req as any).user?.id }
+    );
 
     const inventoryWithAvailability = {
       id: updatedInventory.id,
@@ -144,7 +151,8 @@ export const bulkUpdateInventory = async (req: Request, res: Response) => {
     const results = [];
 
     for (const update of updates) {
-      const { flavor_id, on_hand, safety_stock } = update;
+      const { flavor_id, on_hand, safety_stock, movement_type, reason } =
+        update;
 
       if (!flavor_id) {
         results.push({
@@ -181,13 +189,22 @@ export const bulkUpdateInventory = async (req: Request, res: Response) => {
           updateData.safetyStock = safety_stock;
         }
 
-        const updatedInventory = await prisma.flavorInventory.update({
-          where: { flavorId: flavor_id },
-          data: updateData,
-          include: {
-            flavor: true,
-          },
-        });
+        const movementType = movement_type ?? "adjustment";
+        if (!isManualMovementType(movementType)) {
+          results.push({
+            flavor_id,
+            success: false,
+            error: `movement_type must be one of: ${MANUAL_MOVEMENT_TYPES.join(", ")}`,
+          });
+          continue;
+        }
+
+        const updatedInventory = await setStockLevels(
+          flavor_id,
+          updateData,
+          movementType,
+          { reason, createdById: (req as any).user?.id }
+        );
 
         results.push({
           flavor_id,
@@ -0,0 +1,56 @@
+import { Request, Response } from "express";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  getNotificationPreferences,
+  unsubscribeWithToken,
+  updateNotificationPreferences,
+} from "../services/notificationService";
+
+// Get the current user's email preferences
+export const getPreferences = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const preferences = await getNotificationPreferences(user.id);
+    res.json({ preferences });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get notification preferences error:", err);
+    res.status(500).json({ message: "Error fetching notification preferences" });
+  }
+};
+
+// Update the current user's email preferences
+export const updatePreferences = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const preferences = await updateNotificationPreferences(user.id, req.body);
+    res.json({ message: "Notification preferences updated", preferences });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update notification preferences error:", err);
+    res.status(500).json({ message: "Error updating notification preferences" });
+  }
+};
+
+// Turn off shipping emails from an email link (Public)
+export const unsubscribe = async (req: Request, res: Response) => {
+  try {
+    const token = req.body?.token || req.query.token;
+    if (!token) {
+      return res.status(400).json({ message: "Unsubscribe token is required" });
+    }
+
+    await unsubscribeWithToken(String(token));
+    res.json({ message: "You won't get shipping update emails any more" });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Unsubscribe error:", err);
+    res.status(500).json({ message: "Error unsubscribing" });
+  }
+};
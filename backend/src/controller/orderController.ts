@@ -1,410 +1,39 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "../generated/prisma";
+import { placeOrder } from "../services/orderPlacementService";
+import { CustomError } from "../middlewares/error.middleware";
+import { createRefund, getRefundableAmount } from "../services/refundService";
+import {
+  canViewFullOrder,
+  findOrderForLookup,
+  toGuestOrderView,
+} from "../services/orderLookupService";
+import { getOrderTracking } from "../services/trackingService";
 
 const prisma = new PrismaClient();
 
 // Create order from cart or direct order items (checkout)
 export const createOrder = async (req: Request, res: Response) => {
   try {
-    const user = (req as any).user;
-    const guestId = (req as any).guestId;
-    const isGuest = (req as any).isGuest;
-
-    // For authenticated users, verify they exist in database
-    let dbUser = null;
-    if (!isGuest && user) {
-      dbUser = await prisma.user.findUnique({
-        where: { id: user.id },
-        select: { id: true, email: true, isVerified: true },
-      });
-
-      if (!dbUser) {
-        return res.status(404).json({ message: "User not found" });
-      }
-    }
-
-    const {
-      shippingAddress,
-      orderNotes,
-      orderItems,
-      total: requestTotal,
-      guestEmail,
-    } = req.body;
-
-    // Define user identifier once for the entire function
-    const userIdentifier = isGuest ? { guestId } : { userId: dbUser?.id };
-
-    // Shipping address validation - allow empty since Stripe will collect it
-    // If shippingAddress is provided, validate it, otherwise allow empty (Stripe will collect)
-    if (shippingAddress && typeof shippingAddress === "object") {
-      const { street, city, state, zipCode, country } = shippingAddress;
-
-      // If any field is provided, all required fields must be provided
-      if (street || city || state || zipCode || country) {
-        if (!street || !city || !state || !zipCode || !country) {
-          return res.status(400).json({
-            message:
-              "All shipping address fields are required: street, city, state, zipCode, and country",
-          });
-        }
-
-        if (
-          street.trim() === "" ||
-          city.trim() === "" ||
-          state.trim() === "" ||
-          zipCode.trim() === ""
-        ) {
-          return res.status(400).json({
-            message: "Shipping address fields cannot be empty",
-          });
-        }
-      }
-    }
-
-    let orderItemsToCreate: any[] = [];
-    let calculatedTotal = 0;
-    let cartLines: any[] = []; // Store cart lines for inventory updates
-
-    // Check if frontend sent orderItems directly (new approach)
-    if (orderItems && Array.isArray(orderItems) && orderItems.length > 0) {
-      // Validate and process direct order items
-      for (const item of orderItems) {
-        if (!item.productId || !item.quantity || !item.price) {
-          return res.status(400).json({
-            message:
-              "Invalid order item: productId, quantity, and price are required",
-          });
-        }
-
-        // Handle custom packs differently from regular products
-        if (item.productId === "3-pack" && item.isCustomPack) {
-          // For custom packs, validate flavors exist and have sufficient stock
-          if (
-            !item.flavorIds ||
-            !Array.isArray(item.flavorIds) ||
-            item.flavorIds.length !== 3
-          ) {
-            return res.status(400).json({
-              message: "Custom pack must have exactly 3 flavors",
-            });
-          }
-
-          // Check if flavors exist and have sufficient stock
-          const flavors = await prisma.flavor.findMany({
-            where: { id: { in: item.flavorIds }, active: true },
-            include: { inventory: true },
-          });
-
-          if (flavors.length !== 3) {
-            return res.status(400).json({
-              message: "One or more flavors in custom pack are not available",
-            });
-          }
-
-          // Check inventory for each flavor
-          for (const flavor of flavors) {
-            const inventory = flavor.inventory;
-            if (!inventory) {
-              return res.status(400).json({
-                message: `No inventory found for flavor: ${flavor.name}`,
-              });
-            }
-
-            const available =
-              inventory.onHand - inventory.reserved - inventory.safetyStock;
-            if (available < item.quantity) {
-              return res.status(400).json({
-                message: `Insufficient stock for ${flavor.name}. Available: ${available}, Requested: ${item.quantity}`,
-              });
-            }
-          }
-        } else {
-          // Handle regular products
-          const product = await prisma.product.findUnique({
-            where: { id: item.productId, isActive: true },
-          });
-
-          if (!product) {
-            return res.status(400).json({
-              message: `Product not found: ${item.productId}`,
-            });
-          }
-
-          if (product.stock < item.quantity) {
-            return res.status(400).json({
-              message: `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`,
-            });
-          }
-        }
-
-        const itemTotal = item.price * item.quantity;
-        const orderItem: any = {
-          productId: item.productId,
-          quantity: item.quantity,
-          price: item.price,
-          total: itemTotal,
-        };
-
-        // Add custom pack data if applicable
-        if (item.productId === "3-pack" && item.isCustomPack) {
-          orderItem.flavorIds = item.flavorIds;
-          orderItem.customPackName = item.customPackName || "Custom 3-Pack";
-        }
-
-        orderItemsToCreate.push(orderItem);
-
-        calculatedTotal += itemTotal;
-      }
-    } else {
-      // 3-PACK CART APPROACH - Convert CartLine items to OrderItems
-
-      cartLines = await prisma.cartLine.findMany({
-        where: userIdentifier,
-        include: {
-          packRecipe: {
-            include: {
-              items: {
-                include: {
-                  flavor: {
-                    include: {
-                      inventory: true,
-                    },
-                  },
-                },
-              },
-            },
-          },
-        },
-      });
-
-      if (cartLines.length === 0) {
-        return res
-          .status(400)
-          .json({ message: "Cart is empty and no order items provided" });
-      }
-
-      // Check stock availability for cart lines
-      for (const cartLine of cartLines) {
-        if (cartLine.packRecipe) {
-          // Handle predefined recipes
-          for (const item of cartLine.packRecipe.items) {
-            const inventory = item.flavor.inventory;
-            if (!inventory) {
-              return res.status(400).json({
-                message: `No inventory found for flavor: ${item.flavor.name}`,
-              });
-            }
-
-            const required = item.quantity * cartLine.quantity;
-            const available =
-              inventory.onHand - inventory.reserved - inventory.safetyStock;
-
-            if (available < required) {
-              return res.status(400).json({
-                message: `Insufficient stock for ${item.flavor.name}. Available: ${available}, Required: ${required}`,
-              });
-            }
-          }
-        } else if (cartLine.flavorIds.length > 0) {
-          // Handle custom packs
-          const flavors = await prisma.flavor.findMany({
-            where: { id: { in: cartLine.flavorIds } },
-            include: { inventory: true },
-          });
-
-          for (const flavor of flavors) {
-            const inventory = flavor.inventory;
-            if (!inventory) {
-              return res.status(400).json({
-                message: `No inventory found for flavor: ${flavor.name}`,
-              });
-            }
-
-            const available =
-              inventory.onHand - inventory.reserved - inventory.safetyStock;
-
-            if (available < cartLine.quantity) {
-              return res.status(400).json({
-                message: `Insufficient stock for ${flavor.name}. Available: ${available}, Required: ${cartLine.quantity}`,
-              });
-            }
-          }
-        }
-      }
-
-      // Convert cart lines to order items
-      orderItemsToCreate = cartLines.map((cartLine) => ({
-        productId: cartLine.productId,
-        quantity: cartLine.quantity,
-        price: cartLine.unitPrice,
-        total: cartLine.quantity * cartLine.unitPrice,
-      }));
-
-      calculatedTotal = cartLines.reduce(
-        (sum, cartLine) => sum + cartLine.quantity * cartLine.unitPrice,
-        0
-      );
-
-      // Clear the cart after successful order creation
-      await prisma.cartLine.deleteMany({
-        where: userIdentifier,
-      });
-    }
-
-    // Use provided total or calculated total
-    const finalTotal = requestTotal || calculatedTotal;
-
-    // Create order and order items
-    const order = await prisma.order.create({
-      data: {
-        userId: dbUser?.id ?? undefined,
-        guestId: isGuest ? guestId : undefined,
-        guestEmail: isGuest ? (guestEmail || shippingAddress?.email) : undefined,
-        total: finalTotal,
-        shippingAddress,
-        orderNotes,
-        orderItems: {
-          create: orderItemsToCreate,
-        },
+    const { order, shipment } = await placeOrder(
+      {
+        userId: (req as any).user?.id,
+        guestId: (req as any).guestId,
+        isGuest: (req as any).isGuest,
+        ipAddress: req.ip,
       },
-      include: {
-        orderItems: true,
-      },
-    });
-
-    // Update inventory for all order items
-    for (const item of orderItemsToCreate) {
-      try {
-        // For 3-pack products, we need to deduct from flavor inventory
-        if (item.productId === "3-pack") {
-          // Get the cart line to find flavor details
-          const cartLine = cartLines.find(
-            (cl) => cl.productId === item.productId
-          );
-
-          if (cartLine?.packRecipe) {
-            // Handle predefined recipes
-            for (const recipeItem of cartLine.packRecipe.items) {
-              await prisma.flavorInventory.update({
-                where: { flavorId: recipeItem.flavor.id },
-                data: {
-                  onHand: {
-                    decrement: recipeItem.quantity * item.quantity,
-                  },
-                  reserved: {
-                    decrement: recipeItem.quantity * item.quantity,
-                  },
-                },
-              });
-            }
-          } else if (cartLine?.flavorIds.length > 0) {
-            // Handle custom packs
-            for (const flavorId of cartLine.flavorIds) {
-              await prisma.flavorInventory.update({
-                where: { flavorId },
-                data: {
-                  onHand: {
-                    decrement: item.quantity,
-                  },
-                  reserved: {
-                    decrement: item.quantity,
-                  },
-                },
-              });
-            }
-          }
-        } else {
-          // Handle regular products
-          await prisma.product.update({
-            where: { id: item.productId },
-            data: {
-              stock: {
-                decrement: item.quantity,
-              },
-            },
-          });
-        }
-      } catch (error) {
-        console.warn(
-          `Could not update inventory for product ${item.productId}:`,
-          error
-        );
-      }
-    }
-
-    // SINGLE PRODUCT CART CLEARING - COMMENTED OUT (ONLY USING 3-PACK CART)
-    /*
-    // Clear user's cart only if we used cart-based approach
-    if (!orderItems || orderItems.length === 0) {
-      await prisma.cartItem.deleteMany({
-        where: { userId: user.id },
-      });
-    }
-    */
-
-    // Create shipment if shipping address is provided
-    let shipmentData = null;
-    if (shippingAddress && shippingAddress.street && shippingAddress.city && shippingAddress.state && shippingAddress.zipCode) {
-      try {
-        // Import Shippo service dynamically to avoid circular dependencies
-        const { createShipment, getShippingRates } = await import('../services/shippoService');
-        
-        // Calculate parcel dimensions and weight (default values for licorice)
-        const parcels = [{
-          length: '6',
-          width: '4',
-          height: '2',
-          weight: '0.5', // 0.5 lbs per order
-          massUnit: 'lb' as const,
-          distanceUnit: 'in' as const,
-        }];
-
-        // Convert shipping address format for Shippo
-        const shippoAddress = {
-          name: shippingAddress.name || `${user.name || 'Customer'}`,
-          company: shippingAddress.company || '',
-          email: user.email || '',
-          phone: shippingAddress.phone || '',
-          street1: shippingAddress.street,
-          street2: shippingAddress.street2 || '',
-          city: shippingAddress.city,
-          state: shippingAddress.state,
-          zip: shippingAddress.zipCode,
-          country: shippingAddress.country || 'US',
-        };
-
-        // Get shipping rates first
-        const rates = await getShippingRates(shippoAddress, parcels);
-        
-        if (rates.length > 0) {
-          // Use the first (cheapest) rate for now
-          const selectedRate = rates[0];
-          
-          shipmentData = await createShipment({
-            orderId: order.id,
-            toAddress: shippoAddress,
-            parcels,
-          }, selectedRate.objectId, {
-            carrier: selectedRate.carrier,
-            amount: selectedRate.amount,
-            serviceName: selectedRate.serviceName
-          });
-          
-          console.log('📦 Shipment created:', shipmentData);
-        }
-      } catch (shipmentError) {
-        console.error('Shipment creation failed:', shipmentError);
-        // Don't fail the order if shipment creation fails
-        // The order is still valid, just without shipment tracking
-      }
-    }
+      req.body
+    );
 
     res.status(201).json({
       message: "Order created successfully",
       order,
-      shipment: shipmentData,
+      shipment,
     });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Create order error:", err);
     res.status(500).json({ message: "Error creating order" });
   }
@@ -471,14 +100,12 @@ export const getUserOrders = async (req: Request, res: Response) => {
   }
 };
 
-// Get order by ID
+// Get order by ID for its customer, the guest session that placed it, or an admin
 export const getOrderById = async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
     const { id } = req.params;
 
-    // Public order tracking - no authentication required
-    // Just find the order by ID
     const order = await prisma.order.findUnique({
       where: { id },
       include: {
@@ -490,7 +117,15 @@ export const getOrderById = async (req: Request, res: Response) => {
       },
     });
 
-    if (!order) {
+    // Anyone else has to use the order lookup; don't reveal the order exists
+    if (
+      !order ||
+      !canViewFullOrder(order, {
+        userId: user?.id,
+        role: user?.role,
+        guestId: (req as any).guestId,
+      })
+    ) {
       return res.status(404).json({ message: "Order not found" });
     }
 
@@ -501,6 +136,74 @@ export const getOrderById = async (req: Request, res: Response) => {
   }
 };
 
+// Get an order's shipment tracking timeline
+export const getOrderTrackingTimeline = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const order = await prisma.order.findUnique({
+      where: { id: req.params.id },
+      select: { userId: true, guestId: true },
+    });
+
+    if (
+      !order ||
+      !canViewFullOrder(order, {
+        userId: user?.id,
+        role: user?.role,
+        guestId: (req as any).guestId,
+      })
+    ) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    res.json(await getOrderTracking(req.params.id));
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get order tracking error:", err);
+    res.status(500).json({ message: "Error fetching order tracking" });
+  }
+};
+
+// Look up an order by number and email, or by a tracking token (Public)
+export const lookupOrder = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { orderNumber, email, token } = req.body || {};
+
+    const order = await findOrderForLookup({ orderNumber, email, token });
+    const tracking = await getOrderTracking(order.id);
+
+    // The order's own customer still gets everything
+    if (
+      canViewFullOrder(order, {
+        userId: user?.id,
+        role: user?.role,
+        guestId: (req as any).guestId,
+      })
+    ) {
+      const { user: _owner, ...fullOrder } = order;
+      return res.json({ ...fullOrder, tracking, redacted: false });
+    }
+
+    // Labels print the full address, which the guest view leaves out
+    res.json({
+      ...toGuestOrderView(order),
+      tracking: {
+        ...tracking,
+        parcels: tracking.parcels.map((parcel) => ({ ...parcel, labelUrl: null })),
+      },
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Order lookup error:", err);
+    res.status(500).json({ message: "Error looking up order" });
+  }
+};
+
 // Update order status (Admin only)
 export const updateOrderStatus = async (req: Request, res: Response) => {
   try {
@@ -528,6 +231,20 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
       });
     }
 
+    // Held orders leave the review queue through approve/reject only
+    const existing = await prisma.order.findUnique({
+      where: { id },
+      select: { reviewStatus: true },
+    });
+    if (
+      existing?.reviewStatus === "under_review" &&
+      ["confirmed", "shipped", "delivered"].includes(status)
+    ) {
+      return res.status(400).json({
+        message: "This order is held for review. Approve it before fulfilling it.",
+      });
+    }
+
     const order = await prisma.order.update({
       where: { id },
       data: {
@@ -547,6 +264,78 @@ export const updateOrderStatus = async (req: Request, res: Response) => {
   }
 };
 
+// Get an order's refunds and what can still be refunded (Admin only)
+export const getOrderRefunds = async (req: Request, res: Response) => {
+  try {
+    const order = await prisma.order.findUnique({
+      where: { id: req.params.id },
+      include: {
+        refunds: { orderBy: { createdAt: "desc" } },
+        orderItems: { include: { product: { select: { name: true } } } },
+      },
+    });
+
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    res.json({
+      refunds: order.refunds,
+      refundable: await getRefundableAmount(order),
+      refundedTotal: order.refundedTotal,
+      items: order.orderItems.map((item) => ({
+        id: item.id,
+        name: item.customPackName || item.product?.name || item.productId,
+        quantity: item.quantity,
+        restockedQuantity: item.restockedQuantity,
+        price: item.price,
+      })),
+    });
+  } catch (err) {
+    console.error("Get order refunds error:", err);
+    res.status(500).json({ message: "Error fetching refunds" });
+  }
+};
+
+// Refund an order in full or in part through Stripe (Admin only)
+export const refundOrder = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { amount, reason, restock = false, items } = req.body;
+
+    if (items !== undefined && !Array.isArray(items)) {
+      return res.status(400).json({ message: "items must be a list" });
+    }
+
+    const { refund, order } = await createRefund({
+      orderId: req.params.id,
+      amount:
+        amount === undefined || amount === null || amount === ""
+          ? undefined
+          : parseFloat(amount),
+      reason,
+      restock: Boolean(restock),
+      items,
+      createdById: user?.id,
+    });
+
+    res.status(201).json({
+      message:
+        refund.status === "succeeded"
+          ? "Refund issued successfully"
+          : `Refund ${refund.status}`,
+      refund,
+      order,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Refund order error:", err);
+    res.status(500).json({ message: "Error refunding order" });
+  }
+};
+
 // Get all orders (Admin only) - Enhanced for high volume
 export const getAllOrders = async (req: Request, res: Response) => {
   try {
@@ -670,6 +459,7 @@ export const getAllOrders = async (req: Request, res: Response) => {
               customPackName: true,
             },
           },
+          fulfillmentLocation: { select: { id: true, name: true } },
         },
       }),
       prisma.order.count({ where }),
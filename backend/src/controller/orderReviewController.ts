@@ -0,0 +1,112 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { approveOrder, rejectOrder } from "../services/orderReviewService";
+import {
+  REVIEW_STATUSES,
+  getRiskFlagDescriptions,
+} from "../services/orderVerificationService";
+
+const prisma = new PrismaClient();
+
+// Get orders in the fraud review queue (Admin only)
+export const getReviewQueue = async (req: Request, res: Response) => {
+  try {
+    const { reviewStatus = "under_review", page = 1, limit = 50 } = req.query;
+
+    if (!REVIEW_STATUSES.includes(reviewStatus as any)) {
+      return res.status(400).json({
+        message: `Invalid review status. Allowed values: ${REVIEW_STATUSES.join(", ")}`,
+      });
+    }
+
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+    const take = Math.min(parseInt(limit as string), 200);
+    const where = { reviewStatus: reviewStatus as string };
+
+    const [orders, total, descriptions] = await Promise.all([
+      prisma.order.findMany({
+        where,
+        include: {
+          user: { select: { id: true, name: true, email: true, createdAt: true } },
+          orderItems: {
+            include: { product: { select: { name: true } } },
+          },
+        },
+        // Riskiest first, oldest first among equals
+        orderBy: [{ riskScore: "desc" }, { createdAt: "asc" }],
+        skip,
+        take,
+      }),
+      prisma.order.count({ where }),
+      getRiskFlagDescriptions(),
+    ]);
+
+    res.json({
+      orders: orders.map((order) => ({
+        ...order,
+        riskFlagDetails: order.riskFlags.map((flag) => ({
+          flag,
+          description: descriptions[flag] || flag,
+        })),
+      })),
+      pagination: {
+        page: parseInt(page as string),
+        limit: take,
+        total,
+        pages: Math.ceil(total / take),
+      },
+    });
+  } catch (err) {
+    console.error("Get review queue error:", err);
+    res.status(500).json({ message: "Error fetching review queue" });
+  }
+};
+
+// Approve a held order and buy its label (Admin only)
+export const approveOrderReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { order, shipment, shipmentError } = await approveOrder({
+      orderId: req.params.id,
+      reviewedById: user?.id,
+      note: req.body?.note,
+    });
+
+    res.json({
+      message: shipmentError
+        ? "Order approved, but the shipping label could not be purchased"
+        : "Order approved",
+      order,
+      shipment,
+      shipmentError,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Approve order review error:", err);
+    res.status(500).json({ message: "Error approving order" });
+  }
+};
+
+// Reject a held order, refunding and restocking it (Admin only)
+export const rejectOrderReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const order = await rejectOrder({
+      orderId: req.params.id,
+      reviewedById: user?.id,
+      note: req.body?.note,
+      refund: req.body?.refund,
+    });
+
+    res.json({ message: "Order rejected", order });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Reject order review error:", err);
+    res.status(500).json({ message: "Error rejecting order" });
+  }
+};
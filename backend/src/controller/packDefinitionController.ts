@@ -0,0 +1,154 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  ensurePackProduct,
+  getActivePackDefinitions,
+} from "../services/packDefinitionService";
+import { isValidCategory } from "../utils/skuGenerator";
+
+const prisma = new PrismaClient();
+
+// Validate the admin form and turn it into PackDefinition fields
+const parsePackDefinitionInput = async (body: any, partial = false) => {
+  const data: any = {};
+
+  if (!partial) {
+    const size = parseInt(body.size);
+    if (!Number.isInteger(size) || size < 1 || size > 24) {
+      throw new CustomError("size must be a whole number from 1 to 24", 400);
+    }
+    data.size = size;
+
+    const id = String(body.id || `${size}-pack`).trim().toLowerCase();
+    if (!/^[a-z0-9-]+$/.test(id)) {
+      throw new CustomError(
+        "id may only contain letters, numbers and dashes",
+        400
+      );
+    }
+    data.id = id;
+  } else if (body.size !== undefined || body.id !== undefined) {
+    // Cart lines and recipes are built for a fixed size
+    throw new CustomError(
+      "Pack id and size can't be changed; create a new pack instead",
+      400
+    );
+  }
+
+  if (body.name !== undefined || !partial) {
+    const name = body.name ?? (data.size ? `${data.size}-Pack` : "");
+    if (!name || typeof name !== "string" || !name.trim()) {
+      throw new CustomError("Pack name is required", 400);
+    }
+    data.name = name.trim();
+  }
+
+  if (body.price !== undefined || !partial) {
+    const price = parseFloat(body.price);
+    if (isNaN(price) || price <= 0) {
+      throw new CustomError("price must be greater than 0", 400);
+    }
+    data.price = price;
+  }
+
+  if (body.allowedCategories !== undefined) {
+    if (!Array.isArray(body.allowedCategories)) {
+      throw new CustomError("allowedCategories must be a list", 400);
+    }
+    for (const category of body.allowedCategories) {
+      if (!(await isValidCategory(category))) {
+        throw new CustomError(`Unknown category: ${category}`, 400);
+      }
+    }
+    data.allowedCategories = body.allowedCategories;
+  }
+
+  if (body.allowDuplicates !== undefined) {
+    data.allowDuplicates = Boolean(body.allowDuplicates);
+  }
+  if (body.sortOrder !== undefined) {
+    data.sortOrder = parseInt(body.sortOrder) || 0;
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return data;
+};
+
+// Get packs available in the pack builder (Public)
+export const getPackDefinitions = async (req: Request, res: Response) => {
+  try {
+    const packs = await getActivePackDefinitions();
+    res.json({ packs });
+  } catch (err) {
+    console.error("Get pack definitions error:", err);
+    res.status(500).json({ message: "Error fetching packs" });
+  }
+};
+
+// Get all pack definitions (Admin)
+export const getAllPackDefinitions = async (req: Request, res: Response) => {
+  try {
+    const packs = await prisma.packDefinition.findMany({
+      orderBy: [{ sortOrder: "asc" }, { size: "asc" }],
+    });
+    res.json({ packs });
+  } catch (err) {
+    console.error("Get all pack definitions error:", err);
+    res.status(500).json({ message: "Error fetching packs" });
+  }
+};
+
+// Create pack definition (Admin)
+export const createPackDefinition = async (req: Request, res: Response) => {
+  try {
+    const data = await parsePackDefinitionInput(req.body);
+
+    const existing = await prisma.packDefinition.findUnique({
+      where: { id: data.id },
+    });
+    if (existing) {
+      return res
+        .status(400)
+        .json({ message: `A pack with id '${data.id}' already exists` });
+    }
+
+    const pack = await prisma.packDefinition.create({ data });
+    // Order items reference packs through the product table
+    await ensurePackProduct(pack.id, pack.name, pack.price);
+
+    res.status(201).json({ message: "Pack created successfully", pack });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create pack definition error:", err);
+    res.status(500).json({ message: "Error creating pack" });
+  }
+};
+
+// Update pack definition (Admin)
+export const updatePackDefinition = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = await parsePackDefinitionInput(req.body, true);
+
+    const existing = await prisma.packDefinition.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Pack not found" });
+    }
+
+    const pack = await prisma.packDefinition.update({
+      where: { id },
+      data,
+    });
+
+    res.json({ message: "Pack updated successfully", pack });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update pack definition error:", err);
+    res.status(500).json({ message: "Error updating pack" });
+  }
+};
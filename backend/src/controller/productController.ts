@@ -1,11 +1,15 @@
 import { Request, Response } from "express";
 import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
 import {
   validateFlavor,
   generateSKU,
   generateCustomSKU,
 } from "../utils/skuGenerator";
 import { uploadToCloudinary, deleteFromCloudinary } from "../config/cloudinary";
+import { isRestock, notifyBackInStock } from "../services/wishlistService";
+import { parseItemSize } from "../services/parcelPackingService";
+import { parseCustomsInfo } from "../services/customsService";
 
 const prisma = new PrismaClient();
 
@@ -59,6 +63,10 @@ export const createProduct = async (req: Request, res: Response) => {
       return res.status(403).json({ message: "Admin access required" });
     }
 
+    // Optional weight and dimensions for parcel packing, and customs details
+    const size = parseItemSize(req.body);
+    const customs = parseCustomsInfo(req.body);
+
     // Generate a unique SKU if not provided
     const sku = `PROD-${Date.now()}-${Math.random()
       .toString(36)
@@ -89,6 +97,8 @@ export const createProduct = async (req: Request, res: Response) => {
           imageUrl,
           cloudinaryPublicId,
           sku,
+          ...size,
+          ...customs,
         },
       });
 
@@ -125,6 +135,9 @@ export const createProduct = async (req: Request, res: Response) => {
       .status(201)
       .json({ message: "Product created successfully", product: result });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Create product error:", err);
     res.status(500).json({ message: "Error creating product" });
   }
@@ -133,12 +146,18 @@ export const createProduct = async (req: Request, res: Response) => {
 // Get all active products
 export const getAllProducts = async (req: Request, res: Response) => {
   try {
-    const { category, search, page = 1, limit = 10 } = req.query;
+    const { category, search, sort, page = 1, limit = 10 } = req.query;
 
     const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
 
     const where: any = { isActive: true };
 
+    // Best rated first; products with more reviews win ties
+    const orderBy: any =
+      sort === "rating"
+        ? [{ ratingAverage: "desc" }, { ratingCount: "desc" }, { createdAt: "desc" }]
+        : { createdAt: "desc" };
+
     if (category) {
       where.category = category;
     }
@@ -162,7 +181,7 @@ export const getAllProducts = async (req: Request, res: Response) => {
             },
           },
         },
-        orderBy: { createdAt: "desc" },
+        orderBy,
       }),
       prisma.product.count({ where }),
     ]);
@@ -178,6 +197,8 @@ export const getAllProducts = async (req: Request, res: Response) => {
       sku: product.sku,
       imageUrl: product.imageUrl,
       isActive: product.isActive,
+      ratingAverage: product.ratingAverage,
+      ratingCount: product.ratingCount,
       flavors: product.productFlavors.map((pf) => ({
         id: pf.flavor.id,
         name: pf.flavor.name,
@@ -232,6 +253,8 @@ export const getProductById = async (req: Request, res: Response) => {
       sku: product.sku,
       imageUrl: product.imageUrl,
       isActive: product.isActive,
+      ratingAverage: product.ratingAverage,
+      ratingCount: product.ratingCount,
       flavors: product.productFlavors.map((pf) => ({
         id: pf.flavor.id,
         name: pf.flavor.name,
@@ -299,6 +322,14 @@ export const updateProduct = async (req: Request, res: Response) => {
       parsedFlavors = undefined;
     }
 
+    const size = parseItemSize(req.body);
+    const customs = parseCustomsInfo(req.body);
+
+    const previous = await prisma.product.findUnique({
+      where: { id },
+      select: { stock: true, isActive: true },
+    });
+
     const updated = await prisma.$transaction(async (tx) => {
       const product = await tx.product.update({
         where: { id },
@@ -311,6 +342,8 @@ export const updateProduct = async (req: Request, res: Response) => {
           imageUrl,
           cloudinaryPublicId,
           isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+          ...size,
+          ...customs,
         },
       });
 
@@ -337,8 +370,22 @@ export const updateProduct = async (req: Request, res: Response) => {
       return product;
     });
 
+    // Email customers waiting on this product if the edit restocked it
+    if (
+      previous &&
+      updated.isActive &&
+      isRestock(previous.isActive ? previous.stock : 0, updated.stock)
+    ) {
+      notifyBackInStock({ productId: id }).catch((error) => {
+        console.error(`Back-in-stock alerts failed for product ${id}:`, error);
+      });
+    }
+
     res.json({ message: "Product updated successfully", product: updated });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Update product error:", err);
     res.status(500).json({ message: "Error updating product" });
   }
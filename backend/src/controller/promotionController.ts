@@ -0,0 +1,229 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { priceOrder } from "../services/pricingService";
+import {
+  PROMOTION_TYPES,
+  isPromotionType,
+  normalizePromotionCode,
+} from "../services/promotionService";
+
+const prisma = new PrismaClient();
+
+// Validate the admin form and turn it into Promotion fields
+const parsePromotionInput = (body: any, partial = false) => {
+  const data: any = {};
+
+  if (body.code !== undefined || !partial) {
+    if (!body.code || typeof body.code !== "string" || !body.code.trim()) {
+      throw new CustomError("Promo code is required", 400);
+    }
+    data.code = normalizePromotionCode(body.code);
+  }
+
+  if (body.type !== undefined || !partial) {
+    if (!isPromotionType(body.type)) {
+      throw new CustomError(
+        `type must be one of: ${PROMOTION_TYPES.join(", ")}`,
+        400
+      );
+    }
+    data.type = body.type;
+  }
+
+  if (body.value !== undefined) {
+    const value = parseFloat(body.value);
+    if (isNaN(value) || value < 0) {
+      throw new CustomError("value must be a non-negative number", 400);
+    }
+    if (data.type === "percent" && value > 100) {
+      throw new CustomError("Percent off can't be more than 100", 400);
+    }
+    data.value = value;
+  }
+
+  if (body.buyQuantity !== undefined) {
+    data.buyQuantity =
+      body.buyQuantity === null || body.buyQuantity === ""
+        ? null
+        : parseInt(body.buyQuantity);
+  }
+  if (data.type === "buy_n_get_one" && !(data.buyQuantity >= 1)) {
+    throw new CustomError("Buy-N-get-one promotions need a buyQuantity", 400);
+  }
+
+  if (body.description !== undefined) data.description = body.description || null;
+  if (body.flavorIds !== undefined) data.flavorIds = body.flavorIds || [];
+  if (body.categories !== undefined) data.categories = body.categories || [];
+  if (body.minSubtotal !== undefined) {
+    data.minSubtotal =
+      body.minSubtotal === null || body.minSubtotal === ""
+        ? null
+        : parseFloat(body.minSubtotal);
+  }
+  if (body.usageLimit !== undefined) {
+    data.usageLimit =
+      body.usageLimit === null || body.usageLimit === ""
+        ? null
+        : parseInt(body.usageLimit);
+  }
+  if (body.startsAt !== undefined) {
+    data.startsAt = body.startsAt ? new Date(body.startsAt) : null;
+  }
+  if (body.endsAt !== undefined) {
+    data.endsAt = body.endsAt ? new Date(body.endsAt) : null;
+  }
+  if (data.startsAt && data.endsAt && data.startsAt > data.endsAt) {
+    throw new CustomError("End date must be after the start date", 400);
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return data;
+};
+
+// Check a promo code against the cart (Public)
+export const validatePromotion = async (req: Request, res: Response) => {
+  try {
+    const { code, items } = req.body;
+
+    if (!code || typeof code !== "string") {
+      return res.status(400).json({ message: "Promo code is required" });
+    }
+
+    const pricedOrder = await priceOrder(items, null, null, code);
+    const promotion = pricedOrder.promotion!;
+
+    res.json({
+      code: promotion.code,
+      description: promotion.description,
+      type: promotion.type,
+      subtotal: pricedOrder.subtotal,
+      discount: promotion.discount,
+      freeShipping: promotion.type === "free_shipping",
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Validate promotion error:", err);
+    res.status(500).json({ message: "Error validating promo code" });
+  }
+};
+
+// Get all promotions (Admin)
+export const getAllPromotions = async (req: Request, res: Response) => {
+  try {
+    const promotions = await prisma.promotion.findMany({
+      orderBy: { createdAt: "desc" },
+      include: {
+        _count: {
+          select: { orders: true },
+        },
+      },
+    });
+
+    res.json({ promotions });
+  } catch (err) {
+    console.error("Get all promotions error:", err);
+    res.status(500).json({ message: "Error fetching promotions" });
+  }
+};
+
+// Create promotion (Admin)
+export const createPromotion = async (req: Request, res: Response) => {
+  try {
+    const data = parsePromotionInput(req.body);
+
+    const existing = await prisma.promotion.findUnique({
+      where: { code: data.code },
+    });
+    if (existing) {
+      return res.status(400).json({ message: "Promo code already exists" });
+    }
+
+    const promotion = await prisma.promotion.create({ data });
+
+    res.status(201).json({
+      message: "Promotion created successfully",
+      promotion,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create promotion error:", err);
+    res.status(500).json({ message: "Error creating promotion" });
+  }
+};
+
+// Update promotion (Admin)
+export const updatePromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.promotion.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Promotion not found" });
+    }
+
+    // Validate against the stored type when the form doesn't change it
+    const data = parsePromotionInput(
+      { type: existing.type, buyQuantity: existing.buyQuantity, ...req.body },
+      true
+    );
+
+    if (data.code && data.code !== existing.code) {
+      const duplicate = await prisma.promotion.findUnique({
+        where: { code: data.code },
+      });
+      if (duplicate) {
+        return res.status(400).json({ message: "Promo code already exists" });
+      }
+    }
+
+    const promotion = await prisma.promotion.update({
+      where: { id },
+      data,
+    });
+
+    res.json({
+      message: "Promotion updated successfully",
+      promotion,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update promotion error:", err);
+    res.status(500).json({ message: "Error updating promotion" });
+  }
+};
+
+// Delete promotion (Admin)
+export const deletePromotion = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id },
+      include: { _count: { select: { orders: true } } },
+    });
+    if (!promotion) {
+      return res.status(404).json({ message: "Promotion not found" });
+    }
+
+    // Keep codes that orders point to; they can be deactivated instead
+    if (promotion._count.orders > 0) {
+      return res.status(400).json({
+        message: `Cannot delete promo code used by ${promotion._count.orders} order(s). Deactivate it instead.`,
+      });
+    }
+
+    await prisma.promotion.delete({ where: { id } });
+
+    res.json({ message: "Promotion deleted successfully" });
+  } catch (err) {
+    console.error("Delete promotion error:", err);
+    res.status(500).json({ message: "Error deleting promotion" });
+  }
+};
@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  deleteReview,
+  getPublishedReviews,
+  getReviewablePurchases,
+  getReviewEligibility,
+  getReviewsForModeration,
+  isReviewStatus,
+  moderateReview,
+  submitReview,
+} from "../services/reviewService";
+
+// Read ?productId= / ?flavorId= from the query string
+const getTargetFromQuery = (req: Request) => ({
+  productId: req.query.productId ? String(req.query.productId) : null,
+  flavorId: req.query.flavorId ? String(req.query.flavorId) : null,
+});
+
+const getPage = (req: Request, defaultLimit: number) => {
+  const page = Math.max(1, parseInt(req.query.page as string) || 1);
+  const limit = parseInt(req.query.limit as string) || defaultLimit;
+  const take = Math.min(Math.max(1, limit), 200);
+  return { page, skip: (page - 1) * take, take };
+};
+
+// Get approved reviews for a product or flavor (Public)
+export const getReviews = async (req: Request, res: Response) => {
+  try {
+    const { page, skip, take } = getPage(req, 10);
+    const { reviews, total, summary } = await getPublishedReviews(
+      getTargetFromQuery(req),
+      { skip, take }
+    );
+
+    res.json({
+      reviews,
+      summary,
+      pagination: { page, limit: take, total, pages: Math.ceil(total / take) },
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get reviews error:", err);
+    res.status(500).json({ message: "Error fetching reviews" });
+  }
+};
+
+// Whether the current user can review a product or flavor
+export const getMyReviewEligibility = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const eligibility = await getReviewEligibility(
+      user.id,
+      getTargetFromQuery(req)
+    );
+    res.json(eligibility);
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Get review eligibility error:", err);
+    res.status(500).json({ message: "Error checking review eligibility" });
+  }
+};
+
+// Products and flavors the current user has received, optionally for one order
+export const getMyReviewablePurchases = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const orderId = req.query.orderId ? String(req.query.orderId) : undefined;
+    const purchases = await getReviewablePurchases(user.id, orderId);
+    res.json(purchases);
+  } catch (err) {
+    console.error("Get reviewable purchases error:", err);
+    res.status(500).json({ message: "Error fetching purchases to review" });
+  }
+};
+
+// Write or edit a review of a received product or flavor
+export const createReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { productId, flavorId, rating, title, body } = req.body;
+
+    const review = await submitReview(user.id, {
+      productId,
+      flavorId,
+      rating,
+      title,
+      body,
+    });
+
+    res.status(201).json({
+      message: "Thanks! Your review will appear once it's been checked.",
+      review,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create review error:", err);
+    res.status(500).json({ message: "Error saving review" });
+  }
+};
+
+// Delete the current user's own review
+export const deleteMyReview = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    await deleteReview(req.params.id, user.id);
+    res.json({ message: "Review deleted" });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Delete review error:", err);
+    res.status(500).json({ message: "Error deleting review" });
+  }
+};
+
+// Get reviews for moderation (Admin)
+export const getAllReviews = async (req: Request, res: Response) => {
+  try {
+    const status = req.query.status;
+    if (status !== undefined && !isReviewStatus(status)) {
+      return res.status(400).json({ message: "Invalid review status" });
+    }
+
+    const { page, skip, take } = getPage(req, 20);
+    const { reviews, total } = await getReviewsForModeration(
+      { status },
+      { skip, take }
+    );
+
+    res.json({
+      reviews,
+      pagination: { page, limit: take, total, pages: Math.ceil(total / take) },
+    });
+  } catch (err) {
+    console.error("Get all reviews error:", err);
+    res.status(500).json({ message: "Error fetching reviews" });
+  }
+};
+
+// Approve or reject a review (Admin)
+export const moderateReviewById = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const review = await moderateReview(req.params.id, {
+      status: req.body.status,
+      note: req.body.note,
+      moderatedById: user.id,
+    });
+    res.json({ message: `Review ${review.status}`, review });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Moderate review error:", err);
+    res.status(500).json({ message: "Error moderating review" });
+  }
+};
+
+// Delete any review (Admin)
+export const deleteReviewById = async (req: Request, res: Response) => {
+  try {
+    await deleteReview(req.params.id);
+    res.json({ message: "Review deleted" });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Delete review error:", err);
+    res.status(500).json({ message: "Error deleting review" });
+  }
+};
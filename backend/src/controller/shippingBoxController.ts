@@ -0,0 +1,116 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+const BOX_MEASUREMENTS = [
+  "lengthIn",
+  "widthIn",
+  "heightIn",
+  "maxWeightOz",
+] as const;
+
+// Validate the admin form and turn it into ShippingBox fields
+const parseShippingBoxInput = (body: any, partial = false) => {
+  const data: any = {};
+
+  if (body.name !== undefined || !partial) {
+    if (!body.name || typeof body.name !== "string" || !body.name.trim()) {
+      throw new CustomError("Box name is required", 400);
+    }
+    data.name = body.name.trim();
+  }
+
+  for (const field of BOX_MEASUREMENTS) {
+    if (body[field] === undefined && partial) continue;
+    const value = parseFloat(body[field]);
+    if (!Number.isFinite(value) || value <= 0) {
+      throw new CustomError(`${field} must be greater than 0`, 400);
+    }
+    data[field] = value;
+  }
+
+  if (body.emptyWeightOz !== undefined) {
+    const value = parseFloat(body.emptyWeightOz);
+    if (!Number.isFinite(value) || value < 0) {
+      throw new CustomError("emptyWeightOz can't be negative", 400);
+    }
+    data.emptyWeightOz = value;
+  }
+
+  if (body.sortOrder !== undefined) {
+    data.sortOrder = parseInt(body.sortOrder) || 0;
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  return data;
+};
+
+// Get all shipping boxes (Admin)
+export const getShippingBoxes = async (req: Request, res: Response) => {
+  try {
+    const boxes = await prisma.shippingBox.findMany({
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    });
+    res.json({ boxes });
+  } catch (err) {
+    console.error("Get shipping boxes error:", err);
+    res.status(500).json({ message: "Error fetching shipping boxes" });
+  }
+};
+
+// Create shipping box (Admin)
+export const createShippingBox = async (req: Request, res: Response) => {
+  try {
+    const data = parseShippingBoxInput(req.body);
+    const box = await prisma.shippingBox.create({ data });
+    res.status(201).json({ message: "Box created successfully", box });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create shipping box error:", err);
+    res.status(500).json({ message: "Error creating shipping box" });
+  }
+};
+
+// Update shipping box (Admin)
+export const updateShippingBox = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = parseShippingBoxInput(req.body, true);
+
+    const existing = await prisma.shippingBox.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Box not found" });
+    }
+
+    const box = await prisma.shippingBox.update({ where: { id }, data });
+    res.json({ message: "Box updated successfully", box });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update shipping box error:", err);
+    res.status(500).json({ message: "Error updating shipping box" });
+  }
+};
+
+// Delete shipping box (Admin)
+export const deleteShippingBox = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.shippingBox.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Box not found" });
+    }
+
+    await prisma.shippingBox.delete({ where: { id } });
+    res.json({ message: "Box deleted successfully" });
+  } catch (err) {
+    console.error("Delete shipping box error:", err);
+    res.status(500).json({ message: "Error deleting shipping box" });
+  }
+};
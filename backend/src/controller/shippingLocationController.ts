@@ -0,0 +1,254 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  MANUAL_MOVEMENT_TYPES,
+  isManualMovementType,
+  setLocationStock,
+} from "../services/stockMovementService";
+
+const prisma = new PrismaClient();
+
+const REQUIRED_ADDRESS_FIELDS = [
+  "name",
+  "contactName",
+  "email",
+  "street1",
+  "city",
+  "state",
+  "zip",
+] as const;
+
+const OPTIONAL_ADDRESS_FIELDS = ["company", "phone", "street2"] as const;
+
+// Validate the admin form and turn it into ShippingLocation fields
+const parseShippingLocationInput = (body: any, partial = false) => {
+  const data: any = {};
+
+  for (const field of REQUIRED_ADDRESS_FIELDS) {
+    if (body[field] === undefined && partial) continue;
+    if (typeof body[field] !== "string" || !body[field].trim()) {
+      throw new CustomError(`${field} is required`, 400);
+    }
+    data[field] = body[field].trim();
+  }
+
+  for (const field of OPTIONAL_ADDRESS_FIELDS) {
+    if (body[field] !== undefined) {
+      data[field] = body[field] ? String(body[field]).trim() : null;
+    }
+  }
+
+  if (body.country !== undefined || !partial) {
+    const country = String(body.country || "US").trim().toUpperCase();
+    if (!/^[A-Z]{2}$/.test(country)) {
+      throw new CustomError("country must be a two-letter code", 400);
+    }
+    data.country = country;
+  }
+
+  if (body.sortOrder !== undefined) {
+    data.sortOrder = parseInt(body.sortOrder) || 0;
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+  if (body.isDefault !== undefined) data.isDefault = Boolean(body.isDefault);
+
+  return data;
+};
+
+// Get all ship-from locations (Admin)
+export const getShippingLocations = async (req: Request, res: Response) => {
+  try {
+    const locations = await prisma.shippingLocation.findMany({
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+      include: { _count: { select: { orders: true } } },
+    });
+    res.json({ locations });
+  } catch (err) {
+    console.error("Get shipping locations error:", err);
+    res.status(500).json({ message: "Error fetching shipping locations" });
+  }
+};
+
+// Create ship-from location (Admin)
+export const createShippingLocation = async (req: Request, res: Response) => {
+  try {
+    const data = parseShippingLocationInput(req.body);
+
+    // The first location always becomes the default
+    const count = await prisma.shippingLocation.count();
+    if (count === 0) {
+      data.isDefault = true;
+      data.active = true;
+    }
+    if (data.isDefault && data.active === false) {
+      throw new CustomError("The default location must be active", 400);
+    }
+
+    const location = await prisma.$transaction(async (tx) => {
+      if (data.isDefault) {
+        await tx.shippingLocation.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+      return tx.shippingLocation.create({ data });
+    });
+
+    res.status(201).json({ message: "Location created successfully", location });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create shipping location error:", err);
+    res.status(500).json({ message: "Error creating shipping location" });
+  }
+};
+
+// Update ship-from location (Admin)
+export const updateShippingLocation = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const data = parseShippingLocationInput(req.body, true);
+
+    const existing = await prisma.shippingLocation.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Location not found" });
+    }
+    if (existing.isDefault && data.isDefault === false) {
+      return res
+        .status(400)
+        .json({ message: "Make another location the default instead" });
+    }
+    if ((data.isDefault ?? existing.isDefault) && data.active === false) {
+      return res
+        .status(400)
+        .json({ message: "The default location must be active" });
+    }
+
+    const location = await prisma.$transaction(async (tx) => {
+      if (data.isDefault && !existing.isDefault) {
+        await tx.shippingLocation.updateMany({
+          where: { isDefault: true },
+          data: { isDefault: false },
+        });
+      }
+      return tx.shippingLocation.update({ where: { id }, data });
+    });
+
+    res.json({ message: "Location updated successfully", location });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update shipping location error:", err);
+    res.status(500).json({ message: "Error updating shipping location" });
+  }
+};
+
+// Delete ship-from location (Admin)
+export const deleteShippingLocation = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.shippingLocation.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Location not found" });
+    }
+    if (existing.isDefault) {
+      return res
+        .status(400)
+        .json({ message: "Make another location the default first" });
+    }
+
+    const stocked = await prisma.locationInventory.count({
+      where: { locationId: id, onHand: { gt: 0 } },
+    });
+    if (stocked > 0) {
+      return res.status(400).json({
+        message:
+          "This location still holds stock. Set its stock to zero or deactivate it instead.",
+      });
+    }
+
+    await prisma.shippingLocation.delete({ where: { id } });
+    res.json({ message: "Location deleted successfully" });
+  } catch (err) {
+    console.error("Delete shipping location error:", err);
+    res.status(500).json({ message: "Error deleting shipping location" });
+  }
+};
+
+// Get every flavor's stock at a location (Admin)
+export const getLocationInventory = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const location = await prisma.shippingLocation.findUnique({ where: { id } });
+    if (!location) {
+      return res.status(404).json({ message: "Location not found" });
+    }
+
+    const inventory = await prisma.flavorInventory.findMany({
+      include: {
+        flavor: { select: { id: true, name: true, active: true } },
+        locations: { where: { locationId: id }, select: { onHand: true } },
+      },
+      orderBy: { flavor: { name: "asc" } },
+    });
+
+    res.json({
+      location,
+      inventory: inventory.map((row) => ({
+        flavorId: row.flavorId,
+        name: row.flavor.name,
+        active: row.flavor.active,
+        totalOnHand: row.onHand,
+        onHand: row.locations[0]?.onHand || 0,
+      })),
+    });
+  } catch (err) {
+    console.error("Get location inventory error:", err);
+    res.status(500).json({ message: "Error fetching location inventory" });
+  }
+};
+
+// Set a flavor's stock at a location (Admin)
+export const updateLocationInventory = async (req: Request, res: Response) => {
+  try {
+    const { id, flavorId } = req.params;
+    const { onHand, movementType, reason } = req.body;
+
+    const quantity = parseInt(onHand);
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      return res
+        .status(400)
+        .json({ message: "onHand must be a whole number of 0 or more" });
+    }
+
+    const type = movementType ?? "adjustment";
+    if (!isManualMovementType(type)) {
+      return res.status(400).json({
+        message: `movementType must be one of: ${MANUAL_MOVEMENT_TYPES.join(", ")}`,
+      });
+    }
+
+    const location = await prisma.shippingLocation.findUnique({ where: { id } });
+    if (!location) {
+      return res.status(404).json({ message: "Location not found" });
+    }
+
+    const inventory = await setLocationStock(flavorId, id, quantity, type, {
+      reason,
+      createdById: (req as any).user?.id,
+    });
+
+    res.json({ message: "Location stock updated successfully", inventory });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update location inventory error:", err);
+    res.status(500).json({ message: "Error updating location stock" });
+  }
+};
@@ -0,0 +1,178 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  SHIPPING_RULE_TYPES,
+  isShippingRuleType,
+} from "../services/shippingRuleService";
+
+const prisma = new PrismaClient();
+
+// Accept a list or a comma-separated string
+const parseList = (value: unknown, upperCase = false) => {
+  const items = Array.isArray(value) ? value : String(value || "").split(",");
+  return items
+    .map((item) => String(item).trim())
+    .filter(Boolean)
+    .map((item) => (upperCase ? item.toUpperCase() : item));
+};
+
+const parseOptionalNumber = (value: unknown, field: string) => {
+  if (value === null || value === "") return null;
+  const number = parseFloat(String(value));
+  if (!Number.isFinite(number) || number < 0) {
+    throw new CustomError(`${field} must be 0 or more`, 400);
+  }
+  return number;
+};
+
+// Validate the admin form and turn it into ShippingRule fields
+const parseShippingRuleInput = (body: any, existingType?: string) => {
+  const data: any = {};
+  const partial = existingType !== undefined;
+
+  if (body.name !== undefined || !partial) {
+    if (!body.name || typeof body.name !== "string" || !body.name.trim()) {
+      throw new CustomError("Rule name is required", 400);
+    }
+    data.name = body.name.trim();
+  }
+
+  if (body.type !== undefined || !partial) {
+    if (!isShippingRuleType(body.type)) {
+      throw new CustomError(
+        `type must be one of: ${SHIPPING_RULE_TYPES.join(", ")}`,
+        400
+      );
+    }
+    data.type = body.type;
+  }
+
+  if (body.label !== undefined) {
+    data.label = body.label ? String(body.label).trim() : null;
+  }
+  if (body.minSubtotal !== undefined) {
+    data.minSubtotal = parseOptionalNumber(body.minSubtotal, "minSubtotal");
+  }
+  if (body.amount !== undefined) {
+    data.amount = parseOptionalNumber(body.amount, "amount");
+  }
+  if (body.percent !== undefined) {
+    data.percent = parseOptionalNumber(body.percent, "percent");
+  }
+  if (body.estimatedDays !== undefined) {
+    const days = parseOptionalNumber(body.estimatedDays, "estimatedDays");
+    data.estimatedDays = days === null ? null : Math.round(days);
+  }
+
+  if (body.carriers !== undefined) data.carriers = parseList(body.carriers);
+  if (body.services !== undefined) data.services = parseList(body.services);
+  if (body.countries !== undefined) {
+    data.countries = parseList(body.countries, true);
+  }
+  if (body.states !== undefined) data.states = parseList(body.states, true);
+
+  if (body.sortOrder !== undefined) {
+    data.sortOrder = parseInt(body.sortOrder) || 0;
+  }
+  if (body.active !== undefined) data.active = Boolean(body.active);
+
+  // Each type needs the settings it acts on
+  const type = data.type ?? existingType;
+  if (type === "flat_rate" && !partial && data.amount == null) {
+    throw new CustomError("Flat-rate rules need an amount", 400);
+  }
+  if (type === "free_shipping" && !partial && data.minSubtotal == null) {
+    throw new CustomError("Free shipping rules need a minimum subtotal", 400);
+  }
+  if (
+    type === "handling_fee" &&
+    !partial &&
+    !data.amount &&
+    !data.percent
+  ) {
+    throw new CustomError("Handling fees need an amount or a percent", 400);
+  }
+  if (
+    type === "region_restriction" &&
+    !partial &&
+    !data.countries?.length &&
+    !data.states?.length
+  ) {
+    throw new CustomError(
+      "Region restrictions need at least one country or state",
+      400
+    );
+  }
+
+  return data;
+};
+
+// Get all shipping rules (Admin)
+export const getShippingRules = async (req: Request, res: Response) => {
+  try {
+    const rules = await prisma.shippingRule.findMany({
+      orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    });
+    res.json({ rules, types: SHIPPING_RULE_TYPES });
+  } catch (err) {
+    console.error("Get shipping rules error:", err);
+    res.status(500).json({ message: "Error fetching shipping rules" });
+  }
+};
+
+// Create shipping rule (Admin)
+export const createShippingRule = async (req: Request, res: Response) => {
+  try {
+    const data = parseShippingRuleInput(req.body);
+    const rule = await prisma.shippingRule.create({ data });
+    res.status(201).json({ message: "Shipping rule created successfully", rule });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create shipping rule error:", err);
+    res.status(500).json({ message: "Error creating shipping rule" });
+  }
+};
+
+// Update shipping rule (Admin)
+export const updateShippingRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.shippingRule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Shipping rule not found" });
+    }
+
+    const data = parseShippingRuleInput(req.body, existing.type);
+    const rule = await prisma.shippingRule.update({ where: { id }, data });
+
+    res.json({ message: "Shipping rule updated successfully", rule });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update shipping rule error:", err);
+    res.status(500).json({ message: "Error updating shipping rule" });
+  }
+};
+
+// Delete shipping rule (Admin)
+export const deleteShippingRule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const existing = await prisma.shippingRule.findUnique({ where: { id } });
+    if (!existing) {
+      return res.status(404).json({ message: "Shipping rule not found" });
+    }
+
+    await prisma.shippingRule.delete({ where: { id } });
+    res.json({ message: "Shipping rule deleted successfully" });
+  } catch (err) {
+    console.error("Delete shipping rule error:", err);
+    res.status(500).json({ message: "Error deleting shipping rule" });
+  }
+};
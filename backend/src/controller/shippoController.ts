@@ -1,8 +1,15 @@
 import { Request, Response } from 'express';
 import { validateAddress, getShippingRates, createShipment, handleWebhookEvent } from '../services/shippoService';
-import { PrismaClient } from '../generated/prisma';
-
-const prisma = new PrismaClient();
+import { packParcels } from '../services/parcelPackingService';
+import { getDefaultShipFromAddress, getShipFromAddress } from '../services/shippingLocationService';
+import { applyShippingRules, toShippingDestination } from '../services/shippingRuleService';
+import { priceOrder } from '../services/pricingService';
+import {
+  DUTIES_NOTICE,
+  SHIPPING_COUNTRIES,
+  isInternationalShipment,
+} from '../services/customsService';
+import { CustomError } from '../middlewares/error.middleware';
 
 // Validate shipping address
 export const validateShippingAddress = async (req: Request, res: Response) => {
@@ -42,7 +49,7 @@ export const getShippingRatesController = async (req: Request, res: Response) =>
       });
     }
 
-    const rates = await getShippingRates(address, parcels);
+    const rates = await getShippingRates(address, parcels, await getDefaultShipFromAddress());
     
     res.json({ rates });
   } catch (error) {
@@ -63,45 +70,35 @@ export const calculateCheckoutRates = async (req: Request, res: Response) => {
       });
     }
 
+    const country = String(shippingAddress.country || '').trim().toUpperCase();
+    if (!SHIPPING_COUNTRIES.includes(country as (typeof SHIPPING_COUNTRIES)[number])) {
+      return res.status(400).json({
+        error: `We ship to ${SHIPPING_COUNTRIES.join(', ')} only`,
+      });
+    }
+
     console.log('📦 Calculating checkout shipping rates for:', {
       address: shippingAddress,
       itemsCount: orderItems.length,
     });
 
-    // Calculate total weight and dimensions based on items
-    let totalWeight = 0;
-    let totalItems = 0;
-    
-    for (const item of orderItems) {
-      if (!item.productId && item.flavorIds && item.flavorIds.length > 0) {
-        // Custom pack - count flavors
-        totalItems += item.quantity * item.flavorIds.length;
-        totalWeight += item.quantity * item.flavorIds.length * 0.25; // 0.25 lbs per flavor
-      } else if (item.productId) {
-        // Regular product - fetch from database
-        const product = await prisma.product.findUnique({
-          where: { id: item.productId },
-          select: { name: true },
-        });
-        totalItems += item.quantity;
-        totalWeight += item.quantity * 0.5; // Estimate 0.5 lbs per regular product
-      }
-    }
+    // Pack the items into the configured boxes, splitting big orders
+    const { parcels, packages } = await packParcels(orderItems);
 
-    // Create parcel based on total items (simplified)
-    const parcels = [{
-      length: String(Math.ceil(totalItems / 3) * 4 + 2), // Estimate length
-      width: "8",
-      height: "6",
-      distanceUnit: "in" as "in",
-      weight: String(totalWeight || 1), // Minimum 1 lb
-      massUnit: "lb" as "lb"
-    }];
+    console.log('📦 Calculated parcels:', packages);
 
-    console.log('📦 Calculated parcels:', parcels);
+    // Quote from the location that will fulfil the order
+    const fromAddress = await getShipFromAddress(orderItems);
 
     // Get shipping rates from Shippo
-    const rates = await getShippingRates(shippingAddress, parcels);
+    const shippoRates = await getShippingRates(shippingAddress, parcels, fromAddress);
+
+    // Free-shipping thresholds use the server-side item subtotal
+    const { subtotal } = await priceOrder(orderItems);
+    const rates = await applyShippingRules(shippoRates, {
+      subtotal,
+      destination: toShippingDestination(shippingAddress),
+    });
     
     // Format rates for frontend
     const formattedRates = rates.map((rate: any) => ({
@@ -117,9 +114,15 @@ export const calculateCheckoutRates = async (req: Request, res: Response) => {
 
     res.json({ 
       rates: formattedRates,
-      parcels 
+      parcels,
+      packages,
+      // Shown at checkout when customs duties may be due on delivery
+      dutiesNotice: isInternationalShipment(fromAddress, shippingAddress) ? DUTIES_NOTICE : null,
     });
   } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Checkout rates calculation error:', error);
     res.status(500).json({ error: 'Failed to calculate shipping rates' });
   }
@@ -128,12 +131,13 @@ export const calculateCheckoutRates = async (req: Request, res: Response) => {
 // Create shipment
 export const createShipmentController = async (req: Request, res: Response) => {
   try {
+    // parcels is optional; the order's items are packed when it's left out
     const { orderId, address, parcels, selectedRateId, rateData } = req.body;
     
-    if (!orderId || !address || !parcels || !selectedRateId) {
+    if (!orderId || !address || !selectedRateId) {
       return res.status(400).json({ 
         error: 'Missing required fields',
-        required: ['orderId', 'address', 'parcels', 'selectedRateId']
+        required: ['orderId', 'address', 'selectedRateId']
       });
     }
 
@@ -145,6 +149,9 @@ export const createShipmentController = async (req: Request, res: Response) => {
     
     res.json(shipment);
   } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Shipment creation error:', error);
     res.status(500).json({ error: 'Failed to create shipment' });
   }
@@ -0,0 +1,315 @@
+import { Request, Response } from "express";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  SUBSCRIPTION_CADENCES,
+  SUBSCRIPTION_PACK_TYPE,
+  addCadence,
+  isSubscriptionCadence,
+  nextRenewalAfterNow,
+} from "../services/subscriptionService";
+import {
+  getPackDefinition,
+  validatePackFlavors,
+} from "../services/packDefinitionService";
+
+const prisma = new PrismaClient();
+
+const subscriptionInclude = {
+  packRecipe: {
+    select: { id: true, title: true, kind: true },
+  },
+};
+
+// Attach flavor names for custom trios
+const withFlavorNames = async <T extends { flavorIds: string[] }>(
+  subscriptions: T[]
+) => {
+  const flavorIds = [...new Set(subscriptions.flatMap((s) => s.flavorIds))];
+  const flavors = flavorIds.length
+    ? await prisma.flavor.findMany({
+        where: { id: { in: flavorIds } },
+        select: { id: true, name: true },
+      })
+    : [];
+  const names = new Map(flavors.map((flavor) => [flavor.id, flavor.name]));
+
+  return subscriptions.map((subscription) => ({
+    ...subscription,
+    flavors: subscription.flavorIds.map((id) => ({
+      id,
+      name: names.get(id) || "Unknown flavor",
+    })),
+  }));
+};
+
+// Load a subscription owned by the requesting user
+const findOwnSubscription = (req: Request) => {
+  const user = (req as any).user;
+  return prisma.subscription.findFirst({
+    where: { id: req.params.id, userId: user.id },
+  });
+};
+
+// Get current user's subscriptions
+export const getMySubscriptions = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+
+    const subscriptions = await prisma.subscription.findMany({
+      where: { userId: user.id, status: { not: "cancelled" } },
+      include: subscriptionInclude,
+      orderBy: { createdAt: "desc" },
+    });
+
+    res.json({
+      subscriptions: await withFlavorNames(subscriptions),
+      cadences: SUBSCRIPTION_CADENCES,
+    });
+  } catch (err) {
+    console.error("Get subscriptions error:", err);
+    res.status(500).json({ message: "Error fetching subscriptions" });
+  }
+};
+
+// Subscribe to a recipe or custom flavor trio
+export const createSubscription = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const {
+      recipeId,
+      flavorIds,
+      quantity = 1,
+      cadence,
+      shippingAddress,
+      startDate,
+    } = req.body;
+
+    if (!isSubscriptionCadence(cadence)) {
+      return res.status(400).json({
+        message: `cadence must be one of: ${SUBSCRIPTION_CADENCES.join(", ")}`,
+      });
+    }
+
+    const packQuantity = parseInt(quantity);
+    if (!Number.isInteger(packQuantity) || packQuantity < 1 || packQuantity > 10) {
+      return res
+        .status(400)
+        .json({ message: "Quantity must be between 1 and 10" });
+    }
+
+    if (recipeId) {
+      const recipe = await prisma.packRecipe.findUnique({
+        where: { id: recipeId, active: true },
+      });
+      if (!recipe) {
+        return res.status(400).json({ message: "Pack recipe is not available" });
+      }
+    } else {
+      const definition = await getPackDefinition(SUBSCRIPTION_PACK_TYPE);
+      await validatePackFlavors(definition, flavorIds);
+    }
+
+    const { street, city, state, zipCode, country } = shippingAddress || {};
+    if (![street, city, state, zipCode, country].every((field) => field && String(field).trim())) {
+      return res.status(400).json({
+        message:
+          "All shipping address fields are required: street, city, state, zipCode, and country",
+      });
+    }
+
+    let nextRenewalAt = addCadence(new Date(), cadence);
+    if (startDate) {
+      nextRenewalAt = new Date(startDate);
+      if (isNaN(nextRenewalAt.getTime()) || nextRenewalAt < new Date()) {
+        return res
+          .status(400)
+          .json({ message: "Start date must be in the future" });
+      }
+    }
+
+    const subscription = await prisma.subscription.create({
+      data: {
+        userId: user.id,
+        recipeId: recipeId || null,
+        flavorIds: recipeId ? [] : flavorIds,
+        quantity: packQuantity,
+        cadence,
+        nextRenewalAt,
+        shippingAddress,
+      },
+      include: subscriptionInclude,
+    });
+
+    res.status(201).json({
+      message: "Subscription created successfully",
+      subscription: (await withFlavorNames([subscription]))[0],
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Create subscription error:", err);
+    res.status(500).json({ message: "Error creating subscription" });
+  }
+};
+
+// Skip the next renewal
+export const skipSubscription = async (req: Request, res: Response) => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status !== "active") {
+      return res
+        .status(400)
+        .json({ message: "Only active subscriptions can skip a renewal" });
+    }
+
+    const updated = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        nextRenewalAt: nextRenewalAfterNow(
+          subscription.nextRenewalAt,
+          subscription.cadence
+        ),
+      },
+    });
+
+    res.json({ message: "Next renewal skipped", subscription: updated });
+  } catch (err) {
+    console.error("Skip subscription error:", err);
+    res.status(500).json({ message: "Error skipping renewal" });
+  }
+};
+
+// Pause renewals until resumed
+export const pauseSubscription = async (req: Request, res: Response) => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status !== "active") {
+      return res
+        .status(400)
+        .json({ message: "Only active subscriptions can be paused" });
+    }
+
+    const updated = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "paused" },
+    });
+
+    res.json({ message: "Subscription paused", subscription: updated });
+  } catch (err) {
+    console.error("Pause subscription error:", err);
+    res.status(500).json({ message: "Error pausing subscription" });
+  }
+};
+
+// Resume a paused subscription
+export const resumeSubscription = async (req: Request, res: Response) => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status !== "paused") {
+      return res
+        .status(400)
+        .json({ message: "Only paused subscriptions can be resumed" });
+    }
+
+    // Renewals missed while paused are not placed retroactively
+    const nextRenewalAt =
+      subscription.nextRenewalAt > new Date()
+        ? subscription.nextRenewalAt
+        : nextRenewalAfterNow(subscription.nextRenewalAt, subscription.cadence);
+
+    const updated = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        status: "active",
+        nextRenewalAt,
+        failedAttempts: 0,
+        lastError: null,
+      },
+    });
+
+    res.json({ message: "Subscription resumed", subscription: updated });
+  } catch (err) {
+    console.error("Resume subscription error:", err);
+    res.status(500).json({ message: "Error resuming subscription" });
+  }
+};
+
+// Cancel a subscription
+export const cancelSubscription = async (req: Request, res: Response) => {
+  try {
+    const subscription = await findOwnSubscription(req);
+    if (!subscription) {
+      return res.status(404).json({ message: "Subscription not found" });
+    }
+    if (subscription.status === "cancelled") {
+      return res
+        .status(400)
+        .json({ message: "Subscription is already cancelled" });
+    }
+
+    const updated = await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: { status: "cancelled", cancelledAt: new Date() },
+    });
+
+    res.json({ message: "Subscription cancelled", subscription: updated });
+  } catch (err) {
+    console.error("Cancel subscription error:", err);
+    res.status(500).json({ message: "Error cancelling subscription" });
+  }
+};
+
+// Get upcoming renewals (Admin)
+export const getUpcomingRenewals = async (req: Request, res: Response) => {
+  try {
+    const { days = 14, page = 1, limit = 50 } = req.query;
+
+    const until = new Date();
+    until.setDate(until.getDate() + Math.min(Number(days) || 14, 90));
+
+    const skip = (Number(page) - 1) * Number(limit);
+    const take = Math.min(Number(limit), 200);
+    const where = {
+      status: "active",
+      nextRenewalAt: { lte: until },
+    };
+
+    const [subscriptions, total] = await Promise.all([
+      prisma.subscription.findMany({
+        where,
+        include: {
+          ...subscriptionInclude,
+          user: { select: { id: true, name: true, email: true } },
+        },
+        orderBy: { nextRenewalAt: "asc" },
+        skip,
+        take,
+      }),
+      prisma.subscription.count({ where }),
+    ]);
+
+    res.json({
+      subscriptions: await withFlavorNames(subscriptions),
+      pagination: {
+        page: Number(page),
+        limit: take,
+        total,
+        pages: Math.ceil(total / take),
+      },
+    });
+  } catch (err) {
+    console.error("Get upcoming renewals error:", err);
+    res.status(500).json({ message: "Error fetching upcoming renewals" });
+  }
+};
@@ -4,10 +4,22 @@ import { PrismaClient } from "../generated/prisma";
 import {
   generateCustomSKU,
   generateSKU,
-  getDefaultPrice,
-  isValidProductType,
   validateFlavor,
 } from "../utils/skuGenerator";
+import {
+  countFlavorUnits,
+  getPackDefinition,
+  validatePackFlavors,
+} from "../services/packDefinitionService";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  getReservationExpiry,
+  getReservationSecondsRemaining,
+  holdCartLine,
+  releaseCartLineReservation,
+  settleCartLineReservation,
+} from "../services/cartReservationService";
+import { applyStockMovement } from "../services/stockMovementService";
 
 const prisma = new PrismaClient();
 
@@ -47,12 +59,8 @@ export const addToCart = async (req: Request, res: Response) => {
     // For backward compatibility, allow requests without recipe_id or flavor_ids
     // This will be handled by the existing logic below
 
-    // Validate product_id using dynamic validation
-    if (!(await isValidProductType(product_id))) {
-      return res.status(400).json({
-        message: `Product type '${product_id}' is not supported`,
-      });
-    }
+    // Validate product_id against the pack definitions
+    const definition = await getPackDefinition(product_id);
 
     const requestedQty = parseInt(qty);
     if (requestedQty <= 0) {
@@ -63,33 +71,28 @@ export const addToCart = async (req: Request, res: Response) => {
 
     //Handle custom packs
     if (flavor_ids) {
-      //Validate exactly 3 unique flavors
-      if (!Array.isArray(flavor_ids) || flavor_ids.length !== 3) {
-        return res.status(400).json({
-          message: "flavor_ids must contain exactly 3 unique flavors",
-        });
-      }
+      //Validate the flavors fill the pack (size, duplicates, categories)
+      const { flavors, units } = await validatePackFlavors(
+        definition,
+        flavor_ids
+      );
 
-      //Check for duplicates
-      // const uniqueFlavors = [...new Set(flavor_ids)];
-      // if (uniqueFlavors.length !== 3) {
-      //   return res.status(400).json({
-      //     message: "flavor_ids must contain exactly 3 unique flavors",
-      //   });
-      // }
-      //Fetch flavors details and check availability
-      const flavors = await prisma.flavor.findMany({
-        where: { id: { in: flavor_ids }, active: true },
-        include: {
-          inventory: true,
+      //Check if user already has this custom pack in cart
+      const existingCartLine = await prisma.cartLine.findFirst({
+        where: {
+          ...userIdentifier,
+          productId: product_id,
+          flavorIds: { equals: flavor_ids },
         },
       });
 
-      if (flavors.length !== 3) {
-        return res.status(400).json({
-          message: "One or more flavors in flavor_ids are not active",
-        });
-      }
+      // A line whose hold has lapsed must reserve its whole quantity again
+      const existingHeld = existingCartLine
+        ? await settleCartLineReservation(existingCartLine)
+        : false;
+      const reserveQty = existingHeld
+        ? requestedQty
+        : (existingCartLine?.quantity || 0) + requestedQty;
 
       //Check inventory availability for flavors
       for (const flavor of flavors) {
@@ -100,26 +103,20 @@ export const addToCart = async (req: Request, res: Response) => {
           });
         }
 
+        const required = reserveQty * (units.get(flavor.id) || 1);
         const available =
           inventory.onHand - inventory.reserved - inventory.safetyStock;
-        if (available < requestedQty) {
+        if (available < required) {
           return res.status(400).json({
-            message: `Insufficient stock for ${flavor.name}.Available : ${available}, Required: ${requestedQty}`,
+            message: `Insufficient stock for ${flavor.name}.Available : ${available}, Required: ${required}`,
           });
         }
       }
       //Generate SKU
-      const flavorNames = flavors.map((f) => f.name);
-      const sku = generateCustomSKU(flavorNames);
-
-      //Check if user already has this custom pack in cart
-      const existingCartLine = await prisma.cartLine.findFirst({
-        where: {
-          ...userIdentifier,
-          productId: product_id,
-          flavorIds: { equals: flavor_ids },
-        },
-      });
+      const flavorNames = flavor_ids.map(
+        (id: string) => flavors.find((f) => f.id === id)?.name || ""
+      );
+      const sku = generateCustomSKU(flavorNames, definition.size);
 
       let cartLine;
       if (existingCartLine) {
@@ -128,7 +125,8 @@ export const addToCart = async (req: Request, res: Response) => {
           where: { id: existingCartLine.id },
           data: {
             quantity: existingCartLine.quantity + requestedQty,
-            unitPrice: await getDefaultPrice(product_id),
+            unitPrice: definition.price,
+            reservationExpiresAt: getReservationExpiry(),
           },
         });
       } else {
@@ -139,8 +137,9 @@ export const addToCart = async (req: Request, res: Response) => {
             productId: product_id,
             flavorIds: flavor_ids,
             quantity: requestedQty,
-            unitPrice: await getDefaultPrice(product_id),
+            unitPrice: definition.price,
             sku: sku,
+            reservationExpiresAt: getReservationExpiry(),
           },
         });
       }
@@ -152,11 +151,12 @@ export const addToCart = async (req: Request, res: Response) => {
             message: `No inventory found for flavor: ${flavor.name}`,
           });
         }
-        await prisma.flavorInventory.update({
-          where: { flavorId: flavor.id },
-          data: {
-            reserved: inventory.reserved + requestedQty,
-          },
+        await applyStockMovement({
+          flavorId: flavor.id,
+          type: "reservation",
+          reservedDelta: reserveQty * (units.get(flavor.id) || 1),
+          cartLineId: cartLine.id,
+          reason: "Added to cart",
         });
       }
 
@@ -169,6 +169,10 @@ export const addToCart = async (req: Request, res: Response) => {
           unit_price: cartLine.unitPrice,
           total: cartLine.quantity * cartLine.unitPrice,
           sku: cartLine.sku,
+          reservation_expires_at: cartLine.reservationExpiresAt,
+          reservation_seconds_remaining: getReservationSecondsRemaining(
+            cartLine.reservationExpiresAt
+          ),
           flavors: flavors.map((f) => ({
             id: f.id,
             name: f.name,
@@ -187,6 +191,23 @@ export const addToCart = async (req: Request, res: Response) => {
       });
     }
 
+    // Check if user already has this recipe in cart
+    const existingCartLine = await prisma.cartLine.findFirst({
+      where: {
+        ...userIdentifier,
+        productId: product_id,
+        recipeId: recipe_id,
+      },
+    });
+
+    // A line whose hold has lapsed must reserve its whole quantity again
+    const existingHeld = existingCartLine
+      ? await settleCartLineReservation(existingCartLine)
+      : false;
+    const reserveQty = existingHeld
+      ? requestedQty
+      : (existingCartLine?.quantity || 0) + requestedQty;
+
     // Get the pack recipe with its items and flavors
     const packRecipe = await prisma.packRecipe.findUnique({
       where: { id: recipe_id },
@@ -211,14 +232,14 @@ export const addToCart = async (req: Request, res: Response) => {
       return res.status(400).json({ message: "Pack recipe is not active" });
     }
 
-    // Validate recipe total = 3
+    // Validate recipe total matches the pack size
     const totalItems = packRecipe.items.reduce(
       (sum, item) => sum + item.quantity,
       0
     );
-    if (totalItems !== 3) {
+    if (totalItems !== definition.size) {
       return res.status(400).json({
-        message: `Invalid recipe: total items is ${totalItems}, must be 3`,
+        message: `Invalid recipe: total items is ${totalItems}, must be ${definition.size}`,
       });
     }
 
@@ -231,7 +252,7 @@ export const addToCart = async (req: Request, res: Response) => {
         });
       }
 
-      const required = item.quantity * requestedQty;
+      const required = item.quantity * reserveQty;
       const available =
         inventory.onHand - inventory.reserved - inventory.safetyStock;
 
@@ -243,16 +264,7 @@ export const addToCart = async (req: Request, res: Response) => {
     }
 
     // Generate SKU
-    const sku = generateSKU(packRecipe.kind, packRecipe.items);
-
-    // Check if user already has this recipe in cart
-    const existingCartLine = await prisma.cartLine.findFirst({
-      where: {
-        ...userIdentifier,
-        productId: product_id,
-        recipeId: recipe_id,
-      },
-    });
+    const sku = generateSKU(packRecipe.kind, packRecipe.items, definition.size);
 
     let cartLine;
     if (existingCartLine) {
@@ -261,7 +273,8 @@ export const addToCart = async (req: Request, res: Response) => {
         where: { id: existingCartLine.id },
         data: {
           quantity: existingCartLine.quantity + requestedQty,
-          unitPrice: await getDefaultPrice(product_id), // Dynamic price
+          unitPrice: definition.price,
+          reservationExpiresAt: getReservationExpiry(),
         },
         include: {
           packRecipe: {
@@ -283,8 +296,9 @@ export const addToCart = async (req: Request, res: Response) => {
           productId: product_id,
           recipeId: recipe_id,
           quantity: requestedQty,
-          unitPrice: await getDefaultPrice(product_id), // Dynamic price
+          unitPrice: definition.price,
           sku: sku,
+          reservationExpiresAt: getReservationExpiry(),
         },
         include: {
           packRecipe: {
@@ -308,13 +322,14 @@ export const addToCart = async (req: Request, res: Response) => {
           message: `No inventory found for flavor: ${item.flavor.name}`,
         });
       }
-      const reserveAmount = item.quantity * requestedQty;
-
-      await prisma.flavorInventory.update({
-        where: { flavorId: item.flavor.id },
-        data: {
-          reserved: inventory.reserved + reserveAmount,
-        },
+      const reserveAmount = item.quantity * reserveQty;
+
+      await applyStockMovement({
+        flavorId: item.flavor.id,
+        type: "reservation",
+        reservedDelta: reserveAmount,
+        cartLineId: cartLine.id,
+        reason: "Added to cart",
       });
     }
 
@@ -329,9 +344,16 @@ export const addToCart = async (req: Request, res: Response) => {
         unit_price: cartLine.unitPrice,
         total: cartLine.quantity * cartLine.unitPrice,
         sku: cartLine.sku,
+        reservation_expires_at: cartLine.reservationExpiresAt,
+        reservation_seconds_remaining: getReservationSecondsRemaining(
+          cartLine.reservationExpiresAt
+        ),
       },
     });
   } catch (error) {
+    if (error instanceof CustomError) {
+      return res.status(error.statusCode).json({ message: error.message });
+    }
     console.error("Error adding to cart:", error);
     res.status(500).json({ message: "Error adding to cart" });
   }
@@ -392,6 +414,10 @@ export const getUserCart = async (req: Request, res: Response) => {
           unit_price: line.unitPrice,
           total: line.quantity * line.unitPrice,
           sku: line.sku,
+          reservation_expires_at: line.reservationExpiresAt,
+          reservation_seconds_remaining: getReservationSecondsRemaining(
+            line.reservationExpiresAt
+          ),
           items: line.flavorIds.map((flavorId) => {
             const flavor = flavors.find((f) => f.id === flavorId);
             return {
@@ -417,6 +443,10 @@ export const getUserCart = async (req: Request, res: Response) => {
           unit_price: line.unitPrice,
           total: line.quantity * line.unitPrice,
           sku: line.sku,
+          reservation_expires_at: line.reservationExpiresAt,
+          reservation_seconds_remaining: getReservationSecondsRemaining(
+            line.reservationExpiresAt
+          ),
           items:
             line.packRecipe?.items.map((item) => ({
               flavor_id: item.flavor.id,
@@ -487,6 +517,20 @@ export const updateCartLine = async (req: Request, res: Response) => {
     // Get user or guest identifier
     const userIdentifier = isGuest ? { guestId } : { userId: user?.id };
 
+    const existingLine = await prisma.cartLine.findFirst({
+      where: {
+        id: cartLineId,
+        ...userIdentifier,
+      },
+    });
+
+    if (!existingLine) {
+      return res.status(404).json({ message: "Cart line not found" });
+    }
+
+    // Release a lapsed hold before reading stock levels
+    const held = await settleCartLineReservation(existingLine);
+
     // Find the cart line
     const cartLine = await prisma.cartLine.findFirst({
       where: {
@@ -515,7 +559,8 @@ export const updateCartLine = async (req: Request, res: Response) => {
     }
 
     const newQty = parseInt(qty);
-    const qtyDifference = newQty - cartLine.quantity;
+    // Without an active hold the whole new quantity has to be reserved
+    const qtyDifference = held ? newQty - cartLine.quantity : newQty;
 
     if (!cartLine.packRecipe && cartLine.flavorIds.length > 0) {
       //fetch flavors details for custom packs
@@ -523,6 +568,7 @@ export const updateCartLine = async (req: Request, res: Response) => {
         where: { id: { in: cartLine.flavorIds } },
         include: { inventory: true },
       });
+      const units = countFlavorUnits(cartLine.flavorIds);
 
       if (qtyDifference > 0) {
         //Check if we can add more items for custom packs
@@ -533,11 +579,12 @@ export const updateCartLine = async (req: Request, res: Response) => {
               message: `No inventory found for flavor: ${flavor.name}`,
             });
           }
+          const required = qtyDifference * (units.get(flavor.id) || 1);
           const available =
             inventory.onHand - inventory.reserved - inventory.safetyStock;
-          if (available < qtyDifference) {
+          if (available < required) {
             return res.status(400).json({
-              message: `Insufficient stock for ${flavor.name}. Available: ${available}, Required: ${qtyDifference}`,
+              message: `Insufficient stock for ${flavor.name}. Available: ${available}, Required: ${required}`,
             });
           }
         }
@@ -547,11 +594,12 @@ export const updateCartLine = async (req: Request, res: Response) => {
           const inventory = flavor.inventory;
           if (!inventory) continue;
 
-          await prisma.flavorInventory.update({
-            where: { flavorId: flavor.id },
-            data: {
-              reserved: inventory.reserved + qtyDifference,
-            },
+          await applyStockMovement({
+            flavorId: flavor.id,
+            type: "reservation",
+            reservedDelta: qtyDifference * (units.get(flavor.id) || 1),
+            cartLineId,
+            reason: "Cart quantity increased",
           });
         }
       } else if (qtyDifference < 0) {
@@ -559,14 +607,12 @@ export const updateCartLine = async (req: Request, res: Response) => {
           const inventory = flavor.inventory;
           if (!inventory) continue;
 
-          await prisma.flavorInventory.update({
-            where: { flavorId: flavor.id },
-            data: {
-              reserved: Math.max(
-                0,
-                inventory.reserved - Math.abs(qtyDifference)
-              ),
-            },
+          await applyStockMovement({
+            flavorId: flavor.id,
+            type: "release",
+            reservedDelta: qtyDifference * (units.get(flavor.id) || 1),
+            cartLineId,
+            reason: "Cart quantity decreased",
           });
         }
       }
@@ -574,7 +620,7 @@ export const updateCartLine = async (req: Request, res: Response) => {
       //Update cart line for custom pack
       const updateCartLine = await prisma.cartLine.update({
         where: { id: cartLineId },
-        data: { quantity: newQty },
+        data: { quantity: newQty, reservationExpiresAt: getReservationExpiry() },
       });
       res.json({
         message: "Custom pack quantity updated successfully",
@@ -587,6 +633,10 @@ export const updateCartLine = async (req: Request, res: Response) => {
           unit_price: updateCartLine.unitPrice,
           total: updateCartLine.quantity * updateCartLine.unitPrice,
           sku: updateCartLine.sku,
+          reservation_expires_at: updateCartLine.reservationExpiresAt,
+          reservation_seconds_remaining: getReservationSecondsRemaining(
+            updateCartLine.reservationExpiresAt
+          ),
         },
       });
       return;
@@ -630,11 +680,12 @@ export const updateCartLine = async (req: Request, res: Response) => {
           }
           const reserveAmount = item.quantity * qtyDifference;
 
-          await prisma.flavorInventory.update({
-            where: { flavorId: item.flavor.id },
-            data: {
-              reserved: inventory.reserved + reserveAmount,
-            },
+          await applyStockMovement({
+            flavorId: item.flavor.id,
+            type: "reservation",
+            reservedDelta: reserveAmount,
+            cartLineId,
+            reason: "Cart quantity increased",
           });
         }
       } else if (qtyDifference < 0) {
@@ -648,11 +699,12 @@ export const updateCartLine = async (req: Request, res: Response) => {
           }
           const releaseAmount = item.quantity * Math.abs(qtyDifference);
 
-          await prisma.flavorInventory.update({
-            where: { flavorId: item.flavor.id },
-            data: {
-              reserved: Math.max(0, inventory.reserved - releaseAmount),
-            },
+          await applyStockMovement({
+            flavorId: item.flavor.id,
+            type: "release",
+            reservedDelta: -releaseAmount,
+            cartLineId,
+            reason: "Cart quantity decreased",
           });
         }
       }
@@ -661,7 +713,7 @@ export const updateCartLine = async (req: Request, res: Response) => {
     // Update cart line
     const updatedCartLine = await prisma.cartLine.update({
       where: { id: cartLineId },
-      data: { quantity: newQty },
+      data: { quantity: newQty, reservationExpiresAt: getReservationExpiry() },
       include: {
         packRecipe: {
           include: {
@@ -686,6 +738,10 @@ export const updateCartLine = async (req: Request, res: Response) => {
         unit_price: updatedCartLine.unitPrice,
         total: updatedCartLine.quantity * updatedCartLine.unitPrice,
         sku: updatedCartLine.sku,
+        reservation_expires_at: updatedCartLine.reservationExpiresAt,
+        reservation_seconds_remaining: getReservationSecondsRemaining(
+          updatedCartLine.reservationExpiresAt
+        ),
       },
     });
   } catch (error) {
@@ -711,85 +767,14 @@ export const removeCartLine = async (req: Request, res: Response) => {
         id: cartLineId,
         ...userIdentifier,
       },
-      include: {
-        packRecipe: {
-          include: {
-            items: {
-              include: {
-                flavor: {
-                  include: {
-                    inventory: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
     });
 
     if (!cartLine) {
       return res.status(404).json({ message: "Cart line not found" });
     }
 
-    // Release reserved inventory
-
-    if (cartLine.packRecipe) {
-      //Handle predefined recipes
-      for (const item of cartLine.packRecipe.items) {
-        const inventory = item.flavor.inventory;
-        if (!inventory) {
-          return res.status(400).json({
-            message: `No inventory found for flavor : ${item.flavor.name}`,
-          });
-        }
-
-        const releaseAmount = item.quantity * cartLine.quantity;
-
-        await prisma.flavorInventory.update({
-          where: { flavorId: item.flavor.id },
-          data: { reserved: Math.max(0, inventory.reserved - releaseAmount) },
-        });
-      }
-    } else if (cartLine.flavorIds.length > 0) {
-      //handle custom packs
-      const flavors = await prisma.flavor.findMany({
-        where: { id: { in: cartLine.flavorIds } },
-        include: { inventory: true },
-      });
-      for (const flavor of flavors) {
-        const inventory = flavor.inventory;
-        if (!inventory) {
-          continue;
-        }
-
-        await prisma.flavorInventory.update({
-          where: { flavorId: flavor.id },
-          data: {
-            reserved: Math.max(0, inventory.reserved - cartLine.quantity),
-          },
-        });
-      }
-    }
-
-    // if (cartLine.packRecipe) {
-    //   for (const item of cartLine.packRecipe.items) {
-    //     const inventory = item.flavor.inventory;
-    //     if (!inventory) {
-    //       return res.status(400).json({
-    //         message: `No inventory found for flavor: ${item.flavor.name}`,
-    //       });
-    //     }
-    //     const releaseAmount = item.quantity * cartLine.quantity;
-
-    //     await prisma.flavorInventory.update({
-    //       where: { flavorId: item.flavor.id },
-    //       data: {
-    //         reserved: Math.max(0, inventory.reserved - releaseAmount),
-    //       },
-    //     });
-    //   }
-    // }
+    // Release reserved inventory (no-op if the hold already lapsed)
+    await releaseCartLineReservation(cartLine);
 
     // Delete cart line
     await prisma.cartLine.delete({
@@ -816,65 +801,11 @@ export const clearCart = async (req: Request, res: Response) => {
     // Get all cart lines for the user
     const cartLines = await prisma.cartLine.findMany({
       where: userIdentifier,
-      include: {
-        packRecipe: {
-          include: {
-            items: {
-              include: {
-                flavor: {
-                  include: {
-                    inventory: true,
-                  },
-                },
-              },
-            },
-          },
-        },
-      },
     });
 
-    // Release all reserved inventory
+    // Release all reserved inventory still held by the cart
     for (const cartLine of cartLines) {
-      if (cartLine.packRecipe) {
-        // Handle predefined recipes
-        for (const item of cartLine.packRecipe.items) {
-          const inventory = item.flavor.inventory;
-          if (!inventory) {
-            continue; // Skip if no inventory found
-          }
-          const releaseAmount = item.quantity * cartLine.quantity;
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: item.flavor.id },
-            data: {
-              reserved: Math.max(0, inventory.reserved - releaseAmount),
-            },
-          });
-        }
-      } else if (cartLine.flavorIds.length > 0) {
-        // Handle custom packs
-        const flavors = await prisma.flavor.findMany({
-          where: { id: { in: cartLine.flavorIds } },
-          include: { inventory: true },
-        });
-
-        for (const flavor of flavors) {
-          const inventory = flavor.inventory;
-          if (!inventory) {
-            console.warn(
-              `No inventory found for custom pack flavor: ${flavor.name}`
-            );
-            continue;
-          }
-
-          await prisma.flavorInventory.update({
-            where: { flavorId: flavor.id },
-            data: {
-              reserved: Math.max(0, inventory.reserved - cartLine.quantity),
-            },
-          });
-        }
-      }
+      await releaseCartLineReservation(cartLine);
     }
 
     // Delete all cart lines
@@ -888,3 +819,51 @@ export const clearCart = async (req: Request, res: Response) => {
     res.status(500).json({ message: "Error clearing cart" });
   }
 };
+
+// Renew the stock holds for every line in the cart
+export const refreshCartReservations = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const guestId = (req as any).guestId;
+    const isGuest = (req as any).isGuest;
+
+    // Get user or guest identifier
+    const userIdentifier = isGuest ? { guestId } : { userId: user?.id };
+
+    const cartLines = await prisma.cartLine.findMany({
+      where: userIdentifier,
+    });
+
+    const unavailable: Array<{ id: string; message: string }> = [];
+
+    for (const cartLine of cartLines) {
+      const held = await settleCartLineReservation(cartLine);
+
+      if (!held) {
+        // Hold lapsed - take it again only if the stock is still there
+        const shortfall = await holdCartLine(cartLine, "Cart hold renewed");
+        if (shortfall) {
+          unavailable.push({ id: cartLine.id, message: shortfall });
+        }
+        continue;
+      }
+
+      await prisma.cartLine.update({
+        where: { id: cartLine.id },
+        data: { reservationExpiresAt: getReservationExpiry() },
+      });
+    }
+
+    res.json({
+      message:
+        unavailable.length > 0
+          ? "Some cart items could not be held"
+          : "Cart reservations refreshed",
+      refreshed: cartLines.length - unavailable.length,
+      unavailable,
+    });
+  } catch (error) {
+    console.error("Error refreshing cart reservations:", error);
+    res.status(500).json({ message: "Error refreshing cart reservations" });
+  }
+};
@@ -0,0 +1,141 @@
+import { Request, Response } from "express";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  addWishlistItem,
+  clearWishlist,
+  getWishlist,
+  mergeWishlist,
+  removeWishlistItem,
+  setWishlistAlert,
+  WishlistItemInput,
+} from "../services/wishlistService";
+
+// Most entries a browser wishlist can merge in one request
+const MAX_MERGE_ITEMS = 200;
+
+// Read productId/flavorId/notifyWhenInStock from a request body entry
+const parseWishlistItemInput = (body: any): WishlistItemInput => ({
+  productId: body?.productId ? String(body.productId) : null,
+  flavorId: body?.flavorId ? String(body.flavorId) : null,
+  notifyWhenInStock:
+    body?.notifyWhenInStock !== undefined
+      ? Boolean(body.notifyWhenInStock)
+      : undefined,
+});
+
+// Get current user's wishlist
+export const getMyWishlist = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const items = await getWishlist(user.id);
+    res.json({ items });
+  } catch (err) {
+    console.error("Get wishlist error:", err);
+    res.status(500).json({ message: "Error fetching wishlist" });
+  }
+};
+
+// Add a product or flavor to the wishlist
+export const addToWishlist = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    await addWishlistItem(user.id, parseWishlistItemInput(req.body));
+
+    const items = await getWishlist(user.id);
+    res.status(201).json({ message: "Added to wishlist", items });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Add to wishlist error:", err);
+    res.status(500).json({ message: "Error adding to wishlist" });
+  }
+};
+
+// Merge the browser's wishlist into the account after login
+export const mergeMyWishlist = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const { items } = req.body;
+    if (!Array.isArray(items)) {
+      return res.status(400).json({ message: "items must be a list" });
+    }
+    if (items.length > MAX_MERGE_ITEMS) {
+      return res
+        .status(400)
+        .json({ message: `Can't merge more than ${MAX_MERGE_ITEMS} items` });
+    }
+
+    const merged = await mergeWishlist(
+      user.id,
+      items.map(parseWishlistItemInput)
+    );
+    res.json({ message: "Wishlist merged", items: merged });
+  } catch (err) {
+    console.error("Merge wishlist error:", err);
+    res.status(500).json({ message: "Error merging wishlist" });
+  }
+};
+
+// Turn back-in-stock alerts on or off for an entry
+export const updateWishlistItem = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    if (typeof req.body.notifyWhenInStock !== "boolean") {
+      return res
+        .status(400)
+        .json({ message: "notifyWhenInStock must be true or false" });
+    }
+
+    const item = await setWishlistAlert(
+      user.id,
+      req.params.id,
+      req.body.notifyWhenInStock
+    );
+    res.json({
+      message: item.notifyWhenInStock
+        ? "We'll email you when it's back in stock"
+        : "Back-in-stock alert turned off",
+      item,
+    });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Update wishlist item error:", err);
+    res.status(500).json({ message: "Error updating wishlist" });
+  }
+};
+
+// Remove an entry by id, or by ?productId= / ?flavorId=
+export const removeFromWishlist = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const removed = await removeWishlistItem(user.id, {
+      id: req.params.id,
+      productId: req.query.productId ? String(req.query.productId) : null,
+      flavorId: req.query.flavorId ? String(req.query.flavorId) : null,
+    });
+
+    const items = await getWishlist(user.id);
+    res.json({ message: "Removed from wishlist", removed, items });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Remove from wishlist error:", err);
+    res.status(500).json({ message: "Error removing from wishlist" });
+  }
+};
+
+// Empty the wishlist
+export const clearMyWishlist = async (req: Request, res: Response) => {
+  try {
+    const user = (req as any).user;
+    const removed = await clearWishlist(user.id);
+    res.json({ message: "Wishlist cleared", removed, items: [] });
+  } catch (err) {
+    console.error("Clear wishlist error:", err);
+    res.status(500).json({ message: "Error clearing wishlist" });
+  }
+};
@@ -0,0 +1,96 @@
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  EMAIL_TEMPLATES,
+  EmailTemplate,
+  EmailTemplateData,
+  EmailTemplateName,
+  isEmailTemplateName,
+} from "./templates";
+import { getMailTransport, MailDelivery } from "./transports";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+const getMailFrom = () =>
+  process.env.MAIL_FROM || "Licrorice <no-reply@licorice4good.com>";
+
+/**
+ * Render a named template's subject, HTML and plain-text bodies
+ */
+export const renderEmail = <N extends EmailTemplateName>(
+  name: N,
+  data: EmailTemplateData<N>
+): RenderedEmail => {
+  const template = EMAIL_TEMPLATES[name] as unknown as EmailTemplate<EmailTemplateData<N>>;
+  const unsubscribeUrl = template.unsubscribeUrl?.(data);
+
+  return {
+    subject: template.subject(data),
+    html: template.html(data),
+    text: template.text(data),
+    // RFC 8058 one-click: mail clients POST to the URL without a visit
+    headers: unsubscribeUrl
+      ? {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        }
+      : undefined,
+  };
+};
+
+/**
+ * Render a template and hand it to the configured transport
+ * @throws When the transport fails; callers decide whether that matters
+ */
+export const sendEmail = async <N extends EmailTemplateName>(
+  name: N,
+  to: string,
+  data: EmailTemplateData<N>,
+  options: { bcc?: string } = {}
+): Promise<MailDelivery> => {
+  const rendered = renderEmail(name, data);
+  const delivery = await getMailTransport().send({
+    from: getMailFrom(),
+    to,
+    bcc: options.bcc,
+    ...rendered,
+  });
+
+  console.log(
+    `📧 ${name} email sent to ${to} (${delivery.transport})${
+      delivery.previewUrl ? `: ${delivery.previewUrl}` : ""
+    }`
+  );
+  return delivery;
+};
+
+/**
+ * Every template with its description, for the admin list
+ */
+export const listEmailTemplates = () =>
+  (Object.keys(EMAIL_TEMPLATES) as EmailTemplateName[]).map((name) => ({
+    name,
+    description: EMAIL_TEMPLATES[name].description,
+    subject: renderEmail(name, EMAIL_TEMPLATES[name].sampleData as never).subject,
+  }));
+
+/**
+ * Render a template with its sample data
+ * @throws CustomError (404) if there's no template by that name
+ */
+export const previewEmail = (name: string) => {
+  if (!isEmailTemplateName(name)) {
+    throw new CustomError("Email template not found", 404);
+  }
+  return {
+    name,
+    ...renderEmail(name, EMAIL_TEMPLATES[name].sampleData as never),
+  };
+};
+
+export type { EmailTemplateData, EmailTemplateName } from "./templates";
+export type { MailDelivery, MailTransport } from "./transports";
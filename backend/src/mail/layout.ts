@@ -0,0 +1,149 @@
+// Shared branding and building blocks for every email template
+
+export const BRAND = {
+  name: "Licorice4Good",
+  supportEmail: "support@licorice4good.com",
+  color: "#FF5D39",
+};
+
+// Header backgrounds, by what the email is about
+export const HEADER_COLORS = {
+  brand: "linear-gradient(135deg, #FF5D39 0%, #e54d2e 100%)",
+  success: "linear-gradient(135deg, #28a745 0%, #20c997 100%)",
+  info: "linear-gradient(135deg, #339af0 0%, #228be6 100%)",
+  warning: "linear-gradient(135deg, #F1A900 0%, #FFB800 100%)",
+  danger: "linear-gradient(135deg, #e03131 0%, #c92a2a 100%)",
+};
+
+const HTML_ESCAPES: Record<string, string> = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+/**
+ * Escape customer-supplied text (names, item names, carrier messages)
+ * before it goes into HTML
+ */
+export const escapeHtml = (value: unknown) =>
+  String(value ?? "").replace(/[&<>"']/g, (char) => HTML_ESCAPES[char]);
+
+export const formatMoney = (amount: number) => `$${amount.toFixed(2)}`;
+
+export const paragraph = (html: string) =>
+  `<p style="font-size: 16px; color: #333; margin: 0 0 16px 0;">${html}</p>`;
+
+export const note = (html: string) =>
+  `<p style="font-size: 14px; color: #495057; margin: 0 0 16px 0;">${html}</p>`;
+
+export const orderNumberBox = (orderId: string) => `
+  <div style="background: #e7f5ff; border-left: 4px solid #339af0; padding: 15px; margin-bottom: 20px;">
+    <p style="margin: 0; font-size: 14px; color: #1864ab;">
+      <strong>Order Number:</strong> #${escapeHtml(orderId)}
+    </p>
+  </div>`;
+
+export const panel = (html: string) => `
+  <div style="background: white; padding: 15px; border-radius: 5px; border: 1px solid #dee2e6; margin: 20px 0;">
+    ${html}
+  </div>`;
+
+export const callout = (
+  html: string,
+  tone: "success" | "warning" | "info" = "info"
+) => {
+  const colors = {
+    success: { background: "#d1f3d1", border: "#28a745", text: "#155724" },
+    warning: { background: "#fff3cd", border: "#ffeaa7", text: "#856404" },
+    info: { background: "#e9ecef", border: "#007bff", text: "#495057" },
+  }[tone];
+  return `
+  <div style="background: ${colors.background}; border: 1px solid ${colors.border}; border-radius: 5px; padding: 15px; margin: 20px 0; font-size: 14px; color: ${colors.text};">
+    ${html}
+  </div>`;
+};
+
+export const codeBox = (code: string) => `
+  <div style="background: white; border: 2px solid ${BRAND.color}; border-radius: 8px; padding: 15px; text-align: center; margin: 20px 0;">
+    <span style="color: ${BRAND.color}; font-size: 28px; font-weight: bold; letter-spacing: 5px;">${escapeHtml(code)}</span>
+  </div>`;
+
+export const button = (
+  url: string,
+  label: string,
+  background: string = BRAND.color
+) =>
+  `<a href="${escapeHtml(url)}" style="display: inline-block; background: ${background}; color: white; padding: 12px 30px; text-decoration: none; border-radius: 5px; font-weight: bold; margin: 5px;">${escapeHtml(label)}</a>`;
+
+export const buttons = (...html: string[]) =>
+  `<div style="text-align: center; margin: 30px 0;">${html.join("")}</div>`;
+
+export interface LayoutOptions {
+  heading: string;
+  subheading?: string | null;
+  headerColor?: string;
+  body: string;
+  unsubscribeUrl?: string | null;
+}
+
+/**
+ * Wrap a template body in the branded header and footer
+ * @param options heading and subheading are plain text; body is HTML
+ */
+export const renderLayout = (options: LayoutOptions) => `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>${escapeHtml(options.heading)}</title>
+  </head>
+  <body style="margin: 0; padding: 20px 0; background: #ffffff;">
+    <div style="max-width: 600px; margin: 0 auto; font-family: Arial, sans-serif;">
+      <div style="background: ${options.headerColor || HEADER_COLORS.brand}; padding: 30px; text-align: center; border-radius: 10px 10px 0 0;">
+        <h1 style="color: white; margin: 0; font-size: 28px;">${escapeHtml(options.heading)}</h1>
+        ${options.subheading ? `<p style="color: white; margin: 10px 0 0 0; font-size: 16px;">${escapeHtml(options.subheading)}</p>` : ""}
+      </div>
+
+      <div style="background: #f8f9fa; padding: 30px; border-radius: 0 0 10px 10px;">
+        ${options.body}
+
+        <p style="font-size: 14px; color: #6c757d; margin-top: 30px; text-align: center;">
+          Questions? Contact us at <a href="mailto:${BRAND.supportEmail}" style="color: #007bff;">${BRAND.supportEmail}</a>
+        </p>
+
+        <p style="font-size: 12px; color: #adb5bd; margin-top: 20px; text-align: center;">
+          This is an automated email from ${BRAND.name}. Please do not reply to this email.
+          ${options.unsubscribeUrl ? `<br /><a href="${escapeHtml(options.unsubscribeUrl)}" style="color: #adb5bd;">Unsubscribe from these emails</a>` : ""}
+        </p>
+      </div>
+    </div>
+  </body>
+</html>
+`;
+
+/**
+ * Plain-text counterpart of renderLayout
+ * @param lines Body paragraphs; empty ones are dropped
+ */
+export const renderTextLayout = (options: {
+  heading: string;
+  subheading?: string | null;
+  lines: Array<string | null | false | undefined>;
+  unsubscribeUrl?: string | null;
+}) =>
+  [
+    options.heading,
+    options.subheading,
+    "",
+    ...options.lines.filter((line) => line || line === ""),
+    "",
+    `Questions? Contact us at ${BRAND.supportEmail}`,
+    `This is an automated email from ${BRAND.name}. Please do not reply to this email.`,
+    options.unsubscribeUrl ? `Unsubscribe: ${options.unsubscribeUrl}` : null,
+  ]
+    .filter((line) => line !== null && line !== undefined)
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim() + "\n";
@@ -0,0 +1,582 @@
+import {
+  button,
+  buttons,
+  callout,
+  codeBox,
+  escapeHtml,
+  formatMoney,
+  HEADER_COLORS,
+  note,
+  orderNumberBox,
+  panel,
+  paragraph,
+  renderLayout,
+  renderTextLayout,
+} from "./layout";
+
+export interface EmailTemplate<T> {
+  description: string; // Shown in the admin template list
+  subject: (data: T) => string;
+  html: (data: T) => string;
+  text: (data: T) => string;
+  unsubscribeUrl?: (data: T) => string | null | undefined; // One-click endpoint sent as List-Unsubscribe
+  sensitive?: boolean; // Data holds a one-time code or link, so isn't kept once sent
+  sampleData: T; // For admin previews
+}
+
+export interface PasswordResetData {
+  code: string;
+}
+
+export interface EmailVerificationData {
+  verificationUrl: string;
+  code: string;
+}
+
+export interface OrderConfirmationData {
+  orderId: string;
+  customerName: string;
+  total: number;
+  items: Array<{
+    name: string;
+    quantity: number;
+    price: number;
+  }>;
+  shippingAddress: {
+    street1: string;
+    city: string;
+    state: string;
+    zip: string;
+    country: string;
+  };
+  shippingDetails?: {
+    trackingNumber?: string;
+    trackingUrl?: string;
+    carrier?: string;
+    shippingCost?: number;
+  };
+  trackOrderUrl?: string; // Signed link to the order on the track-order page
+}
+
+export interface RefundData {
+  orderId: string;
+  customerName: string;
+  amount: number;
+  orderTotal: number;
+  refundedTotal: number;
+  reason?: string | null;
+}
+
+export interface BackInStockData {
+  customerName: string;
+  itemName: string;
+  itemUrl: string;
+}
+
+export interface ShippingUpdateData {
+  orderId: string;
+  customerName: string;
+  orderUrl: string; // Where the customer can see the order and its timeline
+  carrier?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  statusDetails?: string | null; // Latest carrier message
+  unsubscribeUrl?: string | null; // Only for account holders
+  oneClickUnsubscribeUrl?: string | null; // API endpoint mail clients POST to
+}
+
+export interface PaymentFailedData {
+  customerName: string;
+  amount: number;
+  orderId?: string | null; // Set when paying for an existing order
+  failureReason?: string | null;
+  retryUrl: string;
+}
+
+export interface RenewalPaymentData {
+  orderId: string;
+  customerName: string;
+  amount: number;
+  payUrl: string; // Signed link to the order, where it can be paid
+}
+
+const SAMPLE_ORDER_ID = "3f8a9c12-5b7e-4d21-9a60-1c2b3d4e5f60";
+
+const SAMPLE_SHIPPING_UPDATE: ShippingUpdateData = {
+  orderId: SAMPLE_ORDER_ID,
+  customerName: "Alex",
+  orderUrl: "https://licorice4good.com/orders/sample",
+  carrier: "USPS",
+  trackingNumber: "9400111899223817200000",
+  trackingUrl: "https://tools.usps.com/go/TrackConfirmAction?tLabels=9400111899223817200000",
+  statusDetails: "Arrived at USPS Regional Facility",
+  unsubscribeUrl: "https://licorice4good.com/unsubscribe?token=sample",
+  oneClickUnsubscribeUrl: "https://api.licorice4good.com/notifications/unsubscribe?token=sample",
+};
+
+const defineTemplate = <T>(template: EmailTemplate<T>) => template;
+
+const passwordReset = defineTemplate<PasswordResetData>({
+  description: "Six-digit code for resetting a forgotten password",
+  sensitive: true,
+  subject: () => "Password Reset Code",
+  html: (data) =>
+    renderLayout({
+      heading: "Password Reset Code",
+      subheading: "You requested a password reset for your account",
+      body: `
+        ${paragraph("<strong>Your 6-digit reset code is:</strong>")}
+        ${codeBox(data.code)}
+        ${callout(`
+          <strong>Important:</strong>
+          <ul style="margin: 10px 0 0 0; padding-left: 20px;">
+            <li>This code will expire in 10 minutes</li>
+            <li>Do not share this code with anyone</li>
+            <li>If you didn't request this, please ignore this email</li>
+          </ul>`, "warning")}
+        ${paragraph("Enter this code in the password reset form to continue.")}`,
+    }),
+  text: (data) =>
+    renderTextLayout({
+      heading: "Password Reset Code",
+      subheading: "You requested a password reset for your account.",
+      lines: [
+        `Your 6-digit reset code is: ${data.code}`,
+        "",
+        "This code will expire in 10 minutes. Do not share it with anyone.",
+        "If you didn't request this, please ignore this email.",
+      ],
+    }),
+  sampleData: { code: "482913" },
+});
+
+const emailVerification = defineTemplate<EmailVerificationData>({
+  description: "Link and code for verifying a new account's email address",
+  sensitive: true,
+  subject: () => "Verify Your Email Address",
+  html: (data) =>
+    renderLayout({
+      heading: "Welcome to Licorice4Good!",
+      subheading: "Please verify your email address",
+      body: `
+        ${paragraph("Hi there!")}
+        ${paragraph("Thank you for registering! To complete your account setup, please verify your email address.")}
+        ${buttons(button(data.verificationUrl, "Verify Email Address"))}
+        ${note("<strong>Alternative method:</strong> If the button doesn't work, you can also use this 6-digit code:")}
+        ${codeBox(data.code)}
+        ${callout(`
+          <strong>Important:</strong>
+          <ul style="margin: 10px 0 0 0; padding-left: 20px;">
+            <li>This verification link will expire in 24 hours</li>
+            <li>If you didn't create an account, please ignore this email</li>
+            <li>For security, don't share this code or link with anyone</li>
+          </ul>`, "warning")}
+        <p style="font-size: 14px; color: #6c757d;">
+          If you're having trouble, you can also copy and paste this link into your browser:<br>
+          <a href="${escapeHtml(data.verificationUrl)}" style="color: #007bff; word-break: break-all;">${escapeHtml(data.verificationUrl)}</a>
+        </p>`,
+    }),
+  text: (data) =>
+    renderTextLayout({
+      heading: "Welcome to Licorice4Good!",
+      subheading: "Please verify your email address.",
+      lines: [
+        "Thank you for registering! To complete your account setup, open this link:",
+        data.verificationUrl,
+        "",
+        `Or enter this 6-digit code: ${data.code}`,
+        "",
+        "The link expires in 24 hours. If you didn't create an account, please ignore this email.",
+      ],
+    }),
+  sampleData: {
+    verificationUrl:
+      "https://licorice4good.com/auth/verify-email?token=sample&email=alex%40example.com",
+    code: "615204",
+  },
+});
+
+const orderConfirmation = defineTemplate<OrderConfirmationData>({
+  description: "Receipt sent once an order is paid",
+  subject: (data) => `Order Confirmation - #${data.orderId}`,
+  html: (data) => {
+    const cell = "padding: 10px; border-bottom: 1px solid #e9ecef;";
+    const itemsHtml = data.items
+      .map(
+        (item) => `
+          <tr>
+            <td style="${cell}">${escapeHtml(item.name)}</td>
+            <td style="${cell} text-align: center;">${item.quantity}</td>
+            <td style="${cell} text-align: right;">${formatMoney(item.price)}</td>
+            <td style="${cell} text-align: right;">${formatMoney(item.quantity * item.price)}</td>
+          </tr>`
+      )
+      .join("");
+    const address = data.shippingAddress;
+    const shipping = data.shippingDetails;
+
+    return renderLayout({
+      heading: "🎉 Order Confirmed!",
+      subheading: `Thank you for your order, ${data.customerName}!`,
+      headerColor: HEADER_COLORS.success,
+      body: `
+        ${orderNumberBox(data.orderId)}
+        <h2 style="color: #333; font-size: 20px; margin-bottom: 15px;">Order Summary</h2>
+        <table style="width: 100%; border-collapse: collapse; margin-bottom: 20px; background: white;">
+          <thead>
+            <tr style="background: #e9ecef;">
+              <th style="padding: 10px; text-align: left;">Item</th>
+              <th style="padding: 10px; text-align: center;">Qty</th>
+              <th style="padding: 10px; text-align: right;">Price</th>
+              <th style="padding: 10px; text-align: right;">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${itemsHtml}
+            <tr style="background: #f8f9fa; font-weight: bold;">
+              <td colspan="3" style="padding: 15px; text-align: right;">Total:</td>
+              <td style="padding: 15px; text-align: right; color: #28a745; font-size: 18px;">${formatMoney(data.total)}</td>
+            </tr>
+          </tbody>
+        </table>
+
+        <h2 style="color: #333; font-size: 20px; margin: 30px 0 15px 0;">📦 Shipping Address</h2>
+        ${panel(`
+          <p style="margin: 5px 0; color: #495057;">${escapeHtml(address.street1)}</p>
+          <p style="margin: 5px 0; color: #495057;">${escapeHtml(address.city)}, ${escapeHtml(address.state)} ${escapeHtml(address.zip)}</p>
+          <p style="margin: 5px 0; color: #495057;">${escapeHtml(address.country)}</p>`)}
+
+        ${shipping ? `
+        <h2 style="color: #333; font-size: 20px; margin: 30px 0 15px 0;">🚚 Shipping Details</h2>
+        ${panel(`
+          ${shipping.carrier ? `<p style="margin: 5px 0; color: #495057;"><strong>Carrier:</strong> ${escapeHtml(shipping.carrier)}</p>` : ""}
+          ${shipping.shippingCost !== undefined ? `<p style="margin: 5px 0; color: #495057;"><strong>Shipping Cost:</strong> ${formatMoney(shipping.shippingCost)}</p>` : ""}
+          ${shipping.trackingNumber ? `<p style="margin: 5px 0; color: #495057;"><strong>Tracking Number:</strong> ${escapeHtml(shipping.trackingNumber)}</p>` : ""}
+          ${shipping.trackingUrl ? buttons(button(shipping.trackingUrl, "🔍 Track Your Shipment")) : ""}`)}
+        ` : callout(`
+          <strong>✓ What's Next?</strong>
+          <ul style="margin: 10px 0 0 0; padding-left: 20px;">
+            <li>We're processing your order now</li>
+            <li>You'll receive tracking details once your order ships</li>
+          </ul>`, "success")}
+
+        ${data.trackOrderUrl ? buttons(button(data.trackOrderUrl, "View Your Order")) : ""}`,
+    });
+  },
+  text: (data) => {
+    const address = data.shippingAddress;
+    const shipping = data.shippingDetails;
+    return renderTextLayout({
+      heading: "Order Confirmed!",
+      subheading: `Thank you for your order, ${data.customerName}!`,
+      lines: [
+        `Order Number: #${data.orderId}`,
+        "",
+        ...data.items.map(
+          (item) =>
+            `${item.quantity} x ${item.name} @ ${formatMoney(item.price)} = ${formatMoney(item.quantity * item.price)}`
+        ),
+        `Total: ${formatMoney(data.total)}`,
+        "",
+        "Shipping to:",
+        address.street1,
+        `${address.city}, ${address.state} ${address.zip}`,
+        address.country,
+        "",
+        shipping?.carrier && `Carrier: ${shipping.carrier}`,
+        shipping?.shippingCost !== undefined && `Shipping Cost: ${formatMoney(shipping.shippingCost)}`,
+        shipping?.trackingNumber && `Tracking Number: ${shipping.trackingNumber}`,
+        shipping?.trackingUrl && `Track your shipment: ${shipping.trackingUrl}`,
+        !shipping && "We're processing your order now. You'll receive tracking details once it ships.",
+        data.trackOrderUrl && "",
+        data.trackOrderUrl && `View your order: ${data.trackOrderUrl}`,
+      ],
+    });
+  },
+  sampleData: {
+    orderId: SAMPLE_ORDER_ID,
+    customerName: "Alex",
+    total: 33.5,
+    items: [
+      { name: "Custom Licorice 3-Pack", quantity: 1, price: 27 },
+      { name: "Strawberry Twists", quantity: 1, price: 6.5 },
+    ],
+    shippingAddress: {
+      street1: "123 Main Street",
+      city: "Los Angeles",
+      state: "CA",
+      zip: "90001",
+      country: "US",
+    },
+    trackOrderUrl: "https://licorice4good.com/track-order?token=sample",
+  },
+});
+
+const refund = defineTemplate<RefundData>({
+  description: "Full or partial refund issued against an order",
+  subject: (data) => `Refund issued - Order #${data.orderId}`,
+  html: (data) => {
+    const isFullRefund = data.refundedTotal >= data.orderTotal - 0.005;
+    return renderLayout({
+      heading: "Your refund is on its way",
+      subheading: `Hi ${data.customerName},`,
+      headerColor: HEADER_COLORS.info,
+      body: `
+        ${orderNumberBox(data.orderId)}
+        ${paragraph(`We've issued a ${isFullRefund ? "full" : "partial"} refund of <strong>${formatMoney(data.amount)}</strong> to your original payment method.`)}
+        ${data.reason ? note(`<strong>Reason:</strong> ${escapeHtml(data.reason)}`) : ""}
+        <table style="width: 100%; border-collapse: collapse; margin: 20px 0; background: white;">
+          <tr>
+            <td style="padding: 10px; border-bottom: 1px solid #e9ecef;">Order total</td>
+            <td style="padding: 10px; border-bottom: 1px solid #e9ecef; text-align: right;">${formatMoney(data.orderTotal)}</td>
+          </tr>
+          <tr style="font-weight: bold;">
+            <td style="padding: 10px;">Refunded so far</td>
+            <td style="padding: 10px; text-align: right; color: #228be6;">${formatMoney(data.refundedTotal)}</td>
+          </tr>
+        </table>
+        ${note("Refunds usually appear on your statement within 5-10 business days, depending on your bank.")}`,
+    });
+  },
+  text: (data) => {
+    const isFullRefund = data.refundedTotal >= data.orderTotal - 0.005;
+    return renderTextLayout({
+      heading: "Your refund is on its way",
+      subheading: `Hi ${data.customerName},`,
+      lines: [
+        `Order Number: #${data.orderId}`,
+        "",
+        `We've issued a ${isFullRefund ? "full" : "partial"} refund of ${formatMoney(data.amount)} to your original payment method.`,
+        data.reason && `Reason: ${data.reason}`,
+        "",
+        `Order total: ${formatMoney(data.orderTotal)}`,
+        `Refunded so far: ${formatMoney(data.refundedTotal)}`,
+        "",
+        "Refunds usually appear on your statement within 5-10 business days, depending on your bank.",
+      ],
+    });
+  },
+  sampleData: {
+    orderId: SAMPLE_ORDER_ID,
+    customerName: "Alex",
+    amount: 6.5,
+    orderTotal: 33.5,
+    refundedTotal: 6.5,
+    reason: "Strawberry Twists arrived damaged",
+  },
+});
+
+const backInStock = defineTemplate<BackInStockData>({
+  description: "Wishlisted product or flavor is available again",
+  subject: (data) => `${data.itemName} is back in stock`,
+  html: (data) =>
+    renderLayout({
+      heading: "It's back in stock!",
+      subheading: `Hi ${data.customerName},`,
+      body: `
+        ${paragraph(`Good news: <strong>${escapeHtml(data.itemName)}</strong> from your wishlist is available again. Stock can run out quickly, so grab it while you can.`)}
+        ${buttons(button(data.itemUrl, "Shop Now"))}
+        ${note("You're getting this because you asked to be told when this item was back. You can turn off alerts from your wishlist at any time.")}`,
+    }),
+  text: (data) =>
+    renderTextLayout({
+      heading: "It's back in stock!",
+      subheading: `Hi ${data.customerName},`,
+      lines: [
+        `Good news: ${data.itemName} from your wishlist is available again. Stock can run out quickly, so grab it while you can.`,
+        "",
+        `Shop now: ${data.itemUrl}`,
+        "",
+        "You're getting this because you asked to be told when this item was back. You can turn off alerts from your wishlist at any time.",
+      ],
+    }),
+  sampleData: {
+    customerName: "Alex",
+    itemName: "Blue Raspberry Ropes",
+    itemUrl: "https://licorice4good.com/products?id=sample",
+  },
+});
+
+/**
+ * Shipping updates share one body: order number, carrier message,
+ * tracking details and links
+ */
+const shippingUpdate = (content: {
+  description: string;
+  subject: (data: ShippingUpdateData) => string;
+  heading: string;
+  headerColor: string;
+  message: string;
+  sampleStatusDetails?: string;
+}) =>
+  defineTemplate<ShippingUpdateData>({
+    description: content.description,
+    subject: content.subject,
+    html: (data) =>
+      renderLayout({
+        heading: content.heading,
+        subheading: `Hi ${data.customerName},`,
+        headerColor: content.headerColor,
+        unsubscribeUrl: data.unsubscribeUrl,
+        body: `
+          ${orderNumberBox(data.orderId)}
+          ${paragraph(escapeHtml(content.message))}
+          ${data.statusDetails ? note(`<strong>Latest from the carrier:</strong> ${escapeHtml(data.statusDetails)}`) : ""}
+          ${data.trackingNumber ? panel(`
+            ${data.carrier ? `<p style="margin: 5px 0; color: #495057;"><strong>Carrier:</strong> ${escapeHtml(data.carrier)}</p>` : ""}
+            <p style="margin: 5px 0; color: #495057;"><strong>Tracking Number:</strong> ${escapeHtml(data.trackingNumber)}</p>`) : ""}
+          ${buttons(
+            data.trackingUrl ? button(data.trackingUrl, "Track Your Package") : "",
+            button(data.orderUrl, "View Order", "#495057")
+          )}`,
+      }),
+    text: (data) =>
+      renderTextLayout({
+        heading: content.heading,
+        subheading: `Hi ${data.customerName},`,
+        unsubscribeUrl: data.unsubscribeUrl,
+        lines: [
+          `Order Number: #${data.orderId}`,
+          "",
+          content.message,
+          data.statusDetails && `Latest from the carrier: ${data.statusDetails}`,
+          "",
+          data.carrier && `Carrier: ${data.carrier}`,
+          data.trackingNumber && `Tracking Number: ${data.trackingNumber}`,
+          data.trackingUrl && `Track your package: ${data.trackingUrl}`,
+          `View your order: ${data.orderUrl}`,
+        ],
+      }),
+    unsubscribeUrl: (data) => data.oneClickUnsubscribeUrl,
+    sampleData: {
+      ...SAMPLE_SHIPPING_UPDATE,
+      statusDetails: content.sampleStatusDetails ?? SAMPLE_SHIPPING_UPDATE.statusDetails,
+    },
+  });
+
+const paymentFailed = defineTemplate<PaymentFailedData>({
+  description: "Card declined for an order or checkout",
+  subject: (data) =>
+    data.orderId
+      ? `Payment failed - Order #${data.orderId}`
+      : "Your payment didn't go through",
+  html: (data) =>
+    renderLayout({
+      heading: "Your payment didn't go through",
+      subheading: `Hi ${data.customerName},`,
+      headerColor: HEADER_COLORS.danger,
+      body: `
+        ${data.orderId ? orderNumberBox(data.orderId) : ""}
+        ${paragraph(`We couldn't take your payment of <strong>${formatMoney(data.amount)}</strong>, ${data.orderId ? "so we can't ship your order until it's paid" : "so your order hasn't been placed yet"}. You haven't been charged.`)}
+        ${data.failureReason ? note(`<strong>Reason:</strong> ${escapeHtml(data.failureReason)}`) : ""}
+        ${buttons(button(data.retryUrl, "Try Again"))}`,
+    }),
+  text: (data) =>
+    renderTextLayout({
+      heading: "Your payment didn't go through",
+      subheading: `Hi ${data.customerName},`,
+      lines: [
+        data.orderId && `Order Number: #${data.orderId}`,
+        data.orderId && "",
+        `We couldn't take your payment of ${formatMoney(data.amount)}, ${data.orderId ? "so we can't ship your order until it's paid" : "so your order hasn't been placed yet"}. You haven't been charged.`,
+        data.failureReason && `Reason: ${data.failureReason}`,
+        "",
+        `Try again: ${data.retryUrl}`,
+      ],
+    }),
+  sampleData: {
+    customerName: "Alex",
+    amount: 33.5,
+    orderId: SAMPLE_ORDER_ID,
+    failureReason: "Your card was declined.",
+    retryUrl: "https://licorice4good.com/track-order?token=sample",
+  },
+});
+
+const renewalPayment = defineTemplate<RenewalPaymentData>({
+  description: "Subscription renewal order placed and waiting for payment",
+  subject: (data) => `Your subscription box is ready to pay for - #${data.orderId}`,
+  html: (data) =>
+    renderLayout({
+      heading: "Your next box is ready",
+      subheading: `Hi ${data.customerName},`,
+      headerColor: HEADER_COLORS.brand,
+      body: `
+        ${orderNumberBox(data.orderId)}
+        ${paragraph(`We've put together your next subscription box. Pay <strong>${formatMoney(data.amount)}</strong> and we'll ship it straight away.`)}
+        ${buttons(button(data.payUrl, "Pay Now"))}`,
+    }),
+  text: (data) =>
+    renderTextLayout({
+      heading: "Your next box is ready",
+      subheading: `Hi ${data.customerName},`,
+      lines: [
+        `Order Number: #${data.orderId}`,
+        "",
+        `We've put together your next subscription box. Pay ${formatMoney(data.amount)} and we'll ship it straight away.`,
+        "",
+        `Pay now: ${data.payUrl}`,
+      ],
+    }),
+  sampleData: {
+    orderId: SAMPLE_ORDER_ID,
+    customerName: "Alex",
+    amount: 29.97,
+    payUrl: "https://licorice4good.com/track-order?token=sample",
+  },
+});
+
+export const EMAIL_TEMPLATES = {
+  "password-reset": passwordReset,
+  "email-verification": emailVerification,
+  "order-confirmation": orderConfirmation,
+  refund,
+  "back-in-stock": backInStock,
+  shipped: shippingUpdate({
+    description: "Order has left us and is with the carrier",
+    subject: (data) => `Your order has shipped - #${data.orderId}`,
+    heading: "📦 Your order has shipped!",
+    headerColor: HEADER_COLORS.brand,
+    message: "Your licorice is on its way. You can follow it with the tracking link below.",
+    sampleStatusDetails: "Shipping label created, USPS awaiting item",
+  }),
+  "out-for-delivery": shippingUpdate({
+    description: "Carrier has the parcel on a delivery vehicle today",
+    subject: (data) => `Out for delivery today - Order #${data.orderId}`,
+    heading: "🚚 Out for delivery",
+    headerColor: HEADER_COLORS.warning,
+    message: "Your package is out for delivery and should arrive today.",
+    sampleStatusDetails: "Out for Delivery, Expected Delivery by 8:00pm",
+  }),
+  delivered: shippingUpdate({
+    description: "Carrier reports the parcel delivered",
+    subject: (data) => `Delivered - Order #${data.orderId}`,
+    heading: "🎉 Delivered!",
+    headerColor: HEADER_COLORS.success,
+    message: "Your package has been delivered. Enjoy! Once you've tried everything, we'd love a review.",
+    sampleStatusDetails: "Delivered, In/At Mailbox",
+  }),
+  "delivery-exception": shippingUpdate({
+    description: "Carrier reports a failed delivery, a return or another problem",
+    subject: (data) => `Problem delivering your order - #${data.orderId}`,
+    heading: "⚠️ Delivery problem",
+    headerColor: HEADER_COLORS.danger,
+    message: "The carrier ran into a problem delivering your package. Check the tracking details below, and contact us if you need help getting it to you.",
+    sampleStatusDetails: "Delivery Attempted - No Access to Delivery Location",
+  }),
+  "payment-failed": paymentFailed,
+  "renewal-payment": renewalPayment,
+};
+
+export type EmailTemplateName = keyof typeof EMAIL_TEMPLATES;
+
+export type EmailTemplateData<N extends EmailTemplateName> =
+  (typeof EMAIL_TEMPLATES)[N] extends EmailTemplate<infer T> ? T : never;
+
+export const isSensitiveEmailTemplate = (name: string) =>
+  isEmailTemplateName(name) &&
+  !!(EMAIL_TEMPLATES[name] as EmailTemplate<unknown>).sensitive;
+
+export const isEmailTemplateName = (value: unknown): value is EmailTemplateName =>
+  typeof value === "string" &&
+  Object.prototype.hasOwnProperty.call(EMAIL_TEMPLATES, value);
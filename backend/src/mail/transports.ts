@@ -0,0 +1,170 @@
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  bcc?: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+}
+
+export interface MailDelivery {
+  transport: string;
+  messageId: string | null;
+  previewUrl?: string | null; // Ethereal web view or outbox file path
+}
+
+export interface MailTransport {
+  name: string;
+  /**
+   * @throws When the message could not be handed over
+   */
+  send: (message: MailMessage) => Promise<MailDelivery>;
+}
+
+export const MAIL_TRANSPORT_NAMES = ["smtp", "ethereal", "file"] as const;
+
+export type MailTransportName = (typeof MAIL_TRANSPORT_NAMES)[number];
+
+const isMailTransportName = (value: unknown): value is MailTransportName =>
+  MAIL_TRANSPORT_NAMES.includes(value as MailTransportName);
+
+/**
+ * SMTP_HOST when set, otherwise Gmail, authenticated with
+ * EMAIL_USER/EMAIL_PASS
+ */
+export const createSmtpTransport = (): MailTransport => {
+  const auth = { user: process.env.EMAIL_USER, pass: process.env.EMAIL_PASS };
+  const transporter = process.env.SMTP_HOST
+    ? nodemailer.createTransport({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        secure: process.env.SMTP_SECURE === "true",
+        auth,
+      })
+    : nodemailer.createTransport({ service: "gmail", auth });
+
+  return {
+    name: "smtp",
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      return { transport: "smtp", messageId: info.messageId || null };
+    },
+  };
+};
+
+/**
+ * Fake SMTP inbox for development; every message gets a web preview link
+ */
+export const createEtherealTransport = (): MailTransport => {
+  let transporter: Promise<nodemailer.Transporter> | null = null;
+
+  // One test account per process rather than one per email
+  const getTransporter = () => {
+    if (!transporter) {
+      transporter = nodemailer
+        .createTestAccount()
+        .then((account) =>
+          nodemailer.createTransport({
+            host: account.smtp.host,
+            port: account.smtp.port,
+            secure: account.smtp.secure,
+            auth: { user: account.user, pass: account.pass },
+          })
+        )
+        .catch((err) => {
+          transporter = null;
+          throw err;
+        });
+    }
+    return transporter;
+  };
+
+  return {
+    name: "ethereal",
+    send: async (message) => {
+      const info = await (await getTransporter()).sendMail(message);
+      return {
+        transport: "ethereal",
+        messageId: info.messageId || null,
+        previewUrl: nodemailer.getTestMessageUrl(info) || null,
+      };
+    },
+  };
+};
+
+/**
+ * Writes each message to a directory as a .eml file plus a .json copy
+ * that is easy to assert on, instead of sending it
+ */
+export const createFileTransport = (directory: string): MailTransport => {
+  const transporter = nodemailer.createTransport({
+    streamTransport: true,
+    buffer: true,
+    newline: "unix",
+  });
+
+  return {
+    name: "file",
+    send: async (message) => {
+      const info = await transporter.sendMail(message);
+      const slug = message.to.replace(/[^a-z0-9]+/gi, "_").slice(0, 40);
+      const basename = `${Date.now()}-${slug}`;
+
+      await fs.mkdir(directory, { recursive: true });
+      const emlPath = path.join(directory, `${basename}.eml`);
+      await fs.writeFile(emlPath, info.message as Buffer);
+      await fs.writeFile(
+        path.join(directory, `${basename}.json`),
+        JSON.stringify({ ...message, messageId: info.messageId, createdAt: new Date() }, null, 2)
+      );
+
+      return { transport: "file", messageId: info.messageId || null, previewUrl: emlPath };
+    },
+  };
+};
+
+/**
+ * Which transport this environment uses: MAIL_TRANSPORT if set, otherwise
+ * SMTP when credentials exist and Ethereal when they don't
+ */
+export const getMailTransportName = (): MailTransportName => {
+  const configured = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (isMailTransportName(configured)) return configured;
+  if (configured) {
+    console.warn(`⚠️  Unknown MAIL_TRANSPORT "${configured}", using the default`);
+  }
+  return process.env.EMAIL_USER && process.env.EMAIL_PASS ? "smtp" : "ethereal";
+};
+
+let activeTransport: MailTransport | null = null;
+
+export const getMailTransport = (): MailTransport => {
+  if (activeTransport) return activeTransport;
+
+  const name = getMailTransportName();
+  if (name === "ethereal") {
+    console.warn("⚠️  Email credentials not configured. Using Ethereal email for development.");
+    console.warn("📧 To enable real email functionality, add EMAIL_USER and EMAIL_PASS to your .env file");
+  }
+
+  activeTransport =
+    name === "smtp"
+      ? createSmtpTransport()
+      : name === "file"
+        ? createFileTransport(path.resolve(process.env.MAIL_OUTBOX_DIR || "mail-outbox"))
+        : createEtherealTransport();
+  return activeTransport;
+};
+
+/**
+ * Swap the transport, e.g. for a file transport in tests; null goes back
+ * to the environment's default
+ */
+export const setMailTransport = (transport: MailTransport | null) => {
+  activeTransport = transport;
+};
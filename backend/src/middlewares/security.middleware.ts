@@ -55,6 +55,13 @@ export const meRateLimit = createRateLimit(
   "Too many requests to user profile, please try again later."
 );
 
+// Order lookups take an email, so limit guessing
+export const orderLookupRateLimit = createRateLimit(
+  15 * 60 * 1000, // 15 minutes
+  20, // 20 lookups per window
+  "Too many order lookups, please try again later."
+);
+
 // Helmet configuration
 export const helmetConfig = helmet({
   contentSecurityPolicy: {
@@ -12,8 +12,72 @@ import {
   deleteCategory,
   updateFlavorInventory,
   getInventoryAlerts,
+  getStockMovements,
   getSystemConfig,
 } from "../controller/adminController";
+import {
+  getAllPromotions,
+  createPromotion,
+  updatePromotion,
+  deletePromotion,
+} from "../controller/promotionController";
+import {
+  getAllCampaigns,
+  createCampaign,
+  updateCampaign,
+  createSeller,
+  updateSeller,
+  deleteSeller,
+  getFundraisingPayouts,
+} from "../controller/fundraisingController";
+import { getUpcomingRenewals } from "../controller/subscriptionController";
+import {
+  createPackDefinition,
+  getAllPackDefinitions,
+  updatePackDefinition,
+} from "../controller/packDefinitionController";
+import {
+  getFraudRules,
+  createFraudRule,
+  updateFraudRule,
+  deleteFraudRule,
+  updateFraudSettings,
+  dryRunFraudRules,
+} from "../controller/fraudRuleController";
+import {
+  getAllReviews,
+  moderateReviewById,
+  deleteReviewById,
+} from "../controller/reviewController";
+import {
+  getEmailTemplates,
+  previewEmailTemplate,
+} from "../controller/emailTemplateController";
+import {
+  getOutboundEmails,
+  getOutboundEmailById,
+  resendOutboundEmailById,
+} from "../controller/emailOutboxController";
+import {
+  getShippingBoxes,
+  createShippingBox,
+  updateShippingBox,
+  deleteShippingBox,
+} from "../controller/shippingBoxController";
+import {
+  getShippingLocations,
+  createShippingLocation,
+  updateShippingLocation,
+  deleteShippingLocation,
+  getLocationInventory,
+  updateLocationInventory,
+} from "../controller/shippingLocationController";
+import {
+  getShippingRules,
+  createShippingRule,
+  updateShippingRule,
+  deleteShippingRule,
+} from "../controller/shippingRuleController";
 import { protect } from "../middlewares/auth.middleware";
 import { adminOnly } from "../middlewares/admin.middleware";
 import {
@@ -44,6 +108,70 @@ router.delete("/categories/:id", deleteCategory);
 // ==================== INVENTORY MANAGEMENT ====================
 router.put("/inventory/:id", updateFlavorInventory);
 router.get("/inventory/alerts", getInventoryAlerts);
+router.get("/inventory/movements", getStockMovements);
+
+// ==================== PROMOTIONS ====================
+router.get("/promotions", getAllPromotions);
+router.post("/promotions", createPromotion);
+router.put("/promotions/:id", updatePromotion);
+router.delete("/promotions/:id", deletePromotion);
+
+// ==================== FUNDRAISING ====================
+router.get("/fundraising/campaigns", getAllCampaigns);
+router.post("/fundraising/campaigns", createCampaign);
+router.put("/fundraising/campaigns/:id", updateCampaign);
+router.post("/fundraising/campaigns/:id/sellers", createSeller);
+router.put("/fundraising/sellers/:id", updateSeller);
+router.delete("/fundraising/sellers/:id", deleteSeller);
+router.get("/fundraising/payouts", getFundraisingPayouts);
+
+// ==================== SUBSCRIPTIONS ====================
+router.get("/subscriptions/upcoming", getUpcomingRenewals);
+
+// ==================== PACKS ====================
+router.get("/packs", getAllPackDefinitions);
+router.post("/packs", createPackDefinition);
+router.put("/packs/:id", updatePackDefinition);
+
+// ==================== FRAUD RULES ====================
+router.get("/fraud-rules", getFraudRules);
+router.post("/fraud-rules", createFraudRule);
+router.post("/fraud-rules/dry-run", dryRunFraudRules);
+router.put("/fraud-rules/:id", updateFraudRule);
+router.delete("/fraud-rules/:id", deleteFraudRule);
+router.put("/fraud-settings", updateFraudSettings);
+
+// ==================== REVIEWS ====================
+router.get("/reviews", getAllReviews);
+router.put("/reviews/:id", moderateReviewById);
+router.delete("/reviews/:id", deleteReviewById);
+
+// ==================== EMAILS ====================
+router.get("/email-templates", getEmailTemplates);
+router.get("/email-templates/:name/preview", previewEmailTemplate);
+router.get("/emails", getOutboundEmails);
+router.get("/emails/:id", getOutboundEmailById);
+router.post("/emails/:id/resend", resendOutboundEmailById);
+
+// ==================== SHIPPING BOXES ====================
+router.get("/shipping-boxes", getShippingBoxes);
+router.post("/shipping-boxes", createShippingBox);
+router.put("/shipping-boxes/:id", updateShippingBox);
+router.delete("/shipping-boxes/:id", deleteShippingBox);
+
+// ==================== SHIPPING LOCATIONS ====================
+router.get("/shipping-locations", getShippingLocations);
+router.post("/shipping-locations", createShippingLocation);
+router.put("/shipping-locations/:id", updateShippingLocation);
+router.delete("/shipping-locations/:id", deleteShippingLocation);
+router.get("/shipping-locations/:id/inventory", getLocationInventory);
+router.put("/shipping-locations/:id/inventory/:flavorId", updateLocationInventory);
+
+// ==================== SHIPPING RULES ====================
+router.get("/shipping-rules", getShippingRules);
+router.post("/shipping-rules", createShippingRule);
+router.put("/shipping-rules/:id", updateShippingRule);
+router.delete("/shipping-rules/:id", deleteShippingRule);
 
 // ==================== SYSTEM CONFIGURATION ====================
 router.get("/config", getSystemConfig);
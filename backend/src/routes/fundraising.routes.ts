@@ -0,0 +1,15 @@
+import express from "express";
+import {
+  getCampaign,
+  getCampaignSeller,
+  getCampaignLeaderboard,
+} from "../controller/fundraisingController";
+
+const router = express.Router();
+
+// Public storefront data for /fundraise/:campaignSlug/:sellerCode links
+router.get("/campaigns/:slug", getCampaign);
+router.get("/campaigns/:slug/leaderboard", getCampaignLeaderboard);
+router.get("/campaigns/:slug/sellers/:code", getCampaignSeller);
+
+export default router;
@@ -20,7 +20,7 @@ router.get("/alerts", getLowStockAlerts); // Get low stock alerts
 router.get("/:flavorId", getFlavorInventory); // Get specific flavor inventory
 
 // Admin-only inventory routes
-router.put("/:flavorId", adminOnly, updateInventory); // Update specific flavor inventory
 router.put("/bulk", adminOnly, bulkUpdateInventory); // Bulk update inventory
+router.put("/:flavorId", adminOnly, updateInventory); // Update specific flavor inventory
 
 export default router;
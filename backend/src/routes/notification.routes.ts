@@ -0,0 +1,18 @@
+import express from "express";
+import {
+  getPreferences,
+  updatePreferences,
+  unsubscribe,
+} from "../controller/notificationController";
+import { protect } from "../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Public route for unsubscribe links (and one-click List-Unsubscribe)
+router.post("/unsubscribe", unsubscribe);
+
+// Customer routes
+router.get("/preferences", protect, getPreferences);
+router.put("/preferences", protect, updatePreferences);
+
+export default router;
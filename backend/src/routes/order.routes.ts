@@ -3,13 +3,28 @@ import {
   createOrder,
   getUserOrders,
   getOrderById,
+  lookupOrder,
+  getOrderTrackingTimeline,
   updateOrderStatus,
   getAllOrders,
   bulkUpdateOrders,
   bulkDeleteOrders,
+  getOrderRefunds,
+  refundOrder,
 } from "../controller/orderController";
+import {
+  getReviewQueue,
+  approveOrderReview,
+  rejectOrderReview,
+} from "../controller/orderReviewController";
+import {
+  purchaseBatchLabels,
+  downloadBatchLabels,
+  downloadPackingSlips,
+} from "../controller/fulfillmentController";
 import { protect, optionalAuth } from "../middlewares/auth.middleware";
 import { adminOnly } from "../middlewares/admin.middleware";
+import { orderLookupRateLimit } from "../middlewares/security.middleware";
 
 const router = express.Router();
 
@@ -19,13 +34,29 @@ router.post("/", optionalAuth, createOrder);
 // Get user's orders (requires authentication)
 router.get("/", protect, getUserOrders);
 
-// Track order by ID (public - no authentication required)
-router.get("/:id", getOrderById);
+// Track order by number + email or a tracking token (public, redacted for guests)
+router.post("/lookup", orderLookupRateLimit, optionalAuth, lookupOrder);
+
+// Full order for its customer, the guest session that placed it, or an admin
+router.get("/:id", optionalAuth, getOrderById);
+router.get("/:id/tracking", optionalAuth, getOrderTrackingTimeline);
 
 // Admin routes (admin role required)
 router.put("/:id/status", protect, adminOnly, updateOrderStatus);
+router.get("/:id/refunds", protect, adminOnly, getOrderRefunds);
+router.post("/:id/refunds", protect, adminOnly, refundOrder);
 router.get("/admin/all", protect, adminOnly, getAllOrders);
 router.put("/admin/bulk-update", protect, adminOnly, bulkUpdateOrders);
 router.delete("/admin/bulk-delete", protect, adminOnly, bulkDeleteOrders);
 
+// Fraud review queue (admin role required)
+router.get("/admin/review", protect, adminOnly, getReviewQueue);
+router.post("/:id/review/approve", protect, adminOnly, approveOrderReview);
+router.post("/:id/review/reject", protect, adminOnly, rejectOrderReview);
+
+// Batch fulfillment: labels, merged label PDF and packing slips (admin role required)
+router.post("/admin/fulfillment/labels", protect, adminOnly, purchaseBatchLabels);
+router.post("/admin/fulfillment/labels/pdf", protect, adminOnly, downloadBatchLabels);
+router.post("/admin/fulfillment/packing-slips", protect, adminOnly, downloadPackingSlips);
+
 export default router;
@@ -2,16 +2,135 @@ import express from "express";
 import Stripe from "stripe";
 import { PrismaClient } from "../generated/prisma";
 import { sendOrderConfirmationEmail } from "../utils/mailer";
+import {
+  getOrderTrackingUrl,
+  verifyOrderTrackingToken,
+} from "../services/orderLookupService";
+import { notifyPaymentFailed } from "../services/notificationService";
+import { applyStockMovement } from "../services/stockMovementService";
+import {
+  attachCheckoutSession,
+  completeCheckoutIntent,
+  createCheckoutIntent,
+  expireCheckoutIntent,
+  getCheckoutDraft,
+} from "../services/checkoutIntentService";
+import {
+  claimStripeEvent,
+  claimStripeEventForReplay,
+  recordStripeEventOutcome,
+} from "../services/stripeEventService";
+import {
+  priceOrder,
+  StoredOrderCharges,
+  toOrderStripeLineItems,
+  toStripeLineItems,
+} from "../services/pricingService";
+import { redeemPromotion } from "../services/promotionService";
+import { resolveFundraisingAttribution } from "../services/fundraisingService";
+import { protect } from "../middlewares/auth.middleware";
+import { CustomError } from "../middlewares/error.middleware";
+import { adminOnly } from "../middlewares/admin.middleware";
+import { getStripe } from "../config/stripe";
+import { syncChargeRefunds, syncStripeRefund } from "../services/refundService";
+import { orderVerificationService } from "../services/orderVerificationService";
+import { getOrderParcels } from "../services/parcelPackingService";
+import {
+  DUTIES_NOTICE,
+  HOME_COUNTRY,
+  SHIPPING_COUNTRIES,
+} from "../services/customsService";
+import {
+  assignFulfillmentLocation,
+  getOrderShipFromAddress,
+} from "../services/shippingLocationService";
+import {
+  selectLabelRate,
+  toShippingDestination,
+} from "../services/shippingRuleService";
 
 const router = express.Router();
 const prisma = new PrismaClient();
 
-// Lazy Stripe init to allow running without keys in dev/demo
-function getStripe(): Stripe | null {
-  const key = process.env.STRIPE_SECRET_KEY;
-  if (!key) return null;
-  return new Stripe(key, { apiVersion: "2024-06-20" } as any);
-}
+// Promotions reach Stripe as a single-use coupon for the discount amount
+const createDiscountCoupon = async (
+  stripe: Stripe,
+  discount: number,
+  name: string
+) => {
+  if (discount <= 0) return undefined;
+  const coupon = await stripe.coupons.create({
+    amount_off: Math.round(discount * 100),
+    currency: "usd",
+    duration: "once",
+    max_redemptions: 1,
+    name: name || "Discount",
+  });
+  return [{ coupon: coupon.id }];
+};
+
+/**
+ * Checkout session that pays for an order placed earlier: a failed payment
+ * being retried, or an order placed unpaid such as a subscription renewal.
+ * It charges what the order stored, the same way create-checkout-session
+ * does for an existing order, so its discount still applies.
+ */
+const createOrderPaymentSession = async (
+  stripe: Stripe,
+  order: StoredOrderCharges & {
+    id: string;
+    shippingAddress: unknown;
+    discountTotal: number;
+    promotionCode: string | null;
+  },
+  urls: { successUrl?: string; cancelUrl?: string } = {}
+) => {
+  const line_items = toOrderStripeLineItems(order);
+  const destination = toShippingDestination(order.shippingAddress);
+  const isInternational =
+    !!destination?.country && destination.country !== HOME_COUNTRY;
+  const discounts = await createDiscountCoupon(
+    stripe,
+    order.discountTotal,
+    order.promotionCode || "Discount"
+  );
+
+  return stripe.checkout.sessions.create({
+    mode: "payment",
+    line_items,
+    discounts,
+    success_url:
+      urls.successUrl ||
+      `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
+    cancel_url: urls.cancelUrl || `${process.env.CLIENT_URL}/profile`,
+    metadata: {
+      orderId: order.id,
+      isRetry: "true",
+    },
+    billing_address_collection: "required",
+    shipping_address_collection: {
+      allowed_countries: [...SHIPPING_COUNTRIES],
+    },
+    // Duties only apply abroad; orders without an address yet may be going there
+    ...(isInternational
+      ? { custom_text: { submit: { message: DUTIES_NOTICE } } }
+      : destination
+        ? {}
+        : { custom_text: { shipping_address: { message: DUTIES_NOTICE } } }),
+    shipping_options: [
+      {
+        shipping_rate_data: {
+          display_name: "Standard Shipping",
+          type: "fixed_amount",
+          fixed_amount: { amount: 0, currency: "usd" },
+        },
+      },
+    ],
+    phone_number_collection: {
+      enabled: true,
+    },
+  });
+};
 
 router.post("/create-checkout-session", async (req, res) => {
   try {
@@ -20,78 +139,70 @@ router.post("/create-checkout-session", async (req, res) => {
       return res.status(503).json({ message: "Stripe not configured" });
     }
 
-    const { orderId, orderData, items, successUrl, cancelUrl, selectedShippingRate } = req.body || {};
-    if (!Array.isArray(items) || items.length === 0) {
-      return res.status(400).json({ message: "No items provided" });
-    }
-
-    const line_items = items.map((it: any) => ({
-      price_data: {
-        currency: "usd",
-        product_data: { name: String(it.productName || it.name || "Item") },
-        unit_amount: Math.max(0, Math.round(Number(it.price || 0) * 100)),
-      },
-      quantity: Math.max(1, Number(it.quantity || 1)),
-    }));
+    const { orderId, orderData, successUrl, cancelUrl, selectedShippingRate, promotionCode, fundraiser } = req.body || {};
 
-    // Store order data in Stripe metadata for webhook processing
+    // Line items and totals come from server-side prices, never from the browser
     // NO order created in database until successful payment
     const metadata: any = {};
+    let checkoutIntent = null;
+    let line_items;
+    let discount = 0;
+    let discountName = "";
     
     if (orderId) {
-      // Existing order (retry payment)
-      metadata.orderId = String(orderId);
+      // Existing order (retry payment) - charge what was stored on the order
+      const existingOrder = await prisma.order.findUnique({
+        where: { id: String(orderId) },
+        include: { orderItems: { include: { product: { select: { name: true } } } } },
+      });
+      if (!existingOrder) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+
+      line_items = toOrderStripeLineItems(existingOrder);
+      metadata.orderId = existingOrder.id;
+      discount = existingOrder.discountTotal;
+      discountName = existingOrder.promotionCode || "Discount";
     } else if (orderData) {
-      // New order - store compressed data in metadata
+      // New order - price it server-side and save the draft as a checkout intent
       // We'll create the order ONLY after successful payment in webhook
-      const compressedData: any = {
-        total: orderData.total,
-        notes: orderData.orderNotes,
-        items: orderData.orderItems.map((item: any) => ({
-          pid: item.productId,
-          qty: item.quantity,
-          price: item.price,
-          total: item.total,
-          flavors: item.flavorIds || [],
-          custom: item.customPackName || null,
-        })),
-      };
-      
-      // Only include shipping address if provided (not for guest checkout where Stripe collects it)
-      if (orderData.shippingAddress && orderData.shippingAddress.name) {
-        compressedData.address = {
-          name: orderData.shippingAddress.name,
-          email: orderData.shippingAddress.email,
-          phone: orderData.shippingAddress.phone,
-          street: orderData.shippingAddress.street,
-          city: orderData.shippingAddress.city,
-          state: orderData.shippingAddress.state,
-          zip: orderData.shippingAddress.zipCode,
-          country: orderData.shippingAddress.country,
-      };
-      }
-      
-      // Include selected shipping rate if provided (pre-calculated on frontend)
-      if (selectedShippingRate) {
-        compressedData.shippingRate = {
-          objectId: selectedShippingRate.objectId,
-          carrier: selectedShippingRate.carrier,
-          amount: selectedShippingRate.amount,
-          serviceName: selectedShippingRate.serviceName,
-        };
+      if (!Array.isArray(orderData.orderItems) || orderData.orderItems.length === 0) {
+        return res.status(400).json({ message: "No items provided" });
       }
-      
-      const dataString = JSON.stringify(compressedData);
-      if (dataString.length > 500) {
-        return res.status(400).json({ message: "Order data too large for Stripe metadata" });
-      }
-      
-      metadata.orderData = dataString;
+
+      const pricedOrder = await priceOrder(
+        orderData.orderItems,
+        selectedShippingRate || orderData.selectedShippingRate,
+        orderData.total,
+        promotionCode || orderData.promotionCode,
+        toShippingDestination(orderData.shippingAddress)
+      );
+      line_items = toStripeLineItems(pricedOrder);
+      discount = pricedOrder.discount;
+      discountName = pricedOrder.promotion?.code || "";
+
+      const fundraising = await resolveFundraisingAttribution(
+        fundraiser || orderData.fundraiser
+      );
+
+      checkoutIntent = await createCheckoutIntent(
+        pricedOrder,
+        orderData,
+        fundraising,
+        req.ip || null
+      );
+      metadata.checkoutIntentId = checkoutIntent.id;
+    } else {
+      return res.status(400).json({ message: "Order data is required" });
     }
 
-    // Check if shipping address is provided in metadata (pre-collected on frontend)
-    const hasPreCollectedAddress = metadata.orderData && 
-      JSON.parse(metadata.orderData || "{}").address;
+    // Check if shipping address was pre-collected on frontend
+    const hasPreCollectedAddress = !!checkoutIntent?.shippingAddress;
+    const destination = toShippingDestination(checkoutIntent?.shippingAddress);
+    const isInternational =
+      !!destination?.country && destination.country !== HOME_COUNTRY;
+
+    const discounts = await createDiscountCoupon(stripe, discount, discountName);
 
     const session = await stripe.checkout.sessions.create({
       mode: "payment",
@@ -101,21 +212,35 @@ router.post("/create-checkout-session", async (req, res) => {
         `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
       cancel_url: cancelUrl || `${process.env.CLIENT_URL}/cart`,
       metadata,
+      discounts,
       billing_address_collection: "required",
       // Only collect shipping address if not pre-collected on frontend
       ...(hasPreCollectedAddress ? {} : {
       shipping_address_collection: {
-          allowed_countries: ["US", "CA", "GB", "AU"],
+          allowed_countries: [...SHIPPING_COUNTRIES],
         },
         phone_number_collection: {
           enabled: true,
         },
       }),
+      // Duties aren't part of the total; say so wherever the address is known
+      ...(isInternational
+        ? { custom_text: { submit: { message: DUTIES_NOTICE } } }
+        : hasPreCollectedAddress
+          ? {}
+          : { custom_text: { shipping_address: { message: DUTIES_NOTICE } } }),
       // No shipping options - shipping is included as a line item
     });
 
+    if (checkoutIntent) {
+      await attachCheckoutSession(checkoutIntent.id, session.id);
+    }
+
     return res.json({ url: session.url });
   } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
     console.error("Stripe session error:", err);
     return res
       .status(500)
@@ -139,7 +264,7 @@ router.post("/retry-payment", async (req, res) => {
     const order = await prisma.order.findUnique({
       where: { id: orderId },
       include: {
-        orderItems: true,
+        orderItems: { include: { product: { select: { name: true } } } },
       },
     });
 
@@ -155,49 +280,9 @@ router.post("/retry-payment", async (req, res) => {
       });
     }
 
-    // Convert order items to Stripe line items
-    const line_items = order.orderItems.map((item: any) => ({
-      price_data: {
-        currency: "usd",
-        product_data: {
-          name: String(item.productName || item.productId || "Item"),
-          description: item.isCustomPack
-            ? `Custom 3-Pack: ${item.flavorIds?.join(", ") || "Custom flavors"}`
-            : undefined,
-        },
-        unit_amount: Math.max(0, Math.round(Number(item.price || 0) * 100)),
-      },
-      quantity: Math.max(1, Number(item.quantity || 1)),
-    }));
-
-    // Create new Stripe checkout session
-    const session = await stripe.checkout.sessions.create({
-      mode: "payment",
-      line_items,
-      success_url:
-        successUrl ||
-        `${process.env.CLIENT_URL}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
-      cancel_url: cancelUrl || `${process.env.CLIENT_URL}/profile`,
-      metadata: {
-        orderId: String(orderId),
-        isRetry: "true",
-      },
-      billing_address_collection: "required",
-      shipping_address_collection: {
-        allowed_countries: ["US", "CA", "GB", "AU"],
-      },
-      shipping_options: [
-        {
-          shipping_rate_data: {
-            display_name: "Standard Shipping",
-            type: "fixed_amount",
-            fixed_amount: { amount: 0, currency: "usd" },
-          },
-        },
-      ],
-      phone_number_collection: {
-        enabled: true,
-      },
+    const session = await createOrderPaymentSession(stripe, order, {
+      successUrl,
+      cancelUrl,
     });
 
     // Update order status to pending while payment is being retried
@@ -218,6 +303,59 @@ router.post("/retry-payment", async (req, res) => {
   }
 });
 
+// Pay for an unpaid order from an emailed order link, without logging in
+router.post("/pay-order", async (req, res) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const { token } = req.body || {};
+    if (!token) {
+      return res.status(400).json({ message: "Order link token is required" });
+    }
+
+    const orderId = verifyOrderTrackingToken(String(token));
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: {
+        orderItems: { include: { product: { select: { name: true } } } },
+      },
+    });
+    if (!order) {
+      return res.status(404).json({ message: "Order not found" });
+    }
+
+    if (order.paymentStatus === "paid") {
+      return res.status(400).json({ message: "This order has already been paid" });
+    }
+    if (
+      !["pending", "failed"].includes(order.paymentStatus) ||
+      order.status === "cancelled"
+    ) {
+      return res.status(400).json({
+        message: "This order can no longer be paid for",
+        currentStatus: order.paymentStatus,
+      });
+    }
+
+    const session = await createOrderPaymentSession(stripe, order, {
+      cancelUrl: getOrderTrackingUrl(order.id),
+    });
+
+    return res.json({ url: session.url });
+  } catch (err) {
+    if (err instanceof CustomError) {
+      return res.status(err.statusCode).json({ message: err.message });
+    }
+    console.error("Order payment error:", err);
+    return res
+      .status(500)
+      .json({ message: "Failed to create payment session" });
+  }
+});
+
 // Verify payment status for stuck payments
 router.post("/verify-payment-status", async (req, res) => {
   try {
@@ -314,83 +452,19 @@ router.post("/verify-payment-status", async (req, res) => {
   }
 });
 
-// Stripe webhook handler
-router.post("/webhook", async (req, res) => {
-  const webhookStartTime = Date.now();
-  console.log("🔔 Webhook received:", {
-    timestamp: new Date().toISOString(),
-    headers: {
-      "stripe-signature": req.headers["stripe-signature"] ? "present" : "missing",
-      "content-type": req.headers["content-type"],
-      "user-agent": req.headers["user-agent"],
-    },
-    bodySize: req.body ? Buffer.byteLength(req.body) : 0,
-    ip: req.ip,
-    method: req.method,
-    url: req.originalUrl,
-  });
-
-  const stripe = getStripe();
-  if (!stripe) {
-    console.error("❌ Stripe not configured");
-    return res.status(503).send("Stripe not configured");
-  }
-
-  const sig = req.headers["stripe-signature"] as string | undefined;
-  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-  
-  console.log("🔐 Webhook security check:", {
-    hasSignature: !!sig,
-    hasSecret: !!webhookSecret,
-    secretLength: webhookSecret ? webhookSecret.length : 0,
-    secretPrefix: webhookSecret ? webhookSecret.substring(0, 10) + "..." : "none",
-  });
-  
-  if (!sig || !webhookSecret) {
-    console.error("❌ Missing webhook signature or secret", {
-      hasSignature: !!sig,
-      hasSecret: !!webhookSecret,
-    });
-    return res.status(400).send("Missing webhook signature or secret");
-  }
-
-  let event: Stripe.Event;
-  try {
-    console.log("🔍 Verifying webhook signature...");
-    event = stripe.webhooks.constructEvent(
-      req.body,
-      sig,
-      webhookSecret
-    );
-    console.log("✅ Webhook event verified successfully:", {
-      type: event.type,
-      id: event.id,
-      created: new Date(event.created * 1000).toISOString(),
-      livemode: event.livemode,
-      apiVersion: event.api_version,
-    });
-  } catch (err: any) {
-    console.error("❌ Webhook signature verification failed:", {
-      error: err.message,
-      type: err.type,
-      detail: err.detail,
-      headers: err.headers,
-      requestId: err.requestId,
-      statusCode: err.statusCode,
-      userMessage: err.userMessage,
-      charge: err.charge,
-      decline_code: err.decline_code,
-      payment_intent: err.payment_intent,
-      payment_method: err.payment_method,
-      payment_method_type: err.payment_method_type,
-      setup_intent: err.setup_intent,
-      source: err.source,
-      header: sig,
-      payload: req.body?.toString()
-    });
-    return res.status(400).send("Webhook Error");
-  }
+interface WebhookResult {
+  status: number;
+  body: any;
+  error?: string;
+}
 
+// Process a verified Stripe event. Returns the reply instead of sending it
+// so live deliveries and admin replays share the same handling.
+const handleStripeEvent = async (
+  stripe: Stripe,
+  event: Stripe.Event,
+  webhookStartTime: number
+): Promise<WebhookResult> => {
   try {
     console.log(`🎯 Processing webhook event: ${event.type}`);
     
@@ -405,6 +479,11 @@ router.post("/webhook", async (req, res) => {
       
       const orderId = fullSession.metadata?.orderId;
       const isRetry = fullSession.metadata?.isRetry === "true";
+      // Kept on the order so it can be refunded later
+      const paymentIntentId =
+        typeof fullSession.payment_intent === "string"
+          ? fullSession.payment_intent
+          : fullSession.payment_intent?.id;
 
       console.log("💳 Processing checkout.session.completed:", {
         sessionId: fullSession.id,
@@ -414,7 +493,7 @@ router.post("/webhook", async (req, res) => {
         amountTotal: fullSession.amount_total,
         currency: fullSession.currency,
         customerEmail: fullSession.customer_details?.email,
-        paymentIntentId: fullSession.payment_intent,
+        paymentIntentId,
         hasShippingDetails: !!(fullSession as any).shipping_details,
         hasShippingCost: !!(fullSession as any).shipping_cost,
       });
@@ -428,7 +507,7 @@ router.post("/webhook", async (req, res) => {
 
         if (!existingOrder) {
           console.error("❌ Order not found for webhook:", orderId);
-          return res.status(404).json({ error: "Order not found" });
+          return { status: 404, body: { error: "Order not found" } };
         }
 
         console.log("📋 Found existing order:", {
@@ -446,6 +525,7 @@ router.post("/webhook", async (req, res) => {
         const updateData: any = {
           paymentStatus: "paid",
           status: "confirmed",
+          stripePaymentIntentId: paymentIntentId,
           updatedAt: new Date(),
         };
 
@@ -459,6 +539,10 @@ router.post("/webhook", async (req, res) => {
           });
         }
 
+        if (customerDetails?.address) {
+          updateData.billingAddress = customerDetails.address;
+        }
+
         // Only update shipping address if we have new data
         if (shippingDetails || customerDetails) {
           updateData.shippingAddress = shippingDetails || customerDetails;
@@ -484,8 +568,14 @@ router.post("/webhook", async (req, res) => {
           processingTime: Date.now() - webhookStartTime + "ms",
         });
 
+        // Orders placed before payment (renewals) already recorded their sale
+        const alreadySold = await prisma.stockMovement.findFirst({
+          where: { orderId, type: "sale" },
+          select: { id: true },
+        });
+
         // Decrement inventory for retry payment (only if payment was previously pending/failed)
-        if (existingOrder.paymentStatus !== "paid") {
+        if (existingOrder.paymentStatus !== "paid" && !alreadySold) {
           console.log("📦 Decrementing inventory for retry payment...");
           console.log(`   Previous payment status: ${existingOrder.paymentStatus}`);
           
@@ -495,6 +585,8 @@ router.post("/webhook", async (req, res) => {
           });
 
           if (orderWithItems) {
+            // Older orders may not have a warehouse yet
+            await assignFulfillmentLocation(orderId);
             console.log(`   Total items to process: ${orderWithItems.orderItems.length}`);
             
             for (const item of orderWithItems.orderItems) {
@@ -516,12 +608,13 @@ router.post("/webhook", async (req, res) => {
                     });
                     console.log(`   → Flavor ${flavorId} before: onHand=${flavorBefore?.onHand}, reserved=${flavorBefore?.reserved}`);
                     
-                    await prisma.flavorInventory.update({
-                      where: { flavorId },
-                      data: {
-                        onHand: { decrement: item.quantity },
-                        reserved: { decrement: item.quantity },
-                      },
+                    await applyStockMovement({
+                      flavorId,
+                      type: "sale",
+                      onHandDelta: -item.quantity,
+                      reservedDelta: -item.quantity,
+                      orderId,
+                      reason: "Stripe payment completed",
                     });
                     
                     const flavorAfter = await prisma.flavorInventory.findUnique({
@@ -562,45 +655,44 @@ router.post("/webhook", async (req, res) => {
             console.log("\n✅ Retry payment inventory decrementation complete");
           }
         } else {
-          console.log("⏭️ Skipping inventory decrementation - payment already marked as paid");
+          console.log("⏭️ Skipping inventory decrementation - already paid or sold");
         }
 
+        // Score the paid order; held orders skip label purchase until approved
+        const review = await orderVerificationService.assessOrder(orderId);
+
         // Create Shippo shipment for the updated order if it doesn't exist (BEFORE email)
         let retryShippingDetails: any = undefined;
-        if (!updatedOrder.shipmentId) {
+        if (review?.held) {
+          console.log("🛑 Order held for review, skipping label purchase:", orderId);
+        } else if (!updatedOrder.shipmentId) {
           try {
             const { getShippingRates, createShipment } = await import("../services/shippoService");
             
             // Use the shipping address from the order
             const shippingAddress = updatedOrder.shippingAddress as any;
             if (shippingAddress) {
-              // First get shipping rates
-              const rates = await getShippingRates(
-                shippingAddress,
-                [{
-                  length: '6',
-                  width: '4',
-                  height: '2',
-                  weight: '0.5',
-                  massUnit: 'lb' as const,
-                  distanceUnit: 'in' as const,
-                }]
+              // Pack the order's items the same way checkout quoted them
+              const parcels = await getOrderParcels(updatedOrder.id);
+
+              // Prefer the service the order was priced with, within the
+              // shipping rules
+              const fromAddress = await getOrderShipFromAddress(updatedOrder.id);
+              const selectedRate = await selectLabelRate(
+                {
+                  carrier: updatedOrder.shippingCarrier,
+                  serviceName: updatedOrder.shippingService,
+                  amount: updatedOrder.shippingCost,
+                },
+                () => getShippingRates(shippingAddress, parcels, fromAddress),
+                toShippingDestination(shippingAddress)
               );
               
-              if (rates.length > 0) {
-                // Use the first rate
-                const selectedRate = rates[0];
+              if (selectedRate) {
                 await createShipment({
                   orderId: updatedOrder.id,
                   toAddress: shippingAddress,
-                  parcels: [{
-                    length: '6',
-                    width: '4',
-                    height: '2',
-                    weight: '0.5',
-                    massUnit: 'lb' as const,
-                    distanceUnit: 'in' as const,
-                  }],
+                  parcels,
                 }, selectedRate.objectId, {
                   carrier: selectedRate.carrier,
                   amount: selectedRate.amount,
@@ -717,6 +809,7 @@ router.post("/webhook", async (req, res) => {
                   country: shippingAddr?.country || '',
                 },
                 shippingDetails: retryShippingDetails,
+                trackOrderUrl: getOrderTrackingUrl(updatedOrder.id),
               });
               console.log("📧 Order confirmation email sent for retry payment with shipping details");
             }
@@ -725,17 +818,28 @@ router.post("/webhook", async (req, res) => {
           console.error("❌ Error sending order confirmation email:", emailError);
           // Don't fail the order update if email fails
         }
-      } else if (fullSession.metadata?.orderData) {
-        // Create new order from metadata (ONLY after successful payment)
-        console.log("🆕 Creating order from payment metadata - PAYMENT SUCCESSFUL");
+      } else if (fullSession.metadata?.checkoutIntentId || fullSession.metadata?.orderData) {
+        // Create new order from the checkout intent (ONLY after successful payment)
+        console.log("🆕 Creating order from checkout intent - PAYMENT SUCCESSFUL");
         
         try {
-          const compressedData = JSON.parse(fullSession.metadata.orderData);
+          const checkoutDraft = await getCheckoutDraft(fullSession.metadata);
+          if (!checkoutDraft) {
+            console.error("❌ Checkout intent not found:", fullSession.metadata?.checkoutIntentId);
+            return { status: 404, body: { error: "Checkout intent not found" } };
+          }
+
+          // Stripe may deliver the same event more than once
+          if (checkoutDraft.orderId) {
+            console.log(`ℹ️ Checkout intent already materialized as order ${checkoutDraft.orderId}`);
+            return { status: 200, body: { received: true, orderCreated: false, orderId: checkoutDraft.orderId } };
+          }
+
           const customerEmail = fullSession.customer_details?.email;
           
           if (!customerEmail) {
             console.error("❌ No customer email in session");
-            return res.status(400).json({ error: "Customer email required" });
+            return { status: 400, body: { error: "Customer email required" } };
           }
 
           // Find user by email (optional for guest checkout)
@@ -747,20 +851,20 @@ router.post("/webhook", async (req, res) => {
             console.log("ℹ️ User not found, creating guest order for email:", customerEmail);
           }
 
-          // Get shipping address - either from metadata or Stripe-collected details
+          // Get shipping address - either from the checkout intent or Stripe-collected details
           let shippingAddressData;
           
-          if (compressedData.address && compressedData.address.name) {
-            // Address was provided in metadata
+          if (checkoutDraft.address && checkoutDraft.address.name) {
+            // Address was provided at checkout
             shippingAddressData = {
-              name: compressedData.address.name,
-              email: compressedData.address.email,
-              phone: compressedData.address.phone,
-              street1: compressedData.address.street,
-              city: compressedData.address.city,
-              state: compressedData.address.state,
-              zip: compressedData.address.zip,
-              country: compressedData.address.country,
+              name: checkoutDraft.address.name,
+              email: checkoutDraft.address.email,
+              phone: checkoutDraft.address.phone,
+              street1: checkoutDraft.address.street,
+              city: checkoutDraft.address.city,
+              state: checkoutDraft.address.state,
+              zip: checkoutDraft.address.zip,
+              country: checkoutDraft.address.country,
             };
           } else {
             // Address was collected by Stripe - extract from fullSession
@@ -796,18 +900,11 @@ router.post("/webhook", async (req, res) => {
             console.log("📍 Extracted shipping address from Stripe:", shippingAddressData);
           }
 
-          // Reconstruct full order data
+          // Full order data from the checkout intent
           const orderData = {
-            total: compressedData.total,
-            orderNotes: compressedData.notes,
-            orderItems: compressedData.items.map((item: any) => ({
-              productId: item.pid,
-              quantity: item.qty,
-              price: item.price,
-              total: item.total,
-              flavorIds: item.flavors,
-              customPackName: item.custom,
-            })),
+            total: checkoutDraft.total,
+            orderNotes: checkoutDraft.orderNotes,
+            orderItems: checkoutDraft.items,
             shippingAddress: shippingAddressData
           };
 
@@ -823,6 +920,18 @@ router.post("/webhook", async (req, res) => {
               total: orderData.total,
               shippingAddress: orderData.shippingAddress,
               orderNotes: orderData.orderNotes,
+              promotionId: checkoutDraft.promotionId,
+              promotionCode: checkoutDraft.promotionCode,
+              discountTotal: checkoutDraft.discountTotal,
+              shippingDiscount: checkoutDraft.shippingDiscount,
+              campaignId: checkoutDraft.campaignId,
+              sellerId: checkoutDraft.sellerId,
+              stripePaymentIntentId: paymentIntentId,
+              ipAddress: checkoutDraft.ipAddress,
+              // Stripe collects the card's billing address with the payment
+              billingAddress: fullSession.customer_details?.address
+                ? (fullSession.customer_details.address as any)
+                : undefined,
               orderItems: {
                 create: orderData.orderItems.map((item: any) => ({
                   productId: item.productId,
@@ -839,6 +948,15 @@ router.post("/webhook", async (req, res) => {
             },
           });
 
+          if (checkoutDraft.intentId) {
+            await completeCheckoutIntent(checkoutDraft.intentId, newOrder.id);
+          }
+
+          // The customer already paid the discounted price, so count the use even past the limit
+          if (checkoutDraft.promotionId) {
+            await redeemPromotion(checkoutDraft.promotionId, false);
+          }
+
           console.log("✅ Order created from payment:", {
             orderId: newOrder.id,
             status: newOrder.status,
@@ -855,6 +973,9 @@ router.post("/webhook", async (req, res) => {
             console.log(`   ${index + 1}. ProductID: ${item.productId}, Qty: ${item.quantity}, FlavorIDs: ${JSON.stringify(item.flavorIds)}`);
           });
 
+          // Pick the warehouse first so the sale comes out of its stock
+          await assignFulfillmentLocation(newOrder.id);
+
           // Decrement inventory for the order
           console.log("📦 Decrementing inventory for order items...");
           console.log(`   Total items to process: ${newOrder.orderItems.length}`);
@@ -879,12 +1000,13 @@ router.post("/webhook", async (req, res) => {
                   });
                   console.log(`   → Flavor ${flavorId} before: onHand=${flavorBefore?.onHand}, reserved=${flavorBefore?.reserved}`);
                   
-                  await prisma.flavorInventory.update({
-                    where: { flavorId },
-                    data: {
-                      onHand: { decrement: item.quantity },
-                      reserved: { decrement: item.quantity },
-                    },
+                  await applyStockMovement({
+                    flavorId,
+                    type: "sale",
+                    onHandDelta: -item.quantity,
+                    reservedDelta: -item.quantity,
+                    orderId: newOrder.id,
+                    reason: "Stripe payment completed",
                   });
                   
                   const flavorAfter = await prisma.flavorInventory.findUnique({
@@ -925,124 +1047,106 @@ router.post("/webhook", async (req, res) => {
           }
           console.log("\n✅ Inventory decrementation complete");
 
+          // Score the paid order; held orders skip label purchase until approved
+          const review = await orderVerificationService.assessOrder(newOrder.id);
+
           // Create Shippo shipment for the new order FIRST
           let shippingDetails: any = undefined;
-          try {
-            const { getShippingRates, createShipment } = await import("../services/shippoService");
-            
-            console.log("🔍 Getting shipping rates for address:", {
-              name: orderData.shippingAddress.name,
-              street1: orderData.shippingAddress.street1,
-              city: orderData.shippingAddress.city,
-              state: orderData.shippingAddress.state,
-              zip: orderData.shippingAddress.zip,
-              country: orderData.shippingAddress.country,
-            });
-            
-            // Check if pre-selected shipping rate exists in metadata
-            console.log("🔍 Checking for pre-selected rate in metadata:", {
-              hasShippingRate: !!compressedData.shippingRate,
-              shippingRateData: compressedData.shippingRate,
-              fullCompressedData: JSON.stringify(compressedData, null, 2)
-            });
+          if (review?.held) {
+            console.log("🛑 Order held for review, skipping label purchase:", newOrder.id);
+          } else {
+            try {
+              const { getShippingRates, createShipment } = await import("../services/shippoService");
+
+              // Pack the order's items the same way checkout quoted them
+              const parcels = await getOrderParcels(newOrder.id);
             
-            const preSelectedRate = compressedData.shippingRate;
-            let selectedRate;
+              console.log("🔍 Getting shipping rates for address:", {
+                name: orderData.shippingAddress.name,
+                street1: orderData.shippingAddress.street1,
+                city: orderData.shippingAddress.city,
+                state: orderData.shippingAddress.state,
+                zip: orderData.shippingAddress.zip,
+                country: orderData.shippingAddress.country,
+              });
             
-            if (preSelectedRate && preSelectedRate.objectId) {
-              // Use the pre-selected rate from frontend (CORRECT - already paid for)
-              console.log("✅ Using pre-selected shipping rate from frontend:", {
-                carrier: preSelectedRate.carrier,
-                amount: preSelectedRate.amount,
-                serviceName: preSelectedRate.serviceName,
-                objectId: preSelectedRate.objectId
+              // Check if a shipping rate was pre-selected at checkout
+              console.log("🔍 Checking for pre-selected rate in checkout intent:", {
+                hasShippingRate: !!checkoutDraft.shippingRate,
+                shippingRateData: checkoutDraft.shippingRate,
               });
-              selectedRate = preSelectedRate;
-            } else {
-              // Fallback: Calculate shipping rates (old behavior)
-              console.log("⚠️ No pre-selected rate, calculating shipping...");
-              const rates = await getShippingRates(
-                orderData.shippingAddress as any,
-                [{
-                  length: '6',
-                  width: '4',
-                  height: '2',
-                  weight: '0.5',
-                  massUnit: 'lb' as const,
-                  distanceUnit: 'in' as const,
-                }]
+            
+              const preSelectedRate = checkoutDraft.shippingRate;
+              if (preSelectedRate?.objectId) {
+                // The rate the customer chose and paid for
+                console.log("✅ Using pre-selected shipping rate from frontend:", {
+                  carrier: preSelectedRate.carrier,
+                  amount: preSelectedRate.amount,
+                  serviceName: preSelectedRate.serviceName,
+                  objectId: preSelectedRate.objectId
+                });
+              } else {
+                console.log("⚠️ No pre-selected rate, calculating shipping...");
+              }
+
+              // Free and flat-rate options, or no choice at all, buy the
+              // cheapest carrier rate the shipping rules allow
+              const fromAddress = await getOrderShipFromAddress(newOrder.id);
+              const selectedRate = await selectLabelRate(
+                preSelectedRate,
+                () => getShippingRates(orderData.shippingAddress as any, parcels, fromAddress),
+                toShippingDestination(orderData.shippingAddress)
               );
-              
-              console.log("📊 Shippo rates response:", {
-                ratesCount: rates.length,
-                rates: rates.map(r => ({
-                  serviceName: r.serviceName,
-                  carrier: r.carrier,
-                  amount: r.amount,
-                  estimatedDays: r.estimatedDays
-                }))
-              });
-              
-              if (rates.length === 0) {
+              if (!selectedRate) {
                 console.log("⚠️ No shipping rates available");
-                selectedRate = null;
-              } else {
-                selectedRate = rates[0];
               }
-            }
             
-            if (selectedRate) {
-              const shipmentResult = await createShipment({
-                orderId: newOrder.id,
-                toAddress: orderData.shippingAddress as any,
-                parcels: [{
-                  length: '6',
-                  width: '4',
-                  height: '2',
-                  weight: '0.5',
-                  massUnit: 'lb' as const,
-                  distanceUnit: 'in' as const,
-                }],
-              }, selectedRate.objectId, {
-                carrier: selectedRate.carrier,
-                amount: selectedRate.amount,
-                serviceName: selectedRate.serviceName
-              });
+              if (selectedRate) {
+                const shipmentResult = await createShipment({
+                  orderId: newOrder.id,
+                  toAddress: orderData.shippingAddress as any,
+                  parcels,
+                }, selectedRate.objectId, {
+                  carrier: selectedRate.carrier,
+                  amount: selectedRate.amount,
+                  serviceName: selectedRate.serviceName
+                });
               
-              console.log("📦 Shippo shipment created for new order");
+                console.log("📦 Shippo shipment created for new order");
               
-              // Fetch the updated order with shipment details
-              const orderWithShipment = await prisma.order.findUnique({
-                where: { id: newOrder.id },
-                select: {
-                  trackingNumber: true,
-                  trackingUrl: true,
-                  shippingCarrier: true,
-                  shippingCost: true,
-                }
-              });
+                // Fetch the updated order with shipment details
+                const orderWithShipment = await prisma.order.findUnique({
+                  where: { id: newOrder.id },
+                  select: {
+                    trackingNumber: true,
+                    trackingUrl: true,
+                    shippingCarrier: true,
+                    shippingCost: true,
+                  }
+                });
               
-                if (orderWithShipment) {
-                  // IMPORTANT: Use the rate that customer SELECTED and PAID FOR, not the Shippo transaction rate
-                  const customerPaidShippingCost = preSelectedRate?.amount || selectedRate.amount;
+                  if (orderWithShipment) {
+                    // IMPORTANT: Use the rate that customer SELECTED and PAID FOR, not the Shippo transaction rate
+                    const customerPaidShippingCost = preSelectedRate?.amount ?? selectedRate.amount;
                   
-                  shippingDetails = {
-                    trackingNumber: orderWithShipment.trackingNumber,
-                    trackingUrl: orderWithShipment.trackingUrl,
-                    carrier: orderWithShipment.shippingCarrier,
-                    shippingCost: customerPaidShippingCost, // Use customer-selected rate
-                  };
-                  console.log("📦 Shipping details prepared for email:", {
-                    ...shippingDetails,
-                    note: preSelectedRate ? "Using customer-selected rate" : "Using calculated rate"
-                  });
-                }
-            } else {
-              console.log("⚠️ No shipping rates available for new order");
+                    shippingDetails = {
+                      trackingNumber: orderWithShipment.trackingNumber,
+                      trackingUrl: orderWithShipment.trackingUrl,
+                      carrier: orderWithShipment.shippingCarrier,
+                      shippingCost: customerPaidShippingCost, // Use customer-selected rate
+                    };
+                    console.log("📦 Shipping details prepared for email:", {
+                      ...shippingDetails,
+                      note: preSelectedRate ? "Using customer-selected rate" : "Using calculated rate"
+                    });
+                  }
+              } else {
+                console.log("⚠️ No shipping rates available for new order");
+              }
+            } catch (shipmentError) {
+              console.error("⚠️ Failed to create Shippo shipment:", shipmentError);
+              // Don't fail the webhook for shipment errors
             }
-          } catch (shipmentError) {
-            console.error("⚠️ Failed to create Shippo shipment:", shipmentError);
-            // Don't fail the webhook for shipment errors
           }
 
           // Send order confirmation email with shipping details
@@ -1094,6 +1198,7 @@ router.post("/webhook", async (req, res) => {
                 country: orderData.shippingAddress.country,
               },
               shippingDetails: shippingDetails,
+              trackOrderUrl: getOrderTrackingUrl(newOrder.id),
             });
             console.log("📧 Order confirmation email sent successfully with shipping details");
           } catch (emailError) {
@@ -1101,15 +1206,24 @@ router.post("/webhook", async (req, res) => {
             // Don't fail the order creation if email fails
           }
 
-          return res.json({ received: true, orderCreated: true });
+          return { status: 200, body: { received: true, orderCreated: true } };
         } catch (parseError) {
           console.error("❌ Failed to parse order data:", parseError);
-          return res.status(400).json({ error: "Invalid order data" });
+          return { status: 400, body: { error: "Invalid order data" } };
         }
       } else {
-        console.log("⚠️ No orderId or orderData in session metadata");
-        return res.status(400).json({ error: "No order information in session" });
+        console.log("⚠️ No orderId or checkoutIntentId in session metadata");
+        return { status: 400, body: { error: "No order information in session" } };
       }
+    } else if (event.type === "checkout.session.expired") {
+      const session = event.data.object as Stripe.Checkout.Session;
+
+      // Abandoned checkout - the draft will never become an order
+      const expired = await expireCheckoutIntent(session.id);
+      console.log("⌛ Checkout session expired:", {
+        sessionId: session.id,
+        intentsExpired: expired.count,
+      });
     } else if (event.type === "payment_intent.payment_failed") {
       const pi = event.data.object as Stripe.PaymentIntent;
       const orderId = (pi.metadata as any)?.orderId;
@@ -1137,6 +1251,18 @@ router.post("/webhook", async (req, res) => {
       } else {
         console.log("ℹ️ No order to update - order was not created yet (as expected)");
       }
+
+      try {
+        await notifyPaymentFailed({
+          orderId,
+          email: pi.receipt_email || pi.last_payment_error?.payment_method?.billing_details?.email,
+          customerName: pi.last_payment_error?.payment_method?.billing_details?.name,
+          amount: pi.amount / 100,
+          failureReason: pi.last_payment_error?.message,
+        });
+      } catch (emailError) {
+        console.error("❌ Error sending payment failed email:", emailError);
+      }
     } else if (event.type === "charge.updated") {
       const charge = event.data.object as Stripe.Charge;
       
@@ -1195,6 +1321,27 @@ router.post("/webhook", async (req, res) => {
       } else {
         console.warn("⚠️ No payment intent in charge:", charge.id);
       }
+    } else if (event.type === "charge.refunded") {
+      const charge = event.data.object as Stripe.Charge;
+
+      // Covers refunds from the admin dashboard and from Stripe directly
+      const matched = await syncChargeRefunds(stripe, charge);
+      console.log("↩️ Processing charge.refunded:", {
+        chargeId: charge.id,
+        paymentIntentId: charge.payment_intent,
+        amountRefunded: charge.amount_refunded,
+        refundsMatched: matched,
+      });
+    } else if (event.type === "refund.updated") {
+      const refund = event.data.object as Stripe.Refund;
+
+      // Pending refunds settle (or fail) after charge.refunded
+      const synced = await syncStripeRefund(refund);
+      console.log("↩️ Processing refund.updated:", {
+        refundId: refund.id,
+        status: refund.status,
+        matched: !!synced,
+      });
     } else {
       console.log("ℹ️ Unhandled webhook event type:", {
         type: event.type,
@@ -1209,7 +1356,7 @@ router.post("/webhook", async (req, res) => {
       totalProcessingTime: Date.now() - webhookStartTime + "ms",
     });
 
-    return res.json({ received: true });
+    return { status: 200, body: { received: true } };
   } catch (err) {
     console.error("❌ Webhook handling error:", {
       error: err,
@@ -1217,7 +1364,195 @@ router.post("/webhook", async (req, res) => {
       eventId: event?.id,
       processingTime: Date.now() - webhookStartTime + "ms",
     });
-    return res.status(500).json({ error: "Webhook handler error" });
+    return {
+      status: 500,
+      body: { error: "Webhook handler error" },
+      error: err instanceof Error ? err.message : String(err),
+    };
+  }
+};
+
+// Stripe webhook handler
+router.post("/webhook", async (req, res) => {
+  const webhookStartTime = Date.now();
+  console.log("🔔 Webhook received:", {
+    timestamp: new Date().toISOString(),
+    headers: {
+      "stripe-signature": req.headers["stripe-signature"] ? "present" : "missing",
+      "content-type": req.headers["content-type"],
+      "user-agent": req.headers["user-agent"],
+    },
+    bodySize: req.body ? Buffer.byteLength(req.body) : 0,
+    ip: req.ip,
+    method: req.method,
+    url: req.originalUrl,
+  });
+
+  const stripe = getStripe();
+  if (!stripe) {
+    console.error("❌ Stripe not configured");
+    return res.status(503).send("Stripe not configured");
+  }
+
+  const sig = req.headers["stripe-signature"] as string | undefined;
+  const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+  
+  console.log("🔐 Webhook security check:", {
+    hasSignature: !!sig,
+    hasSecret: !!webhookSecret,
+    secretLength: webhookSecret ? webhookSecret.length : 0,
+    secretPrefix: webhookSecret ? webhookSecret.substring(0, 10) + "..." : "none",
+  });
+  
+  if (!sig || !webhookSecret) {
+    console.error("❌ Missing webhook signature or secret", {
+      hasSignature: !!sig,
+      hasSecret: !!webhookSecret,
+    });
+    return res.status(400).send("Missing webhook signature or secret");
+  }
+
+  let event: Stripe.Event;
+  try {
+    console.log("🔍 Verifying webhook signature...");
+    event = stripe.webhooks.constructEvent(
+      req.body,
+      sig,
+      webhookSecret
+    );
+    console.log("✅ Webhook event verified successfully:", {
+      type: event.type,
+      id: event.id,
+      created: new Date(event.created * 1000).toISOString(),
+      livemode: event.livemode,
+      apiVersion: event.api_version,
+    });
+  } catch (err: any) {
+    console.error("❌ Webhook signature verification failed:", {
+      error: err.message,
+      type: err.type,
+      detail: err.detail,
+      headers: err.headers,
+      requestId: err.requestId,
+      statusCode: err.statusCode,
+      userMessage: err.userMessage,
+      charge: err.charge,
+      decline_code: err.decline_code,
+      payment_intent: err.payment_intent,
+      payment_method: err.payment_method,
+      payment_method_type: err.payment_method_type,
+      setup_intent: err.setup_intent,
+      source: err.source,
+      header: sig,
+      payload: req.body?.toString()
+    });
+    return res.status(400).send("Webhook Error");
+  }
+
+  const claim = await claimStripeEvent(event);
+  if (claim === "duplicate") {
+    console.log(`ℹ️ Webhook event ${event.id} already processed, skipping`);
+    return res.json({ received: true, duplicate: true });
+  }
+  if (claim === "in_progress") {
+    // Non-2xx so Stripe retries if the in-flight attempt fails
+    console.log(`⏳ Webhook event ${event.id} is already being processed`);
+    return res.status(409).json({ error: "Event is already being processed" });
+  }
+
+  const result = await handleStripeEvent(stripe, event, webhookStartTime);
+  await recordStripeEventOutcome(event.id, {
+    status: result.status,
+    error: result.error || result.body?.error,
+  });
+
+  return res.status(result.status).json(result.body);
+});
+
+// List recorded webhook events, failed ones by default (Admin)
+router.get("/webhook-events", protect, adminOnly, async (req, res) => {
+  try {
+    const { status = "failed", type, page = 1, limit = 50 } = req.query;
+
+    const skip = (parseInt(page as string) - 1) * parseInt(limit as string);
+    const take = Math.min(parseInt(limit as string), 200);
+
+    const where: any = {};
+    if (status !== "all") where.status = status;
+    if (type) where.type = type;
+
+    const [events, total] = await Promise.all([
+      prisma.stripeWebhookEvent.findMany({
+        where,
+        skip,
+        take,
+        orderBy: { receivedAt: "desc" },
+        select: {
+          id: true,
+          type: true,
+          status: true,
+          attempts: true,
+          lastError: true,
+          responseStatus: true,
+          receivedAt: true,
+          processedAt: true,
+          updatedAt: true,
+        },
+      }),
+      prisma.stripeWebhookEvent.count({ where }),
+    ]);
+
+    return res.json({
+      events,
+      pagination: {
+        page: parseInt(page as string),
+        limit: take,
+        total,
+        pages: Math.ceil(total / take),
+      },
+    });
+  } catch (err) {
+    console.error("Webhook events list error:", err);
+    return res.status(500).json({ message: "Failed to fetch webhook events" });
+  }
+});
+
+// Re-run a failed webhook event from its stored payload (Admin)
+router.post("/webhook-events/:id/replay", protect, adminOnly, async (req, res) => {
+  try {
+    const stripe = getStripe();
+    if (!stripe) {
+      return res.status(503).json({ message: "Stripe not configured" });
+    }
+
+    const { id } = req.params;
+    const event = await claimStripeEventForReplay(id);
+    if (!event) {
+      return res.status(404).json({ message: "No failed webhook event found with this id" });
+    }
+
+    console.log(`🔁 Replaying webhook event ${event.id} (${event.type})`);
+    const result = await handleStripeEvent(stripe, event, Date.now());
+    const updated = await recordStripeEventOutcome(event.id, {
+      status: result.status,
+      error: result.error || result.body?.error,
+    });
+
+    return res.json({
+      message: updated.status === "processed" ? "Webhook event replayed successfully" : "Webhook event failed again",
+      event: {
+        id: updated.id,
+        type: updated.type,
+        status: updated.status,
+        attempts: updated.attempts,
+        lastError: updated.lastError,
+        responseStatus: updated.responseStatus,
+      },
+      result: result.body,
+    });
+  } catch (err) {
+    console.error("Webhook replay error:", err);
+    return res.status(500).json({ message: "Failed to replay webhook event" });
   }
 });
 
@@ -0,0 +1,9 @@
+import express from "express";
+import { validatePromotion } from "../controller/promotionController";
+
+const router = express.Router();
+
+// Check a promo code against the cart (guests included)
+router.post("/validate", validatePromotion);
+
+export default router;
@@ -0,0 +1,22 @@
+import express from "express";
+import {
+  getReviews,
+  getMyReviewEligibility,
+  getMyReviewablePurchases,
+  createReview,
+  deleteMyReview,
+} from "../controller/reviewController";
+import { protect } from "../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Public routes
+router.get("/", getReviews); // ?productId= or ?flavorId=
+
+// Customer routes
+router.get("/eligibility", protect, getMyReviewEligibility);
+router.get("/reviewable", protect, getMyReviewablePurchases);
+router.post("/", protect, createReview);
+router.delete("/:id", protect, deleteMyReview);
+
+export default router;
@@ -0,0 +1,24 @@
+import express from "express";
+import {
+  getMySubscriptions,
+  createSubscription,
+  skipSubscription,
+  pauseSubscription,
+  resumeSubscription,
+  cancelSubscription,
+} from "../controller/subscriptionController";
+import { protect } from "../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Subscriptions belong to signed-in customers
+router.use(protect);
+
+router.get("/", getMySubscriptions);
+router.post("/", createSubscription);
+router.post("/:id/skip", skipSubscription);
+router.post("/:id/pause", pauseSubscription);
+router.post("/:id/resume", resumeSubscription);
+router.post("/:id/cancel", cancelSubscription);
+
+export default router;
@@ -8,6 +8,7 @@ import {
   updateFlavor,
   deleteFlavor,
 } from "../controller/threePackController";
+import { getPackDefinitions } from "../controller/packDefinitionController";
 import { protect } from "../middlewares/auth.middleware";
 import { adminOnly } from "../middlewares/admin.middleware";
 
@@ -16,6 +17,7 @@ const router = express.Router();
 // Public routes
 router.get("/product", getThreePackProduct); // Get 3-pack product with variants
 router.get("/flavors", getAllFlavors); // Get all flavors (public)
+router.get("/packs", getPackDefinitions); // Get pack sizes for the pack builder
 router.get("/inventory/availability", getInventoryAvailability); // Check inventory availability
 
 // Admin routes (authentication + admin role required)
@@ -5,6 +5,7 @@ import {
   updateCartLine,
   removeCartLine,
   clearCart,
+  refreshCartReservations,
 } from "../controller/threePackCartController";
 import { optionalAuth } from "../middlewares/auth.middleware";
 
@@ -16,6 +17,7 @@ router.use(optionalAuth);
 // 3-Pack Cart operations
 router.post("/add", addToCart); // Add 3-pack to cart
 router.get("/", getUserCart); // Get user's 3-pack cart
+router.post("/refresh", refreshCartReservations); // Renew stock holds for the cart
 router.put("/:id", updateCartLine); // Update cart line quantity
 router.delete("/:id", removeCartLine); // Remove cart line
 router.delete("/", clearCart); // Clear entire cart
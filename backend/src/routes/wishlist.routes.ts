@@ -0,0 +1,25 @@
+import express from "express";
+import {
+  getMyWishlist,
+  addToWishlist,
+  mergeMyWishlist,
+  updateWishlistItem,
+  removeFromWishlist,
+  clearMyWishlist,
+} from "../controller/wishlistController";
+import { protect } from "../middlewares/auth.middleware";
+
+const router = express.Router();
+
+// Guests keep their wishlist in the browser; accounts keep it here
+router.use(protect);
+
+router.get("/", getMyWishlist);
+router.post("/", addToWishlist);
+router.post("/merge", mergeMyWishlist);
+router.delete("/", removeFromWishlist);
+router.delete("/all", clearMyWishlist);
+router.put("/:id", updateWishlistItem);
+router.delete("/:id", removeFromWishlist);
+
+export default router;
@@ -16,6 +16,22 @@ import paymentsRoutes from "./routes/payments.routes";
 import analyticsRoutes from "./routes/analytics.routes";
 import adminRoutes from "./routes/admin.routes";
 import shippoRoutes from "./routes/shippo.routes";
+import promotionRoutes from "./routes/promotion.routes";
+import fundraisingRoutes from "./routes/fundraising.routes";
+import subscriptionRoutes from "./routes/subscription.routes";
+import wishlistRoutes from "./routes/wishlist.routes";
+import reviewRoutes from "./routes/review.routes";
+import notificationRoutes from "./routes/notification.routes";
+import {
+  expireLegacyReservations,
+  startReservationSweeper,
+} from "./services/cartReservationService";
+import { startSubscriptionRenewals } from "./services/subscriptionService";
+import { startEmailOutboxWorker } from "./services/emailOutboxService";
+import { ensurePackDefinitions } from "./services/packDefinitionService";
+import { ensureFraudRules } from "./services/fraudRuleService";
+import { ensureShippingBoxes } from "./services/parcelPackingService";
+import { ensureShippingLocation } from "./services/shippingLocationService";
 
 import { logger } from "./utils/logger";
 import { prisma } from "./config/database";
@@ -168,6 +184,12 @@ app.use("/payments", paymentsRoutes);
 app.use("/analytics", analyticsRoutes);
 app.use("/admin", adminRoutes);
 app.use("/shippo", shippoRoutes);
+app.use("/promotions", promotionRoutes);
+app.use("/fundraising", fundraisingRoutes);
+app.use("/subscriptions", subscriptionRoutes);
+app.use("/wishlist", wishlistRoutes);
+app.use("/reviews", reviewRoutes);
+app.use("/notifications", notificationRoutes);
 
 // Health check endpoint
 app.get("/health", (req: Request, res: Response) => {
@@ -193,6 +215,40 @@ const server = app.listen(PORT, () => {
   );
 });
 
+// Return abandoned cart holds to inventory
+startReservationSweeper();
+
+// Hand holds taken before they expired to the sweeper
+expireLegacyReservations().catch((err) => {
+  logger.error("Legacy cart hold backfill failed:", err);
+});
+
+// Place orders for due subscription renewals
+startSubscriptionRenewals();
+
+// Send queued emails and retry failed ones
+startEmailOutboxWorker();
+
+// Carry over pack types configured before packs moved into the database
+ensurePackDefinitions().catch((err) => {
+  logger.error("Pack definition setup failed:", err);
+});
+
+// Seed the fraud rules that replaced the hard-coded risk checks
+ensureFraudRules().catch((err) => {
+  logger.error("Fraud rule setup failed:", err);
+});
+
+// Seed the box sizes that replaced the single default parcel
+ensureShippingBoxes().catch((err) => {
+  logger.error("Shipping box setup failed:", err);
+});
+
+// Seed the ship-from location that replaced the hard-coded sender address
+ensureShippingLocation().catch((err) => {
+  logger.error("Shipping location setup failed:", err);
+});
+
 // Test database connection
 prisma
   .$connect()
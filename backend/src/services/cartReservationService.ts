@@ -0,0 +1,283 @@
+import { PrismaClient } from "../generated/prisma";
+import { applyStockMovement } from "./stockMovementService";
+import { countFlavorUnits } from "./packDefinitionService";
+
+const prisma = new PrismaClient();
+
+// How long a cart line holds its flavors before the stock is released
+const RESERVATION_TTL_MINUTES = parseInt(
+  process.env.CART_RESERVATION_TTL_MINUTES || "30"
+);
+
+// How often the background sweeper looks for lapsed holds
+const RESERVATION_SWEEP_INTERVAL_MS = parseInt(
+  process.env.CART_RESERVATION_SWEEP_INTERVAL_MS || "60000"
+);
+
+export interface CartLineReservation {
+  id: string;
+  quantity: number;
+  recipeId: string | null;
+  flavorIds: string[];
+  reservationExpiresAt: Date | null;
+}
+
+/**
+ * Expiry for a hold taken (or renewed) right now
+ */
+export const getReservationExpiry = (): Date => {
+  return new Date(Date.now() + RESERVATION_TTL_MINUTES * 60 * 1000);
+};
+
+/**
+ * Seconds left on a cart line's hold (0 when lapsed or not held)
+ */
+export const getReservationSecondsRemaining = (
+  reservationExpiresAt: Date | null
+): number => {
+  if (!reservationExpiresAt) return 0;
+  return Math.max(
+    0,
+    Math.floor((reservationExpiresAt.getTime() - Date.now()) / 1000)
+  );
+};
+
+/**
+ * Flavors held by a single pack of the cart line, with units per pack
+ */
+export const getCartLineFlavorUnits = async (
+  cartLine: Pick<CartLineReservation, "recipeId" | "flavorIds">
+): Promise<Array<{ flavorId: string; perPack: number }>> => {
+  if (cartLine.recipeId) {
+    const recipeItems = await prisma.packRecipeItem.findMany({
+      where: { packRecipeId: cartLine.recipeId },
+      select: { flavorId: true, quantity: true },
+    });
+    return recipeItems.map((item) => ({
+      flavorId: item.flavorId,
+      perPack: item.quantity,
+    }));
+  }
+
+  // Custom packs reserve one unit per time a flavor is picked
+  return [...countFlavorUnits(cartLine.flavorIds)].map(([flavorId, perPack]) => ({
+    flavorId,
+    perPack,
+  }));
+};
+
+/**
+ * Units of each flavor a cart line holds right now, from its ledger rows,
+ * so a recipe edited while the hold is open releases what was actually
+ * held. Lines from before the ledger fall back to their current recipe.
+ */
+const getCartLineHeldUnits = async (
+  cartLine: CartLineReservation
+): Promise<Map<string, number>> => {
+  const movements = await prisma.stockMovement.groupBy({
+    by: ["flavorId"],
+    where: { cartLineId: cartLine.id },
+    _sum: { reservedDelta: true },
+  });
+
+  if (movements.length === 0) {
+    const units = await getCartLineFlavorUnits(cartLine);
+    return new Map(
+      units.map((unit) => [unit.flavorId, unit.perPack * cartLine.quantity])
+    );
+  }
+
+  return new Map(
+    movements
+      .map((row) => [row.flavorId, row._sum.reservedDelta || 0] as const)
+      .filter(([, held]) => held > 0)
+  );
+};
+
+/**
+ * Release the stock held by a cart line back to inventory.
+ * The line's expiry is cleared first so a hold is only ever released once,
+ * even when the sweeper and a cart request race for the same line.
+ * @returns True if this call released the hold
+ */
+export const releaseCartLineReservation = async (
+  cartLine: CartLineReservation
+): Promise<boolean> => {
+  const claimed = await prisma.cartLine.updateMany({
+    where: { id: cartLine.id, reservationExpiresAt: { not: null } },
+    data: { reservationExpiresAt: null },
+  });
+
+  if (claimed.count === 0) {
+    return false;
+  }
+
+  for (const [flavorId, held] of await getCartLineHeldUnits(cartLine)) {
+    await applyStockMovement({
+      flavorId,
+      type: "release",
+      reservedDelta: -held,
+      cartLineId: cartLine.id,
+      reason: "Cart hold released",
+    });
+  }
+
+  return true;
+};
+
+/**
+ * Release the line's hold if it has lapsed, then report whether the line
+ * still holds stock. Call this before adjusting a line so a lapsed hold is
+ * never topped up as if its stock were still reserved.
+ */
+export const settleCartLineReservation = async (
+  cartLine: CartLineReservation
+): Promise<boolean> => {
+  if (!cartLine.reservationExpiresAt) {
+    return false;
+  }
+
+  if (cartLine.reservationExpiresAt.getTime() <= Date.now()) {
+    await releaseCartLineReservation(cartLine);
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Take a fresh hold on the line's whole quantity, if the stock is there.
+ * Only call this for a line that holds nothing (see settleCartLineReservation).
+ * @returns Null once held, or a message naming the flavor that ran short
+ */
+export const holdCartLine = async (
+  cartLine: CartLineReservation,
+  reason: string
+): Promise<string | null> => {
+  const units = await getCartLineFlavorUnits(cartLine);
+  const inventories = await prisma.flavorInventory.findMany({
+    where: { flavorId: { in: units.map((unit) => unit.flavorId) } },
+    include: { flavor: true },
+  });
+
+  const shortfall = units
+    .map((unit) => {
+      const inventory = inventories.find(
+        (inv) => inv.flavorId === unit.flavorId
+      );
+      const required = unit.perPack * cartLine.quantity;
+      const available = inventory
+        ? inventory.onHand - inventory.reserved - inventory.safetyStock
+        : 0;
+      return { unit, inventory, required, available };
+    })
+    .find((check) => check.available < check.required);
+
+  if (shortfall) {
+    return `Insufficient stock for ${
+      shortfall.inventory?.flavor.name || shortfall.unit.flavorId
+    }. Available: ${shortfall.available}, Required: ${shortfall.required}`;
+  }
+
+  for (const unit of units) {
+    await applyStockMovement({
+      flavorId: unit.flavorId,
+      type: "reservation",
+      reservedDelta: unit.perPack * cartLine.quantity,
+      cartLineId: cartLine.id,
+      reason,
+    });
+  }
+
+  await prisma.cartLine.update({
+    where: { id: cartLine.id },
+    data: { reservationExpiresAt: getReservationExpiry() },
+  });
+  return null;
+};
+
+/**
+ * Release every cart hold whose expiry has passed
+ * @returns Number of cart lines released
+ */
+export const releaseExpiredReservations = async (): Promise<number> => {
+  const expiredLines = await prisma.cartLine.findMany({
+    where: { reservationExpiresAt: { lte: new Date() } },
+    select: {
+      id: true,
+      quantity: true,
+      recipeId: true,
+      flavorIds: true,
+      reservationExpiresAt: true,
+    },
+  });
+
+  let released = 0;
+  for (const cartLine of expiredLines) {
+    try {
+      if (await releaseCartLineReservation(cartLine)) {
+        released++;
+      }
+    } catch (error) {
+      console.error(
+        `Error releasing reservation for cart line ${cartLine.id}:`,
+        error
+      );
+    }
+  }
+
+  return released;
+};
+
+/**
+ * Lines added before holds expired reserved stock but never got an expiry,
+ * so the sweeper can't see them. Every hold taken or released since is in
+ * the stock ledger, so a line without an expiry or any movement is one of
+ * those; mark it lapsed for the next sweep to release.
+ * @returns Number of cart lines marked
+ */
+export const expireLegacyReservations = async (): Promise<number> => {
+  const unheldLines = await prisma.cartLine.findMany({
+    where: { reservationExpiresAt: null },
+    select: { id: true },
+  });
+  if (unheldLines.length === 0) return 0;
+
+  const ledgered = await prisma.stockMovement.findMany({
+    where: { cartLineId: { in: unheldLines.map((line) => line.id) } },
+    select: { cartLineId: true },
+    distinct: ["cartLineId"],
+  });
+  const ledgeredIds = new Set(ledgered.map((movement) => movement.cartLineId));
+  const legacyIds = unheldLines
+    .map((line) => line.id)
+    .filter((id) => !ledgeredIds.has(id));
+  if (legacyIds.length === 0) return 0;
+
+  const marked = await prisma.cartLine.updateMany({
+    where: { id: { in: legacyIds }, reservationExpiresAt: null },
+    data: { reservationExpiresAt: new Date() },
+  });
+  return marked.count;
+};
+
+/**
+ * Start the background sweeper that returns lapsed holds to inventory
+ */
+export const startReservationSweeper = () => {
+  const sweep = async () => {
+    try {
+      const released = await releaseExpiredReservations();
+      if (released > 0) {
+        console.log(`🧹 Released ${released} expired cart reservation(s)`);
+      }
+    } catch (error) {
+      console.error("Cart reservation sweep failed:", error);
+    }
+  };
+
+  const timer = setInterval(sweep, RESERVATION_SWEEP_INTERVAL_MS);
+  // Don't keep the process alive just for the sweeper
+  timer.unref();
+  return timer;
+};
@@ -0,0 +1,211 @@
+import { Prisma, PrismaClient } from "../generated/prisma";
+import { PricedOrder } from "./pricingService";
+import { FundraisingAttribution } from "./fundraisingService";
+
+const prisma = new PrismaClient();
+
+export interface CheckoutItem {
+  productId: string | null;
+  quantity: number;
+  price: number;
+  total: number;
+  flavorIds: string[];
+  customPackName: string | null;
+}
+
+export interface CheckoutAddress {
+  name: string;
+  email?: string;
+  phone?: string;
+  street: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+}
+
+export interface CheckoutShippingRate {
+  objectId: string;
+  carrier: string;
+  amount: number;
+  serviceName: string;
+}
+
+// Everything the webhook needs to create the Order after payment
+export interface CheckoutDraft {
+  intentId: string | null;
+  status: string;
+  orderId: string | null;
+  total: number;
+  orderNotes: string | null;
+  items: CheckoutItem[];
+  address: CheckoutAddress | null;
+  shippingRate: CheckoutShippingRate | null;
+  promotionId: string | null;
+  promotionCode: string | null;
+  discountTotal: number;
+  shippingDiscount: number;
+  campaignId: string | null;
+  sellerId: string | null;
+  ipAddress: string | null;
+}
+
+/**
+ * Save the server-priced order draft so only its id has to travel
+ * through Stripe metadata
+ */
+export const createCheckoutIntent = async (
+  pricedOrder: PricedOrder,
+  orderData: any,
+  fundraising: FundraisingAttribution | null = null,
+  ipAddress: string | null = null
+) => {
+  const items: CheckoutItem[] = pricedOrder.lines.map((line) => ({
+    productId: line.productId,
+    quantity: line.quantity,
+    price: line.unitPrice,
+    total: line.total,
+    flavorIds: line.flavorIds,
+    customPackName: line.customPackName,
+  }));
+
+  // Only keep the address if provided (not for guest checkout where Stripe collects it)
+  const address: CheckoutAddress | null =
+    orderData.shippingAddress && orderData.shippingAddress.name
+      ? {
+          name: orderData.shippingAddress.name,
+          email: orderData.shippingAddress.email,
+          phone: orderData.shippingAddress.phone,
+          street: orderData.shippingAddress.street,
+          city: orderData.shippingAddress.city,
+          state: orderData.shippingAddress.state,
+          zip: orderData.shippingAddress.zipCode,
+          country: orderData.shippingAddress.country,
+        }
+      : null;
+
+  const shippingRate: CheckoutShippingRate | null = pricedOrder.shipping;
+
+  return prisma.checkoutIntent.create({
+    data: {
+      total: pricedOrder.total,
+      orderNotes: orderData.orderNotes || null,
+      items: items as unknown as Prisma.InputJsonValue,
+      shippingAddress: address
+        ? (address as unknown as Prisma.InputJsonValue)
+        : Prisma.JsonNull,
+      shippingRate: shippingRate
+        ? (shippingRate as unknown as Prisma.InputJsonValue)
+        : Prisma.JsonNull,
+      promotionId: pricedOrder.promotion?.id,
+      promotionCode: pricedOrder.promotion?.code,
+      discountTotal: pricedOrder.discount,
+      shippingDiscount: pricedOrder.promotion?.shippingDiscount || 0,
+      campaignId: fundraising?.campaignId,
+      sellerId: fundraising?.sellerId,
+      ipAddress,
+    },
+  });
+};
+
+/**
+ * Remember which Stripe session belongs to the intent
+ */
+export const attachCheckoutSession = async (
+  intentId: string,
+  stripeSessionId: string
+) => {
+  return prisma.checkoutIntent.update({
+    where: { id: intentId },
+    data: { stripeSessionId },
+  });
+};
+
+/**
+ * Load the order draft for a completed Stripe session. Sessions created
+ * before checkout intents existed still carry the compressed
+ * `orderData` blob, which is unpacked into the same shape.
+ * @returns The draft, or null if the session has no order information
+ */
+export const getCheckoutDraft = async (
+  metadata: Record<string, string> | null | undefined
+): Promise<CheckoutDraft | null> => {
+  if (metadata?.checkoutIntentId) {
+    const intent = await prisma.checkoutIntent.findUnique({
+      where: { id: metadata.checkoutIntentId },
+    });
+    if (!intent) return null;
+
+    return {
+      intentId: intent.id,
+      status: intent.status,
+      orderId: intent.orderId,
+      total: intent.total,
+      orderNotes: intent.orderNotes,
+      items: intent.items as unknown as CheckoutItem[],
+      address: intent.shippingAddress as unknown as CheckoutAddress | null,
+      shippingRate:
+        intent.shippingRate as unknown as CheckoutShippingRate | null,
+      promotionId: intent.promotionId,
+      promotionCode: intent.promotionCode,
+      discountTotal: intent.discountTotal,
+      shippingDiscount: intent.shippingDiscount,
+      campaignId: intent.campaignId,
+      sellerId: intent.sellerId,
+      ipAddress: intent.ipAddress,
+    };
+  }
+
+  if (metadata?.orderData) {
+    const compressedData = JSON.parse(metadata.orderData);
+    return {
+      intentId: null,
+      status: "pending",
+      orderId: null,
+      total: compressedData.total,
+      orderNotes: compressedData.notes || null,
+      items: (compressedData.items || []).map((item: any) => ({
+        productId: item.pid,
+        quantity: item.qty,
+        price: item.price,
+        total: item.total,
+        flavorIds: item.flavors || [],
+        customPackName: item.custom || null,
+      })),
+      address: compressedData.address || null,
+      shippingRate: compressedData.shippingRate || null,
+      promotionId: null,
+      promotionCode: null,
+      discountTotal: 0,
+      shippingDiscount: 0,
+      campaignId: null,
+      sellerId: null,
+      ipAddress: null,
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Link the intent to the Order created from it
+ */
+export const completeCheckoutIntent = async (
+  intentId: string,
+  orderId: string
+) => {
+  return prisma.checkoutIntent.update({
+    where: { id: intentId },
+    data: { status: "completed", orderId },
+  });
+};
+
+/**
+ * Mark the intent for an abandoned Stripe session as expired
+ */
+export const expireCheckoutIntent = async (stripeSessionId: string) => {
+  return prisma.checkoutIntent.updateMany({
+    where: { stripeSessionId, status: "pending" },
+    data: { status: "expired" },
+  });
+};
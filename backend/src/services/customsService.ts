@@ -0,0 +1,152 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { DEFAULT_FLAVOR_SIZE, DEFAULT_PRODUCT_SIZE } from "./parcelPackingService";
+
+const prisma = new PrismaClient();
+
+// Countries checkout ships to; anywhere but the home country needs customs
+export const SHIPPING_COUNTRIES = ["US", "CA", "GB", "AU"] as const;
+export const HOME_COUNTRY = "US";
+
+// Labels are bought DDU, so the recipient settles duties on arrival
+export const DUTIES_NOTICE =
+  "Orders shipping outside the United States may owe import duties and taxes. " +
+  "They aren't included in this total and are collected by the carrier or customs on delivery.";
+
+// Six, eight or ten digits, optionally grouped with dots (e.g. 1806.90)
+const HS_CODE_PATTERN = /^\d{4}(\.?\d{2}){1,3}$/;
+
+export interface CustomsItem {
+  description: string;
+  quantity: number;
+  netWeight: string;
+  massUnit: "oz";
+  valueAmount: string;
+  valueCurrency: string;
+  originCountry: string;
+  hsCode?: string;
+  skuCode?: string;
+  metadata?: string;
+}
+
+export interface CustomsDeclarationInput {
+  contentsType: "MERCHANDISE";
+  nonDeliveryOption: "RETURN";
+  incoterm: "DDU";
+  certify: boolean;
+  certifySigner: string;
+  items: CustomsItem[];
+  metadata?: string;
+}
+
+const toCountry = (country?: string | null) =>
+  (country || HOME_COUNTRY).trim().toUpperCase();
+
+export const isInternationalShipment = (
+  from: { country?: string | null },
+  to: { country?: string | null }
+) => toCountry(from.country) !== toCountry(to.country);
+
+/**
+ * Read optional customs fields from an admin form. Blank values clear them.
+ * @throws CustomError (400) if the HS code or country isn't valid
+ */
+export const parseCustomsInfo = (body: any) => {
+  const data: { hsCode?: string | null; countryOfOrigin?: string | null } = {};
+
+  if (body?.hsCode !== undefined) {
+    const hsCode = String(body.hsCode ?? "").trim();
+    if (hsCode && !HS_CODE_PATTERN.test(hsCode)) {
+      throw new CustomError("hsCode must be a 6, 8 or 10 digit HS code", 400);
+    }
+    data.hsCode = hsCode || null;
+  }
+
+  if (body?.countryOfOrigin !== undefined) {
+    const country = String(body.countryOfOrigin ?? "").trim().toUpperCase();
+    if (country && !/^[A-Z]{2}$/.test(country)) {
+      throw new CustomError("countryOfOrigin must be a two-letter code", 400);
+    }
+    data.countryOfOrigin = country || null;
+  }
+
+  return data;
+};
+
+/**
+ * One customs line per order line, valued at what the customer paid and
+ * weighed the way parcel packing weighs it. Custom packs take their code
+ * and origin from their flavors, falling back to the pack product's.
+ * @throws CustomError (400) if the order has no items
+ */
+export const getOrderCustomsItems = async (orderId: string): Promise<CustomsItem[]> => {
+  const orderItems = await prisma.orderItem.findMany({
+    where: { orderId },
+    include: {
+      product: {
+        select: {
+          name: true,
+          sku: true,
+          weightOz: true,
+          hsCode: true,
+          countryOfOrigin: true,
+        },
+      },
+    },
+  });
+  if (orderItems.length === 0) {
+    throw new CustomError("There is nothing to declare", 400);
+  }
+
+  const flavors = await prisma.flavor.findMany({
+    where: { id: { in: [...new Set(orderItems.flatMap((item) => item.flavorIds))] } },
+    select: { id: true, weightOz: true, hsCode: true, countryOfOrigin: true },
+  });
+  const flavorsById = new Map(flavors.map((flavor) => [flavor.id, flavor]));
+
+  return orderItems.map((item) => {
+    const packFlavors = item.flavorIds.map((id) => flavorsById.get(id));
+    const unitWeightOz =
+      packFlavors.length > 0
+        ? packFlavors.reduce(
+            (sum, flavor) => sum + (flavor?.weightOz ?? DEFAULT_FLAVOR_SIZE.weightOz),
+            0
+          )
+        : item.product?.weightOz ?? DEFAULT_PRODUCT_SIZE.weightOz;
+    const hsCode =
+      packFlavors.find((flavor) => flavor?.hsCode)?.hsCode || item.product?.hsCode;
+    const originCountry =
+      packFlavors.find((flavor) => flavor?.countryOfOrigin)?.countryOfOrigin ||
+      item.product?.countryOfOrigin;
+
+    return {
+      description: item.customPackName || item.product?.name || "Merchandise",
+      quantity: item.quantity,
+      netWeight: (Math.round(unitWeightOz * item.quantity * 100) / 100).toFixed(2),
+      massUnit: "oz",
+      valueAmount: item.total.toFixed(2),
+      valueCurrency: "USD",
+      originCountry: toCountry(originCountry),
+      ...(hsCode ? { hsCode } : {}),
+      ...(item.product?.sku ? { skuCode: item.product.sku } : {}),
+    };
+  });
+};
+
+/**
+ * The customs declaration an international label for an order needs,
+ * certified by the person shipping it
+ * @throws CustomError (400) if the order has no items
+ */
+export const buildCustomsDeclaration = async (
+  orderId: string,
+  certifySigner: string
+): Promise<CustomsDeclarationInput> => ({
+  contentsType: "MERCHANDISE",
+  nonDeliveryOption: "RETURN",
+  incoterm: "DDU",
+  certify: true,
+  certifySigner,
+  items: await getOrderCustomsItems(orderId),
+  metadata: `Order ${orderId}`,
+});
@@ -0,0 +1,316 @@
+import { OutboundEmail, Prisma, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  EmailTemplateData,
+  EmailTemplateName,
+  renderEmail,
+  sendEmail,
+} from "../mail";
+import {
+  isEmailTemplateName,
+  isSensitiveEmailTemplate,
+} from "../mail/templates";
+
+const prisma = new PrismaClient();
+
+export const OUTBOUND_EMAIL_STATUSES = [
+  "pending",
+  "sending",
+  "retrying",
+  "sent",
+  "dead",
+] as const;
+
+export type OutboundEmailStatus = (typeof OUTBOUND_EMAIL_STATUSES)[number];
+
+const isOutboundEmailStatus = (value: unknown): value is OutboundEmailStatus =>
+  OUTBOUND_EMAIL_STATUSES.includes(value as OutboundEmailStatus);
+
+// Statuses the worker picks up once nextAttemptAt has passed
+const DUE_STATUSES: OutboundEmailStatus[] = ["pending", "retrying"];
+
+const OUTBOX_INTERVAL_MS = 30 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+
+// Retries wait 1, 2, 4, 8, 16... minutes, at most an hour
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// A send still running after this long is assumed lost with its worker
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+// Stored in place of a sensitive template's data once it has been sent
+const REDACTED_DATA = { redacted: true };
+
+const isRedacted = (email: OutboundEmail) =>
+  (email.data as { redacted?: boolean } | null)?.redacted === true;
+
+export const getRetryDelayMs = (attempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+
+/**
+ * Store an email for the worker to send, so a mail server outage delays
+ * it rather than losing it or failing the request that triggered it
+ */
+export const enqueueEmail = async <N extends EmailTemplateName>(
+  name: N,
+  to: string,
+  data: EmailTemplateData<N>,
+  options: { bcc?: string } = {}
+) => {
+  const message = await prisma.outboundEmail.create({
+    data: {
+      template: name,
+      to,
+      bcc: options.bcc || null,
+      data: data as unknown as Prisma.InputJsonValue,
+      subject: renderEmail(name, data).subject,
+    },
+  });
+
+  // Send straight away rather than waiting for the next worker tick
+  setImmediate(runEmailOutbox);
+  return message;
+};
+
+/**
+ * Claim and send one queued email. Failures are scheduled for a retry
+ * with exponential backoff until maxAttempts, then marked dead.
+ * @returns The updated message, or null if another worker claimed it first
+ */
+const deliverOutboundEmail = async (message: OutboundEmail) => {
+  const claimed = await prisma.outboundEmail.updateMany({
+    where: { id: message.id, status: { in: DUE_STATUSES } },
+    data: { status: "sending", lockedAt: new Date() },
+  });
+  if (claimed.count === 0) return null;
+
+  const attempts = message.attempts + 1;
+  try {
+    if (!isEmailTemplateName(message.template)) {
+      throw new Error(`Unknown email template "${message.template}"`);
+    }
+    const delivery = await sendEmail(
+      message.template,
+      message.to,
+      message.data as never,
+      { bcc: message.bcc || undefined }
+    );
+
+    return prisma.outboundEmail.update({
+      where: { id: message.id },
+      data: {
+        status: "sent",
+        attempts,
+        sentAt: new Date(),
+        lockedAt: null,
+        lastError: null,
+        transport: delivery.transport,
+        messageId: delivery.messageId,
+        ...(isSensitiveEmailTemplate(message.template)
+          ? { data: REDACTED_DATA }
+          : {}),
+      },
+    });
+  } catch (error) {
+    const dead = attempts >= message.maxAttempts;
+    const lastError = error instanceof Error ? error.message : String(error);
+    console.error(
+      `❌ Email ${message.id} (${message.template} to ${message.to}) failed, attempt ${attempts}/${message.maxAttempts}:`,
+      lastError
+    );
+
+    return prisma.outboundEmail.update({
+      where: { id: message.id },
+      data: {
+        status: dead ? "dead" : "retrying",
+        attempts,
+        lockedAt: null,
+        lastError: lastError.slice(0, 1000),
+        nextAttemptAt: dead
+          ? undefined
+          : new Date(Date.now() + getRetryDelayMs(attempts)),
+      },
+    });
+  }
+};
+
+/**
+ * Send every email that is due, after returning sends abandoned by a
+ * crashed worker to the queue
+ * @returns How many were sent and how many failed
+ */
+export const processEmailOutbox = async () => {
+  await prisma.outboundEmail.updateMany({
+    where: {
+      status: "sending",
+      lockedAt: { lt: new Date(Date.now() - STALE_LOCK_MS) },
+    },
+    data: { status: "retrying", lockedAt: null },
+  });
+
+  const due = await prisma.outboundEmail.findMany({
+    where: { status: { in: DUE_STATUSES }, nextAttemptAt: { lte: new Date() } },
+    orderBy: { nextAttemptAt: "asc" },
+    take: OUTBOX_BATCH_SIZE,
+  });
+
+  let sent = 0;
+  let failed = 0;
+  for (const message of due) {
+    const result = await deliverOutboundEmail(message);
+    if (result?.status === "sent") sent++;
+    else if (result) failed++;
+  }
+  return { sent, failed };
+};
+
+let outboxRunning = false;
+let outboxRunRequested = false;
+
+// One run at a time per process; a request made mid-run triggers another
+const runEmailOutbox = async () => {
+  if (outboxRunning) {
+    outboxRunRequested = true;
+    return;
+  }
+
+  outboxRunning = true;
+  try {
+    do {
+      outboxRunRequested = false;
+      const { sent, failed } = await processEmailOutbox();
+      if (failed > 0) {
+        console.warn(`📭 Email outbox: ${sent} sent, ${failed} failed`);
+      }
+    } while (outboxRunRequested);
+  } catch (error) {
+    console.error("Email outbox run failed:", error);
+  } finally {
+    outboxRunning = false;
+  }
+};
+
+/**
+ * Periodically send queued emails and retry failed ones
+ */
+export const startEmailOutboxWorker = () => {
+  const timer = setInterval(runEmailOutbox, OUTBOX_INTERVAL_MS);
+  // Don't keep the process alive just for the outbox
+  timer.unref();
+  return timer;
+};
+
+/**
+ * Queued and sent emails for the admin view, newest first
+ * @throws CustomError (400) if the status filter is unknown
+ */
+export const listOutboundEmails = async (filters: {
+  status?: unknown;
+  search?: unknown;
+  page?: unknown;
+  limit?: unknown;
+}) => {
+  if (filters.status && !isOutboundEmailStatus(filters.status)) {
+    throw new CustomError("Invalid email status", 400);
+  }
+
+  const page = Math.max(parseInt(String(filters.page || "1"), 10) || 1, 1);
+  const limit = parseInt(String(filters.limit || "50"), 10) || 50;
+  const take = Math.min(limit, 200);
+  const skip = (page - 1) * take;
+
+  const search = typeof filters.search === "string" ? filters.search.trim() : "";
+  const where: Prisma.OutboundEmailWhereInput = {
+    ...(filters.status ? { status: filters.status as OutboundEmailStatus } : {}),
+    ...(search
+      ? {
+          OR: [
+            { to: { contains: search, mode: "insensitive" } },
+            { subject: { contains: search, mode: "insensitive" } },
+          ],
+        }
+      : {}),
+  };
+
+  const [emails, total, counts] = await Promise.all([
+    prisma.outboundEmail.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      skip,
+      take,
+      omit: { data: true },
+    }),
+    prisma.outboundEmail.count({ where }),
+    prisma.outboundEmail.groupBy({ by: ["status"], _count: { _all: true } }),
+  ]);
+
+  return {
+    emails,
+    counts: Object.fromEntries(
+      counts.map((count) => [count.status, count._count._all])
+    ),
+    pagination: { page, limit: take, total, pages: Math.ceil(total / take) },
+  };
+};
+
+/**
+ * One queued email with its rendered content
+ * @throws CustomError (404) if it doesn't exist
+ */
+export const getOutboundEmail = async (id: string) => {
+  const email = await prisma.outboundEmail.findUnique({ where: { id } });
+  if (!email) throw new CustomError("Email not found", 404);
+
+  let preview: ReturnType<typeof renderEmail> | null = null;
+  if (isEmailTemplateName(email.template) && !isRedacted(email)) {
+    try {
+      preview = renderEmail(email.template, email.data as never);
+    } catch (error) {
+      console.error(`Error rendering email ${id}:`, error);
+    }
+  }
+  return { email, preview };
+};
+
+/**
+ * Send an email again: failed ones go back to the queue with fresh
+ * attempts, sent ones are copied so the original stays in the log
+ * @throws CustomError (404) if it doesn't exist
+ * @throws CustomError (409) if it is being sent right now, or held a
+ * one-time code that is no longer stored
+ */
+export const resendOutboundEmail = async (id: string) => {
+  const email = await prisma.outboundEmail.findUnique({ where: { id } });
+  if (!email) throw new CustomError("Email not found", 404);
+  if (email.status === "sending") {
+    throw new CustomError("This email is being sent right now", 409);
+  }
+  if (isRedacted(email)) {
+    throw new CustomError(
+      "This email held a one-time code that isn't kept after sending. Ask the customer to request a new one.",
+      409
+    );
+  }
+
+  const resent =
+    email.status === "sent"
+      ? await prisma.outboundEmail.create({
+          data: {
+            template: email.template,
+            to: email.to,
+            bcc: email.bcc,
+            data: email.data as Prisma.InputJsonValue,
+            subject: email.subject,
+            maxAttempts: email.maxAttempts,
+            resentFromId: email.id,
+          },
+        })
+      : await prisma.outboundEmail.update({
+          where: { id },
+          data: { status: "pending", attempts: 0, nextAttemptAt: new Date() },
+        });
+
+  setImmediate(runEmailOutbox);
+  return resent;
+};
@@ -0,0 +1,296 @@
+import { FraudRule, Prisma, PrismaClient } from "../generated/prisma";
+
+const prisma = new PrismaClient();
+
+export const FRAUD_RULE_CONDITIONS = [
+  "order_total", // Total at or above threshold dollars
+  "account_age", // Account younger than threshold hours
+  "guest_checkout", // No account
+  "address_mismatch", // Billing and shipping addresses differ
+  "email_velocity", // At least threshold orders from the email within the window
+  "ip_velocity", // At least threshold orders from the IP within the window
+  "address_reuse", // Shipping address used by at least threshold other customers within the window
+] as const;
+
+export type FraudRuleCondition = (typeof FRAUD_RULE_CONDITIONS)[number];
+
+export const isFraudRuleCondition = (
+  value: unknown
+): value is FraudRuleCondition =>
+  FRAUD_RULE_CONDITIONS.includes(value as FraudRuleCondition);
+
+// Conditions that look back over windowHours
+export const WINDOWED_CONDITIONS: FraudRuleCondition[] = [
+  "email_velocity",
+  "ip_velocity",
+  "address_reuse",
+];
+
+// Conditions that only match or don't, so threshold is ignored
+const BOOLEAN_CONDITIONS: FraudRuleCondition[] = [
+  "guest_checkout",
+  "address_mismatch",
+];
+
+// What the engine needs from a rule; dry runs pass unsaved rules in this shape
+export type FraudRuleInput = Pick<
+  FraudRule,
+  "id" | "name" | "condition" | "threshold" | "windowHours" | "weight" | "active"
+>;
+
+export interface FraudThresholds {
+  highRiskThreshold: number;
+  autoApproveThreshold: number;
+}
+
+// The order facts rules are evaluated against
+export interface RiskContext {
+  orderId?: string;
+  total: number;
+  userId?: string | null;
+  email?: string | null;
+  userCreatedAt?: Date | null;
+  ipAddress?: string | null;
+  shippingAddress?: any;
+  billingAddress?: any;
+  asOf: Date; // Velocity windows end here, so old orders score as they would have
+}
+
+const DEFAULT_THRESHOLDS: FraudThresholds = {
+  highRiskThreshold: 70,
+  autoApproveThreshold: 30,
+};
+
+// Rules created on first start, matching the checks that used to be
+// hard-coded. Matching rules add up, so each tier carries only the step
+// over the tier below it.
+const DEFAULT_FRAUD_RULES: Array<Omit<FraudRuleInput, "active"> & { sortOrder: number }> = [
+  { id: "MEDIUM_VALUE_ORDER", name: "Order value exceeds $500", condition: "order_total", threshold: 500, windowHours: null, weight: 10, sortOrder: 1 },
+  { id: "HIGH_VALUE_ORDER", name: "Order value exceeds $1000", condition: "order_total", threshold: 1000, windowHours: null, weight: 10, sortOrder: 2 },
+  { id: "NEW_USER_WEEK", name: "User account created within a week", condition: "account_age", threshold: 168, windowHours: null, weight: 10, sortOrder: 3 },
+  { id: "NEW_USER_24H", name: "User account created within 24 hours", condition: "account_age", threshold: 24, windowHours: null, weight: 10, sortOrder: 4 },
+  { id: "GUEST_CHECKOUT", name: "Order placed without an account", condition: "guest_checkout", threshold: null, windowHours: null, weight: 10, sortOrder: 5 },
+  { id: "ADDRESS_MISMATCH", name: "Billing and shipping addresses differ", condition: "address_mismatch", threshold: null, windowHours: null, weight: 15, sortOrder: 6 },
+  { id: "HIGH_HOURLY_FREQUENCY", name: "5+ orders from the email in an hour", condition: "email_velocity", threshold: 5, windowHours: 1, weight: 15, sortOrder: 7 },
+  { id: "EXCESSIVE_HOURLY_ORDERS", name: "10+ orders from the email in an hour", condition: "email_velocity", threshold: 10, windowHours: 1, weight: 15, sortOrder: 8 },
+  { id: "HIGH_DAILY_FREQUENCY", name: "10+ orders from the email in a day", condition: "email_velocity", threshold: 10, windowHours: 24, weight: 10, sortOrder: 9 },
+  { id: "EXCESSIVE_DAILY_ORDERS", name: "20+ orders from the email in a day", condition: "email_velocity", threshold: 20, windowHours: 24, weight: 15, sortOrder: 10 },
+  { id: "IP_VELOCITY", name: "5+ orders from one IP in an hour", condition: "ip_velocity", threshold: 5, windowHours: 1, weight: 20, sortOrder: 11 },
+  { id: "ADDRESS_REUSE", name: "Address used by 3+ other customers in 30 days", condition: "address_reuse", threshold: 3, windowHours: 720, weight: 20, sortOrder: 12 },
+];
+
+
+/**
+ * Normalise a shipping or billing address to street, zip and country so
+ * the checkout form's, Stripe's and Shippo's field names compare equal
+ * @returns The key, or null if the address is missing a street or zip
+ */
+export const toAddressKey = (address: any): string | null => {
+  if (!address || typeof address !== "object") return null;
+
+  const street = address.street1 || address.street || address.line1;
+  const zip = address.zip || address.zipCode || address.postal_code;
+  if (!street || !zip) return null;
+
+  const clean = (value: string) =>
+    String(value).toLowerCase().replace(/[^a-z0-9]/g, "");
+  const country = clean(address.country || "us");
+  return `${clean(street)}|${clean(zip).slice(0, 5)}|${country}`;
+};
+
+/**
+ * Active rules in evaluation order
+ */
+export const getActiveFraudRules = () => {
+  return prisma.fraudRule.findMany({
+    where: { active: true },
+    orderBy: [{ sortOrder: "asc" }, { id: "asc" }],
+  });
+};
+
+/**
+ * Current score cut-offs, falling back to the defaults before any are saved
+ */
+export const getFraudThresholds = async (): Promise<FraudThresholds> => {
+  const settings = await prisma.fraudSettings.findUnique({
+    where: { id: "default" },
+  });
+  return settings
+    ? {
+        highRiskThreshold: settings.highRiskThreshold,
+        autoApproveThreshold: settings.autoApproveThreshold,
+      }
+    : DEFAULT_THRESHOLDS;
+};
+
+const windowStart = (context: RiskContext, rule: FraudRuleInput) =>
+  new Date(context.asOf.getTime() - (rule.windowHours || 1) * 60 * 60 * 1000);
+
+/**
+ * Whether one rule matches the order
+ */
+const matchesRule = async (
+  rule: FraudRuleInput,
+  context: RiskContext
+): Promise<boolean> => {
+  const threshold = rule.threshold ?? 0;
+  const createdAt = { gte: windowStart(context, rule), lte: context.asOf };
+
+  switch (rule.condition as FraudRuleCondition) {
+    case "order_total":
+      return context.total >= threshold;
+
+    case "account_age": {
+      if (!context.userId || !context.userCreatedAt) return false;
+      const ageHours =
+        (context.asOf.getTime() - context.userCreatedAt.getTime()) /
+        (60 * 60 * 1000);
+      return ageHours < threshold;
+    }
+
+    case "guest_checkout":
+      return !context.userId;
+
+    case "address_mismatch": {
+      const billing = toAddressKey(context.billingAddress);
+      const shipping = toAddressKey(context.shippingAddress);
+      return !!billing && !!shipping && billing !== shipping;
+    }
+
+    case "email_velocity": {
+      if (!context.email && !context.userId) return false;
+      const sameCustomer: Prisma.OrderWhereInput[] = [];
+      if (context.userId) sameCustomer.push({ userId: context.userId });
+      if (context.email) {
+        sameCustomer.push({ guestEmail: context.email });
+        sameCustomer.push({ user: { email: context.email } });
+      }
+      const count = await prisma.order.count({
+        where: { OR: sameCustomer, createdAt },
+      });
+      return count >= threshold;
+    }
+
+    case "ip_velocity": {
+      if (!context.ipAddress) return false;
+      const count = await prisma.order.count({
+        where: { ipAddress: context.ipAddress, createdAt },
+      });
+      return count >= threshold;
+    }
+
+    case "address_reuse": {
+      const key = toAddressKey(context.shippingAddress);
+      if (!key) return false;
+      const orders = await prisma.order.findMany({
+        where: {
+          shippingAddressKey: key,
+          createdAt,
+          ...(context.orderId ? { id: { not: context.orderId } } : {}),
+        },
+        select: { userId: true, guestEmail: true },
+      });
+      const self = context.userId || context.email;
+      const others = new Set(
+        orders
+          .map((order) => order.userId || order.guestEmail)
+          .filter((customer) => customer && customer !== self)
+      );
+      return others.size >= threshold;
+    }
+
+    default:
+      return false;
+  }
+};
+
+/**
+ * Score an order against a rule set
+ * @returns The summed weights and the flags of the rules that matched
+ */
+export const evaluateFraudRules = async (
+  context: RiskContext,
+  rules: FraudRuleInput[]
+): Promise<{ score: number; flags: string[] }> => {
+  let score = 0;
+  const flags: string[] = [];
+
+  for (const rule of rules) {
+    if (!rule.active) continue;
+    if (await matchesRule(rule, context)) {
+      score += rule.weight;
+      flags.push(rule.id);
+    }
+  }
+
+  return { score, flags };
+};
+
+/**
+ * Check a rule from the admin form or a dry run
+ * @returns A message describing the first problem, or null if it's valid
+ */
+export const validateFraudRule = (rule: Partial<FraudRuleInput>) => {
+  if (!rule.id || !/^[A-Z0-9_]+$/.test(rule.id)) {
+    return "id may only contain capital letters, numbers and underscores";
+  }
+  if (!rule.name || !rule.name.trim()) {
+    return "Rule name is required";
+  }
+  if (!isFraudRuleCondition(rule.condition)) {
+    return `condition must be one of: ${FRAUD_RULE_CONDITIONS.join(", ")}`;
+  }
+  if (!Number.isInteger(rule.weight) || rule.weight! < -100 || rule.weight! > 100) {
+    return "weight must be a whole number from -100 to 100";
+  }
+  if (
+    !BOOLEAN_CONDITIONS.includes(rule.condition) &&
+    (typeof rule.threshold !== "number" || isNaN(rule.threshold) || rule.threshold < 0)
+  ) {
+    return `${rule.condition} rules need a threshold of 0 or more`;
+  }
+  if (
+    WINDOWED_CONDITIONS.includes(rule.condition) &&
+    (!Number.isInteger(rule.windowHours) || rule.windowHours! < 1)
+  ) {
+    return `${rule.condition} rules need a window of at least 1 hour`;
+  }
+  return null;
+};
+
+/**
+ * Check score cut-offs
+ * @returns A message describing the problem, or null if they're valid
+ */
+export const validateFraudThresholds = (thresholds: FraudThresholds) => {
+  const { highRiskThreshold, autoApproveThreshold } = thresholds;
+  if (
+    !Number.isInteger(highRiskThreshold) ||
+    !Number.isInteger(autoApproveThreshold) ||
+    highRiskThreshold < 1 ||
+    highRiskThreshold > 100 ||
+    autoApproveThreshold < 0
+  ) {
+    return "Thresholds must be whole numbers, with high risk from 1 to 100";
+  }
+  if (autoApproveThreshold >= highRiskThreshold) {
+    return "The auto-approve threshold must be below the high-risk threshold";
+  }
+  return null;
+};
+
+/**
+ * Create the default rules while there are none, and the settings row
+ */
+export const ensureFraudRules = async () => {
+  const existing = await prisma.fraudRule.count();
+  if (existing === 0) {
+    await prisma.fraudRule.createMany({ data: DEFAULT_FRAUD_RULES });
+  }
+
+  await prisma.fraudSettings.upsert({
+    where: { id: "default" },
+    update: {},
+    create: { id: "default", ...DEFAULT_THRESHOLDS },
+  });
+};
@@ -0,0 +1,419 @@
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from "pdf-lib";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { createShipment, getShippingRates, ShippingAddress } from "./shippoService";
+import { getOrderParcels } from "./parcelPackingService";
+import { getOrderShipFromAddress } from "./shippingLocationService";
+import { selectLabelRate, toShippingDestination } from "./shippingRuleService";
+import { isHeldForReview } from "./orderVerificationService";
+import { notifyOrderShipped } from "./notificationService";
+
+const prisma = new PrismaClient();
+
+// Keeps a batch within what Shippo and one request can get through
+export const MAX_BATCH_ORDERS = 100;
+
+export type BatchLabelStatus = "purchased" | "existing" | "skipped" | "failed";
+
+export interface BatchLabelResult {
+  orderId: string;
+  status: BatchLabelStatus;
+  message?: string;
+  trackingNumber?: string | null;
+  labelUrl?: string | null;
+}
+
+/**
+ * Orders are saved with either the checkout form's address fields or
+ * Stripe's; turn either into a Shippo address
+ */
+export const toShippoAddress = (address: any, email?: string | null): ShippingAddress => ({
+  name: address.name || "Customer",
+  company: address.company || "",
+  email: address.email || email || "",
+  phone: address.phone || "",
+  street1: address.street1 || address.street || address.line1 || "",
+  street2: address.street2 || address.line2 || "",
+  city: address.city || "",
+  state: address.state || "",
+  zip: address.zip || address.zipCode || address.postal_code || "",
+  country: address.country || "US",
+});
+
+/**
+ * Buy the label for a paid order that doesn't have one yet, preferring the
+ * service the customer paid for
+ * @returns The shipment, or null if the order isn't paid, already has a
+ * label or no rate was available
+ */
+export const purchaseOrderLabel = async (orderId: string) => {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+    include: { user: { select: { email: true } } },
+  });
+  if (
+    order.paymentStatus !== "paid" ||
+    order.shipmentId ||
+    !order.shippingAddress
+  ) {
+    return null;
+  }
+
+  const toAddress = toShippoAddress(
+    order.shippingAddress,
+    order.user?.email || order.guestEmail
+  );
+  const parcels = await getOrderParcels(orderId);
+  const fromAddress = await getOrderShipFromAddress(orderId);
+  const rate = await selectLabelRate(
+    {
+      carrier: order.shippingCarrier,
+      serviceName: order.shippingService,
+      amount: order.shippingCost,
+    },
+    () => getShippingRates(toAddress, parcels, fromAddress),
+    toShippingDestination(toAddress)
+  );
+  if (!rate) {
+    return null;
+  }
+
+  return createShipment(
+    { orderId, toAddress, parcels },
+    rate.objectId,
+    { carrier: rate.carrier, amount: rate.amount, serviceName: rate.serviceName }
+  );
+};
+
+/**
+ * Why an order can't go out in a batch, if it can't: it has to be paid
+ * for, not yet shipped and not waiting on fraud review
+ */
+const getUnshippableReason = (order: {
+  status: string;
+  paymentStatus: string;
+  reviewStatus: string | null;
+  shippingAddress: unknown;
+}) => {
+  if (order.paymentStatus !== "paid") return "Order isn't paid";
+  if (["shipped", "delivered"].includes(order.status)) return "Order has already shipped";
+  if (order.status === "cancelled") return "Order is cancelled";
+  if (isHeldForReview(order.reviewStatus)) return "Order is held for review";
+  if (!order.shippingAddress) return "Order has no shipping address";
+  return null;
+};
+
+/**
+ * @throws CustomError (400) if the list is empty or too long
+ */
+const parseOrderIds = (orderIds: unknown): string[] => {
+  if (!Array.isArray(orderIds) || orderIds.length === 0) {
+    throw new CustomError("Order IDs array is required", 400);
+  }
+  if (orderIds.length > MAX_BATCH_ORDERS) {
+    throw new CustomError(
+      `Batches are limited to ${MAX_BATCH_ORDERS} orders at a time`,
+      400
+    );
+  }
+  return [...new Set(orderIds.map(String))];
+};
+
+/**
+ * Buy labels for a batch of paid, unshipped orders one at a time, mark
+ * every order that has a label as shipped and email its customer. Orders
+ * that already have a label keep it. One order failing doesn't stop the
+ * rest; the failure is recorded on the order like any other label failure.
+ * @throws CustomError (400) if the order list is empty or too long
+ */
+export const createLabelBatch = async (orderIds: unknown) => {
+  const ids = parseOrderIds(orderIds);
+  const orders = await prisma.order.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      status: true,
+      paymentStatus: true,
+      reviewStatus: true,
+      shippingAddress: true,
+      shipmentId: true,
+      shippingLabelUrl: true,
+      trackingNumber: true,
+    },
+  });
+  const ordersById = new Map(orders.map((order) => [order.id, order]));
+
+  const results: BatchLabelResult[] = [];
+  for (const orderId of ids) {
+    const order = ordersById.get(orderId);
+    if (!order) {
+      results.push({ orderId, status: "skipped", message: "Order not found" });
+      continue;
+    }
+
+    const reason = getUnshippableReason(order);
+    if (reason) {
+      results.push({ orderId, status: "skipped", message: reason });
+      continue;
+    }
+
+    if (order.shipmentId && order.shippingLabelUrl) {
+      results.push({
+        orderId,
+        status: "existing",
+        trackingNumber: order.trackingNumber,
+        labelUrl: order.shippingLabelUrl,
+      });
+      continue;
+    }
+
+    try {
+      const shipment = await purchaseOrderLabel(orderId);
+      if (!shipment) {
+        throw new Error("No shipping rate available");
+      }
+      results.push({
+        orderId,
+        status: "purchased",
+        message: shipment.parcelLabelError || undefined,
+        trackingNumber: shipment.trackingNumber,
+        labelUrl: shipment.labelUrl,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Label purchase failed";
+      console.error(`Batch label purchase failed for order ${orderId}:`, error);
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { shippingError: message },
+      });
+      results.push({ orderId, status: "failed", message });
+    }
+  }
+
+  const labelledIds = results
+    .filter((result) => result.status === "purchased" || result.status === "existing")
+    .map((result) => result.orderId);
+  if (labelledIds.length > 0) {
+    await prisma.order.updateMany({
+      where: { id: { in: labelledIds } },
+      data: { status: "shipped" },
+    });
+    // Keep the error on orders still missing a parcel's label
+    await prisma.order.updateMany({
+      where: {
+        id: {
+          in: results
+            .filter((result) => labelledIds.includes(result.orderId) && !result.message)
+            .map((result) => result.orderId),
+        },
+      },
+      data: { shippingError: null },
+    });
+
+    // Tracking updates won't see these orders change to shipped
+    for (const orderId of labelledIds) {
+      try {
+        await notifyOrderShipped(orderId);
+      } catch (error) {
+        console.error(`Shipped email failed for order ${orderId}:`, error);
+      }
+    }
+  }
+
+  return { results, labelledIds };
+};
+
+/**
+ * Download every order's labels, one per parcel, and merge them into one
+ * PDF, in the order given, for printing in one go
+ * @throws CustomError (400) if an order has no label
+ * @throws CustomError (502) if a label can't be downloaded
+ */
+export const buildLabelsPdf = async (orderIds: unknown) => {
+  const ids = parseOrderIds(orderIds);
+  const orders = await prisma.order.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, shippingLabelUrl: true, shippingLabelUrls: true },
+  });
+  // Labels bought before parcels were tracked separately only have the one
+  const labelUrls = new Map(
+    orders.map((order) => [
+      order.id,
+      order.shippingLabelUrls.length > 0
+        ? order.shippingLabelUrls
+        : [order.shippingLabelUrl].filter((url): url is string => !!url),
+    ])
+  );
+
+  const merged = await PDFDocument.create();
+  for (const orderId of ids) {
+    const orderLabelUrls = labelUrls.get(orderId) || [];
+    if (orderLabelUrls.length === 0) {
+      throw new CustomError(`Order ${orderId} has no shipping label`, 400);
+    }
+
+    for (const labelUrl of orderLabelUrls) {
+      let label: PDFDocument;
+      try {
+        const response = await fetch(labelUrl);
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        label = await PDFDocument.load(await response.arrayBuffer());
+      } catch (error) {
+        console.error(`Could not download label for order ${orderId}:`, error);
+        throw new CustomError(`Couldn't download the label for order ${orderId}`, 502);
+      }
+
+      const pages = await merged.copyPages(label, label.getPageIndices());
+      pages.forEach((page) => merged.addPage(page));
+    }
+  }
+
+  return Buffer.from(await merged.save());
+};
+
+// Standard PDF fonts only cover Latin-1
+const toPdfText = (text: string) => text.replace(/[^\x20-\x7E\u00A0-\u00FF]/g, "?");
+
+// Cut a line short with an ellipsis rather than run off the page
+const fitText = (text: string, font: PDFFont, size: number, width: number) => {
+  let fitted = toPdfText(text);
+  if (font.widthOfTextAtSize(fitted, size) <= width) return fitted;
+  while (fitted && font.widthOfTextAtSize(`${fitted}...`, size) > width) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted}...`;
+};
+
+// "2 x Mango, 1 x Lime" from a custom pack's flavor ids, which repeat
+const countFlavors = (flavorIds: string[], names: Map<string, string>) => {
+  const counts = new Map<string, number>();
+  for (const flavorId of flavorIds) {
+    counts.set(flavorId, (counts.get(flavorId) || 0) + 1);
+  }
+  return [...counts].map(
+    ([flavorId, count]) => `${count} x ${names.get(flavorId) || "Unknown flavor"}`
+  );
+};
+
+const formatAddress = (address: ShippingAddress) =>
+  [
+    address.name,
+    address.company,
+    address.street1,
+    address.street2,
+    `${address.city}, ${address.state} ${address.zip}`,
+    address.country,
+  ].filter(Boolean) as string[];
+
+/**
+ * One page per order listing what goes in the box, with every custom
+ * pack's flavors spelled out for whoever picks it
+ * @throws CustomError (400) if the order list is empty or too long
+ * @throws CustomError (404) if none of the orders exist
+ */
+export const buildPackingSlipsPdf = async (orderIds: unknown) => {
+  const ids = parseOrderIds(orderIds);
+  const orders = await prisma.order.findMany({
+    where: { id: { in: ids } },
+    include: {
+      user: { select: { email: true } },
+      fulfillmentLocation: { select: { name: true } },
+      orderItems: {
+        include: {
+          product: {
+            select: {
+              name: true,
+              sku: true,
+              productFlavors: {
+                select: { quantity: true, flavor: { select: { name: true } } },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+  const ordersById = new Map(orders.map((order) => [order.id, order]));
+
+  const flavorIds = [
+    ...new Set(orders.flatMap((order) => order.orderItems.flatMap((item) => item.flavorIds))),
+  ];
+  const flavors = await prisma.flavor.findMany({
+    where: { id: { in: flavorIds } },
+    select: { id: true, name: true },
+  });
+  const flavorNames = new Map(flavors.map((flavor) => [flavor.id, flavor.name]));
+
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+  const margin = 50;
+
+  for (const orderId of ids) {
+    const order = ordersById.get(orderId);
+    if (!order) continue;
+
+    let page: PDFPage = pdf.addPage([612, 792]); // US Letter
+    let y = 792 - margin;
+    const write = (text: string, size = 11, x = margin, textFont: PDFFont = font) => {
+      if (y < margin) {
+        page = pdf.addPage([612, 792]);
+        y = 792 - margin;
+      }
+      page.drawText(fitText(text, textFont, size, 612 - margin - x), {
+        x,
+        y,
+        size,
+        font: textFont,
+        color: rgb(0, 0, 0),
+      });
+      y -= size + 6;
+    };
+
+    write("Packing Slip", 20, margin, bold);
+    y -= 4;
+    write(`Order #${order.id}`, 12, margin, bold);
+    write(`Placed ${order.createdAt.toLocaleDateString("en-US")}`);
+    if (order.fulfillmentLocation) {
+      write(`Ships from ${order.fulfillmentLocation.name}`);
+    }
+    y -= 10;
+
+    write("Ship to", 12, margin, bold);
+    const toAddress = toShippoAddress(
+      order.shippingAddress || {},
+      order.user?.email || order.guestEmail
+    );
+    formatAddress(toAddress).forEach((line) => write(line));
+    y -= 10;
+
+    write("Items", 12, margin, bold);
+    for (const item of order.orderItems) {
+      const name = item.customPackName || item.product?.name || "Item";
+      const sku = item.product?.sku ? ` (SKU ${item.product.sku})` : "";
+      write(`${item.quantity} x ${name}${sku}`, 11, margin, bold);
+
+      const contents =
+        item.flavorIds.length > 0
+          ? countFlavors(item.flavorIds, flavorNames)
+          : (item.product?.productFlavors || []).map(
+              (productFlavor) => `${productFlavor.quantity} x ${productFlavor.flavor.name}`
+            );
+      contents.forEach((line) => write(line, 10, margin + 18));
+      y -= 4;
+    }
+
+    if (order.orderNotes) {
+      y -= 6;
+      write("Notes", 12, margin, bold);
+      write(order.orderNotes.slice(0, 200), 10);
+    }
+  }
+
+  if (pdf.getPageCount() === 0) {
+    throw new CustomError("None of the selected orders were found", 404);
+  }
+  return Buffer.from(await pdf.save());
+};
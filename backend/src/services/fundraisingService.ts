@@ -0,0 +1,250 @@
+import { Campaign, Prisma, PrismaClient } from "../generated/prisma";
+
+const prisma = new PrismaClient();
+
+// Slug and seller code as sent by a /fundraise/:campaignSlug/:sellerCode link
+export interface FundraisingReferral {
+  campaignSlug?: string | null;
+  sellerCode?: string | null;
+}
+
+export interface FundraisingAttribution {
+  campaignId: string;
+  sellerId: string | null;
+}
+
+export interface SellerStanding {
+  rank: number;
+  sellerId: string;
+  name: string;
+  code: string;
+  goalAmount: number | null;
+  raised: number;
+  orderCount: number;
+}
+
+export interface CampaignProgress {
+  goalAmount: number;
+  raised: number;
+  percentOfGoal: number;
+  orderCount: number;
+}
+
+export interface DateRange {
+  from?: Date;
+  to?: Date;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizeSlug = (value: string) =>
+  value
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+
+/**
+ * Whether a campaign is currently taking orders
+ */
+export const isCampaignOpen = (campaign: Campaign, now = new Date()) => {
+  if (!campaign.active) return false;
+  if (campaign.startsAt && campaign.startsAt > now) return false;
+  if (campaign.endsAt && campaign.endsAt < now) return false;
+  return true;
+};
+
+/**
+ * Turn a referral from the storefront into campaign/seller ids. Unknown or
+ * closed campaigns are ignored rather than blocking checkout.
+ * @returns The attribution, or null if the order isn't part of a fundraiser
+ */
+export const resolveFundraisingAttribution = async (
+  referral: FundraisingReferral | null | undefined
+): Promise<FundraisingAttribution | null> => {
+  if (!referral?.campaignSlug) return null;
+
+  const campaign = await prisma.campaign.findUnique({
+    where: { slug: normalizeSlug(referral.campaignSlug) },
+  });
+  if (!campaign || !isCampaignOpen(campaign)) return null;
+
+  let sellerId: string | null = null;
+  if (referral.sellerCode) {
+    const seller = await prisma.seller.findUnique({
+      where: {
+        campaignId_code: {
+          campaignId: campaign.id,
+          code: normalizeSlug(referral.sellerCode),
+        },
+      },
+    });
+    if (seller?.active) sellerId = seller.id;
+  }
+
+  return { campaignId: campaign.id, sellerId };
+};
+
+// Orders that count towards a fundraiser: paid and not cancelled/refunded
+const countedOrdersWhere = (
+  range: DateRange = {}
+): Prisma.OrderWhereInput => ({
+  paymentStatus: { in: ["paid", "partially_refunded"] },
+  status: { notIn: ["cancelled", "refunded"] },
+  ...(range.from || range.to
+    ? { createdAt: { gte: range.from, lte: range.to } }
+    : {}),
+});
+
+// What an order raised: its items after item discounts, less anything
+// refunded. Shipping never counts, and neither do discounts taken off it.
+const salesFromOrder = (order: {
+  discountTotal: number;
+  shippingDiscount: number;
+  refundedTotal: number;
+  orderItems: { total: number }[];
+}) => {
+  const itemSubtotal = order.orderItems.reduce((sum, item) => sum + item.total, 0);
+  const itemDiscount = Math.max(0, order.discountTotal - order.shippingDiscount);
+  return Math.max(0, itemSubtotal - itemDiscount - order.refundedTotal);
+};
+
+/**
+ * Sales and order count per seller for counted orders; orders without a
+ * seller are keyed by null
+ */
+const getSalesBySeller = async (where: Prisma.OrderWhereInput) => {
+  const orders = await prisma.order.findMany({
+    where,
+    select: {
+      sellerId: true,
+      discountTotal: true,
+      shippingDiscount: true,
+      refundedTotal: true,
+      orderItems: { select: { total: true } },
+    },
+  });
+
+  const totals = new Map<string | null, { sales: number; orderCount: number }>();
+  for (const order of orders) {
+    const row = totals.get(order.sellerId) || { sales: 0, orderCount: 0 };
+    row.sales += salesFromOrder(order);
+    row.orderCount += 1;
+    totals.set(order.sellerId, row);
+  }
+  for (const row of totals.values()) {
+    row.sales = roundMoney(row.sales);
+  }
+  return totals;
+};
+
+// Sales and order count across every seller
+const sumSales = (totals: Map<string | null, { sales: number; orderCount: number }>) => {
+  let sales = 0;
+  let orderCount = 0;
+  for (const row of totals.values()) {
+    sales += row.sales;
+    orderCount += row.orderCount;
+  }
+  return { sales: roundMoney(sales), orderCount };
+};
+
+/**
+ * Money raised against a campaign's goal
+ */
+export const getCampaignProgress = async (
+  campaign: Campaign
+): Promise<CampaignProgress> => {
+  const { sales: raised, orderCount } = sumSales(
+    await getSalesBySeller({ ...countedOrdersWhere(), campaignId: campaign.id })
+  );
+  return {
+    goalAmount: campaign.goalAmount,
+    raised,
+    percentOfGoal:
+      campaign.goalAmount > 0
+        ? Math.round((raised / campaign.goalAmount) * 1000) / 10
+        : 0,
+    orderCount,
+  };
+};
+
+/**
+ * Sellers ranked by money raised, including those without sales yet
+ */
+export const getSellerLeaderboard = async (
+  campaignId: string,
+  range: DateRange = {}
+): Promise<SellerStanding[]> => {
+  const [sellers, totals] = await Promise.all([
+    prisma.seller.findMany({
+      where: { campaignId, active: true },
+      orderBy: { name: "asc" },
+    }),
+    getSalesBySeller({ ...countedOrdersWhere(range), campaignId }),
+  ]);
+
+  return sellers
+    .map((seller) => {
+      const row = totals.get(seller.id);
+      return {
+        rank: 0,
+        sellerId: seller.id,
+        name: seller.name,
+        code: seller.code,
+        goalAmount: seller.goalAmount,
+        raised: row?.sales || 0,
+        orderCount: row?.orderCount || 0,
+      };
+    })
+    .sort((a, b) => b.raised - a.raised || b.orderCount - a.orderCount)
+    .map((standing, index) => ({ ...standing, rank: index + 1 }));
+};
+
+/**
+ * Profit share owed to each group for orders placed in the date range
+ */
+export const getPayoutReport = async (
+  range: DateRange = {},
+  campaignId?: string
+) => {
+  const campaigns = await prisma.campaign.findMany({
+    where: campaignId ? { id: campaignId } : {},
+    orderBy: { createdAt: "desc" },
+  });
+
+  const report = [];
+  for (const campaign of campaigns) {
+    const { sales, orderCount } = sumSales(
+      await getSalesBySeller({ ...countedOrdersWhere(range), campaignId: campaign.id })
+    );
+    const sellers = await getSellerLeaderboard(campaign.id, range);
+
+    report.push({
+      campaignId: campaign.id,
+      name: campaign.name,
+      slug: campaign.slug,
+      organization: campaign.organization,
+      profitSharePercent: campaign.profitSharePercent,
+      orderCount,
+      sales,
+      payoutOwed: roundMoney((sales * campaign.profitSharePercent) / 100),
+      sellers: sellers.map((seller) => ({
+        ...seller,
+        payoutShare: roundMoney(
+          (seller.raised * campaign.profitSharePercent) / 100
+        ),
+      })),
+    });
+  }
+
+  return {
+    campaigns: report,
+    totals: {
+      sales: roundMoney(report.reduce((sum, row) => sum + row.sales, 0)),
+      payoutOwed: roundMoney(
+        report.reduce((sum, row) => sum + row.payoutOwed, 0)
+      ),
+    },
+  };
+};
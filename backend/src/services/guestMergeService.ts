@@ -0,0 +1,110 @@
+import { PrismaClient } from "../generated/prisma";
+import {
+  holdCartLine,
+  releaseCartLineReservation,
+  settleCartLineReservation,
+} from "./cartReservationService";
+
+const prisma = new PrismaClient();
+
+export interface GuestMergeInput {
+  userId: string;
+  guestId?: string | null; // From the guestId cookie, if the browser has one
+  email?: string | null;
+  isVerified: boolean; // Orders are only claimed by a proven email address
+}
+
+export interface GuestMergeResult {
+  cartLinesMoved: number;
+  cartLinesCombined: number;
+  unavailable: Array<{ id: string; message: string }>; // Lines left without a hold
+  ordersClaimed: number;
+}
+
+/**
+ * Move a guest's cart onto an account. A pack already in the account's
+ * cart absorbs the guest line's quantity, and every line ends up either
+ * holding its whole quantity or holding nothing, as a lapsed line would.
+ */
+export const mergeGuestCart = async (guestId: string, userId: string) => {
+  const result = {
+    cartLinesMoved: 0,
+    cartLinesCombined: 0,
+    unavailable: [] as GuestMergeResult["unavailable"],
+  };
+
+  const guestLines = await prisma.cartLine.findMany({ where: { guestId } });
+  for (const guestLine of guestLines) {
+    const accountLine = await prisma.cartLine.findFirst({
+      where: {
+        userId,
+        productId: guestLine.productId,
+        recipeId: guestLine.recipeId,
+        flavorIds: { equals: guestLine.flavorIds },
+      },
+    });
+
+    let line;
+    if (accountLine) {
+      // Give both holds back, then hold the combined quantity from scratch
+      await releaseCartLineReservation(guestLine);
+      await releaseCartLineReservation(accountLine);
+      await prisma.cartLine.delete({ where: { id: guestLine.id } });
+      line = await prisma.cartLine.update({
+        where: { id: accountLine.id },
+        data: {
+          quantity: accountLine.quantity + guestLine.quantity,
+          reservationExpiresAt: null,
+        },
+      });
+      result.cartLinesCombined++;
+    } else {
+      line = await prisma.cartLine.update({
+        where: { id: guestLine.id },
+        data: { userId, guestId: null },
+      });
+      result.cartLinesMoved++;
+      if (await settleCartLineReservation(line)) continue;
+    }
+
+    const shortfall = await holdCartLine(line, "Cart merged into account");
+    if (shortfall) {
+      result.unavailable.push({ id: line.id, message: shortfall });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Attach orders placed as a guest with this email to the account
+ * @returns How many orders were claimed
+ */
+export const claimGuestOrders = async (userId: string, email: string) => {
+  const { count } = await prisma.order.updateMany({
+    where: {
+      userId: null,
+      guestEmail: { equals: email.trim(), mode: "insensitive" },
+    },
+    data: { userId },
+  });
+  return count;
+};
+
+/**
+ * Adopt everything a shopper did as a guest once they sign in
+ */
+export const mergeGuestIntoAccount = async (
+  input: GuestMergeInput
+): Promise<GuestMergeResult> => {
+  const cart = input.guestId
+    ? await mergeGuestCart(input.guestId, input.userId)
+    : { cartLinesMoved: 0, cartLinesCombined: 0, unavailable: [] };
+
+  const ordersClaimed =
+    input.isVerified && input.email
+      ? await claimGuestOrders(input.userId, input.email)
+      : 0;
+
+  return { ...cart, ordersClaimed };
+};
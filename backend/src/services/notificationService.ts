@@ -0,0 +1,284 @@
+import jwt from "jsonwebtoken";
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import {
+  sendDeliveredEmail,
+  sendDeliveryExceptionEmail,
+  sendOutForDeliveryEmail,
+  sendPaymentFailedEmail,
+  sendShippedEmail,
+  ShippingEmailDetails,
+} from "../utils/mailer";
+import { getOrderTrackingUrl } from "./orderLookupService";
+import { TrackingUpdateResult } from "./trackingService";
+
+const prisma = new PrismaClient();
+
+const UNSUBSCRIBE_TOKEN_PURPOSE = "unsubscribe-shipping";
+
+// Carrier substatuses that mean the customer may need to act
+const EXCEPTION_SUBSTATUSES = [
+  "address_issue",
+  "contact_carrier",
+  "delayed",
+  "delivery_attempted",
+  "delivery_rescheduled",
+  "location_inaccessible",
+  "notice_left",
+  "package_damaged",
+  "package_held",
+  "package_lost",
+  "package_undeliverable",
+  "return_to_sender",
+];
+
+type ShippingEmailKind = "shipped" | "out_for_delivery" | "delivered" | "exception";
+
+type ShippingEmail = { kind: ShippingEmailKind; key: string; statusDetails: string | null };
+
+const SHIPPING_EMAIL_SENDERS: Record<
+  ShippingEmailKind,
+  (to: string, details: ShippingEmailDetails) => Promise<void>
+> = {
+  shipped: sendShippedEmail,
+  out_for_delivery: sendOutForDeliveryEmail,
+  delivered: sendDeliveredEmail,
+  exception: sendDeliveryExceptionEmail,
+};
+
+const getClientUrl = () => process.env.CLIENT_URL || "https://licorice4good.com";
+
+// Where mail clients reach the API for one-click unsubscribes
+const getApiUrl = () => process.env.API_URL || "https://api.licorice4good.com";
+
+/**
+ * Signed links that turn off shipping emails without logging in: the
+ * unsubscribe page for the email body, and the endpoint mail clients POST
+ * to for one-click List-Unsubscribe
+ */
+export const getUnsubscribeUrls = (userId: string) => {
+  const token = encodeURIComponent(
+    jwt.sign(
+      { userId, purpose: UNSUBSCRIBE_TOKEN_PURPOSE },
+      process.env.JWT_SECRET!
+    )
+  );
+  return {
+    unsubscribeUrl: `${getClientUrl()}/unsubscribe?token=${token}`,
+    oneClickUnsubscribeUrl: `${getApiUrl()}/notifications/unsubscribe?token=${token}`,
+  };
+};
+
+/**
+ * Turn off shipping emails for whoever an unsubscribe link was sent to
+ * @throws CustomError (400) if the token is invalid
+ */
+export const unsubscribeWithToken = async (token: string) => {
+  let userId: string;
+  try {
+    const payload = jwt.verify(token, process.env.JWT_SECRET!) as {
+      userId?: string;
+      purpose?: string;
+    };
+    if (payload.purpose !== UNSUBSCRIBE_TOKEN_PURPOSE || !payload.userId) {
+      throw new Error("Wrong token purpose");
+    }
+    userId = payload.userId;
+  } catch {
+    throw new CustomError("This unsubscribe link is invalid", 400);
+  }
+
+  const { count } = await prisma.user.updateMany({
+    where: { id: userId },
+    data: { shippingEmails: false },
+  });
+  if (count === 0) {
+    throw new CustomError("This unsubscribe link is invalid", 400);
+  }
+};
+
+export const getNotificationPreferences = async (userId: string) => {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { shippingEmails: true },
+  });
+  if (!user) throw new CustomError("User not found", 404);
+  return user;
+};
+
+/**
+ * @throws CustomError (400) if shippingEmails isn't a boolean
+ */
+export const updateNotificationPreferences = async (
+  userId: string,
+  input: { shippingEmails?: unknown }
+) => {
+  if (typeof input.shippingEmails !== "boolean") {
+    throw new CustomError("shippingEmails must be true or false", 400);
+  }
+  return prisma.user.update({
+    where: { id: userId },
+    data: { shippingEmails: input.shippingEmails },
+    select: { shippingEmails: true },
+  });
+};
+
+/**
+ * Which shipping emails a tracking update calls for, keyed so each is
+ * only sent once per order
+ */
+const getShippingEmailsFor = (update: TrackingUpdateResult) => {
+  const emails: ShippingEmail[] = [];
+  const latest = update.newEvents[update.newEvents.length - 1];
+
+  if (update.previousStatus !== "shipped" && update.status === "shipped") {
+    emails.push({ kind: "shipped", key: "shipped", statusDetails: null });
+  }
+
+  const outForDelivery = update.newEvents.find(
+    (event) => event.substatus === "out_for_delivery"
+  );
+  if (outForDelivery && update.status !== "delivered") {
+    emails.push({
+      kind: "out_for_delivery",
+      key: "out_for_delivery",
+      statusDetails: outForDelivery.statusDetails,
+    });
+  }
+
+  if (update.previousStatus !== "delivered" && update.status === "delivered") {
+    emails.push({
+      kind: "delivered",
+      key: "delivered",
+      statusDetails: latest?.statusDetails || null,
+    });
+  }
+
+  // Only the newest problem is worth an email; older ones are already stale
+  const exception = [...update.newEvents]
+    .reverse()
+    .find(
+      (event) =>
+        event.status === "FAILURE" ||
+        event.status === "RETURNED" ||
+        (!!event.substatus && EXCEPTION_SUBSTATUSES.includes(event.substatus))
+    );
+  if (exception && update.status !== "delivered") {
+    emails.push({
+      kind: "exception",
+      key: `exception:${exception.id}`,
+      statusDetails: exception.statusDetails,
+    });
+  }
+
+  return emails;
+};
+
+/**
+ * Send an order's shipping emails, each claimed on the order first so it
+ * goes out once however the order got there. Account holders who turned
+ * shipping emails off are skipped.
+ * @returns Which emails were sent
+ */
+const sendShippingEmails = async (orderId: string, emails: ShippingEmail[]) => {
+  if (emails.length === 0) return [];
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: { user: { select: { name: true, email: true, shippingEmails: true } } },
+  });
+  if (!order) return [];
+
+  const address = (order.shippingAddress || {}) as { name?: string; email?: string };
+  const to = order.user?.email || order.guestEmail || address.email;
+  if (!to || (order.user && !order.user.shippingEmails)) return [];
+
+  const sent: ShippingEmailKind[] = [];
+  for (const email of emails) {
+    // Claim the email so webhook retries don't send it twice
+    const claimed = await prisma.order.updateMany({
+      where: { id: order.id, NOT: { shippingEmailsSent: { has: email.key } } },
+      data: { shippingEmailsSent: { push: email.key } },
+    });
+    if (claimed.count === 0) continue;
+
+    await SHIPPING_EMAIL_SENDERS[email.kind](to, {
+      orderId: order.id,
+      customerName: order.user?.name || address.name || "there",
+      orderUrl: order.userId
+        ? `${getClientUrl()}/orders/${order.id}`
+        : getOrderTrackingUrl(order.id),
+      carrier: order.shippingCarrier,
+      trackingNumber: order.trackingNumber,
+      trackingUrl: order.trackingUrl,
+      statusDetails: email.statusDetails,
+      ...(order.userId ? getUnsubscribeUrls(order.userId) : {}),
+    });
+    sent.push(email.kind);
+  }
+
+  return sent;
+};
+
+/**
+ * Email the customer about a tracking update: shipped, out for delivery,
+ * delivered or a delivery problem
+ * @returns Which emails were sent
+ */
+export const notifyTrackingUpdate = (update: TrackingUpdateResult) =>
+  sendShippingEmails(update.orderId, getShippingEmailsFor(update));
+
+/**
+ * Email the customer that an order shipped when it's marked shipped
+ * directly, e.g. by a label batch, rather than by a tracking update. A
+ * later tracking update won't send it again.
+ * @returns Whether the email was sent
+ */
+export const notifyOrderShipped = async (orderId: string) => {
+  const sent = await sendShippingEmails(orderId, [
+    { kind: "shipped", key: "shipped", statusDetails: null },
+  ]);
+  return sent.length > 0;
+};
+
+/**
+ * Tell the customer a payment was declined and where to try again
+ * @param payment The order being paid for, if it exists yet, and whatever
+ * Stripe knows about the customer
+ */
+export const notifyPaymentFailed = async (payment: {
+  orderId?: string | null;
+  email?: string | null;
+  customerName?: string | null;
+  amount: number;
+  failureReason?: string | null;
+}) => {
+  let to = payment.email || null;
+  let customerName = payment.customerName || null;
+  let orderId: string | null = null;
+
+  if (payment.orderId) {
+    const order = await prisma.order.findUnique({
+      where: { id: payment.orderId },
+      include: { user: { select: { name: true, email: true } } },
+    });
+    if (order) {
+      const address = (order.shippingAddress || {}) as { name?: string; email?: string };
+      orderId = order.id;
+      to = order.user?.email || order.guestEmail || address.email || to;
+      customerName = order.user?.name || address.name || customerName;
+    }
+  }
+  if (!to) return false;
+
+  await sendPaymentFailedEmail(to, {
+    customerName: customerName || "there",
+    amount: payment.amount,
+    orderId,
+    failureReason: payment.failureReason,
+    // The order's page can pay for it; checkouts that never became an
+    // order are tried again from the cart
+    retryUrl: orderId ? getOrderTrackingUrl(orderId) : `${getClientUrl()}/cart`,
+  });
+  return true;
+};
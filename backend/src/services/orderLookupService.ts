@@ -0,0 +1,196 @@
+import jwt from "jsonwebtoken";
+import { Prisma, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+const TRACKING_TOKEN_PURPOSE = "order-tracking";
+const TRACKING_TOKEN_TTL = "365d";
+
+// Order numbers are shown as the first 8 characters of the order id
+const MIN_ORDER_NUMBER_LENGTH = 8;
+
+const LOOKUP_INCLUDE = {
+  user: { select: { id: true, email: true } },
+  orderItems: {
+    include: { product: { select: { name: true, imageUrl: true } } },
+  },
+} as const;
+
+type LookupOrder = Prisma.OrderGetPayload<{ include: typeof LOOKUP_INCLUDE }>;
+
+export interface OrderLookupInput {
+  orderNumber?: string | null;
+  email?: string | null;
+  token?: string | null;
+}
+
+export interface OrderViewer {
+  userId?: string | null;
+  role?: string | null;
+  guestId?: string | null; // Browser session that placed a guest order
+}
+
+const getTrackingSecret = () =>
+  process.env.ORDER_TRACKING_SECRET || process.env.JWT_SECRET!;
+
+/**
+ * Signed token that opens the guest view of one order, for email links
+ */
+export const createOrderTrackingToken = (orderId: string) =>
+  jwt.sign(
+    { orderId, purpose: TRACKING_TOKEN_PURPOSE },
+    getTrackingSecret(),
+    { expiresIn: TRACKING_TOKEN_TTL }
+  );
+
+/**
+ * Link to the track-order page that opens this order without typing anything
+ */
+export const getOrderTrackingUrl = (orderId: string) => {
+  const clientUrl = process.env.CLIENT_URL || "https://licorice4good.com";
+  return `${clientUrl}/track-order?token=${encodeURIComponent(
+    createOrderTrackingToken(orderId)
+  )}`;
+};
+
+/**
+ * @returns The order id a tracking token was issued for
+ * @throws CustomError (401) if the token is invalid or expired
+ */
+export const verifyOrderTrackingToken = (token: string) => {
+  try {
+    const payload = jwt.verify(token, getTrackingSecret()) as {
+      orderId?: string;
+      purpose?: string;
+    };
+    if (payload.purpose !== TRACKING_TOKEN_PURPOSE || !payload.orderId) {
+      throw new Error("Wrong token purpose");
+    }
+    return payload.orderId;
+  } catch {
+    throw new CustomError(
+      "This tracking link is invalid or has expired. Look up your order with its number and email instead.",
+      401
+    );
+  }
+};
+
+const normaliseEmail = (email?: string | null) =>
+  (email || "").trim().toLowerCase();
+
+/**
+ * Every address the order's confirmation could have gone to
+ */
+const getOrderEmails = (order: LookupOrder) => {
+  const shippingEmail = (order.shippingAddress as { email?: string } | null)
+    ?.email;
+  return [order.guestEmail, shippingEmail, order.user?.email]
+    .map(normaliseEmail)
+    .filter(Boolean);
+};
+
+/**
+ * Find an order from a tracking token, or an order number and the email
+ * it was placed with. Mismatches all read as "not found" so the lookup
+ * doesn't confirm which order numbers exist.
+ * @throws CustomError (400) if neither a token nor number and email are given
+ * @throws CustomError (401) if the token is invalid
+ * @throws CustomError (404) if no order matches
+ */
+export const findOrderForLookup = async (input: OrderLookupInput) => {
+  if (input.token) {
+    const orderId = verifyOrderTrackingToken(String(input.token));
+    const order = await prisma.order.findUnique({
+      where: { id: orderId },
+      include: LOOKUP_INCLUDE,
+    });
+    if (!order) throw new CustomError("Order not found", 404);
+    return order;
+  }
+
+  const orderNumber = String(input.orderNumber || "")
+    .trim()
+    .replace(/^#/, "")
+    .toLowerCase();
+  const email = normaliseEmail(input.email);
+  if (!orderNumber || !email) {
+    throw new CustomError("Enter your order number and email address", 400);
+  }
+  if (orderNumber.length < MIN_ORDER_NUMBER_LENGTH) {
+    throw new CustomError(
+      `Order numbers are at least ${MIN_ORDER_NUMBER_LENGTH} characters`,
+      400
+    );
+  }
+
+  const candidates = await prisma.order.findMany({
+    where: { id: { startsWith: orderNumber } },
+    include: LOOKUP_INCLUDE,
+    take: 10,
+  });
+  const order = candidates.find((candidate) =>
+    getOrderEmails(candidate).includes(email)
+  );
+  if (!order) {
+    throw new CustomError(
+      "We couldn't find an order with that number and email",
+      404
+    );
+  }
+  return order;
+};
+
+/**
+ * Whether a viewer gets the full order: its customer, the guest session
+ * that placed it, or an admin
+ */
+export const canViewFullOrder = (
+  order: { userId: string | null; guestId: string | null },
+  viewer: OrderViewer
+) =>
+  viewer.role === "admin" ||
+  (!!viewer.userId && order.userId === viewer.userId) ||
+  (!order.userId && !!viewer.guestId && order.guestId === viewer.guestId);
+
+/**
+ * What anyone holding the order number and email, or a tracking link, may
+ * see: progress and tracking, but no street address, phone or email
+ */
+export const toGuestOrderView = (order: LookupOrder) => {
+  const address = (order.shippingAddress || {}) as Record<string, string>;
+  const firstName = (address.name || "").trim().split(/\s+/)[0] || null;
+
+  return {
+    id: order.id,
+    orderNumber: order.id.slice(0, 8).toUpperCase(),
+    status: order.status,
+    paymentStatus: order.paymentStatus,
+    total: order.total,
+    createdAt: order.createdAt,
+    updatedAt: order.updatedAt,
+    orderItems: order.orderItems.map((item) => ({
+      id: item.id,
+      productId: item.productId,
+      productName: item.customPackName || item.product?.name || "Item",
+      customPackName: item.customPackName,
+      quantity: item.quantity,
+      price: item.price,
+      total: item.quantity * item.price,
+    })),
+    shipping: {
+      status: order.shippingStatus,
+      carrier: order.shippingCarrier,
+      service: order.shippingService,
+      trackingNumber: order.trackingNumber,
+      trackingUrl: order.trackingUrl,
+    },
+    shippingAddress: {
+      name: firstName,
+      city: address.city || null,
+      state: address.state || null,
+      country: address.country || null,
+    },
+    redacted: true,
+  };
+};
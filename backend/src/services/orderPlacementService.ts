@@ -0,0 +1,574 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { settleCartLineReservation } from "./cartReservationService";
+import { applyStockMovement } from "./stockMovementService";
+import { PricedOrder, priceOrder } from "./pricingService";
+import { redeemPromotion, releasePromotion } from "./promotionService";
+import {
+  countFlavorUnits,
+  getPackDefinition,
+  validatePackFlavors,
+} from "./packDefinitionService";
+import { isValidProductType } from "../utils/skuGenerator";
+import {
+  FundraisingReferral,
+  resolveFundraisingAttribution,
+} from "./fundraisingService";
+import { orderVerificationService } from "./orderVerificationService";
+import { getOrderParcels } from "./parcelPackingService";
+import {
+  assignFulfillmentLocation,
+  getOrderShipFromAddress,
+} from "./shippingLocationService";
+import {
+  selectLabelRate,
+  toShippingDestination,
+} from "./shippingRuleService";
+
+const prisma = new PrismaClient();
+
+// Who the order is for, as resolved by the auth middleware
+export interface OrderCustomer {
+  userId?: string | null;
+  guestId?: string | null;
+  isGuest?: boolean;
+  ipAddress?: string | null;
+}
+
+interface PackFlavorUsage {
+  flavorId: string;
+  quantity: number; // Per pack
+}
+
+export interface PlaceOrderInput {
+  shippingAddress?: any;
+  billingAddress?: any; // Only when the checkout form collects it
+  orderNotes?: string | null;
+  orderItems?: any[]; // Direct items; the customer's cart is used when empty
+  total?: number | string | null;
+  guestEmail?: string | null;
+  selectedShippingRate?: any;
+  promotionCode?: string | null;
+  fundraiser?: FundraisingReferral | null;
+  awaitingPayment?: boolean; // Paid for afterwards, so the label waits for payment
+}
+
+/**
+ * Create an order from direct order items or the customer's cart: prices it
+ * server-side, checks stock, records the sale, screens it for fraud and buys
+ * the shipping label unless the order is held for review or awaiting payment.
+ * @throws CustomError (400/404) if the order can't be placed
+ */
+export const placeOrder = async (
+  customer: OrderCustomer,
+  input: PlaceOrderInput
+) => {
+  const { guestId, isGuest } = customer;
+
+  // For authenticated users, verify they exist in database
+  let dbUser = null;
+  if (!isGuest && customer.userId) {
+    dbUser = await prisma.user.findUnique({
+      where: { id: customer.userId },
+      select: { id: true, name: true, email: true, isVerified: true },
+    });
+
+    if (!dbUser) {
+      throw new CustomError("User not found", 404);
+    }
+  }
+
+  const {
+    shippingAddress,
+    billingAddress,
+    orderNotes,
+    orderItems,
+    total: requestTotal,
+    guestEmail,
+    selectedShippingRate,
+    promotionCode,
+    fundraiser,
+    awaitingPayment,
+  } = input;
+
+  // Define user identifier once for the entire function
+  const userIdentifier = isGuest ? { guestId } : { userId: dbUser?.id };
+
+  // Shipping address validation - allow empty since Stripe will collect it
+  // If shippingAddress is provided, validate it, otherwise allow empty (Stripe will collect)
+  if (shippingAddress && typeof shippingAddress === "object") {
+    const { street, city, state, zipCode, country } = shippingAddress;
+
+    // If any field is provided, all required fields must be provided
+    if (street || city || state || zipCode || country) {
+      if (!street || !city || !state || !zipCode || !country) {
+        throw new CustomError(
+          "All shipping address fields are required: street, city, state, zipCode, and country",
+          400
+        );
+      }
+
+      if (
+        street.trim() === "" ||
+        city.trim() === "" ||
+        state.trim() === "" ||
+        zipCode.trim() === ""
+      ) {
+        throw new CustomError("Shipping address fields cannot be empty", 400);
+      }
+    }
+  }
+
+  let orderItemsToCreate: any[] = [];
+  let pricedOrder: PricedOrder;
+  let cartLines: any[] = []; // Store cart lines for inventory updates
+  const heldCartLineIds = new Set<string>(); // Cart lines still holding stock
+  // Flavors each direct pack item uses per pack, by order item index
+  const packFlavorUsage: Array<PackFlavorUsage[] | null> = [];
+
+  // Check if frontend sent orderItems directly (new approach)
+  if (orderItems && Array.isArray(orderItems) && orderItems.length > 0) {
+    // Prices always come from the server; mismatched client prices are rejected
+    pricedOrder = await priceOrder(
+      orderItems,
+      selectedShippingRate,
+      requestTotal,
+      promotionCode,
+      toShippingDestination(shippingAddress)
+    );
+
+    // Validate and process direct order items
+    for (const [index, item] of orderItems.entries()) {
+      if (!item.productId || !item.quantity || !item.price) {
+        throw new CustomError(
+          "Invalid order item: productId, quantity, and price are required",
+          400
+        );
+      }
+
+      let flavorUsage: PackFlavorUsage[] | null = null;
+      let packName: string | null = null;
+
+      // Handle custom packs differently from regular products
+      const isPack = await isValidProductType(item.productId);
+
+      if (isPack && item.recipeId) {
+        // Predefined recipes (e.g. subscription renewals)
+        const recipe = await prisma.packRecipe.findUnique({
+          where: { id: item.recipeId, active: true },
+          include: {
+            items: { include: { flavor: { include: { inventory: true } } } },
+          },
+        });
+
+        if (!recipe) {
+          throw new CustomError("Pack recipe is not available", 400);
+        }
+
+        for (const recipeItem of recipe.items) {
+          const inventory = recipeItem.flavor.inventory;
+          if (!inventory) {
+            throw new CustomError(
+              `No inventory found for flavor: ${recipeItem.flavor.name}`,
+              400
+            );
+          }
+
+          const required = recipeItem.quantity * item.quantity;
+          const available =
+            inventory.onHand - inventory.reserved - inventory.safetyStock;
+          if (available < required) {
+            throw new CustomError(
+              `Insufficient stock for ${recipeItem.flavor.name}. Available: ${available}, Required: ${required}`,
+              400
+            );
+          }
+        }
+
+        flavorUsage = recipe.items.map((recipeItem) => ({
+          flavorId: recipeItem.flavorId,
+          quantity: recipeItem.quantity,
+        }));
+        packName = recipe.title;
+      } else if (isPack && item.isCustomPack) {
+        // For custom packs, validate the flavors fit the pack definition
+        const definition = await getPackDefinition(item.productId);
+        const { flavors, units } = await validatePackFlavors(
+          definition,
+          item.flavorIds
+        );
+
+        // Check inventory for each flavor
+        for (const flavor of flavors) {
+          const inventory = flavor.inventory;
+          if (!inventory) {
+            throw new CustomError(
+              `No inventory found for flavor: ${flavor.name}`,
+              400
+            );
+          }
+
+          const required = item.quantity * (units.get(flavor.id) || 1);
+          const available =
+            inventory.onHand - inventory.reserved - inventory.safetyStock;
+          if (available < required) {
+            throw new CustomError(
+              `Insufficient stock for ${flavor.name}. Available: ${available}, Requested: ${required}`,
+              400
+            );
+          }
+        }
+
+        flavorUsage = [...units].map(([flavorId, quantity]) => ({
+          flavorId,
+          quantity,
+        }));
+        packName = item.customPackName || `Custom ${definition.name}`;
+      } else {
+        // Handle regular products
+        const product = await prisma.product.findUnique({
+          where: { id: item.productId, isActive: true },
+        });
+
+        if (!product) {
+          throw new CustomError(`Product not found: ${item.productId}`, 400);
+        }
+
+        if (product.stock < item.quantity) {
+          throw new CustomError(
+            `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`,
+            400
+          );
+        }
+      }
+
+      const pricedLine = pricedOrder.lines[index];
+      const orderItem: any = {
+        productId: item.productId,
+        quantity: pricedLine.quantity,
+        price: pricedLine.unitPrice,
+        total: pricedLine.total,
+      };
+
+      // Add custom pack data if applicable
+      if (flavorUsage) {
+        // One id per unit, so duplicate flavors stay visible on the order
+        orderItem.flavorIds = flavorUsage.flatMap((usage) =>
+          Array(usage.quantity).fill(usage.flavorId)
+        );
+        orderItem.customPackName = packName;
+      }
+
+      orderItemsToCreate.push(orderItem);
+      packFlavorUsage.push(flavorUsage);
+    }
+
+  } else {
+    // 3-PACK CART APPROACH - Convert CartLine items to OrderItems
+
+    // Release lapsed holds before reading stock levels
+    const pendingLines = await prisma.cartLine.findMany({
+      where: userIdentifier,
+    });
+    for (const pendingLine of pendingLines) {
+      if (await settleCartLineReservation(pendingLine)) {
+        heldCartLineIds.add(pendingLine.id);
+      }
+    }
+
+    cartLines = await prisma.cartLine.findMany({
+      where: userIdentifier,
+      include: {
+        packRecipe: {
+          include: {
+            items: {
+              include: {
+                flavor: {
+                  include: {
+                    inventory: true,
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    if (cartLines.length === 0) {
+      throw new CustomError("Cart is empty and no order items provided", 400);
+    }
+
+    // Check stock availability for cart lines
+    for (const cartLine of cartLines) {
+      if (cartLine.packRecipe) {
+        // Handle predefined recipes
+        for (const item of cartLine.packRecipe.items) {
+          const inventory = item.flavor.inventory;
+          if (!inventory) {
+            throw new CustomError(
+              `No inventory found for flavor: ${item.flavor.name}`,
+              400
+            );
+          }
+
+          const required = item.quantity * cartLine.quantity;
+          const available =
+            inventory.onHand - inventory.reserved - inventory.safetyStock;
+
+          if (available < required) {
+            throw new CustomError(
+              `Insufficient stock for ${item.flavor.name}. Available: ${available}, Required: ${required}`,
+              400
+            );
+          }
+        }
+      } else if (cartLine.flavorIds.length > 0) {
+        // Handle custom packs
+        const flavors = await prisma.flavor.findMany({
+          where: { id: { in: cartLine.flavorIds } },
+          include: { inventory: true },
+        });
+        const units = countFlavorUnits(cartLine.flavorIds);
+
+        for (const flavor of flavors) {
+          const inventory = flavor.inventory;
+          if (!inventory) {
+            throw new CustomError(
+              `No inventory found for flavor: ${flavor.name}`,
+              400
+            );
+          }
+
+          const available =
+            inventory.onHand - inventory.reserved - inventory.safetyStock;
+
+          const required = cartLine.quantity * (units.get(flavor.id) || 1);
+          if (available < required) {
+            throw new CustomError(
+              `Insufficient stock for ${flavor.name}. Available: ${available}, Required: ${required}`,
+              400
+            );
+          }
+        }
+      }
+    }
+
+    // Re-price cart lines at current prices before converting them
+    pricedOrder = await priceOrder(
+      cartLines.map((cartLine) => ({
+        productId: cartLine.productId,
+        quantity: cartLine.quantity,
+        flavorIds: cartLine.flavorIds,
+      })),
+      selectedShippingRate,
+      requestTotal,
+      promotionCode,
+      toShippingDestination(shippingAddress)
+    );
+
+    // Convert cart lines to order items
+    orderItemsToCreate = cartLines.map((cartLine, index) => ({
+      productId: cartLine.productId,
+      quantity: cartLine.quantity,
+      price: pricedOrder.lines[index].unitPrice,
+      total: pricedOrder.lines[index].total,
+      // One id per unit in the pack, so refunds know what to restock
+      flavorIds: cartLine.packRecipe
+        ? cartLine.packRecipe.items.flatMap((item: any) =>
+            Array(item.quantity).fill(item.flavorId)
+          )
+        : cartLine.flavorIds,
+      customPackName: cartLine.packRecipe?.title || null,
+    }));
+  }
+
+  // Credit the fundraiser the customer arrived from, if any
+  const fundraising = await resolveFundraisingAttribution(fundraiser);
+
+  // Count the promotion's use, and give it back if the order isn't saved
+  if (pricedOrder.promotion && !(await redeemPromotion(pricedOrder.promotion.id))) {
+    throw new CustomError("Promo code has reached its usage limit", 400);
+  }
+
+  // Create order and order items
+  let order;
+  try {
+    order = await prisma.order.create({
+      data: {
+        userId: dbUser?.id ?? undefined,
+        guestId: isGuest ? guestId : undefined,
+        guestEmail: isGuest ? (guestEmail || shippingAddress?.email) : undefined,
+        total: pricedOrder.total,
+        shippingAddress,
+        billingAddress: billingAddress || undefined,
+        ipAddress: customer.ipAddress || undefined,
+        orderNotes,
+        shippingCost: pricedOrder.shipping?.amount,
+        shippingCarrier: pricedOrder.shipping?.carrier,
+        shippingService: pricedOrder.shipping?.serviceName,
+        promotionId: pricedOrder.promotion?.id,
+        promotionCode: pricedOrder.promotion?.code,
+        discountTotal: pricedOrder.discount,
+        shippingDiscount: pricedOrder.promotion?.shippingDiscount || 0,
+        campaignId: fundraising?.campaignId,
+        sellerId: fundraising?.sellerId,
+        orderItems: {
+          create: orderItemsToCreate,
+        },
+      },
+      include: {
+        orderItems: true,
+      },
+    });
+  } catch (error) {
+    if (pricedOrder.promotion) {
+      await releasePromotion(pricedOrder.promotion.id);
+    }
+    throw error;
+  }
+
+  // Clear the cart now the order has been saved
+  if (cartLines.length > 0) {
+    await prisma.cartLine.deleteMany({
+      where: userIdentifier,
+    });
+  }
+
+  // Pick the warehouse first so the sale comes out of its stock
+  await assignFulfillmentLocation(order.id);
+
+  // Update inventory for all order items
+  for (const [index, item] of orderItemsToCreate.entries()) {
+    try {
+      const directUsage = packFlavorUsage[index];
+
+      if (directUsage) {
+        // Direct pack items: deduct each flavor the pack contains
+        for (const usage of directUsage) {
+          await applyStockMovement({
+            flavorId: usage.flavorId,
+            type: "sale",
+            onHandDelta: -usage.quantity * item.quantity,
+            orderId: order.id,
+          });
+        }
+      } else if (cartLines[index]) {
+        // Cart packs deduct from flavor inventory
+        // Get the cart line to find flavor details
+        const cartLine = cartLines[index];
+        // Only lines that still hold stock have a reservation to consume
+        const isHeld = cartLine ? heldCartLineIds.has(cartLine.id) : false;
+
+        if (cartLine?.packRecipe) {
+          // Handle predefined recipes
+          for (const recipeItem of cartLine.packRecipe.items) {
+            await applyStockMovement({
+              flavorId: recipeItem.flavor.id,
+              type: "sale",
+              onHandDelta: -recipeItem.quantity * item.quantity,
+              reservedDelta: isHeld
+                ? -recipeItem.quantity * item.quantity
+                : 0,
+              orderId: order.id,
+              cartLineId: cartLine.id,
+            });
+          }
+        } else if (cartLine?.flavorIds.length > 0) {
+          // Handle custom packs
+          for (const flavorId of cartLine.flavorIds) {
+            await applyStockMovement({
+              flavorId,
+              type: "sale",
+              onHandDelta: -item.quantity,
+              reservedDelta: isHeld ? -item.quantity : 0,
+              orderId: order.id,
+              cartLineId: cartLine.id,
+            });
+          }
+        }
+      } else {
+        // Handle regular products
+        await prisma.product.update({
+          where: { id: item.productId },
+          data: {
+            stock: {
+              decrement: item.quantity,
+            },
+          },
+        });
+      }
+    } catch (error) {
+      console.warn(
+        `Could not update inventory for product ${item.productId}:`,
+        error
+      );
+    }
+  }
+
+  // Score the order before buying its label; held orders wait for an admin
+  const review = await orderVerificationService.assessOrder(order.id);
+
+  // Create shipment if shipping address is provided
+  let shipmentData = null;
+  if (!review?.held && !awaitingPayment && shippingAddress && shippingAddress.street && shippingAddress.city && shippingAddress.state && shippingAddress.zipCode) {
+    try {
+      // Import Shippo service dynamically to avoid circular dependencies
+      const { createShipment, getShippingRates } = await import('./shippoService');
+      
+      // Pack the order's items the same way checkout quoted them
+      const parcels = await getOrderParcels(order.id);
+
+      // Convert shipping address format for Shippo
+      const shippoAddress = {
+        name: shippingAddress.name || `${dbUser?.name || 'Customer'}`,
+        company: shippingAddress.company || '',
+        email: dbUser?.email || guestEmail || shippingAddress.email || '',
+        phone: shippingAddress.phone || '',
+        street1: shippingAddress.street,
+        street2: shippingAddress.street2 || '',
+        city: shippingAddress.city,
+        state: shippingAddress.state,
+        zip: shippingAddress.zipCode,
+        country: shippingAddress.country || 'US',
+      };
+
+      // Use the rate that was priced into the order, otherwise the cheapest
+      // one the shipping rules allow
+      const fromAddress = await getOrderShipFromAddress(order.id);
+      const selectedRate = await selectLabelRate(
+        pricedOrder.shipping,
+        () => getShippingRates(shippoAddress, parcels, fromAddress),
+        toShippingDestination(shippoAddress)
+      );
+      
+      if (selectedRate) {
+        shipmentData = await createShipment({
+          orderId: order.id,
+          toAddress: shippoAddress,
+          parcels,
+        }, selectedRate.objectId, {
+          carrier: selectedRate.carrier,
+          amount: selectedRate.amount,
+          serviceName: selectedRate.serviceName
+        });
+        
+        console.log('📦 Shipment created:', shipmentData);
+      }
+    } catch (shipmentError) {
+      console.error('Shipment creation failed:', shipmentError);
+      // Don't fail the order if shipment creation fails
+      // The order is still valid, just without shipment tracking
+    }
+  }
+
+  if (review?.held) {
+    const heldOrder = await prisma.order.findUniqueOrThrow({
+      where: { id: order.id },
+      include: { orderItems: true },
+    });
+    return { order: heldOrder, shipment: null };
+  }
+
+  return { order, shipment: shipmentData };
+};
@@ -0,0 +1,106 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { createRefund, restockOrderItems } from "./refundService";
+import { purchaseOrderLabel } from "./fulfillmentService";
+
+const prisma = new PrismaClient();
+
+export interface ReviewDecisionInput {
+  orderId: string;
+  reviewedById?: string;
+  note?: string | null;
+}
+
+/**
+ * Load an order waiting in the review queue
+ * @throws CustomError (404) if the order doesn't exist
+ * @throws CustomError (400) if it isn't under review
+ */
+const getHeldOrder = async (orderId: string) => {
+  const order = await prisma.order.findUnique({ where: { id: orderId } });
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+  if (order.reviewStatus !== "under_review") {
+    throw new CustomError("Order is not waiting for review", 400);
+  }
+  return order;
+};
+
+/**
+ * Release a held order for fulfilment and, once it's paid, buy its shipping
+ * label. A label failure doesn't undo the approval; it's recorded on the
+ * order instead.
+ * @throws CustomError (400/404) if the order isn't under review
+ */
+export const approveOrder = async (input: ReviewDecisionInput) => {
+  const held = await getHeldOrder(input.orderId);
+
+  await prisma.order.update({
+    where: { id: input.orderId },
+    data: {
+      reviewStatus: "approved",
+      status: "confirmed",
+      reviewedAt: new Date(),
+      reviewedById: input.reviewedById,
+      reviewNote: input.note || null,
+    },
+  });
+
+  let shipment = null;
+  let shipmentError: string | null = null;
+  // Unpaid orders get their label from the payment webhook instead
+  if (held.paymentStatus === "paid") {
+    try {
+      shipment = await purchaseOrderLabel(input.orderId);
+    } catch (error) {
+      shipmentError = error instanceof Error ? error.message : "Label purchase failed";
+      console.error(`Label purchase failed for approved order ${input.orderId}:`, error);
+      await prisma.order.update({
+        where: { id: input.orderId },
+        data: { shippingError: shipmentError },
+      });
+    }
+  }
+
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: input.orderId },
+  });
+  return { order, shipment, shipmentError };
+};
+
+/**
+ * Cancel a held order: paid orders are refunded in full and everything is
+ * put back into stock
+ * @throws CustomError (400/404) if the order isn't under review
+ * @throws CustomError (502/503) if the refund can't be issued
+ */
+export const rejectOrder = async (
+  input: ReviewDecisionInput & { refund?: boolean }
+) => {
+  const held = await getHeldOrder(input.orderId);
+
+  // Refund first so a Stripe failure leaves the order in the queue
+  const isPaid = ["paid", "partially_refunded"].includes(held.paymentStatus);
+  if (isPaid && input.refund !== false) {
+    await createRefund({
+      orderId: input.orderId,
+      reason: input.note || "Order could not be verified",
+      restock: true,
+      createdById: input.reviewedById,
+    });
+  } else {
+    await restockOrderItems(input.orderId, null, input.reviewedById);
+  }
+
+  return prisma.order.update({
+    where: { id: input.orderId },
+    data: {
+      reviewStatus: "rejected",
+      status: "cancelled",
+      reviewedAt: new Date(),
+      reviewedById: input.reviewedById,
+      reviewNote: input.note || null,
+    },
+  });
+};
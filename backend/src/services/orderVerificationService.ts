@@ -1,7 +1,63 @@
-import { PrismaClient } from "../generated/prisma";
+import { Prisma, PrismaClient } from "../generated/prisma";
+import {
+  evaluateFraudRules,
+  FraudRuleInput,
+  FraudThresholds,
+  getActiveFraudRules,
+  getFraudThresholds,
+  toAddressKey,
+} from "./fraudRuleService";
 
 const prisma = new PrismaClient();
 
+// Review states recorded on an order once it has been scored
+export const REVIEW_STATUSES = [
+  "auto_approved",
+  "monitor",
+  "under_review",
+  "approved",
+  "rejected",
+] as const;
+
+/**
+ * Whether an order's review state stops it from being fulfilled
+ */
+export const isHeldForReview = (reviewStatus?: string | null) =>
+  reviewStatus === "under_review" || reviewStatus === "rejected";
+
+// What each risk flag means, for the review queue and analytics
+export const RISK_FLAG_DESCRIPTIONS: { [flag: string]: string } = {
+  USER_NOT_FOUND: "Customer account not found",
+  GUEST_CHECKOUT: "Order placed without an account",
+  NEW_USER_24H: "User account created within 24 hours",
+  NEW_USER_WEEK: "User account created within a week",
+  EMAIL_NOT_VERIFIED: "User email not verified",
+  FIRST_ORDER: "Customer's first order",
+  PREVIOUS_PAYMENT_FAILURES: "Customer has failed payments",
+  MULTIPLE_CANCELLATIONS: "Customer has cancelled several orders",
+  HIGH_VALUE_ORDER: "Order value exceeds $1000",
+  MEDIUM_VALUE_ORDER: "Order value exceeds $500",
+  UNUSUAL_HIGH_VALUE: "Over 3x the customer's average order",
+  EXCEEDS_HISTORICAL_MAX: "Over 2x the customer's largest order",
+  EXCESSIVE_HOURLY_ORDERS: "Too many orders in the last hour",
+  HIGH_HOURLY_FREQUENCY: "Many orders in the last hour",
+  EXCESSIVE_DAILY_ORDERS: "Too many orders in the last day",
+  HIGH_DAILY_FREQUENCY: "Many orders in the last day",
+  PAYMENT_PENDING: "Payment not yet received",
+  PAYMENT_FAILED: "Payment processing failed",
+  UNKNOWN_PAYMENT_STATUS: "Unrecognised payment status",
+  ADDRESS_MISMATCH: "Billing and shipping addresses differ",
+  IP_VELOCITY: "Many orders from one IP address",
+  ADDRESS_REUSE: "Address used by several other customers",
+  BULK_ORDER: "Large quantity order",
+  LARGE_QUANTITY: "Above-average quantity",
+  PRICE_INCONSISTENCY: "Item prices vary widely",
+  RAPID_SUCCESSIVE_ORDERS: "Several orders within 10 minutes",
+  DUPLICATE_ORDERS: "Matches other recent orders",
+  VERIFICATION_ERROR: "Verification could not be completed",
+  USER_CHECK_ERROR: "Customer checks could not be completed",
+};
+
 export interface VerificationResult {
   isValid: boolean;
   riskScore: number; // 0-100, higher = more risky
@@ -12,56 +68,108 @@ export interface VerificationResult {
 
 export interface OrderVerificationData {
   orderId: string;
-  userId: string;
+  userId?: string | null; // Guests are identified by guestEmail instead
+  guestEmail?: string | null;
   total: number;
   paymentStatus: string;
   userEmail?: string;
   userCreatedAt?: Date;
+  ipAddress?: string | null;
+  shippingAddress?: any;
+  billingAddress?: any;
+  createdAt?: Date; // When the order was placed; defaults to now
   orderItems: Array<{
-    productId: string;
+    productId: string | null;
     quantity: number;
     price: number;
   }>;
 }
 
-class OrderVerificationService {
-  private readonly HIGH_RISK_THRESHOLD = 70;
-  private readonly AUTO_APPROVE_THRESHOLD = 30;
-  private readonly MAX_ORDER_VALUE_NEW_USER = 500;
-  private readonly MAX_ORDERS_PER_HOUR = 10;
+// What verification loads with an order
+const ORDER_VERIFICATION_INCLUDE = {
+  user: { select: { email: true, createdAt: true } },
+  orderItems: true,
+} satisfies Prisma.OrderInclude;
+
+type VerifiableOrder = Prisma.OrderGetPayload<{
+  include: typeof ORDER_VERIFICATION_INCLUDE;
+}>;
+
+/**
+ * Descriptions for risk flags, with admin rule names taking precedence
+ */
+export const getRiskFlagDescriptions = async () => {
+  const rules = await prisma.fraudRule.findMany({
+    select: { id: true, name: true },
+  });
+  return {
+    ...RISK_FLAG_DESCRIPTIONS,
+    ...Object.fromEntries(rules.map((rule) => [rule.id, rule.name])),
+  } as { [flag: string]: string };
+};
+
+// Overrides for scoring with rules that aren't saved yet
+export interface VerifyOptions {
+  rules?: FraudRuleInput[];
+  thresholds?: FraudThresholds;
+  dryRun?: boolean; // Skip logging, for previews
+}
 
+class OrderVerificationService {
   /**
-   * Comprehensive order verification with fraud detection
+   * Comprehensive order verification with fraud detection: the admin's
+   * fraud rules plus the built-in history, payment and pattern checks
    */
   async verifyOrder(
-    orderData: OrderVerificationData
+    orderData: OrderVerificationData,
+    options: VerifyOptions = {}
   ): Promise<VerificationResult> {
     const flags: string[] = [];
     const recommendations: string[] = [];
     let riskScore = 0;
 
     try {
-      // 1. User verification checks
-      const userRisk = await this.checkUserRisk(
-        orderData.userId,
-        orderData.userEmail
+      const customer = this.customerWhere(orderData);
+      const asOf = orderData.createdAt || new Date();
+      const [rules, thresholds] = await Promise.all([
+        options.rules || getActiveFraudRules(),
+        options.thresholds || getFraudThresholds(),
+      ]);
+
+      // 1. Configurable fraud rules
+      const ruleRisk = await evaluateFraudRules(
+        {
+          orderId: orderData.orderId,
+          total: orderData.total,
+          userId: orderData.userId,
+          email: orderData.userEmail || orderData.guestEmail,
+          userCreatedAt: orderData.userCreatedAt,
+          ipAddress: orderData.ipAddress,
+          shippingAddress: orderData.shippingAddress,
+          billingAddress: orderData.billingAddress,
+          asOf,
+        },
+        rules
       );
+      riskScore += ruleRisk.score;
+      flags.push(...ruleRisk.flags);
+
+      // 2. User verification checks
+      const userRisk = orderData.userId
+        ? await this.checkUserRisk(orderData.userId, orderData.orderId)
+        : await this.checkGuestRisk(customer);
       riskScore += userRisk.score;
       flags.push(...userRisk.flags);
 
-      // 2. Order value analysis
+      // 3. Order value against the customer's history
       const valueRisk = await this.checkOrderValue(
         orderData.total,
-        orderData.userId
+        customer,
+        orderData.orderId
       );
       riskScore += valueRisk.score;
       flags.push(...valueRisk.flags);
 
-      // 3. Frequency analysis
-      const frequencyRisk = await this.checkOrderFrequency(orderData.userId);
-      riskScore += frequencyRisk.score;
-      flags.push(...frequencyRisk.flags);
-
       // 4. Payment verification
       const paymentRisk = this.checkPaymentStatus(orderData.paymentStatus);
       riskScore += paymentRisk.score;
@@ -73,23 +181,26 @@ class OrderVerificationService {
       flags.push(...productRisk.flags);
 
       // 6. Geographic and pattern analysis
-      const patternRisk = await this.checkOrderPatterns(orderData.userId);
+      const patternRisk = await this.checkOrderPatterns(customer, asOf);
       riskScore += patternRisk.score;
       flags.push(...patternRisk.flags);
 
       // Generate recommendations
-      recommendations.push(...this.generateRecommendations(riskScore, flags));
+      riskScore = Math.max(riskScore, 0);
+      recommendations.push(
+        ...this.generateRecommendations(riskScore, flags, thresholds)
+      );
 
       const result: VerificationResult = {
-        isValid: riskScore < this.HIGH_RISK_THRESHOLD,
+        isValid: riskScore < thresholds.highRiskThreshold,
         riskScore: Math.min(riskScore, 100),
         flags,
-        autoApprove: riskScore <= this.AUTO_APPROVE_THRESHOLD,
+        autoApprove: riskScore <= thresholds.autoApproveThreshold,
         recommendations,
       };
 
       // Log high-risk orders for manual review
-      if (riskScore >= this.HIGH_RISK_THRESHOLD) {
+      if (!options.dryRun && riskScore >= thresholds.highRiskThreshold) {
         await this.logHighRiskOrder(orderData, result);
       }
 
@@ -107,11 +218,206 @@ class OrderVerificationService {
   }
 
   /**
-   * Check user-related risk factors
+   * Score a saved order and record the result on it. High-risk orders are
+   * held as under_review until an admin approves or rejects them; re-scoring
+   * never releases a hold or overrides an admin's decision.
+   * @returns The verification result and whether the order is held, or null
+   * if the order couldn't be scored
+   */
+  async assessOrder(
+    orderId: string
+  ): Promise<(VerificationResult & { held: boolean }) | null> {
+    try {
+      const order = await prisma.order.findUnique({
+        where: { id: orderId },
+        include: ORDER_VERIFICATION_INCLUDE,
+      });
+      if (!order) {
+        return null;
+      }
+
+      const result = await this.verifyOrder(this.toVerificationData(order));
+
+      const decided =
+        order.reviewStatus === "approved" || order.reviewStatus === "rejected";
+      const held =
+        order.reviewStatus === "under_review" || (!decided && !result.isValid);
+
+      let reviewStatus = order.reviewStatus;
+      if (held) {
+        reviewStatus = "under_review";
+      } else if (!decided) {
+        reviewStatus = result.autoApprove ? "auto_approved" : "monitor";
+      }
+
+      await prisma.order.update({
+        where: { id: order.id },
+        data: {
+          riskScore: result.riskScore,
+          riskFlags: result.flags,
+          riskRecommendations: result.recommendations,
+          reviewStatus,
+          verifiedAt: new Date(),
+          shippingAddressKey: toAddressKey(order.shippingAddress),
+          ...(held ? { status: "under_review" } : {}),
+        },
+      });
+
+      return { ...result, held };
+    } catch (error) {
+      console.error(`Risk assessment failed for order ${orderId}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Re-score recent orders with a proposed rule set next to the live one,
+   * without saving anything, to preview the effect of a rule change
+   * @returns Outcome counts under both rule sets and the orders that change
+   */
+  async previewRules(
+    proposed: { rules: FraudRuleInput[]; thresholds: FraudThresholds },
+    range: { since: Date; limit: number }
+  ) {
+    const [orders, liveRules, liveThresholds] = await Promise.all([
+      prisma.order.findMany({
+        where: { createdAt: { gte: range.since } },
+        include: ORDER_VERIFICATION_INCLUDE,
+        orderBy: { createdAt: "desc" },
+        take: range.limit,
+      }),
+      getActiveFraudRules(),
+      getFraudThresholds(),
+    ]);
+
+    const outcomeOf = (result: VerificationResult) =>
+      !result.isValid ? "held" : result.autoApprove ? "auto_approved" : "monitor";
+    const emptyCounts = () => ({ auto_approved: 0, monitor: 0, held: 0 });
+    const current = emptyCounts();
+    const preview = emptyCounts();
+    const changed = [];
+
+    for (const order of orders) {
+      const data = this.toVerificationData(order);
+      const before = await this.verifyOrder(data, {
+        rules: liveRules,
+        thresholds: liveThresholds,
+        dryRun: true,
+      });
+      const after = await this.verifyOrder(data, { ...proposed, dryRun: true });
+
+      current[outcomeOf(before)]++;
+      preview[outcomeOf(after)]++;
+
+      if (before.riskScore !== after.riskScore || outcomeOf(before) !== outcomeOf(after)) {
+        changed.push({
+          orderId: order.id,
+          total: order.total,
+          createdAt: order.createdAt,
+          currentScore: before.riskScore,
+          proposedScore: after.riskScore,
+          currentOutcome: outcomeOf(before),
+          proposedOutcome: outcomeOf(after),
+          proposedFlags: after.flags,
+        });
+      }
+    }
+
+    // Orders whose outcome flips first, then the biggest score moves
+    changed.sort(
+      (a, b) =>
+        Number(b.currentOutcome !== b.proposedOutcome) -
+          Number(a.currentOutcome !== a.proposedOutcome) ||
+        Math.abs(b.proposedScore - b.currentScore) -
+          Math.abs(a.proposedScore - a.currentScore)
+    );
+
+    return {
+      ordersScored: orders.length,
+      current,
+      proposed: preview,
+      changedCount: changed.length,
+      changed: changed.slice(0, 100),
+    };
+  }
+
+  /**
+   * The verification input for a saved order
+   */
+  private toVerificationData(order: VerifiableOrder): OrderVerificationData {
+    return {
+      orderId: order.id,
+      userId: order.userId,
+      guestEmail: order.guestEmail,
+      total: order.total,
+      paymentStatus: order.paymentStatus,
+      userEmail: order.user?.email ?? undefined,
+      userCreatedAt: order.user?.createdAt,
+      ipAddress: order.ipAddress,
+      shippingAddress: order.shippingAddress,
+      billingAddress: order.billingAddress,
+      createdAt: order.createdAt,
+      orderItems: order.orderItems,
+    };
+  }
+
+  /**
+   * Orders by the same customer: the account, or the guest email
+   */
+  private customerWhere(
+    orderData: Pick<OrderVerificationData, "userId" | "guestEmail">
+  ): Prisma.OrderWhereInput {
+    if (orderData.userId) {
+      return { userId: orderData.userId };
+    }
+    // A guest without an email only matches their own order
+    return orderData.guestEmail
+      ? { guestEmail: orderData.guestEmail }
+      : { id: "" };
+  }
+
+  /**
+   * Check guest checkout risk factors from the email's order history
+   */
+  private async checkGuestRisk(
+    customer: Prisma.OrderWhereInput
+  ): Promise<{ score: number; flags: string[] }> {
+    const flags: string[] = [];
+    let score = 0;
+
+    try {
+      const orders = await prisma.order.findMany({
+        where: customer,
+        select: { paymentStatus: true },
+        orderBy: { createdAt: "desc" },
+        take: 10,
+      });
+
+      if (orders.length <= 1) {
+        flags.push("FIRST_ORDER");
+        score += 10;
+      }
+
+      const failedOrders = orders.filter(
+        (order) => order.paymentStatus === "failed"
+      );
+      if (failedOrders.length > 0) {
+        flags.push("PREVIOUS_PAYMENT_FAILURES");
+        score += failedOrders.length * 5;
+      }
+    } catch (error) {
+      console.error("Guest risk check error:", error);
+    }
+
+    return { score, flags };
+  }
+
+  /**
+   * Check user-related risk factors from the account's earlier orders
    */
   private async checkUserRisk(
     userId: string,
-    userEmail?: string
+    orderId: string
   ): Promise<{ score: number; flags: string[] }> {
     const flags: string[] = [];
     let score = 0;
@@ -121,6 +427,7 @@ class OrderVerificationService {
         where: { id: userId },
         include: {
           orders: {
+            where: { id: { not: orderId } },
             orderBy: { createdAt: "desc" },
             take: 10,
           },
@@ -132,18 +439,6 @@ class OrderVerificationService {
         return { score: 50, flags };
       }
 
-      // New user risk
-      const accountAge = Date.now() - new Date(user.createdAt).getTime();
-      const daysSinceCreation = accountAge / (1000 * 60 * 60 * 24);
-
-      if (daysSinceCreation < 1) {
-        flags.push("NEW_USER_24H");
-        score += 20;
-      } else if (daysSinceCreation < 7) {
-        flags.push("NEW_USER_WEEK");
-        score += 10;
-      }
-
       // Email verification
       if (!user.isVerified) {
         flags.push("EMAIL_NOT_VERIFIED");
@@ -182,28 +477,24 @@ class OrderVerificationService {
   }
 
   /**
-   * Analyze order value for risk factors
+   * Analyze order value for risk factors against the customer's earlier
+   * paid orders
    */
   private async checkOrderValue(
     total: number,
-    userId: string
+    customer: Prisma.OrderWhereInput,
+    orderId: string
   ): Promise<{ score: number; flags: string[] }> {
     const flags: string[] = [];
     let score = 0;
 
-    // High value orders
-    if (total > 1000) {
-      flags.push("HIGH_VALUE_ORDER");
-      score += 20;
-    } else if (total > 500) {
-      flags.push("MEDIUM_VALUE_ORDER");
-      score += 10;
-    }
-
     // Check if this is unusually high for the user
     try {
       const userOrders = await prisma.order.findMany({
-        where: { userId, paymentStatus: "paid" },
+        where: {
+          AND: [customer, { id: { not: orderId } }],
+          paymentStatus: "paid",
+        },
         select: { total: true },
         orderBy: { createdAt: "desc" },
         take: 10,
@@ -234,56 +525,6 @@ class OrderVerificationService {
     return { score, flags };
   }
 
-  /**
-   * Check order frequency patterns
-   */
-  private async checkOrderFrequency(
-    userId: string
-  ): Promise<{ score: number; flags: string[] }> {
-    const flags: string[] = [];
-    let score = 0;
-
-    try {
-      const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-      const oneDayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-
-      const [recentOrders, dailyOrders] = await Promise.all([
-        prisma.order.count({
-          where: {
-            userId,
-            createdAt: { gte: oneHourAgo },
-          },
-        }),
-        prisma.order.count({
-          where: {
-            userId,
-            createdAt: { gte: oneDayAgo },
-          },
-        }),
-      ]);
-
-      if (recentOrders >= this.MAX_ORDERS_PER_HOUR) {
-        flags.push("EXCESSIVE_HOURLY_ORDERS");
-        score += 30;
-      } else if (recentOrders >= 5) {
-        flags.push("HIGH_HOURLY_FREQUENCY");
-        score += 15;
-      }
-
-      if (dailyOrders >= 20) {
-        flags.push("EXCESSIVE_DAILY_ORDERS");
-        score += 25;
-      } else if (dailyOrders >= 10) {
-        flags.push("HIGH_DAILY_FREQUENCY");
-        score += 10;
-      }
-    } catch (error) {
-      console.error("Order frequency check error:", error);
-    }
-
-    return { score, flags };
-  }
-
   /**
    * Verify payment status
    */
@@ -318,7 +559,7 @@ class OrderVerificationService {
    * Analyze product combinations for suspicious patterns
    */
   private async checkProductRisk(
-    orderItems: Array<{ productId: string; quantity: number; price: number }>
+    orderItems: Array<{ productId: string | null; quantity: number; price: number }>
   ): Promise<{ score: number; flags: string[] }> {
     const flags: string[] = [];
     let score = 0;
@@ -350,7 +591,8 @@ class OrderVerificationService {
    * Check for suspicious ordering patterns
    */
   private async checkOrderPatterns(
-    userId: string
+    customer: Prisma.OrderWhereInput,
+    asOf: Date
   ): Promise<{ score: number; flags: string[] }> {
     const flags: string[] = [];
     let score = 0;
@@ -359,8 +601,9 @@ class OrderVerificationService {
       // Check for rapid successive orders
       const recentOrders = await prisma.order.findMany({
         where: {
-          userId,
-          createdAt: { gte: new Date(Date.now() - 10 * 60 * 1000) }, // Last 10 minutes
+          ...customer,
+          // The 10 minutes before the order
+          createdAt: { gte: new Date(asOf.getTime() - 10 * 60 * 1000), lte: asOf },
         },
         orderBy: { createdAt: "desc" },
       });
@@ -390,14 +633,15 @@ class OrderVerificationService {
    */
   private generateRecommendations(
     riskScore: number,
-    flags: string[]
+    flags: string[],
+    thresholds: FraudThresholds
   ): string[] {
     const recommendations: string[] = [];
 
-    if (riskScore >= this.HIGH_RISK_THRESHOLD) {
+    if (riskScore >= thresholds.highRiskThreshold) {
       recommendations.push("HOLD_FOR_MANUAL_REVIEW");
       recommendations.push("CONTACT_CUSTOMER_VERIFICATION");
-    } else if (riskScore >= 40) {
+    } else if (riskScore > thresholds.autoApproveThreshold) {
       recommendations.push("ENHANCED_MONITORING");
       recommendations.push("DELAY_FULFILLMENT_24H");
     }
@@ -418,7 +662,7 @@ class OrderVerificationService {
       recommendations.push("VERIFY_BUSINESS_ACCOUNT");
     }
 
-    if (riskScore <= this.AUTO_APPROVE_THRESHOLD) {
+    if (riskScore <= thresholds.autoApproveThreshold) {
       recommendations.push("AUTO_APPROVE_SAFE");
     }
 
@@ -0,0 +1,172 @@
+import { PackDefinition, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+// Pack types that existed before definitions moved into the database
+const LEGACY_PACK_PRICES: { [key: string]: number } = {
+  "3-pack": 27.0,
+  "5-pack": 45.0,
+};
+
+/**
+ * Flavors per pack from a product type id ("5-pack" → 5)
+ */
+const parsePackSize = (packType: string): number | null => {
+  const match = /^(\d+)-pack$/.exec(packType);
+  return match ? parseInt(match[1]) : null;
+};
+
+/**
+ * Load an active pack definition by its product type
+ * @throws CustomError (400) if the pack type is unknown or retired
+ */
+export const getPackDefinition = async (
+  packType: string
+): Promise<PackDefinition> => {
+  const definition = await prisma.packDefinition.findUnique({
+    where: { id: packType },
+  });
+  if (!definition || !definition.active) {
+    throw new CustomError(`Product type '${packType}' is not supported`, 400);
+  }
+  return definition;
+};
+
+/**
+ * Active pack definitions in display order
+ */
+export const getActivePackDefinitions = () => {
+  return prisma.packDefinition.findMany({
+    where: { active: true },
+    orderBy: [{ sortOrder: "asc" }, { size: "asc" }],
+  });
+};
+
+/**
+ * Units of each flavor in one pack ("A","A","B" → A:2, B:1)
+ */
+export const countFlavorUnits = (flavorIds: string[]): Map<string, number> => {
+  const units = new Map<string, number>();
+  for (const flavorId of flavorIds) {
+    units.set(flavorId, (units.get(flavorId) || 0) + 1);
+  }
+  return units;
+};
+
+/**
+ * Check a custom flavor selection against a pack definition: the pack must
+ * be filled exactly, duplicates only where the pack allows them, and every
+ * flavor must be active and in one of the pack's categories.
+ * @returns The flavors (with inventory) and the units of each per pack
+ * @throws CustomError (400) if the selection does not fit the pack
+ */
+export const validatePackFlavors = async (
+  definition: PackDefinition,
+  flavorIds: unknown
+) => {
+  if (
+    !Array.isArray(flavorIds) ||
+    flavorIds.length !== definition.size ||
+    !flavorIds.every((id) => typeof id === "string" && id)
+  ) {
+    throw new CustomError(
+      `${definition.name} must contain exactly ${definition.size} flavors`,
+      400
+    );
+  }
+
+  const units = countFlavorUnits(flavorIds);
+  if (!definition.allowDuplicates && units.size !== flavorIds.length) {
+    throw new CustomError(
+      `${definition.name} must contain ${definition.size} different flavors`,
+      400
+    );
+  }
+
+  const flavors = await prisma.flavor.findMany({
+    where: { id: { in: [...units.keys()] }, active: true },
+    include: { inventory: true },
+  });
+  if (flavors.length !== units.size) {
+    throw new CustomError("One or more flavors are not available", 400);
+  }
+
+  if (definition.allowedCategories.length > 0) {
+    const outside = flavors.find(
+      (flavor) =>
+        !flavor.category ||
+        !definition.allowedCategories.includes(flavor.category)
+    );
+    if (outside) {
+      throw new CustomError(
+        `${outside.name} can't be added to a ${definition.name}`,
+        400
+      );
+    }
+  }
+
+  return { flavors, units };
+};
+
+/**
+ * Create definitions for the pack types that used to be configured through
+ * SUPPORTED_PRODUCT_TYPES, along with the Product row order items point at.
+ * Existing definitions are left untouched.
+ */
+export const ensurePackDefinitions = async () => {
+  const legacyTypes = process.env.SUPPORTED_PRODUCT_TYPES?.split(",") || [
+    "3-pack",
+    "5-pack",
+  ];
+
+  for (const packType of legacyTypes.map((type) => type.trim())) {
+    const size = parsePackSize(packType);
+    if (!size) continue;
+
+    const envPrice =
+      process.env[`DEFAULT_${packType.toUpperCase().replace("-", "_")}_PRICE`];
+    const price = envPrice
+      ? parseFloat(envPrice)
+      : LEGACY_PACK_PRICES[packType] || 0;
+
+    const existing = await prisma.packDefinition.findUnique({
+      where: { id: packType },
+    });
+    if (!existing) {
+      await prisma.packDefinition.create({
+        data: {
+          id: packType,
+          name: `${size}-Pack`,
+          size,
+          price,
+          sortOrder: size,
+        },
+      });
+    }
+    await ensurePackProduct(packType, `${size}-Pack`, price);
+  }
+};
+
+/**
+ * Make sure the Product row for a pack type exists, since order items
+ * reference packs by product id
+ */
+export const ensurePackProduct = async (
+  packType: string,
+  name: string,
+  price: number
+) => {
+  await prisma.product.upsert({
+    where: { id: packType },
+    update: {},
+    create: {
+      id: packType,
+      name,
+      price,
+      category: "Pack",
+      // Packs are sold through the pack builder, not the product grid
+      isActive: false,
+    },
+  });
+};
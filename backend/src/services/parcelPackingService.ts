@@ -0,0 +1,285 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { Parcel } from "./shippoService";
+
+const prisma = new PrismaClient();
+
+interface ItemSize {
+  weightOz: number;
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+}
+
+interface BoxSpec {
+  name: string;
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+  emptyWeightOz: number;
+  maxWeightOz: number;
+}
+
+// Used for anything without its own measurements; the weights match the
+// old per-flavor and per-product estimates
+export const DEFAULT_FLAVOR_SIZE: ItemSize = { weightOz: 4, lengthIn: 6, widthIn: 3, heightIn: 1 };
+export const DEFAULT_PRODUCT_SIZE: ItemSize = { weightOz: 8, lengthIn: 6, widthIn: 4, heightIn: 2 };
+
+// Created on first start; Small is the 6x4x2 parcel every order used to ship in
+const DEFAULT_BOXES: Array<BoxSpec & { sortOrder: number }> = [
+  { name: "Small", lengthIn: 6, widthIn: 4, heightIn: 2, emptyWeightOz: 2, maxWeightOz: 16, sortOrder: 1 },
+  { name: "Medium", lengthIn: 10, widthIn: 8, heightIn: 4, emptyWeightOz: 5, maxWeightOz: 80, sortOrder: 2 },
+  { name: "Large", lengthIn: 14, widthIn: 12, heightIn: 6, emptyWeightOz: 10, maxWeightOz: 320, sortOrder: 3 },
+];
+
+// Bags never pack perfectly; only this share of a box's volume is usable
+const BOX_FILL_RATIO = 0.8;
+
+const MIN_PARCEL_WEIGHT_LB = 0.1;
+
+export interface PackingLine {
+  productId?: string | null;
+  flavorIds?: string[] | null; // Custom or predefined pack contents
+  quantity: number;
+}
+
+interface PackingItem {
+  name: string;
+  weightOz: number;
+  dims: number[]; // Longest side first
+  volume: number;
+}
+
+export interface PackedParcel {
+  box: string;
+  itemCount: number;
+  weightOz: number; // Contents plus the box
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+}
+
+interface OpenParcel {
+  box: BoxSpec;
+  items: PackingItem[];
+  sealed: boolean; // Ships in its own packaging; nothing else goes in
+}
+
+const sortedDims = (size: { lengthIn: number; widthIn: number; heightIn: number }) =>
+  [size.lengthIn, size.widthIn, size.heightIn].sort((a, b) => b - a);
+
+const boxVolume = (box: BoxSpec) => box.lengthIn * box.widthIn * box.heightIn;
+
+const toPackingItem = (name: string, size: ItemSize): PackingItem => {
+  const dims = sortedDims(size);
+  return { name, weightOz: size.weightOz, dims, volume: dims[0] * dims[1] * dims[2] };
+};
+
+// Fill in whichever measurements an item is missing
+const withDefaults = (
+  size: { weightOz: number | null; lengthIn: number | null; widthIn: number | null; heightIn: number | null } | undefined,
+  fallback: ItemSize
+): ItemSize => ({
+  weightOz: size?.weightOz ?? fallback.weightOz,
+  lengthIn: size?.lengthIn ?? fallback.lengthIn,
+  widthIn: size?.widthIn ?? fallback.widthIn,
+  heightIn: size?.heightIn ?? fallback.heightIn,
+});
+
+/**
+ * Whether a set of items fits a box by volume, weight and the size of
+ * each item
+ */
+const canHold = (box: BoxSpec, items: PackingItem[]) => {
+  const boxDims = sortedDims(box);
+  const volume = items.reduce((sum, item) => sum + item.volume, 0);
+  const weight = items.reduce((sum, item) => sum + item.weightOz, 0);
+  return (
+    volume <= boxVolume(box) * BOX_FILL_RATIO &&
+    weight <= box.maxWeightOz &&
+    items.every((item) => item.dims.every((dim, i) => dim <= boxDims[i]))
+  );
+};
+
+/**
+ * First-fit decreasing: biggest items first, each into the first parcel
+ * with room, opening the largest box when none has. Each parcel then
+ * moves down to the smallest box its contents fit.
+ */
+const packItems = (items: PackingItem[], boxes: BoxSpec[]) => {
+  const bySize = [...boxes].sort((a, b) => boxVolume(a) - boxVolume(b));
+  const parcels: OpenParcel[] = [];
+
+  for (const item of [...items].sort((a, b) => b.volume - a.volume)) {
+    const open = parcels.find(
+      (parcel) => !parcel.sealed && canHold(parcel.box, [...parcel.items, item])
+    );
+    if (open) {
+      open.items.push(item);
+      continue;
+    }
+
+    const box = [...bySize].reverse().find((candidate) => canHold(candidate, [item]));
+    if (box) {
+      parcels.push({ box, items: [item], sealed: false });
+    } else {
+      // Too big or heavy for every box: ship it as it is
+      parcels.push({
+        box: {
+          name: "Own packaging",
+          lengthIn: item.dims[0],
+          widthIn: item.dims[1],
+          heightIn: item.dims[2],
+          emptyWeightOz: 0,
+          maxWeightOz: item.weightOz,
+        },
+        items: [item],
+        sealed: true,
+      });
+    }
+  }
+
+  return parcels.map((parcel): PackedParcel => {
+    const box = parcel.sealed
+      ? parcel.box
+      : bySize.find((candidate) => canHold(candidate, parcel.items)) || parcel.box;
+    return {
+      box: box.name,
+      itemCount: parcel.items.length,
+      weightOz: box.emptyWeightOz + parcel.items.reduce((sum, item) => sum + item.weightOz, 0),
+      lengthIn: box.lengthIn,
+      widthIn: box.widthIn,
+      heightIn: box.heightIn,
+    };
+  });
+};
+
+/**
+ * Turn packed parcels into what Shippo expects
+ */
+export const toShippoParcels = (packed: PackedParcel[]): Parcel[] =>
+  packed.map((parcel) => ({
+    length: String(parcel.lengthIn),
+    width: String(parcel.widthIn),
+    height: String(parcel.heightIn),
+    weight: String(Math.max(Math.ceil((parcel.weightOz / 16) * 100) / 100, MIN_PARCEL_WEIGHT_LB)),
+    massUnit: "lb",
+    distanceUnit: "in",
+  }));
+
+/**
+ * Active boxes, falling back to the defaults if an admin has switched
+ * them all off
+ */
+const getActiveBoxes = async (): Promise<BoxSpec[]> => {
+  const boxes = await prisma.shippingBox.findMany({ where: { active: true } });
+  return boxes.length > 0 ? boxes : DEFAULT_BOXES;
+};
+
+/**
+ * Expand cart or order lines into the individual bags and products that
+ * go in a box. Pack lines contribute their flavors, not the pack product.
+ */
+const getPackingItems = async (lines: PackingLine[]) => {
+  const flavorIds = new Set<string>();
+  const productIds = new Set<string>();
+  for (const line of lines) {
+    if (line.flavorIds && line.flavorIds.length > 0) {
+      line.flavorIds.forEach((id) => flavorIds.add(id));
+    } else if (line.productId) {
+      productIds.add(line.productId);
+    }
+  }
+
+  const [flavors, products] = await Promise.all([
+    prisma.flavor.findMany({
+      where: { id: { in: [...flavorIds] } },
+      select: { id: true, name: true, weightOz: true, lengthIn: true, widthIn: true, heightIn: true },
+    }),
+    prisma.product.findMany({
+      where: { id: { in: [...productIds] } },
+      select: { id: true, name: true, weightOz: true, lengthIn: true, widthIn: true, heightIn: true },
+    }),
+  ]);
+  const flavorsById = new Map(flavors.map((flavor) => [flavor.id, flavor]));
+  const productsById = new Map(products.map((product) => [product.id, product]));
+
+  const items: PackingItem[] = [];
+  for (const line of lines) {
+    const quantity = Math.max(Math.floor(Number(line.quantity) || 0), 0);
+    for (let unit = 0; unit < quantity; unit++) {
+      if (line.flavorIds && line.flavorIds.length > 0) {
+        for (const flavorId of line.flavorIds) {
+          const flavor = flavorsById.get(flavorId);
+          items.push(toPackingItem(flavor?.name || "Flavor", withDefaults(flavor, DEFAULT_FLAVOR_SIZE)));
+        }
+      } else if (line.productId) {
+        const product = productsById.get(line.productId);
+        items.push(toPackingItem(product?.name || "Product", withDefaults(product, DEFAULT_PRODUCT_SIZE)));
+      }
+    }
+  }
+  return items;
+};
+
+/**
+ * Pack cart or order lines into as few parcels as the configured boxes
+ * allow. Checkout quotes and label purchases both use this, so the label
+ * matches what the customer was quoted.
+ * @throws CustomError (400) if the lines contain nothing to ship
+ */
+export const packParcels = async (lines: PackingLine[]) => {
+  const items = await getPackingItems(lines);
+  if (items.length === 0) {
+    throw new CustomError("There is nothing to ship", 400);
+  }
+
+  const packages = packItems(items, await getActiveBoxes());
+  return { packages, parcels: toShippoParcels(packages) };
+};
+
+/**
+ * Parcels for an order's items
+ * @throws CustomError (400) if the order has no items
+ */
+export const getOrderParcels = async (orderId: string) => {
+  const orderItems = await prisma.orderItem.findMany({
+    where: { orderId },
+    select: { productId: true, flavorIds: true, quantity: true },
+  });
+  const { parcels } = await packParcels(orderItems);
+  return parcels;
+};
+
+/**
+ * Read optional weight and dimensions from an admin form. Blank values
+ * clear a measurement so packing falls back to the default.
+ * @throws CustomError (400) if a value isn't a positive number
+ */
+export const parseItemSize = (body: any) => {
+  const data: Partial<Record<keyof ItemSize, number | null>> = {};
+  for (const field of ["weightOz", "lengthIn", "widthIn", "heightIn"] as const) {
+    const value = body?.[field];
+    if (value === undefined) continue;
+    if (value === null || value === "") {
+      data[field] = null;
+      continue;
+    }
+    const number = parseFloat(value);
+    if (!Number.isFinite(number) || number <= 0) {
+      throw new CustomError(`${field} must be a positive number`, 400);
+    }
+    data[field] = number;
+  }
+  return data;
+};
+
+/**
+ * Create the default boxes if none have been configured yet
+ */
+export const ensureShippingBoxes = async () => {
+  const count = await prisma.shippingBox.count();
+  if (count === 0) {
+    await prisma.shippingBox.createMany({ data: DEFAULT_BOXES });
+  }
+};
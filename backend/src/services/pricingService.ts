@@ -0,0 +1,328 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { getDefaultPrice, isValidProductType } from "../utils/skuGenerator";
+import {
+  ShippingDestination,
+  priceShippingOption,
+} from "./shippingRuleService";
+import {
+  calculatePromotionDiscount,
+  findUsablePromotion,
+} from "./promotionService";
+import { getPackDefinition, validatePackFlavors } from "./packDefinitionService";
+
+const prisma = new PrismaClient();
+
+// Prices are in dollars; anything closer than half a cent is a match
+const PRICE_TOLERANCE = 0.005;
+
+// Pack type for custom packs sent without a productId or packType
+const CUSTOM_PACK_TYPE = "3-pack";
+
+export interface PricingItemInput {
+  productId?: string | null;
+  packType?: string | null; // Pack definition of a custom pack sent without productId
+  productName?: string;
+  quantity: number;
+  price?: number; // Price the client displayed, checked against ours
+  flavorIds?: string[];
+  customPackName?: string | null;
+}
+
+export interface PricingShippingInput {
+  objectId?: string;
+  amount?: number | string; // Amount the client displayed
+}
+
+export interface PricedLine {
+  productId: string | null;
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  flavorIds: string[];
+  customPackName: string | null;
+  category: string | null; // Product category; null for packs
+  isPack: boolean;
+}
+
+export interface PricedShipping {
+  objectId: string;
+  carrier: string;
+  serviceName: string;
+  amount: number;
+}
+
+export interface AppliedPromotion {
+  id: string;
+  code: string;
+  type: string;
+  description: string | null;
+  discount: number; // Off the items
+  shippingDiscount: number; // Off the shipping charge
+}
+
+export interface PricedOrder {
+  lines: PricedLine[];
+  subtotal: number;
+  shipping: PricedShipping | null;
+  promotion: AppliedPromotion | null;
+  discount: number; // Item and shipping discounts combined
+  total: number;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const pricesDiffer = (clientPrice: unknown, serverPrice: number) => {
+  if (clientPrice === undefined || clientPrice === null) return false;
+  return Math.abs(Number(clientPrice) - serverPrice) > PRICE_TOLERANCE;
+};
+
+const priceLine = async (item: PricingItemInput): Promise<PricedLine> => {
+  const quantity = Number(item.quantity);
+  if (!Number.isInteger(quantity) || quantity < 1) {
+    throw new CustomError(
+      `Invalid quantity for ${item.productName || "item"}`,
+      400
+    );
+  }
+
+  const flavorIds = Array.isArray(item.flavorIds) ? item.flavorIds : [];
+  let unitPrice: number;
+  let name: string;
+  let category: string | null = null;
+  const isPack = !item.productId || (await isValidProductType(item.productId));
+
+  if (isPack) {
+    // Packs are priced by pack type
+    const packType = item.productId || item.packType || CUSTOM_PACK_TYPE;
+    // Custom packs must match their pack definition; recipe packs carry no flavors here
+    if (flavorIds.length > 0 || !item.productId) {
+      await validatePackFlavors(await getPackDefinition(packType), flavorIds);
+    }
+    unitPrice = await getDefaultPrice(packType);
+    name = item.customPackName || item.productName || `Custom ${packType}`;
+    if (unitPrice <= 0) {
+      throw new CustomError(`No price configured for ${packType}`, 400);
+    }
+  } else {
+    const product = await prisma.product.findUnique({
+      where: { id: item.productId!, isActive: true },
+      select: { name: true, price: true, category: true },
+    });
+    if (!product) {
+      throw new CustomError(`Product not found: ${item.productId}`, 400);
+    }
+    unitPrice = product.price;
+    name = product.name;
+    category = product.category;
+  }
+
+  if (pricesDiffer(item.price, unitPrice)) {
+    throw new CustomError(
+      `Price for ${name} has changed to $${unitPrice.toFixed(
+        2
+      )}. Please refresh your cart.`,
+      400
+    );
+  }
+
+  return {
+    productId: item.productId || null,
+    name,
+    quantity,
+    unitPrice,
+    total: roundMoney(unitPrice * quantity),
+    flavorIds,
+    customPackName: item.customPackName || null,
+    category,
+    isPack,
+  };
+};
+
+const priceShipping = async (
+  shipping: PricingShippingInput,
+  subtotal: number,
+  destination?: ShippingDestination | null
+): Promise<PricedShipping> => {
+  if (!shipping.objectId) {
+    throw new CustomError("Selected shipping rate is missing its id", 400);
+  }
+
+  // Shipping rules decide the price and whether the option is still offered
+  const rate = await priceShippingOption(shipping.objectId, {
+    subtotal,
+    destination,
+  });
+  if (!rate) {
+    throw new CustomError(
+      "Selected shipping rate is no longer available. Please recalculate shipping.",
+      400
+    );
+  }
+
+  if (pricesDiffer(shipping.amount, rate.amount)) {
+    throw new CustomError(
+      `Shipping price has changed to $${rate.amount.toFixed(
+        2
+      )}. Please recalculate shipping.`,
+      400
+    );
+  }
+
+  return {
+    objectId: rate.objectId,
+    carrier: rate.carrier,
+    serviceName: rate.serviceName,
+    amount: roundMoney(rate.amount),
+  };
+};
+
+/**
+ * Recompute an order from server-side prices. Every line is priced from
+ * Product.price (or the pack price) and shipping from the Shippo rate with
+ * the shipping rules for the destination applied, and any price or total
+ * the client sent that doesn't match is rejected.
+ * A promo code, if given, is validated and applied to the total.
+ * @throws CustomError (400) on unknown items, price mismatches, bad codes
+ * or a destination the shipping rules exclude
+ */
+export const priceOrder = async (
+  items: PricingItemInput[],
+  shipping?: PricingShippingInput | null,
+  clientTotal?: number | string | null,
+  promotionCode?: string | null,
+  destination?: ShippingDestination | null
+): Promise<PricedOrder> => {
+  if (!Array.isArray(items) || items.length === 0) {
+    throw new CustomError("No items provided", 400);
+  }
+
+  const lines: PricedLine[] = [];
+  for (const item of items) {
+    lines.push(await priceLine(item));
+  }
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.total, 0));
+  const pricedShipping = shipping
+    ? await priceShipping(shipping, subtotal, destination)
+    : null;
+  const shippingAmount = pricedShipping?.amount || 0;
+
+  let promotion: AppliedPromotion | null = null;
+  if (promotionCode) {
+    const usable = await findUsablePromotion(promotionCode);
+    const { discount, shippingDiscount } = calculatePromotionDiscount(
+      usable,
+      lines,
+      subtotal,
+      shippingAmount
+    );
+    promotion = {
+      id: usable.id,
+      code: usable.code,
+      type: usable.type,
+      description: usable.description,
+      discount,
+      shippingDiscount,
+    };
+  }
+
+  const discount = roundMoney(
+    (promotion?.discount || 0) + (promotion?.shippingDiscount || 0)
+  );
+  const total = roundMoney(Math.max(0, subtotal + shippingAmount - discount));
+
+  if (pricesDiffer(clientTotal, total)) {
+    throw new CustomError(
+      `Order total has changed to $${total.toFixed(
+        2
+      )}. Please review your cart.`,
+      400
+    );
+  }
+
+  return {
+    lines,
+    subtotal,
+    shipping: pricedShipping,
+    promotion,
+    discount,
+    total,
+  };
+};
+
+/**
+ * Stripe Checkout line items for a priced order, shipping included.
+ * Discounts aren't line items; they're applied as a Stripe coupon.
+ */
+export const toStripeLineItems = (pricedOrder: PricedOrder) => {
+  const lineItems = pricedOrder.lines.map((line) => ({
+    price_data: {
+      currency: "usd",
+      product_data: { name: line.name },
+      unit_amount: Math.round(line.unitPrice * 100),
+    },
+    quantity: line.quantity,
+  }));
+
+  if (pricedOrder.shipping) {
+    lineItems.push({
+      price_data: {
+        currency: "usd",
+        product_data: {
+          name: `Shipping - ${pricedOrder.shipping.carrier} ${pricedOrder.shipping.serviceName}`,
+        },
+        unit_amount: Math.round(pricedOrder.shipping.amount * 100),
+      },
+      quantity: 1,
+    });
+  }
+
+  return lineItems;
+};
+
+export interface StoredOrderCharges {
+  shippingCost: number | null;
+  shippingCarrier: string | null;
+  shippingService: string | null;
+  orderItems: Array<{
+    productId: string | null;
+    customPackName: string | null;
+    price: number;
+    quantity: number;
+    product?: { name: string } | null;
+  }>;
+}
+
+/**
+ * Line items that charge what an existing order stored when it's paid
+ * again: its items at the prices it was placed at, and its shipping. Its
+ * discount goes to Stripe separately, as for a new order.
+ */
+export const toOrderStripeLineItems = (order: StoredOrderCharges) => {
+  const lineItems = order.orderItems.map((item) => ({
+    price_data: {
+      currency: "usd",
+      product_data: {
+        name: item.customPackName || item.product?.name || item.productId || "Item",
+      },
+      unit_amount: Math.max(0, Math.round(item.price * 100)),
+    },
+    quantity: Math.max(1, item.quantity),
+  }));
+
+  if (order.shippingCost) {
+    const service = [order.shippingCarrier, order.shippingService].filter(Boolean).join(" ");
+    lineItems.push({
+      price_data: {
+        currency: "usd",
+        product_data: { name: service ? `Shipping - ${service}` : "Shipping" },
+        unit_amount: Math.round(order.shippingCost * 100),
+      },
+      quantity: 1,
+    });
+  }
+
+  return lineItems;
+};
@@ -0,0 +1,210 @@
+import { Promotion, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+export const PROMOTION_TYPES = [
+  "percent",
+  "fixed",
+  "free_shipping",
+  "buy_n_get_one",
+] as const;
+
+export type PromotionType = (typeof PROMOTION_TYPES)[number];
+
+export const isPromotionType = (value: unknown): value is PromotionType => {
+  return (
+    typeof value === "string" &&
+    (PROMOTION_TYPES as readonly string[]).includes(value)
+  );
+};
+
+// The parts of a priced cart line a promotion needs to see
+export interface PromotionLine {
+  unitPrice: number;
+  quantity: number;
+  total: number;
+  flavorIds: string[];
+  category: string | null;
+  isPack: boolean; // Licorice pack rather than a regular product
+}
+
+export interface PromotionDiscount {
+  discount: number; // Off the items
+  shippingDiscount: number; // Off the shipping charge
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+export const normalizePromotionCode = (code: string) =>
+  code.trim().toUpperCase();
+
+/**
+ * Whether a cart line falls inside the promotion's flavor/category scope
+ */
+export const isLineEligible = (promotion: Promotion, line: PromotionLine) => {
+  const hasFlavorScope = promotion.flavorIds.length > 0;
+  const hasCategoryScope = promotion.categories.length > 0;
+  if (!hasFlavorScope && !hasCategoryScope) return true;
+
+  const matchesFlavor =
+    hasFlavorScope &&
+    line.flavorIds.some((flavorId) => promotion.flavorIds.includes(flavorId));
+  const matchesCategory =
+    hasCategoryScope &&
+    !!line.category &&
+    promotion.categories.includes(line.category);
+
+  return matchesFlavor || matchesCategory;
+};
+
+/**
+ * Load an active promotion by code
+ * @throws CustomError (400) if the code is unknown, expired or used up
+ */
+export const findUsablePromotion = async (code: string) => {
+  const promotion = await prisma.promotion.findUnique({
+    where: { code: normalizePromotionCode(code) },
+  });
+
+  if (!promotion || !promotion.active) {
+    throw new CustomError("Promo code is not valid", 400);
+  }
+
+  const now = new Date();
+  if (promotion.startsAt && promotion.startsAt > now) {
+    throw new CustomError("Promo code is not active yet", 400);
+  }
+  if (promotion.endsAt && promotion.endsAt < now) {
+    throw new CustomError("Promo code has expired", 400);
+  }
+  if (
+    promotion.usageLimit !== null &&
+    promotion.usageCount >= promotion.usageLimit
+  ) {
+    throw new CustomError("Promo code has reached its usage limit", 400);
+  }
+
+  return promotion;
+};
+
+/**
+ * Work out how much a promotion takes off a priced cart
+ * @throws CustomError (400) if the cart doesn't qualify
+ */
+export const calculatePromotionDiscount = (
+  promotion: Promotion,
+  lines: PromotionLine[],
+  subtotal: number,
+  shippingAmount: number
+): PromotionDiscount => {
+  if (promotion.minSubtotal && subtotal < promotion.minSubtotal) {
+    throw new CustomError(
+      `Promo code requires a subtotal of at least $${promotion.minSubtotal.toFixed(
+        2
+      )}`,
+      400
+    );
+  }
+
+  const eligibleLines = lines.filter((line) => isLineEligible(promotion, line));
+  if (eligibleLines.length === 0) {
+    throw new CustomError(
+      "Promo code doesn't apply to any items in your cart",
+      400
+    );
+  }
+
+  const eligibleSubtotal = eligibleLines.reduce(
+    (sum, line) => sum + line.total,
+    0
+  );
+
+  switch (promotion.type) {
+    case "percent": {
+      const percent = Math.min(Math.max(promotion.value, 0), 100);
+      return {
+        discount: roundMoney((eligibleSubtotal * percent) / 100),
+        shippingDiscount: 0,
+      };
+    }
+    case "fixed":
+      return {
+        discount: roundMoney(
+          Math.min(Math.max(promotion.value, 0), eligibleSubtotal)
+        ),
+        shippingDiscount: 0,
+      };
+    case "free_shipping":
+      return { discount: 0, shippingDiscount: roundMoney(shippingAmount) };
+    case "buy_n_get_one": {
+      const buyQuantity = promotion.buyQuantity || 0;
+      if (buyQuantity < 1) {
+        throw new CustomError("Promo code is misconfigured", 400);
+      }
+
+      // Every (N + 1)th pack is free, cheapest packs first; regular
+      // products don't count towards it
+      const unitPrices = eligibleLines
+        .filter((line) => line.isPack)
+        .flatMap((line) => Array(line.quantity).fill(line.unitPrice))
+        .sort((a, b) => a - b);
+      const freeUnits = Math.floor(unitPrices.length / (buyQuantity + 1));
+      if (freeUnits === 0) {
+        throw new CustomError(
+          `Add ${buyQuantity + 1 - unitPrices.length} more eligible pack(s) to use this promo code`,
+          400
+        );
+      }
+
+      return {
+        discount: roundMoney(
+          unitPrices.slice(0, freeUnits).reduce((sum, price) => sum + price, 0)
+        ),
+        shippingDiscount: 0,
+      };
+    }
+    default:
+      throw new CustomError("Promo code is misconfigured", 400);
+  }
+};
+
+/**
+ * Count a use of the promotion once an order has been placed with it
+ * @param enforceLimit Fail instead of going over the usage limit
+ * @returns False if the limit was already reached
+ */
+export const redeemPromotion = async (
+  promotionId: string,
+  enforceLimit = true
+): Promise<boolean> => {
+  if (!enforceLimit) {
+    await prisma.promotion.update({
+      where: { id: promotionId },
+      data: { usageCount: { increment: 1 } },
+    });
+    return true;
+  }
+
+  const redeemed = await prisma.promotion.updateMany({
+    where: {
+      id: promotionId,
+      OR: [
+        { usageLimit: null },
+        { usageCount: { lt: prisma.promotion.fields.usageLimit } },
+      ],
+    },
+    data: { usageCount: { increment: 1 } },
+  });
+  return redeemed.count > 0;
+};
+
+/**
+ * Give back a use counted for an order that then couldn't be saved
+ */
+export const releasePromotion = async (promotionId: string) => {
+  await prisma.promotion.updateMany({
+    where: { id: promotionId, usageCount: { gt: 0 } },
+    data: { usageCount: { decrement: 1 } },
+  });
+};
@@ -0,0 +1,403 @@
+import Stripe from "stripe";
+import { Order, PrismaClient, Refund } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { getStripe } from "../config/stripe";
+import { sendRefundEmail } from "../utils/mailer";
+import { applyStockMovement } from "./stockMovementService";
+import { countFlavorUnits } from "./packDefinitionService";
+import {
+  isRestock,
+  notifyBackInStock,
+  WishlistTarget,
+} from "./wishlistService";
+
+const prisma = new PrismaClient();
+
+// Payment statuses an order can be refunded from
+const REFUNDABLE_PAYMENT_STATUSES = ["paid", "partially_refunded"];
+
+// Refunds that hold money against the order total
+const OPEN_REFUND_STATUSES = ["pending", "succeeded"];
+
+export interface RestockRequest {
+  orderItemId: string;
+  quantity: number;
+}
+
+export interface CreateRefundInput {
+  orderId: string;
+  amount?: number; // Defaults to everything not yet refunded
+  reason?: string | null;
+  restock?: boolean;
+  items?: RestockRequest[]; // Restock these instead of the whole order
+  createdById?: string;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Map Stripe's refund status onto ours; requires_action waits like pending
+ */
+const toRefundStatus = (status: string | null) => {
+  switch (status) {
+    case "succeeded":
+      return "succeeded";
+    case "failed":
+      return "failed";
+    case "canceled":
+      return "canceled";
+    default:
+      return "pending";
+  }
+};
+
+/**
+ * What can still be refunded: the order total less refunds that have
+ * succeeded or are on their way
+ */
+export const getRefundableAmount = async (order: Order) => {
+  const refunded = await prisma.refund.aggregate({
+    where: { orderId: order.id, status: { in: OPEN_REFUND_STATUSES } },
+    _sum: { amount: true },
+  });
+  return roundMoney(Math.max(0, order.total - (refunded._sum.amount || 0)));
+};
+
+/**
+ * The payment intent behind an order. Orders paid before the id was stored
+ * are looked up through their checkout session and backfilled.
+ */
+const resolvePaymentIntentId = async (stripe: Stripe, order: Order) => {
+  if (order.stripePaymentIntentId) {
+    return order.stripePaymentIntentId;
+  }
+
+  const intent = await prisma.checkoutIntent.findUnique({
+    where: { orderId: order.id },
+    select: { stripeSessionId: true },
+  });
+  if (!intent?.stripeSessionId) {
+    return null;
+  }
+
+  const session = await stripe.checkout.sessions.retrieve(
+    intent.stripeSessionId
+  );
+  const paymentIntentId =
+    typeof session.payment_intent === "string"
+      ? session.payment_intent
+      : session.payment_intent?.id;
+  if (paymentIntentId) {
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { stripePaymentIntentId: paymentIntentId },
+    });
+  }
+  return paymentIntentId || null;
+};
+
+/**
+ * Put refunded or cancelled order items back into stock. Pack items return their
+ * flavors, other products their product stock. Each unit is only ever
+ * restocked once, however many refunds touch the item.
+ * @returns What was restocked
+ */
+export const restockOrderItems = async (
+  orderId: string,
+  requests: RestockRequest[] | null,
+  createdById?: string,
+  reason = "Refunded"
+): Promise<RestockRequest[]> => {
+  const orderItems = await prisma.orderItem.findMany({ where: { orderId } });
+
+  const wanted = requests
+    ? requests
+    : orderItems.map((item) => ({
+        orderItemId: item.id,
+        quantity: item.quantity,
+      }));
+
+  const restocked: RestockRequest[] = [];
+  const restockedTargets: WishlistTarget[] = [];
+  for (const request of wanted) {
+    const item = orderItems.find((i) => i.id === request.orderItemId);
+    if (!item) {
+      throw new CustomError(`Order item not found: ${request.orderItemId}`, 400);
+    }
+
+    const quantity = Math.min(
+      Math.floor(Number(request.quantity) || 0),
+      item.quantity - item.restockedQuantity
+    );
+    if (quantity <= 0) continue;
+
+    if (item.flavorIds.length > 0) {
+      // flavorIds holds one entry per unit in the pack
+      for (const [flavorId, perPack] of countFlavorUnits(item.flavorIds)) {
+        const returned = perPack * quantity;
+        const inventory = await applyStockMovement({
+          flavorId,
+          type: "return",
+          onHandDelta: returned,
+          orderId,
+          createdById,
+          reason,
+        });
+        const available = inventory ? inventory.onHand - inventory.reserved : 0;
+        if (isRestock(available - returned, available)) {
+          restockedTargets.push({ flavorId });
+        }
+      }
+    } else if (item.productId) {
+      const product = await prisma.product.update({
+        where: { id: item.productId },
+        data: { stock: { increment: quantity } },
+      });
+      if (isRestock(product.stock - quantity, product.stock)) {
+        restockedTargets.push({ productId: item.productId });
+      }
+    }
+
+    await prisma.orderItem.update({
+      where: { id: item.id },
+      data: { restockedQuantity: { increment: quantity } },
+    });
+    restocked.push({ orderItemId: item.id, quantity });
+  }
+
+  for (const target of restockedTargets) {
+    notifyBackInStock(target).catch((error) => {
+      console.error("Back-in-stock alerts failed after refund:", error);
+    });
+  }
+
+  return restocked;
+};
+
+/**
+ * Recompute the refunded total and payment status from the order's
+ * succeeded refunds
+ */
+export const syncOrderRefundTotals = async (orderId: string) => {
+  const order = await prisma.order.findUniqueOrThrow({
+    where: { id: orderId },
+  });
+  const succeeded = await prisma.refund.aggregate({
+    where: { orderId, status: "succeeded" },
+    _sum: { amount: true },
+  });
+  const refundedTotal = roundMoney(succeeded._sum.amount || 0);
+
+  const data: any = { refundedTotal };
+  if (refundedTotal >= order.total - 0.005 && refundedTotal > 0) {
+    data.paymentStatus = "refunded";
+    data.status = "refunded";
+  } else if (refundedTotal > 0) {
+    data.paymentStatus = "partially_refunded";
+  } else if (order.paymentStatus === "partially_refunded") {
+    data.paymentStatus = "paid";
+  }
+
+  return prisma.order.update({ where: { id: orderId }, data });
+};
+
+/**
+ * Email the customer about a refund, once
+ */
+const notifyCustomer = async (refund: Refund) => {
+  if (refund.status === "failed" || refund.status === "canceled") return;
+
+  // Claim the notification so webhook and dashboard don't both send it
+  const claimed = await prisma.refund.updateMany({
+    where: { id: refund.id, customerNotifiedAt: null },
+    data: { customerNotifiedAt: new Date() },
+  });
+  if (claimed.count === 0) return;
+
+  try {
+    const order = await prisma.order.findUniqueOrThrow({
+      where: { id: refund.orderId },
+      include: { user: { select: { name: true, email: true } } },
+    });
+    const address = (order.shippingAddress as any) || {};
+    const to = order.user?.email || order.guestEmail || address.email;
+    if (!to) return;
+
+    await sendRefundEmail(to, {
+      orderId: order.id,
+      customerName: order.user?.name || address.name || "Customer",
+      amount: refund.amount,
+      orderTotal: order.total,
+      refundedTotal: order.refundedTotal,
+      reason: refund.reason,
+    });
+  } catch (error) {
+    console.error(`Refund ${refund.id} email failed:`, error);
+  }
+};
+
+/**
+ * Refund an order through Stripe, optionally restocking what comes back
+ * @throws CustomError (400) if the order can't be refunded for that amount
+ * @throws CustomError (502) if Stripe rejects the refund
+ */
+export const createRefund = async (input: CreateRefundInput) => {
+  const stripe = getStripe();
+  if (!stripe) {
+    throw new CustomError("Stripe not configured", 503);
+  }
+
+  const order = await prisma.order.findUnique({
+    where: { id: input.orderId },
+  });
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+  if (!REFUNDABLE_PAYMENT_STATUSES.includes(order.paymentStatus)) {
+    throw new CustomError(
+      `Orders with payment status '${order.paymentStatus}' can't be refunded`,
+      400
+    );
+  }
+
+  const refundable = await getRefundableAmount(order);
+  const amount =
+    input.amount === undefined ? refundable : roundMoney(Number(input.amount));
+  if (!(amount > 0)) {
+    throw new CustomError("Refund amount must be greater than 0", 400);
+  }
+  if (amount > refundable + 0.005) {
+    throw new CustomError(
+      `Refund amount can't exceed $${refundable.toFixed(2)}`,
+      400
+    );
+  }
+
+  const paymentIntentId = await resolvePaymentIntentId(stripe, order);
+  if (!paymentIntentId) {
+    throw new CustomError("No Stripe payment found for this order", 400);
+  }
+
+  // Record the refund first so the webhook can match it to this row
+  let refund = await prisma.refund.create({
+    data: {
+      orderId: order.id,
+      amount,
+      reason: input.reason || null,
+      createdById: input.createdById,
+    },
+  });
+
+  let stripeRefund: Stripe.Refund;
+  try {
+    stripeRefund = await stripe.refunds.create(
+      {
+        payment_intent: paymentIntentId,
+        amount: toCents(amount),
+        metadata: { orderId: order.id, refundId: refund.id },
+      },
+      { idempotencyKey: `refund_${refund.id}` }
+    );
+  } catch (error) {
+    await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status: "failed" },
+    });
+    const message =
+      error instanceof Stripe.errors.StripeError
+        ? error.message
+        : "Stripe refund failed";
+    throw new CustomError(message, 502);
+  }
+
+  const restocked = input.restock
+    ? await restockOrderItems(order.id, input.items || null, input.createdById)
+    : [];
+
+  refund = await prisma.refund.update({
+    where: { id: refund.id },
+    data: {
+      stripeRefundId: stripeRefund.id,
+      status: toRefundStatus(stripeRefund.status),
+      restockedItems: restocked.length ? (restocked as any) : undefined,
+    },
+  });
+
+  const updatedOrder = await syncOrderRefundTotals(order.id);
+  await notifyCustomer(refund);
+
+  return { refund, order: updatedOrder };
+};
+
+/**
+ * Record a refund reported by Stripe: updates the row created from the
+ * dashboard, or adds one for refunds issued in Stripe directly
+ * @returns The refund, or null if it belongs to no known order
+ */
+export const syncStripeRefund = async (stripeRefund: Stripe.Refund) => {
+  const status = toRefundStatus(stripeRefund.status);
+
+  let refund = await prisma.refund.findFirst({
+    where: {
+      OR: [
+        { stripeRefundId: stripeRefund.id },
+        ...(stripeRefund.metadata?.refundId
+          ? [{ id: stripeRefund.metadata.refundId }]
+          : []),
+      ],
+    },
+  });
+
+  if (refund) {
+    refund = await prisma.refund.update({
+      where: { id: refund.id },
+      data: { status, stripeRefundId: stripeRefund.id },
+    });
+  } else {
+    const paymentIntentId =
+      typeof stripeRefund.payment_intent === "string"
+        ? stripeRefund.payment_intent
+        : stripeRefund.payment_intent?.id;
+    const order = paymentIntentId
+      ? await prisma.order.findUnique({
+          where: { stripePaymentIntentId: paymentIntentId },
+        })
+      : null;
+    if (!order) {
+      return null;
+    }
+
+    refund = await prisma.refund.create({
+      data: {
+        orderId: order.id,
+        amount: stripeRefund.amount / 100,
+        reason: stripeRefund.reason || null,
+        status,
+        source: "stripe",
+        stripeRefundId: stripeRefund.id,
+      },
+    });
+  }
+
+  await syncOrderRefundTotals(refund.orderId);
+  await notifyCustomer(refund);
+  return refund;
+};
+
+/**
+ * Record every refund on a charge (charge.refunded)
+ * @returns How many refunds matched an order
+ */
+export const syncChargeRefunds = async (stripe: Stripe, charge: Stripe.Charge) => {
+  const refunds = await stripe.refunds.list({ charge: charge.id, limit: 100 });
+
+  let matched = 0;
+  for (const stripeRefund of refunds.data) {
+    if (await syncStripeRefund(stripeRefund)) {
+      matched++;
+    }
+  }
+  return matched;
+};
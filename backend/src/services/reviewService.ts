@@ -0,0 +1,378 @@
+import { Prisma, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+export const REVIEW_STATUSES = ["pending", "approved", "rejected"] as const;
+
+export type ReviewStatus = (typeof REVIEW_STATUSES)[number];
+
+export const isReviewStatus = (value: unknown): value is ReviewStatus =>
+  REVIEW_STATUSES.includes(value as ReviewStatus);
+
+// Only purchases the customer actually received can be reviewed
+const REVIEWABLE_ORDER_STATUS = "delivered";
+
+const MAX_TITLE_LENGTH = 120;
+const MAX_BODY_LENGTH = 2000;
+
+export interface ReviewTarget {
+  productId?: string | null;
+  flavorId?: string | null;
+}
+
+export interface ReviewInput extends ReviewTarget {
+  rating: number;
+  title?: string | null;
+  body?: string | null;
+}
+
+/**
+ * Check a review names exactly one product or flavor
+ * @throws CustomError (400) if it names neither or both
+ */
+export const toReviewTarget = (input: ReviewTarget) => {
+  const productId = input.productId || null;
+  const flavorId = input.flavorId || null;
+  if (!productId === !flavorId) {
+    throw new CustomError("Provide either a productId or a flavorId", 400);
+  }
+  return productId ? { productId } : { flavorId: flavorId! };
+};
+
+/**
+ * A reviewer's display name: first name and last initial
+ */
+const toReviewerName = (name?: string | null) => {
+  const parts = (name || "").trim().split(/\s+/).filter(Boolean);
+  if (parts.length === 0) return "Verified buyer";
+  return parts.length > 1
+    ? `${parts[0]} ${parts[parts.length - 1][0].toUpperCase()}.`
+    : parts[0];
+};
+
+/**
+ * The customer's most recent delivered order item containing the product,
+ * or a pack containing the flavor
+ */
+const findVerifiedPurchase = (userId: string, target: ReviewTarget) => {
+  return prisma.orderItem.findFirst({
+    where: {
+      order: { userId, status: REVIEWABLE_ORDER_STATUS },
+      ...(target.productId
+        ? { productId: target.productId }
+        : { flavorIds: { has: target.flavorId! } }),
+    },
+    orderBy: { createdAt: "desc" },
+  });
+};
+
+/**
+ * Recompute a product's or flavor's star rating from its approved reviews
+ */
+export const refreshRatingSummary = async (target: ReviewTarget) => {
+  const where = { ...toReviewTarget(target), status: "approved" };
+  const summary = await prisma.review.aggregate({
+    where,
+    _avg: { rating: true },
+    _count: { _all: true },
+  });
+  const data = {
+    ratingAverage: Math.round((summary._avg.rating || 0) * 10) / 10,
+    ratingCount: summary._count._all,
+  };
+
+  if (target.productId) {
+    await prisma.product.update({ where: { id: target.productId }, data });
+  } else {
+    await prisma.flavor.update({ where: { id: target.flavorId! }, data });
+  }
+  return data;
+};
+
+/**
+ * How many approved reviews gave each star rating
+ */
+const getRatingBreakdown = async (target: ReviewTarget) => {
+  const groups = await prisma.review.groupBy({
+    by: ["rating"],
+    where: { ...toReviewTarget(target), status: "approved" },
+    _count: { _all: true },
+  });
+  const breakdown: Record<number, number> = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 };
+  for (const group of groups) {
+    breakdown[group.rating] = group._count._all;
+  }
+  return breakdown;
+};
+
+/**
+ * Approved reviews for a product or flavor, newest first, with its rating
+ * @throws CustomError (400) if the target is invalid
+ */
+export const getPublishedReviews = async (
+  target: ReviewTarget,
+  page: { skip: number; take: number }
+) => {
+  const where = { ...toReviewTarget(target), status: "approved" };
+  const [reviews, total, breakdown] = await Promise.all([
+    prisma.review.findMany({
+      where,
+      include: { user: { select: { name: true } } },
+      orderBy: { createdAt: "desc" },
+      skip: page.skip,
+      take: page.take,
+    }),
+    prisma.review.count({ where }),
+    getRatingBreakdown(target),
+  ]);
+
+  const ratingCount = Object.values(breakdown).reduce((a, b) => a + b, 0);
+  const ratingSum = Object.entries(breakdown).reduce(
+    (sum, [rating, count]) => sum + Number(rating) * count,
+    0
+  );
+
+  return {
+    reviews: reviews.map((review) => ({
+      id: review.id,
+      rating: review.rating,
+      title: review.title,
+      body: review.body,
+      reviewerName: toReviewerName(review.user.name),
+      verifiedPurchase: true,
+      createdAt: review.createdAt,
+    })),
+    total,
+    summary: {
+      ratingAverage: ratingCount
+        ? Math.round((ratingSum / ratingCount) * 10) / 10
+        : 0,
+      ratingCount,
+      breakdown,
+    },
+  };
+};
+
+/**
+ * Whether the customer can review a product or flavor, and their review
+ * if they already wrote one
+ */
+export const getReviewEligibility = async (
+  userId: string,
+  target: ReviewTarget
+) => {
+  const reviewTarget = toReviewTarget(target);
+  const [purchase, review] = await Promise.all([
+    findVerifiedPurchase(userId, reviewTarget),
+    prisma.review.findFirst({ where: { userId, ...reviewTarget } }),
+  ]);
+  return { canReview: !!purchase, review };
+};
+
+/**
+ * Products and flavors from the customer's delivered orders, marking the
+ * ones already reviewed
+ * @param orderId Limit to one of the customer's orders
+ */
+export const getReviewablePurchases = async (
+  userId: string,
+  orderId?: string
+) => {
+  const items = await prisma.orderItem.findMany({
+    where: {
+      order: {
+        userId,
+        status: REVIEWABLE_ORDER_STATUS,
+        ...(orderId ? { id: orderId } : {}),
+      },
+    },
+    include: { product: { select: { id: true, name: true, imageUrl: true } } },
+    orderBy: { createdAt: "desc" },
+  });
+
+  const flavorIds = [...new Set(items.flatMap((item) => item.flavorIds))];
+  const productIds = [
+    ...new Set(
+      // Pack items are reviewed through their flavors
+      items.filter((item) => item.flavorIds.length === 0 && item.product)
+        .map((item) => item.productId!)
+    ),
+  ];
+
+  const [flavors, reviews] = await Promise.all([
+    prisma.flavor.findMany({
+      where: { id: { in: flavorIds } },
+      select: { id: true, name: true, imageUrl: true },
+    }),
+    prisma.review.findMany({
+      where: {
+        userId,
+        OR: [{ productId: { in: productIds } }, { flavorId: { in: flavorIds } }],
+      },
+    }),
+  ]);
+
+  const reviewFor = (target: ReviewTarget) =>
+    reviews.find((review) =>
+      target.productId
+        ? review.productId === target.productId
+        : review.flavorId === target.flavorId
+    ) || null;
+
+  return {
+    products: productIds.map((id) => {
+      const product = items.find((item) => item.productId === id)!.product!;
+      return { ...product, review: reviewFor({ productId: id }) };
+    }),
+    flavors: flavors.map((flavor) => ({
+      ...flavor,
+      review: reviewFor({ flavorId: flavor.id }),
+    })),
+  };
+};
+
+/**
+ * Write or rewrite the customer's review of something they received.
+ * Edited reviews go back to moderation.
+ * @throws CustomError (400) if the rating or text is invalid
+ * @throws CustomError (403) if there's no delivered purchase to verify it
+ */
+export const submitReview = async (userId: string, input: ReviewInput) => {
+  const target = toReviewTarget(input);
+
+  const rating = Number(input.rating);
+  if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+    throw new CustomError("rating must be a whole number from 1 to 5", 400);
+  }
+  const title = input.title ? String(input.title).trim() : null;
+  const body = input.body ? String(input.body).trim() : null;
+  if (title && title.length > MAX_TITLE_LENGTH) {
+    throw new CustomError(
+      `title can't be longer than ${MAX_TITLE_LENGTH} characters`,
+      400
+    );
+  }
+  if (body && body.length > MAX_BODY_LENGTH) {
+    throw new CustomError(
+      `Review can't be longer than ${MAX_BODY_LENGTH} characters`,
+      400
+    );
+  }
+
+  const purchase = await findVerifiedPurchase(userId, target);
+  if (!purchase) {
+    throw new CustomError(
+      "You can review items once an order containing them has been delivered",
+      403
+    );
+  }
+
+  const data = {
+    orderItemId: purchase.id,
+    rating,
+    title: title || null,
+    body: body || null,
+    status: "pending",
+    moderatedAt: null,
+    moderatedById: null,
+    moderationNote: null,
+  };
+
+  const existing = await prisma.review.findFirst({
+    where: { userId, ...target },
+  });
+  const review = existing
+    ? await prisma.review.update({ where: { id: existing.id }, data })
+    : await prisma.review.create({ data: { userId, ...target, ...data } });
+
+  // An approved review leaving the published set changes the rating
+  if (existing?.status === "approved") {
+    await refreshRatingSummary(target);
+  }
+  return review;
+};
+
+/**
+ * Delete a review; customers may only delete their own
+ * @throws CustomError (404) if the review isn't found (or isn't theirs)
+ */
+export const deleteReview = async (reviewId: string, userId?: string) => {
+  const review = await prisma.review.findFirst({
+    where: { id: reviewId, ...(userId ? { userId } : {}) },
+  });
+  if (!review) {
+    throw new CustomError("Review not found", 404);
+  }
+
+  await prisma.review.delete({ where: { id: review.id } });
+  if (review.status === "approved") {
+    await refreshRatingSummary(review);
+  }
+  return review;
+};
+
+/**
+ * Approve or reject a review and update the rating it counts towards
+ * @throws CustomError (400) if the status isn't a review status
+ * @throws CustomError (404) if the review doesn't exist
+ */
+export const moderateReview = async (
+  reviewId: string,
+  decision: { status: string; note?: string | null; moderatedById?: string }
+) => {
+  if (!isReviewStatus(decision.status)) {
+    throw new CustomError(
+      `status must be one of: ${REVIEW_STATUSES.join(", ")}`,
+      400
+    );
+  }
+
+  const existing = await prisma.review.findUnique({ where: { id: reviewId } });
+  if (!existing) {
+    throw new CustomError("Review not found", 404);
+  }
+
+  const review = await prisma.review.update({
+    where: { id: reviewId },
+    data: {
+      status: decision.status,
+      moderatedAt: new Date(),
+      moderatedById: decision.moderatedById,
+      moderationNote: decision.note || null,
+    },
+  });
+
+  if (existing.status === "approved" || review.status === "approved") {
+    await refreshRatingSummary(review);
+  }
+  return review;
+};
+
+/**
+ * Reviews for the moderation queue, oldest pending first
+ */
+export const getReviewsForModeration = async (
+  filter: { status?: ReviewStatus },
+  page: { skip: number; take: number }
+) => {
+  const where: Prisma.ReviewWhereInput = filter.status
+    ? { status: filter.status }
+    : {};
+  const [reviews, total] = await Promise.all([
+    prisma.review.findMany({
+      where,
+      include: {
+        user: { select: { name: true, email: true } },
+        product: { select: { id: true, name: true } },
+        flavor: { select: { id: true, name: true } },
+        orderItem: { select: { orderId: true } },
+      },
+      orderBy: { createdAt: filter.status === "pending" ? "asc" : "desc" },
+      skip: page.skip,
+      take: page.take,
+    }),
+    prisma.review.count({ where }),
+  ]);
+  return { reviews, total };
+};
@@ -0,0 +1,156 @@
+import { PrismaClient, ShippingLocation } from "../generated/prisma";
+import { PackingLine } from "./parcelPackingService";
+import { ShippingAddress } from "./shippoService";
+
+const prisma = new PrismaClient();
+
+// The original Landmark Foods sender address. Created as the default
+// location on first start, and used if every location is switched off.
+const DEFAULT_LOCATION = {
+  name: "Summerville",
+  contactName: "Nathan ODay",
+  company: "Landmark Foods LLC",
+  email: "landmarkfoods@outlook.com",
+  phone: "9162064083",
+  street1: "4363 Ocean Farm Dr",
+  street2: "",
+  city: "Summerville",
+  state: "SC",
+  zip: "29485-9316",
+  country: "US",
+};
+
+/**
+ * Turn a location into the from address Shippo expects
+ */
+export const toShipFromAddress = (
+  location: ShippingLocation | null
+): ShippingAddress => {
+  const source = location || DEFAULT_LOCATION;
+  return {
+    name: source.contactName,
+    company: source.company || "",
+    email: source.email,
+    phone: source.phone || "",
+    street1: source.street1,
+    street2: source.street2 || "",
+    city: source.city,
+    state: source.state,
+    zip: source.zip,
+    country: source.country,
+  };
+};
+
+// How many of each flavor the lines need. Products are stocked centrally
+// and don't affect the choice.
+const getFlavorNeeds = (lines: PackingLine[]) => {
+  const needs = new Map<string, number>();
+  for (const line of lines) {
+    const quantity = Math.max(Math.floor(Number(line.quantity) || 0), 0);
+    for (const flavorId of line.flavorIds || []) {
+      needs.set(flavorId, (needs.get(flavorId) || 0) + quantity);
+    }
+  }
+  return needs;
+};
+
+/**
+ * Pick the location to ship a set of lines from: the first active one (by
+ * sort order) holding every flavor, otherwise the one holding the most,
+ * otherwise the default location
+ * @returns The location, or null if none are active
+ */
+export const chooseFulfillmentLocation = async (lines: PackingLine[]) => {
+  const needs = getFlavorNeeds(lines);
+  const locations = await prisma.shippingLocation.findMany({
+    where: { active: true },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    include: {
+      inventory: {
+        where: { inventory: { flavorId: { in: [...needs.keys()] } } },
+        select: { onHand: true, inventory: { select: { flavorId: true } } },
+      },
+    },
+  });
+  if (locations.length === 0) return null;
+
+  const fallback = locations.find((location) => location.isDefault) || locations[0];
+  const totalNeeded = [...needs.values()].reduce((sum, quantity) => sum + quantity, 0);
+  if (totalNeeded === 0) return fallback;
+
+  let best: { location: ShippingLocation; covered: number } | null = null;
+  for (const { inventory, ...location } of locations) {
+    const stock = new Map(inventory.map((row) => [row.inventory.flavorId, row.onHand]));
+    const covered = [...needs].reduce(
+      (sum, [flavorId, quantity]) =>
+        sum + Math.min(quantity, Math.max(stock.get(flavorId) || 0, 0)),
+      0
+    );
+    if (covered === totalNeeded) return location;
+    if (covered > (best?.covered || 0)) best = { location, covered };
+  }
+
+  return best?.location || fallback;
+};
+
+/**
+ * The location an order ships from, choosing and saving one the first
+ * time it's asked for
+ * @returns The location, or null if none are active
+ */
+export const assignFulfillmentLocation = async (orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      fulfillmentLocation: true,
+      orderItems: { select: { productId: true, flavorIds: true, quantity: true } },
+    },
+  });
+  if (!order) return null;
+  if (order.fulfillmentLocation) return order.fulfillmentLocation;
+
+  const location = await chooseFulfillmentLocation(order.orderItems);
+  if (location) {
+    await prisma.order.update({
+      where: { id: orderId },
+      data: { fulfillmentLocationId: location.id },
+    });
+  }
+  return location;
+};
+
+/**
+ * Where a label for this order ships from
+ */
+export const getOrderShipFromAddress = async (orderId: string) =>
+  toShipFromAddress(await assignFulfillmentLocation(orderId));
+
+/**
+ * Where a checkout quote for these lines ships from; matches the location
+ * the order will be assigned once placed
+ */
+export const getShipFromAddress = async (lines: PackingLine[]) =>
+  toShipFromAddress(await chooseFulfillmentLocation(lines));
+
+/**
+ * The ship-from address when there's no order or cart to go on
+ */
+export const getDefaultShipFromAddress = async () => {
+  const location = await prisma.shippingLocation.findFirst({
+    where: { active: true },
+    orderBy: [{ isDefault: "desc" }, { sortOrder: "asc" }, { createdAt: "asc" }],
+  });
+  return toShipFromAddress(location);
+};
+
+/**
+ * Create the default location if none have been configured yet
+ */
+export const ensureShippingLocation = async () => {
+  const count = await prisma.shippingLocation.count();
+  if (count === 0) {
+    await prisma.shippingLocation.create({
+      data: { ...DEFAULT_LOCATION, isDefault: true },
+    });
+  }
+};
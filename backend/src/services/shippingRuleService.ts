@@ -0,0 +1,271 @@
+import { PrismaClient, ShippingRule } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { getShippingRate } from "./shippoService";
+
+const prisma = new PrismaClient();
+
+export const SHIPPING_RULE_TYPES = [
+  "free_shipping",
+  "flat_rate",
+  "carrier_filter",
+  "handling_fee",
+  "region_restriction",
+] as const;
+
+export type ShippingRuleType = (typeof SHIPPING_RULE_TYPES)[number];
+
+export const isShippingRuleType = (value: unknown): value is ShippingRuleType =>
+  SHIPPING_RULE_TYPES.includes(value as ShippingRuleType);
+
+// Free and flat-rate options are quoted under these ids instead of a
+// Shippo rate; the label is bought with a carrier rate chosen later
+const RULE_RATE_PREFIX = "rule_";
+
+export const isRuleRateId = (objectId?: string | null) =>
+  !!objectId && objectId.startsWith(RULE_RATE_PREFIX);
+
+export interface ShippingDestination {
+  country?: string | null;
+  state?: string | null;
+}
+
+export interface QuotedRate {
+  objectId: string;
+  carrier: string;
+  serviceName: string;
+  amount: number;
+  estimatedDays?: number;
+  currency?: string;
+}
+
+export interface ShippingRuleContext {
+  subtotal: number;
+  destination?: ShippingDestination | null;
+}
+
+// A rate a label should be bought with, and what the customer paid for it
+export interface LabelRateChoice {
+  objectId?: string | null;
+  carrier?: string | null;
+  serviceName?: string | null;
+  amount?: number | null;
+}
+
+const roundMoney = (amount: number) => Math.round(amount * 100) / 100;
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+const listIncludes = (list: string[], value: string) =>
+  list.some((item) => sameName(item, value));
+
+/**
+ * Whether a rule covers a destination. An unknown destination only
+ * matches rules that apply everywhere.
+ */
+const appliesTo = (rule: ShippingRule, destination?: ShippingDestination | null) => {
+  const country = destination?.country || "";
+  const state = destination?.state || "";
+  return (
+    (rule.countries.length === 0 || listIncludes(rule.countries, country)) &&
+    (rule.states.length === 0 || listIncludes(rule.states, state))
+  );
+};
+
+// Carriers and services a rule names; empty lists allow any
+const matchesRate = (rule: ShippingRule, rate: QuotedRate) =>
+  (rule.carriers.length === 0 || listIncludes(rule.carriers, rate.carrier)) &&
+  (rule.services.length === 0 || listIncludes(rule.services, rate.serviceName));
+
+const meetsMinimum = (rule: ShippingRule, subtotal: number) =>
+  rule.minSubtotal === null || subtotal >= rule.minSubtotal;
+
+const cheapest = (rates: QuotedRate[]) =>
+  rates.reduce<QuotedRate | null>(
+    (best, rate) => (!best || rate.amount < best.amount ? rate : best),
+    null
+  );
+
+const getActiveRules = () =>
+  prisma.shippingRule.findMany({
+    where: { active: true },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+  });
+
+/**
+ * Rules in force for a destination, split by what they do
+ * @throws CustomError (400) if region restrictions exclude the destination,
+ * unless enforceRegions is off
+ */
+const getRulesFor = async (
+  destination?: ShippingDestination | null,
+  enforceRegions = true
+) => {
+  const rules = await getActiveRules();
+
+  const restrictions = rules.filter((rule) => rule.type === "region_restriction");
+  if (
+    enforceRegions &&
+    destination?.country &&
+    restrictions.length > 0 &&
+    !restrictions.some((rule) => appliesTo(rule, destination))
+  ) {
+    const place = [destination.state, destination.country].filter(Boolean).join(", ");
+    throw new CustomError(`Sorry, we don't ship to ${place}`, 400);
+  }
+
+  const applicable = rules.filter((rule) => appliesTo(rule, destination));
+  const ofType = (type: ShippingRuleType) =>
+    applicable.filter((rule) => rule.type === type);
+
+  return {
+    filters: ofType("carrier_filter"),
+    fees: ofType("handling_fee"),
+    free: ofType("free_shipping"),
+    flat: ofType("flat_rate"),
+  };
+};
+
+type ApplicableRules = Awaited<ReturnType<typeof getRulesFor>>;
+
+// Every carrier filter in force has to allow the rate
+const isAllowed = (rules: ApplicableRules, rate: QuotedRate) =>
+  rules.filters.every((rule) => matchesRate(rule, rate));
+
+const withHandlingFee = (rules: ApplicableRules, amount: number) =>
+  roundMoney(
+    rules.fees.reduce(
+      (total, rule) => total + (rule.amount || 0) + (amount * (rule.percent || 0)) / 100,
+      amount
+    )
+  );
+
+// How a free or flat-rate option appears at checkout and on the Stripe receipt
+const toRuleRate = (rule: ShippingRule, estimatedDays?: number): QuotedRate => ({
+  objectId: `${RULE_RATE_PREFIX}${rule.id}`,
+  carrier: rule.type === "free_shipping" ? "Free shipping" : "Flat rate",
+  serviceName: rule.label || rule.name,
+  amount: rule.type === "free_shipping" ? 0 : roundMoney(rule.amount || 0),
+  estimatedDays: rule.estimatedDays ?? estimatedDays,
+  currency: "USD",
+});
+
+/**
+ * Turn Shippo quotes into the options offered at checkout: drop carriers
+ * and services the filters don't allow, add handling fees, and add any
+ * free or flat-rate options the order qualifies for. Free and flat-rate
+ * options need an allowed carrier rate to buy the label with.
+ * @throws CustomError (400) if region restrictions exclude the destination
+ */
+export const applyShippingRules = async (
+  rates: QuotedRate[],
+  context: ShippingRuleContext
+): Promise<QuotedRate[]> => {
+  const rules = await getRulesFor(context.destination);
+  const allowed = rates.filter((rate) => isAllowed(rules, rate));
+
+  const ruleRates: QuotedRate[] = [];
+  for (const rule of [...rules.free, ...rules.flat]) {
+    if (!meetsMinimum(rule, context.subtotal)) continue;
+    const labelRate = cheapest(allowed.filter((rate) => matchesRate(rule, rate)));
+    if (labelRate) ruleRates.push(toRuleRate(rule, labelRate.estimatedDays));
+  }
+
+  const carrierRates = allowed.map((rate) => ({
+    ...rate,
+    amount: withHandlingFee(rules, rate.amount),
+  }));
+
+  return [...ruleRates, ...carrierRates].sort((a, b) => a.amount - b.amount);
+};
+
+/**
+ * What the customer pays for the option they picked, checked against the
+ * rules in force now
+ * @returns The option, or null if it is no longer offered
+ * @throws CustomError (400) if region restrictions exclude the destination
+ */
+export const priceShippingOption = async (
+  objectId: string,
+  context: ShippingRuleContext
+): Promise<QuotedRate | null> => {
+  const rules = await getRulesFor(context.destination);
+
+  if (isRuleRateId(objectId)) {
+    const rule = [...rules.free, ...rules.flat].find(
+      (candidate) => `${RULE_RATE_PREFIX}${candidate.id}` === objectId
+    );
+    if (!rule || !meetsMinimum(rule, context.subtotal)) return null;
+    return toRuleRate(rule);
+  }
+
+  const rate = await getShippingRate(objectId);
+  if (!rate || !isAllowed(rules, rate)) return null;
+  return { ...rate, amount: withHandlingFee(rules, rate.amount) };
+};
+
+/**
+ * Pick the Shippo rate to buy a label with. A quoted carrier rate the
+ * carrier filters still allow is used as is. Free and flat-rate options,
+ * and orders without a usable quote, get the customer's carrier and
+ * service if still offered, otherwise the cheapest rate the rules allow.
+ * Region restrictions aren't re-checked; the order is already paid for.
+ * @returns The rate with what the customer paid, or null if none is allowed
+ */
+export const selectLabelRate = async (
+  quoted: LabelRateChoice | null | undefined,
+  fetchRates: () => Promise<QuotedRate[]>,
+  destination?: ShippingDestination | null
+): Promise<QuotedRate | null> => {
+  const rules = await getRulesFor(destination, false);
+
+  if (quoted?.objectId && !isRuleRateId(quoted.objectId)) {
+    const rate = {
+      objectId: quoted.objectId,
+      carrier: quoted.carrier || "",
+      serviceName: quoted.serviceName || "",
+      amount: quoted.amount ?? 0,
+    };
+    if (isAllowed(rules, rate)) return rate;
+  }
+
+  const allowed = (await fetchRates()).filter((rate) => isAllowed(rules, rate));
+
+  let candidates = allowed;
+  if (isRuleRateId(quoted?.objectId)) {
+    const rule = await prisma.shippingRule.findUnique({
+      where: { id: quoted!.objectId!.slice(RULE_RATE_PREFIX.length) },
+    });
+    const matching = rule ? allowed.filter((rate) => matchesRate(rule, rate)) : [];
+    if (matching.length > 0) candidates = matching;
+  }
+
+  const preferred = candidates.find(
+    (rate) =>
+      !!quoted?.carrier &&
+      !!quoted?.serviceName &&
+      sameName(rate.carrier, quoted.carrier) &&
+      sameName(rate.serviceName, quoted.serviceName)
+  );
+  const rate = preferred || cheapest(candidates);
+  if (!rate) return null;
+
+  return {
+    ...rate,
+    amount: quoted?.amount ?? withHandlingFee(rules, rate.amount),
+  };
+};
+
+/**
+ * Read the country and state rules are matched on from any of the address
+ * shapes orders and checkout use
+ */
+export const toShippingDestination = (address: any): ShippingDestination | null => {
+  if (!address) return null;
+  const source = address.address || address; // Stripe nests it
+  if (!source.country && !source.state) return null;
+  return {
+    country: String(source.country || "US").trim().toUpperCase(),
+    state: source.state ? String(source.state).trim().toUpperCase() : null,
+  };
+};
@@ -1,5 +1,12 @@
 import { Shippo } from 'shippo';
 import { PrismaClient } from '../generated/prisma';
+import { CustomError } from '../middlewares/error.middleware';
+import { isHeldForReview } from './orderVerificationService';
+import { recordTrackingUpdate } from './trackingService';
+import { notifyTrackingUpdate } from './notificationService';
+import { getOrderParcels } from './parcelPackingService';
+import { getOrderShipFromAddress } from './shippingLocationService';
+import { buildCustomsDeclaration, isInternationalShipment } from './customsService';
 
 const prisma = new PrismaClient();
 
@@ -25,20 +32,6 @@ function getShippoClient(): Shippo {
   });
 }
 
-// Default sender address (Landmark Foods LLC)
-const DEFAULT_SENDER_ADDRESS = {
-  name: 'Nathan ODay',
-  company: 'Landmark Foods LLC',
-  email: 'landmarkfoods@outlook.com',
-  phone: '9162064083',
-  street1: '4363 Ocean Farm Dr',
-  street2: '',
-  city: 'Summerville',
-  state: 'SC',
-  zip: '29485-9316',
-  country: 'US',
-};
-
 export interface ShippingAddress {
   name: string;
   company?: string;
@@ -52,17 +45,19 @@ export interface ShippingAddress {
   country: string;
 }
 
+export interface Parcel {
+  length: string;
+  width: string;
+  height: string;
+  weight: string;
+  massUnit: 'lb' | 'kg';
+  distanceUnit: 'in' | 'cm';
+}
+
 export interface ShipmentData {
   orderId: string;
   toAddress: ShippingAddress;
-  parcels: Array<{
-    length: string;
-    width: string;
-    height: string;
-    weight: string;
-    massUnit: 'lb' | 'kg';
-    distanceUnit: 'in' | 'cm';
-  }>;
+  parcels?: Parcel[]; // Packed from the order's items when not given
 }
 
 // Validate shipping address
@@ -119,13 +114,17 @@ export const validateAddress = async (address: ShippingAddress) => {
   }
 };
 
-// Get shipping rates
-export const getShippingRates = async (toAddress: ShippingAddress, parcels: ShipmentData['parcels']) => {
+// Get shipping rates from a ship-from location
+export const getShippingRates = async (
+  toAddress: ShippingAddress,
+  parcels: Parcel[],
+  fromAddress: ShippingAddress
+) => {
   try {
     const shippo = getShippoClient();
     
     console.log('🚚 Creating Shippo shipment request:', {
-      from: DEFAULT_SENDER_ADDRESS,
+      from: fromAddress,
       to: {
         name: toAddress.name,
         company: toAddress.company || '',
@@ -143,7 +142,7 @@ export const getShippingRates = async (toAddress: ShippingAddress, parcels: Ship
     
     // Create shipment for rate calculation
     const shipment = await shippo.shipments.create({
-      addressFrom: DEFAULT_SENDER_ADDRESS,
+      addressFrom: fromAddress,
       addressTo: {
         name: toAddress.name,
         company: toAddress.company || '',
@@ -202,12 +201,113 @@ export const getShippingRates = async (toAddress: ShippingAddress, parcels: Ship
   }
 };
 
+// Look up a previously quoted rate so its price can be trusted
+export const getShippingRate = async (rateId: string) => {
+  try {
+    const shippo = getShippoClient();
+    const rate: any = await shippo.rates.get(rateId);
+
+    return {
+      objectId: rate.objectId,
+      serviceName: rate.servicelevel?.name || rate.servicelevelName || 'Standard Shipping',
+      carrier: rate.provider || 'USPS',
+      amount: parseFloat(rate.amount || '0'),
+      currency: rate.currency || 'USD',
+    };
+  } catch (error: any) {
+    console.error('❌ Shipping rate lookup error:', {
+      rateId,
+      message: error.message,
+    });
+    return null;
+  }
+};
+
+// The customs shipment's rate for the carrier and service the customer
+// picked, or its cheapest if that service isn't offered
+const pickCustomsRate = (
+  rates: any[],
+  selected?: { carrier: string; serviceName: string }
+) => {
+  const sameName = (a?: string, b?: string) =>
+    !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+  const match = rates.find(
+    (rate) =>
+      sameName(rate.provider, selected?.carrier) &&
+      sameName(rate.servicelevel?.name || rate.servicelevelName, selected?.serviceName)
+  );
+  const cheapest = [...rates].sort(
+    (a, b) => parseFloat(a.amount || '0') - parseFloat(b.amount || '0')
+  )[0];
+  const rate = match || cheapest;
+  if (!rate?.objectId) return null;
+
+  return {
+    objectId: rate.objectId as string,
+    carrier: rate.provider as string,
+    serviceName: (rate.servicelevel?.name || rate.servicelevelName) as string,
+    substituted: !match,
+  };
+};
+
+/**
+ * Labels for the other parcels of a multi-parcel shipment, bought along
+ * with the first parcel's transaction. Any still queued get one more
+ * chance, like the first label does.
+ * @returns The parcels' labels and how many weren't ready
+ */
+const getParcelLabels = async (
+  rateId: string,
+  firstTransactionId: string | undefined,
+  parcelCount: number
+) => {
+  const shippo = getShippoClient();
+  const listLabels = async () => {
+    const { results = [] } = await shippo.transactions.list({ rate: rateId, results: 100 });
+    return results
+      .filter((transaction) => transaction.objectId !== firstTransactionId)
+      .filter((transaction) => transaction.status === 'SUCCESS' && transaction.labelUrl && transaction.trackingNumber)
+      .map((transaction) => ({
+        labelUrl: transaction.labelUrl!,
+        trackingNumber: transaction.trackingNumber!,
+      }));
+  };
+
+  let labels = await listLabels();
+  if (labels.length < parcelCount - 1) {
+    await new Promise(resolve => setTimeout(resolve, 3000));
+    labels = await listLabels();
+  }
+  return { labels, missing: Math.max(0, parcelCount - 1 - labels.length) };
+};
+
 // Create shipment and purchase label
 export const createShipment = async (
   shipmentData: ShipmentData, 
   selectedRateId: string,
   selectedRateData?: { carrier: string; amount: number; serviceName: string }
 ) => {
+  // Orders held by fraud screening don't ship until an admin approves them
+  const order = await prisma.order.findUnique({
+    where: { id: shipmentData.orderId },
+    select: { reviewStatus: true },
+  });
+  if (isHeldForReview(order?.reviewStatus)) {
+    throw new CustomError(`Order ${shipmentData.orderId} is held for review`, 409);
+  }
+
+  // Pack the same way checkout quoted, unless the caller already has parcels
+  const parcels = shipmentData.parcels?.length
+    ? shipmentData.parcels
+    : await getOrderParcels(shipmentData.orderId);
+  // Ship from the location the order was assigned to
+  const fromAddress = await getOrderShipFromAddress(shipmentData.orderId);
+  // Labels crossing a border need a customs declaration, signed by the shipper
+  const customsDeclaration = isInternationalShipment(fromAddress, shipmentData.toAddress)
+    ? await buildCustomsDeclaration(shipmentData.orderId, fromAddress.name)
+    : undefined;
+
   try {
     const shippo = getShippoClient();
     
@@ -228,7 +328,7 @@ export const createShipment = async (
     
     // Create shipment with proper configuration for USPS compatibility
     const shipment = await shippo.shipments.create({
-      addressFrom: DEFAULT_SENDER_ADDRESS,
+      addressFrom: fromAddress,
       addressTo: {
         name: shipmentData.toAddress.name,
         company: shipmentData.toAddress.company || '',
@@ -243,7 +343,8 @@ export const createShipment = async (
         // Add residential flag for better address validation
         isResidential: true,
       },
-      parcels: shipmentData.parcels,
+      parcels,
+      customsDeclaration,
       // Add shipment extras to bypass address validation for USPS compatibility
       extra: {
         bypassAddressValidation: true
@@ -253,9 +354,32 @@ export const createShipment = async (
       shipmentDate: new Date().toISOString(),
     });
 
+    // Rates quoted at checkout were for a shipment without customs, so an
+    // international label is bought from this shipment's matching rate
+    const customsRate = customsDeclaration
+      ? pickCustomsRate(shipment.rates || [], selectedRateData)
+      : null;
+    if (customsDeclaration && !customsRate) {
+      throw new Error('No rates available for the international shipment');
+    }
+    const rateId = customsRate?.objectId || selectedRateId;
+    // Record the service actually bought when the chosen one isn't offered
+    if (customsRate?.substituted) {
+      console.warn(
+        `⚠️ Order ${shipmentData.orderId}: ${selectedRateData?.carrier} ${selectedRateData?.serviceName} ` +
+          `isn't offered with customs, buying ${customsRate.carrier} ${customsRate.serviceName} instead`
+      );
+      selectedRateData = selectedRateData && {
+        ...selectedRateData,
+        carrier: customsRate.carrier,
+        serviceName: customsRate.serviceName,
+      };
+    }
+
     // Purchase the selected rate
     console.log('💳 Creating Shippo transaction:', {
-      rateId: selectedRateId,
+      rateId,
+      international: !!customsDeclaration,
       labelFileType: 'PDF',
       shipmentData: {
         toAddress: {
@@ -266,12 +390,12 @@ export const createShipment = async (
           zip: shipmentData.toAddress.zip,
           country: shipmentData.toAddress.country
         },
-        parcels: shipmentData.parcels
+        parcels
       }
     });
     
     const transaction = await shippo.transactions.create({
-      rate: selectedRateId,
+      rate: rateId,
       labelFileType: 'PDF',
       metadata: `Order ${shipmentData.orderId}`,
     });
@@ -329,7 +453,7 @@ export const createShipment = async (
             zip: shipmentData.toAddress.zip,
             country: shipmentData.toAddress.country
           },
-          parcels: shipmentData.parcels
+          parcels
         }
       });
       
@@ -400,6 +524,24 @@ export const createShipment = async (
     
     const labelUrl = transaction.labelUrl || `https://goshippo.com/label/${transaction.objectId || 'unknown'}`;
 
+    // A multi-parcel shipment gets a transaction, label and tracking number
+    // per parcel, all bought with the same rate
+    const parcelLabels = parcels.length > 1
+      ? await getParcelLabels(rateId, transaction.objectId, parcels.length).catch((error) => {
+          console.error('❌ Could not list parcel labels:', error);
+          return { labels: [], missing: parcels.length - 1 };
+        })
+      : { labels: [], missing: 0 };
+    const labelUrls = [labelUrl, ...parcelLabels.labels.map((parcel) => parcel.labelUrl)];
+    const trackingNumbers = [trackingNumber, ...parcelLabels.labels.map((parcel) => parcel.trackingNumber)];
+    // The labels are paid for either way, so save what there is and flag the rest
+    const parcelLabelError = parcelLabels.missing > 0
+      ? `${parcelLabels.missing} of ${parcels.length} parcel labels weren't ready; download them from Shippo`
+      : null;
+    if (parcelLabelError) {
+      console.error(`❌ Order ${shipmentData.orderId}: ${parcelLabelError}`);
+    }
+
     // Extract carrier and service information
     console.log('🔍 Transaction rate data:', JSON.stringify(transaction.rate, null, 2));
     
@@ -410,9 +552,10 @@ export const createShipment = async (
     const service = selectedRateData?.serviceName || 
                     (typeof transaction.rate === 'object' ? transaction.rate?.servicelevelName : '') || 
                     'Standard';
-    const cost = selectedRateData?.amount || 
-                 (typeof transaction.rate === 'object' ? parseFloat(transaction.rate?.amount || '0') : 0) || 
-                 0;
+    // What the customer paid, which is 0 for free shipping
+    const cost = selectedRateData?.amount ?? 
+                 ((typeof transaction.rate === 'object' ? parseFloat(transaction.rate?.amount || '0') : 0) || 
+                 0);
     
     console.log('📋 Extracted carrier info:', { carrier, service, cost, fromSelectedRate: !!selectedRateData });
 
@@ -432,6 +575,9 @@ export const createShipment = async (
         trackingNumber: trackingNumber,
         trackingUrl: trackingUrl,
         shippingLabelUrl: labelUrl,
+        shippingLabelUrls: labelUrls,
+        trackingNumbers,
+        shippingError: parcelLabelError,
         shippingStatus: 'label_created',
         shippingCarrier: carrier,
         shippingService: service,
@@ -444,6 +590,9 @@ export const createShipment = async (
       trackingNumber: trackingNumber,
       trackingUrl: trackingUrl,
       labelUrl: labelUrl,
+      labelUrls,
+      trackingNumbers,
+      parcelLabelError,
       status: 'label_created',
     };
   } catch (error: any) {
@@ -539,12 +688,21 @@ const handleTransactionUpdated = async (data: any) => {
 };
 
 const handleTrackUpdated = async (data: any) => {
-  // Tracking updated - delivery status changed
-  await prisma.order.updateMany({
-    where: { trackingNumber: data.trackingNumber },
-    data: {
-      shippingStatus: data.status || 'in_transit',
-      updatedAt: new Date(),
-    },
-  });
+  // Tracking updated - store the scans and move the order along
+  const updates = await recordTrackingUpdate(data);
+  for (const update of updates) {
+    console.log(`📦 Tracking for order ${update.orderId}: ${update.shippingStatus}`, {
+      newEvents: update.newEvents.length,
+      status: update.previousStatus === update.status
+        ? update.status
+        : `${update.previousStatus} → ${update.status}`,
+    });
+
+    // A failed email shouldn't make Shippo retry the whole update
+    try {
+      await notifyTrackingUpdate(update);
+    } catch (emailError) {
+      console.error(`❌ Shipping email failed for order ${update.orderId}:`, emailError);
+    }
+  }
 };
\ No newline at end of file
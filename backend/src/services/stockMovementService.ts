@@ -0,0 +1,263 @@
+import { Prisma, PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { isRestock, notifyBackInStock } from "./wishlistService";
+
+const prisma = new PrismaClient();
+
+export const STOCK_MOVEMENT_TYPES = [
+  "receipt",
+  "sale",
+  "reservation",
+  "release",
+  "adjustment",
+  "return",
+] as const;
+
+export type StockMovementType = (typeof STOCK_MOVEMENT_TYPES)[number];
+
+export const isStockMovementType = (
+  value: unknown
+): value is StockMovementType => {
+  return (
+    typeof value === "string" &&
+    (STOCK_MOVEMENT_TYPES as readonly string[]).includes(value)
+  );
+};
+
+// Movement types an admin can record when editing stock by hand
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = [
+  "receipt",
+  "adjustment",
+  "return",
+];
+
+export const isManualMovementType = (
+  value: unknown
+): value is StockMovementType => {
+  return isStockMovementType(value) && MANUAL_MOVEMENT_TYPES.includes(value);
+};
+
+export interface StockMovementContext {
+  reason?: string;
+  orderId?: string;
+  cartLineId?: string;
+  locationId?: string; // Defaults to the order's fulfilling location
+  createdById?: string;
+}
+
+export interface StockMovementInput extends StockMovementContext {
+  flavorId: string;
+  type: StockMovementType;
+  onHandDelta?: number;
+  reservedDelta?: number;
+}
+
+export interface StockLevels {
+  onHand?: number;
+  reserved?: number;
+  safetyStock?: number;
+}
+
+// Stock at a location only changes for movements tied to one
+const resolveLocationId = async (
+  tx: Prisma.TransactionClient,
+  locationId?: string,
+  orderId?: string
+) => {
+  if (locationId) return locationId;
+  if (!orderId) return null;
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { fulfillmentLocationId: true },
+  });
+  return order?.fulfillmentLocationId || null;
+};
+
+const applyMovement = async (
+  tx: Prisma.TransactionClient,
+  input: StockMovementInput
+) => {
+  const existing = await tx.flavorInventory.findUnique({
+    where: { flavorId: input.flavorId },
+    select: { id: true },
+  });
+  if (!existing) {
+    return null;
+  }
+
+  const onHandDelta = input.onHandDelta || 0;
+  let reservedDelta = input.reservedDelta || 0;
+  const locationId =
+    onHandDelta !== 0
+      ? await resolveLocationId(tx, input.locationId, input.orderId)
+      : null;
+
+  let inventory = await tx.flavorInventory.update({
+    where: { flavorId: input.flavorId },
+    data: {
+      onHand: { increment: onHandDelta },
+      reserved: { increment: reservedDelta },
+    },
+  });
+
+  // Reservations can't go below zero; record only what was actually released
+  if (inventory.reserved < 0) {
+    reservedDelta -= inventory.reserved;
+    inventory = await tx.flavorInventory.update({
+      where: { flavorId: input.flavorId },
+      data: { reserved: 0 },
+    });
+  }
+
+  // Sales and returns move stock at the warehouse that shipped the order
+  if (locationId) {
+    await tx.locationInventory.upsert({
+      where: {
+        inventoryId_locationId: { inventoryId: existing.id, locationId },
+      },
+      create: { inventoryId: existing.id, locationId, onHand: onHandDelta },
+      update: { onHand: { increment: onHandDelta } },
+    });
+  }
+
+  await tx.stockMovement.create({
+    data: {
+      flavorId: input.flavorId,
+      type: input.type,
+      onHandDelta,
+      reservedDelta,
+      onHandAfter: inventory.onHand,
+      reservedAfter: inventory.reserved,
+      reason: input.reason,
+      orderId: input.orderId,
+      cartLineId: input.cartLineId,
+      locationId,
+      createdById: input.createdById,
+    },
+  });
+
+  return inventory;
+};
+
+/**
+ * Apply a relative change to a flavor's inventory and record it in the ledger
+ * @returns The updated inventory, or null if the flavor has no inventory record
+ */
+export const applyStockMovement = async (
+  input: StockMovementInput,
+  tx?: Prisma.TransactionClient
+) => {
+  if (tx) {
+    return applyMovement(tx, input);
+  }
+  return prisma.$transaction((transaction) =>
+    applyMovement(transaction, input)
+  );
+};
+
+/**
+ * Set absolute inventory levels (admin edits), recording the difference
+ * from the current levels as a single movement. Customers waiting on the
+ * flavor are emailed if the edit brings it back into stock.
+ */
+export const setStockLevels = async (
+  flavorId: string,
+  levels: StockLevels,
+  type: StockMovementType,
+  context: StockMovementContext = {}
+) => {
+  let availableBefore = 0;
+  const updated = await prisma.$transaction(async (tx) => {
+    const current = await tx.flavorInventory.findUniqueOrThrow({
+      where: { flavorId },
+    });
+    availableBefore = current.onHand - current.reserved;
+
+    const onHandDelta =
+      levels.onHand !== undefined ? levels.onHand - current.onHand : 0;
+    const reservedDelta =
+      levels.reserved !== undefined ? levels.reserved - current.reserved : 0;
+
+    const inventory = await tx.flavorInventory.update({
+      where: { flavorId },
+      data: {
+        onHand: levels.onHand,
+        reserved: levels.reserved,
+        safetyStock: levels.safetyStock,
+      },
+      include: { flavor: true },
+    });
+
+    if (onHandDelta !== 0 || reservedDelta !== 0) {
+      await tx.stockMovement.create({
+        data: {
+          flavorId,
+          type,
+          onHandDelta,
+          reservedDelta,
+          onHandAfter: inventory.onHand,
+          reservedAfter: inventory.reserved,
+          reason: context.reason,
+          orderId: context.orderId,
+          cartLineId: context.cartLineId,
+          createdById: context.createdById,
+        },
+      });
+    }
+
+    return inventory;
+  });
+
+  if (isRestock(availableBefore, updated.onHand - updated.reserved)) {
+    notifyBackInStock({ flavorId }).catch((error) => {
+      console.error(`Back-in-stock alerts failed for flavor ${flavorId}:`, error);
+    });
+  }
+
+  return updated;
+};
+
+/**
+ * Set how much of a flavor is on hand at one location. The flavor's total
+ * moves by the same amount, so stock counted in at a warehouse adds to
+ * what customers can buy.
+ * @throws CustomError (404) if the flavor has no inventory record
+ */
+export const setLocationStock = async (
+  flavorId: string,
+  locationId: string,
+  onHand: number,
+  type: StockMovementType,
+  context: StockMovementContext = {}
+) => {
+  let availableBefore = 0;
+  const updated = await prisma.$transaction(async (tx) => {
+    const current = await tx.flavorInventory.findUnique({
+      where: { flavorId },
+      include: { locations: { where: { locationId } } },
+    });
+    if (!current) {
+      throw new CustomError("Flavor has no inventory record", 404);
+    }
+    availableBefore = current.onHand - current.reserved;
+
+    const onHandDelta = onHand - (current.locations[0]?.onHand || 0);
+    if (onHandDelta === 0) return current;
+
+    return applyMovement(tx, {
+      ...context,
+      flavorId,
+      locationId,
+      type,
+      onHandDelta,
+    });
+  });
+
+  if (updated && isRestock(availableBefore, updated.onHand - updated.reserved)) {
+    notifyBackInStock({ flavorId }).catch((error) => {
+      console.error(`Back-in-stock alerts failed for flavor ${flavorId}:`, error);
+    });
+  }
+
+  return updated;
+};
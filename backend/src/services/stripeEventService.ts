@@ -0,0 +1,108 @@
+import Stripe from "stripe";
+import { Prisma, PrismaClient } from "../generated/prisma";
+
+const prisma = new PrismaClient();
+
+// An event stuck in "processing" this long is assumed to have crashed
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+export type StripeEventClaim = "claimed" | "duplicate" | "in_progress";
+
+export interface StripeEventOutcome {
+  status: number;
+  error?: string;
+}
+
+/**
+ * Record a delivered event and decide whether this delivery should process it.
+ * New events and previously failed ones are claimed; events that were already
+ * processed (or are being processed right now) are not.
+ */
+export const claimStripeEvent = async (
+  event: Stripe.Event
+): Promise<StripeEventClaim> => {
+  try {
+    await prisma.stripeWebhookEvent.create({
+      data: {
+        id: event.id,
+        type: event.type,
+        payload: event as unknown as Prisma.InputJsonValue,
+      },
+    });
+    return "claimed";
+  } catch (error) {
+    if (
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2002"
+    ) {
+      throw error;
+    }
+  }
+
+  // Seen before - only retry failures or attempts that never finished
+  const reclaimed = await prisma.stripeWebhookEvent.updateMany({
+    where: {
+      id: event.id,
+      OR: [
+        { status: "failed" },
+        {
+          status: "processing",
+          updatedAt: { lt: new Date(Date.now() - STALE_PROCESSING_MS) },
+        },
+      ],
+    },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+  if (reclaimed.count > 0) {
+    return "claimed";
+  }
+
+  const existing = await prisma.stripeWebhookEvent.findUnique({
+    where: { id: event.id },
+    select: { status: true },
+  });
+  return existing?.status === "processed" ? "duplicate" : "in_progress";
+};
+
+/**
+ * Claim a failed event for a manual replay
+ * @returns The stored Stripe event, or null if it isn't a failed event
+ */
+export const claimStripeEventForReplay = async (
+  eventId: string
+): Promise<Stripe.Event | null> => {
+  const reclaimed = await prisma.stripeWebhookEvent.updateMany({
+    where: { id: eventId, status: "failed" },
+    data: { status: "processing", attempts: { increment: 1 } },
+  });
+  if (reclaimed.count === 0) {
+    return null;
+  }
+
+  const stored = await prisma.stripeWebhookEvent.findUnique({
+    where: { id: eventId },
+  });
+  return stored ? (stored.payload as unknown as Stripe.Event) : null;
+};
+
+/**
+ * Save how processing went; non-2xx responses count as failures
+ */
+export const recordStripeEventOutcome = async (
+  eventId: string,
+  outcome: StripeEventOutcome
+) => {
+  const succeeded = outcome.status >= 200 && outcome.status < 300;
+
+  return prisma.stripeWebhookEvent.update({
+    where: { id: eventId },
+    data: {
+      status: succeeded ? "processed" : "failed",
+      responseStatus: outcome.status,
+      lastError: succeeded
+        ? null
+        : outcome.error || `Handler responded with ${outcome.status}`,
+      processedAt: succeeded ? new Date() : undefined,
+    },
+  });
+};
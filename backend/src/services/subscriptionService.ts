@@ -0,0 +1,284 @@
+import { PrismaClient, Subscription } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendRenewalPaymentEmail } from "../utils/mailer";
+import { getDefaultPrice } from "../utils/skuGenerator";
+import { getOrderTrackingUrl } from "./orderLookupService";
+import { placeOrder } from "./orderPlacementService";
+import { restockOrderItems } from "./refundService";
+
+const prisma = new PrismaClient();
+
+// How often the background job looks for due renewals
+const RENEWAL_INTERVAL_MS = parseInt(
+  process.env.SUBSCRIPTION_RENEWAL_INTERVAL_MS || "900000"
+);
+
+// Failed renewals are retried daily, then the subscription is paused
+const MAX_RENEWAL_ATTEMPTS = 3;
+const RENEWAL_RETRY_MS = 24 * 60 * 60 * 1000;
+
+// Renewals processed per run
+const RENEWAL_BATCH_SIZE = 25;
+
+// Renewal orders left unpaid this long are cancelled and their stock freed
+const RENEWAL_PAYMENT_WINDOW_MS = parseInt(
+  process.env.SUBSCRIPTION_PAYMENT_WINDOW_MS || String(7 * 24 * 60 * 60 * 1000)
+);
+
+// Pack definition subscriptions are sold as
+export const SUBSCRIPTION_PACK_TYPE = "3-pack";
+
+export const SUBSCRIPTION_CADENCES = [
+  "weekly",
+  "biweekly",
+  "monthly",
+  "bimonthly",
+] as const;
+
+export type SubscriptionCadence = (typeof SUBSCRIPTION_CADENCES)[number];
+
+export const isSubscriptionCadence = (
+  value: unknown
+): value is SubscriptionCadence => {
+  return (
+    typeof value === "string" &&
+    (SUBSCRIPTION_CADENCES as readonly string[]).includes(value)
+  );
+};
+
+/**
+ * The renewal date one cadence after `from`
+ */
+export const addCadence = (from: Date, cadence: string): Date => {
+  const next = new Date(from);
+  switch (cadence) {
+    case "weekly":
+      next.setDate(next.getDate() + 7);
+      break;
+    case "biweekly":
+      next.setDate(next.getDate() + 14);
+      break;
+    case "bimonthly":
+      next.setMonth(next.getMonth() + 2);
+      break;
+    case "monthly":
+    default:
+      next.setMonth(next.getMonth() + 1);
+      break;
+  }
+  return next;
+};
+
+/**
+ * The first renewal date after now, stepping from the scheduled date so
+ * renewals keep their day of the month
+ */
+export const nextRenewalAfterNow = (scheduled: Date, cadence: string) => {
+  const now = new Date();
+  let next = addCadence(scheduled, cadence);
+  while (next <= now) {
+    next = addCadence(next, cadence);
+  }
+  return next;
+};
+
+/**
+ * Turn a subscription into order items for the createOrder pipeline
+ */
+const buildRenewalItems = async (subscription: Subscription) => {
+  const price = await getDefaultPrice(SUBSCRIPTION_PACK_TYPE);
+
+  if (subscription.recipeId) {
+    return [
+      {
+        productId: SUBSCRIPTION_PACK_TYPE,
+        recipeId: subscription.recipeId,
+        quantity: subscription.quantity,
+        price,
+      },
+    ];
+  }
+
+  return [
+    {
+      productId: SUBSCRIPTION_PACK_TYPE,
+      isCustomPack: true,
+      flavorIds: subscription.flavorIds,
+      customPackName: "Subscription 3-Pack",
+      quantity: subscription.quantity,
+      price,
+    },
+  ];
+};
+
+/**
+ * Place the order for one due renewal. Orders go through the same
+ * pipeline as checkout, so prices and stock are checked the same way.
+ * They're created awaiting payment and the customer is emailed a link to
+ * pay; the label is bought once the payment comes through, and orders
+ * left unpaid are cancelled after a week (see cancelUnpaidRenewals).
+ * @returns The new order, or null if the renewal failed or was taken
+ */
+export const renewSubscription = async (subscription: Subscription) => {
+  const scheduledAt = subscription.nextRenewalAt;
+  const nextRenewalAt = nextRenewalAfterNow(scheduledAt, subscription.cadence);
+
+  // Claim the renewal by moving its date; a concurrent run will see no match
+  const claimed = await prisma.subscription.updateMany({
+    where: {
+      id: subscription.id,
+      status: "active",
+      nextRenewalAt: scheduledAt,
+    },
+    data: { nextRenewalAt },
+  });
+  if (claimed.count === 0) {
+    return null;
+  }
+
+  try {
+    const { order } = await placeOrder(
+      { userId: subscription.userId, isGuest: false },
+      {
+        orderItems: await buildRenewalItems(subscription),
+        shippingAddress: subscription.shippingAddress,
+        orderNotes: "Subscription renewal",
+        awaitingPayment: true,
+      }
+    );
+
+    await prisma.order.update({
+      where: { id: order.id },
+      data: { subscriptionId: subscription.id },
+    });
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        lastRenewalAt: new Date(),
+        lastOrderId: order.id,
+        lastError: null,
+        failedAttempts: 0,
+      },
+    });
+
+    const customer = await prisma.user.findUnique({
+      where: { id: subscription.userId },
+      select: { name: true, email: true },
+    });
+    if (customer?.email) {
+      await sendRenewalPaymentEmail(customer.email, {
+        orderId: order.id,
+        customerName: customer.name || "there",
+        amount: order.total,
+        payUrl: getOrderTrackingUrl(order.id),
+      });
+    }
+
+    return order;
+  } catch (error) {
+    const message =
+      error instanceof CustomError ? error.message : "Unexpected error";
+    const failedAttempts = subscription.failedAttempts + 1;
+    const giveUp = failedAttempts >= MAX_RENEWAL_ATTEMPTS;
+
+    await prisma.subscription.update({
+      where: { id: subscription.id },
+      data: {
+        lastError: message,
+        failedAttempts,
+        // Retry the same box tomorrow rather than skipping it
+        nextRenewalAt: giveUp
+          ? nextRenewalAt
+          : new Date(Date.now() + RENEWAL_RETRY_MS),
+        status: giveUp ? "paused" : undefined,
+      },
+    });
+
+    if (!(error instanceof CustomError)) {
+      console.error(`Subscription ${subscription.id} renewal failed:`, error);
+    }
+    return null;
+  }
+};
+
+/**
+ * Renew every active subscription that is due
+ * @returns How many orders were created
+ */
+export const processDueSubscriptions = async (): Promise<number> => {
+  const due = await prisma.subscription.findMany({
+    where: { status: "active", nextRenewalAt: { lte: new Date() } },
+    orderBy: { nextRenewalAt: "asc" },
+    take: RENEWAL_BATCH_SIZE,
+  });
+
+  let renewed = 0;
+  for (const subscription of due) {
+    if (await renewSubscription(subscription)) {
+      renewed++;
+    }
+  }
+  return renewed;
+};
+
+/**
+ * Cancel renewal orders that were never paid for and put their stock back,
+ * since placing them already took it out of inventory
+ * @returns How many orders were cancelled
+ */
+export const cancelUnpaidRenewals = async (): Promise<number> => {
+  const stale = await prisma.order.findMany({
+    where: {
+      subscriptionId: { not: null },
+      status: "pending",
+      paymentStatus: { in: ["pending", "failed"] },
+      createdAt: { lt: new Date(Date.now() - RENEWAL_PAYMENT_WINDOW_MS) },
+    },
+    select: { id: true },
+    take: RENEWAL_BATCH_SIZE,
+  });
+
+  let cancelled = 0;
+  for (const order of stale) {
+    // Claim the order so a payment or another run can't race the restock
+    const claimed = await prisma.order.updateMany({
+      where: { id: order.id, status: "pending", paymentStatus: { in: ["pending", "failed"] } },
+      data: { status: "cancelled" },
+    });
+    if (claimed.count === 0) continue;
+
+    try {
+      await restockOrderItems(order.id, null, undefined, "Renewal not paid for");
+      cancelled++;
+    } catch (error) {
+      console.error(`Restocking unpaid renewal ${order.id} failed:`, error);
+    }
+  }
+  return cancelled;
+};
+
+/**
+ * Periodically create orders for due subscriptions and cancel the ones
+ * that went unpaid
+ */
+export const startSubscriptionRenewals = () => {
+  const run = async () => {
+    try {
+      const renewed = await processDueSubscriptions();
+      if (renewed > 0) {
+        console.log(`🔁 Created ${renewed} subscription renewal order(s)`);
+      }
+      const cancelled = await cancelUnpaidRenewals();
+      if (cancelled > 0) {
+        console.log(`🔁 Cancelled ${cancelled} unpaid subscription renewal order(s)`);
+      }
+    } catch (error) {
+      console.error("Subscription renewal run failed:", error);
+    }
+  };
+
+  const timer = setInterval(run, RENEWAL_INTERVAL_MS);
+  // Don't keep the process alive just for renewals
+  timer.unref();
+  return timer;
+};
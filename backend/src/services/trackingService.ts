@@ -0,0 +1,277 @@
+import { PrismaClient, TrackingEvent } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+
+const prisma = new PrismaClient();
+
+export const TRACKING_STATUSES = [
+  "PRE_TRANSIT",
+  "TRANSIT",
+  "DELIVERED",
+  "RETURNED",
+  "FAILURE",
+  "UNKNOWN",
+] as const;
+
+export type TrackingStatus = (typeof TRACKING_STATUSES)[number];
+
+const isTrackingStatus = (value: unknown): value is TrackingStatus =>
+  TRACKING_STATUSES.includes(value as TrackingStatus);
+
+// Order statuses tracking can move an order through, in order
+const ORDER_PROGRESS = ["pending", "confirmed", "shipped", "delivered"];
+
+export interface TrackingEventInput {
+  status: TrackingStatus;
+  substatus: string | null;
+  statusDetails: string | null;
+  city: string | null;
+  state: string | null;
+  zip: string | null;
+  country: string | null;
+  occurredAt: Date;
+  shippoEventId: string | null;
+}
+
+export interface TrackingUpdateResult {
+  orderId: string;
+  newEvents: TrackingEvent[];
+  previousStatus: string; // Order.status before this update
+  status: string; // Order.status after it
+  shippingStatus: string;
+}
+
+/**
+ * Read one Shippo tracking status. Webhooks send snake_case JSON while
+ * the SDK returns camelCase, so accept either.
+ */
+const toTrackingEventInput = (raw: any): TrackingEventInput | null => {
+  if (!raw) return null;
+  const status = String(raw.status || "UNKNOWN").toUpperCase();
+  const occurredAt = new Date(
+    raw.status_date ?? raw.statusDate ?? raw.object_created ?? raw.objectCreated
+  );
+  if (Number.isNaN(occurredAt.getTime())) return null;
+
+  const location = raw.location || {};
+  return {
+    status: isTrackingStatus(status) ? status : "UNKNOWN",
+    substatus: raw.substatus?.code || null,
+    statusDetails: raw.status_details ?? raw.statusDetails ?? null,
+    city: location.city || null,
+    state: location.state || null,
+    zip: location.zip || null,
+    country: location.country || null,
+    occurredAt,
+    shippoEventId: raw.object_id ?? raw.objectId ?? null,
+  };
+};
+
+// Shippo resends the whole history on every update; a scan is its status and time
+const isSameEvent = (
+  a: { status: string; occurredAt: Date },
+  b: { status: string; occurredAt: Date }
+) => a.status === b.status && a.occurredAt.getTime() === b.occurredAt.getTime();
+
+/**
+ * Shipping status shown to customers; out-for-delivery is a TRANSIT
+ * substatus but worth calling out
+ */
+const toShippingStatus = (event: TrackingEventInput) =>
+  event.substatus === "out_for_delivery"
+    ? "out_for_delivery"
+    : event.status.toLowerCase();
+
+/**
+ * The order status a carrier status implies, if any. Anything past
+ * pre-transit means the parcel has left us.
+ */
+const getImpliedOrderStatus = (status: TrackingStatus) => {
+  if (status === "DELIVERED") return "delivered";
+  if (status === "TRANSIT" || status === "RETURNED" || status === "FAILURE") {
+    return "shipped";
+  }
+  return null;
+};
+
+/**
+ * Move an order forward to the status tracking implies; never backwards,
+ * and never out of cancelled
+ */
+const advanceOrderStatus = (current: string, status: TrackingStatus) => {
+  const implied = getImpliedOrderStatus(status);
+  const currentIndex = ORDER_PROGRESS.indexOf(current);
+  if (!implied || currentIndex === -1) return current;
+  return ORDER_PROGRESS.indexOf(implied) > currentIndex ? implied : current;
+};
+
+/**
+ * Store a Shippo track update against every order with its tracking
+ * number, including the other parcels of multi-parcel shipments: each scan
+ * in the history once, the latest status on the order, and the order moved
+ * on to shipped, or delivered once every parcel is
+ * @returns What changed per order, for notifications
+ */
+export const recordTrackingUpdate = async (
+  track: any
+): Promise<TrackingUpdateResult[]> => {
+  const trackingNumber = track?.tracking_number ?? track?.trackingNumber;
+  if (!trackingNumber) return [];
+
+  const history = (track.tracking_history ?? track.trackingHistory ?? [])
+    .map(toTrackingEventInput)
+    .filter(Boolean) as TrackingEventInput[];
+  const latest =
+    toTrackingEventInput(track.tracking_status ?? track.trackingStatus) ||
+    history[history.length - 1];
+  if (!latest) return [];
+  if (!history.some((event) => isSameEvent(event, latest))) {
+    history.push(latest);
+  }
+
+  const eta = track.eta ? new Date(track.eta) : null;
+  const carrier = track.carrier || null;
+
+  const orders = await prisma.order.findMany({
+    where: {
+      OR: [{ trackingNumber }, { trackingNumbers: { has: trackingNumber } }],
+    },
+    select: { id: true, status: true, trackingNumbers: true },
+  });
+
+  const results: TrackingUpdateResult[] = [];
+  for (const order of orders) {
+    const known = await prisma.trackingEvent.findMany({
+      where: { orderId: order.id, trackingNumber },
+      select: { status: true, occurredAt: true },
+    });
+    const fresh = history.filter(
+      (event) => !known.some((k) => isSameEvent(k, event))
+    );
+    if (fresh.length > 0) {
+      await prisma.trackingEvent.createMany({
+        data: fresh.map((event) => ({
+          orderId: order.id,
+          trackingNumber,
+          carrier,
+          ...event,
+        })),
+        skipDuplicates: true,
+      });
+    }
+
+    // One parcel arriving doesn't deliver the order while others are out
+    let orderEvent = latest;
+    if (latest.status === "DELIVERED" && order.trackingNumbers.length > 1) {
+      const delivered = await prisma.trackingEvent.findMany({
+        where: { orderId: order.id, status: "DELIVERED" },
+        distinct: ["trackingNumber"],
+        select: { trackingNumber: true },
+      });
+      const allDelivered = order.trackingNumbers.every((number) =>
+        delivered.some((event) => event.trackingNumber === number)
+      );
+      if (!allDelivered) {
+        orderEvent = { ...latest, status: "TRANSIT", substatus: null };
+      }
+    }
+
+    const status = advanceOrderStatus(order.status, orderEvent.status);
+    const shippingStatus = toShippingStatus(orderEvent);
+    await prisma.order.update({
+      where: { id: order.id },
+      data: {
+        status,
+        shippingStatus,
+        ...(eta && !Number.isNaN(eta.getTime()) ? { shippingEta: eta } : {}),
+      },
+    });
+
+    const newEvents = fresh.length
+      ? await prisma.trackingEvent.findMany({
+          where: {
+            orderId: order.id,
+            trackingNumber,
+            OR: fresh.map((event) => ({
+              status: event.status,
+              occurredAt: event.occurredAt,
+            })),
+          },
+          orderBy: { occurredAt: "asc" },
+        })
+      : [];
+
+    results.push({
+      orderId: order.id,
+      newEvents,
+      previousStatus: order.status,
+      status,
+      shippingStatus,
+    });
+  }
+
+  return results;
+};
+
+/**
+ * An order's shipment, one tracking number and label per parcel, and its
+ * scans, newest first
+ * @throws CustomError (404) if the order doesn't exist
+ */
+export const getOrderTracking = async (orderId: string) => {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      status: true,
+      shippingStatus: true,
+      shippingCarrier: true,
+      shippingService: true,
+      trackingNumber: true,
+      trackingNumbers: true,
+      trackingUrl: true,
+      shippingLabelUrl: true,
+      shippingLabelUrls: true,
+      shippingEta: true,
+      trackingEvents: { orderBy: { occurredAt: "desc" } },
+    },
+  });
+  if (!order) {
+    throw new CustomError("Order not found", 404);
+  }
+
+  // Orders labelled before multi-parcel shipping only have the single fields
+  const trackingNumbers = order.trackingNumbers.length
+    ? order.trackingNumbers
+    : order.trackingNumber
+      ? [order.trackingNumber]
+      : [];
+  const labelUrls = order.shippingLabelUrls.length
+    ? order.shippingLabelUrls
+    : [order.shippingLabelUrl];
+
+  return {
+    orderId: order.id,
+    orderStatus: order.status,
+    shippingStatus: order.shippingStatus,
+    carrier: order.shippingCarrier,
+    service: order.shippingService,
+    trackingNumber: order.trackingNumber,
+    trackingUrl: order.trackingUrl,
+    parcels: trackingNumbers.map((number, index) => ({
+      trackingNumber: number,
+      labelUrl: labelUrls[index] || null,
+    })),
+    eta: order.shippingEta,
+    events: order.trackingEvents.map((event) => ({
+      id: event.id,
+      trackingNumber: event.trackingNumber,
+      status: event.status,
+      substatus: event.substatus,
+      statusDetails: event.statusDetails,
+      location: [event.city, event.state, event.country]
+        .filter(Boolean)
+        .join(", "),
+      occurredAt: event.occurredAt,
+    })),
+  };
+};
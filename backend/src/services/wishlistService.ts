@@ -0,0 +1,278 @@
+import { PrismaClient } from "../generated/prisma";
+import { CustomError } from "../middlewares/error.middleware";
+import { sendBackInStockEmail } from "../utils/mailer";
+
+const prisma = new PrismaClient();
+
+// Don't email the same customer about the same item more than once a day
+const ALERT_COOLDOWN_MS = 24 * 60 * 60 * 1000;
+
+export interface WishlistTarget {
+  productId?: string | null;
+  flavorId?: string | null;
+}
+
+export interface WishlistItemInput extends WishlistTarget {
+  notifyWhenInStock?: boolean;
+}
+
+const WISHLIST_INCLUDE = {
+  product: {
+    select: {
+      id: true,
+      name: true,
+      price: true,
+      imageUrl: true,
+      sku: true,
+      category: true,
+      stock: true,
+      isActive: true,
+    },
+  },
+  flavor: {
+    select: {
+      id: true,
+      name: true,
+      imageUrl: true,
+      category: true,
+      active: true,
+      inventory: { select: { onHand: true, reserved: true } },
+    },
+  },
+} as const;
+
+/**
+ * Whether a level change takes an item from unavailable to available
+ */
+export const isRestock = (before: number, after: number) =>
+  before <= 0 && after > 0;
+
+/**
+ * Check a wishlist entry names exactly one product or flavor that exists
+ * @throws CustomError (400) if it names neither or both
+ * @throws CustomError (404) if the product or flavor doesn't exist
+ */
+const resolveTarget = async (input: WishlistTarget) => {
+  const productId = input.productId || null;
+  const flavorId = input.flavorId || null;
+  if (!productId === !flavorId) {
+    throw new CustomError("Provide either a productId or a flavorId", 400);
+  }
+
+  if (productId) {
+    const product = await prisma.product.findUnique({
+      where: { id: productId },
+      select: { id: true },
+    });
+    if (!product) throw new CustomError("Product not found", 404);
+  } else {
+    const flavor = await prisma.flavor.findUnique({
+      where: { id: flavorId! },
+      select: { id: true },
+    });
+    if (!flavor) throw new CustomError("Flavor not found", 404);
+  }
+
+  return { productId, flavorId };
+};
+
+/**
+ * A customer's wishlist, newest first, with current stock
+ */
+export const getWishlist = async (userId: string) => {
+  const items = await prisma.wishlistItem.findMany({
+    where: { userId },
+    include: WISHLIST_INCLUDE,
+    orderBy: { createdAt: "desc" },
+  });
+
+  return items.map(({ product, flavor, ...item }) => ({
+    ...item,
+    product,
+    flavor: flavor
+      ? {
+          id: flavor.id,
+          name: flavor.name,
+          imageUrl: flavor.imageUrl,
+          category: flavor.category,
+          active: flavor.active,
+        }
+      : null,
+    inStock: product
+      ? product.isActive && product.stock > 0
+      : !!flavor?.active &&
+        !!flavor.inventory &&
+        flavor.inventory.onHand - flavor.inventory.reserved > 0,
+  }));
+};
+
+/**
+ * Add a product or flavor to the wishlist; adding it again only updates
+ * the alert preference
+ * @throws CustomError (400/404) if the target is invalid
+ */
+export const addWishlistItem = async (
+  userId: string,
+  input: WishlistItemInput
+) => {
+  const target = await resolveTarget(input);
+  const existing = await prisma.wishlistItem.findFirst({
+    where: { userId, ...target },
+  });
+
+  if (existing) {
+    if (input.notifyWhenInStock === undefined) return existing;
+    return prisma.wishlistItem.update({
+      where: { id: existing.id },
+      data: { notifyWhenInStock: input.notifyWhenInStock },
+    });
+  }
+
+  return prisma.wishlistItem.create({
+    data: {
+      userId,
+      ...target,
+      notifyWhenInStock: Boolean(input.notifyWhenInStock),
+    },
+  });
+};
+
+/**
+ * Turn back-in-stock alerts on or off for a wishlist entry
+ * @throws CustomError (404) if the entry isn't on this customer's wishlist
+ */
+export const setWishlistAlert = async (
+  userId: string,
+  itemId: string,
+  notifyWhenInStock: boolean
+) => {
+  const item = await prisma.wishlistItem.findFirst({
+    where: { id: itemId, userId },
+  });
+  if (!item) {
+    throw new CustomError("Wishlist item not found", 404);
+  }
+
+  return prisma.wishlistItem.update({
+    where: { id: item.id },
+    data: { notifyWhenInStock },
+  });
+};
+
+/**
+ * Remove an entry by its id, or by the product or flavor it points at
+ * @returns How many entries were removed
+ */
+export const removeWishlistItem = async (
+  userId: string,
+  match: { id?: string } & WishlistTarget
+) => {
+  const where = match.id
+    ? { userId, id: match.id }
+    : match.productId
+      ? { userId, productId: match.productId }
+      : match.flavorId
+        ? { userId, flavorId: match.flavorId }
+        : null;
+  if (!where) {
+    throw new CustomError("Provide an item id, productId or flavorId", 400);
+  }
+
+  const { count } = await prisma.wishlistItem.deleteMany({ where });
+  return count;
+};
+
+/**
+ * Remove every entry from a customer's wishlist
+ * @returns How many entries were removed
+ */
+export const clearWishlist = async (userId: string) => {
+  const { count } = await prisma.wishlistItem.deleteMany({ where: { userId } });
+  return count;
+};
+
+/**
+ * Fold a wishlist kept in the browser into the account. Entries already
+ * saved keep their alert setting; ones that no longer exist are skipped.
+ * @returns The merged wishlist
+ */
+export const mergeWishlist = async (
+  userId: string,
+  items: WishlistItemInput[]
+) => {
+  for (const item of items) {
+    try {
+      const target = await resolveTarget(item);
+      const existing = await prisma.wishlistItem.findFirst({
+        where: { userId, ...target },
+        select: { id: true },
+      });
+      if (!existing) {
+        await prisma.wishlistItem.create({
+          data: {
+            userId,
+            ...target,
+            notifyWhenInStock: Boolean(item.notifyWhenInStock),
+          },
+        });
+      }
+    } catch (error) {
+      if (!(error instanceof CustomError)) throw error;
+      // Deleted products shouldn't block the rest of the merge
+    }
+  }
+
+  return getWishlist(userId);
+};
+
+/**
+ * Email everyone who asked to hear when a product or flavor came back.
+ * Callers check the item has just gone from unavailable to available.
+ * @returns How many alerts were sent
+ */
+export const notifyBackInStock = async (target: WishlistTarget) => {
+  const { productId, flavorId } = target;
+  if (!productId && !flavorId) return 0;
+
+  const items = await prisma.wishlistItem.findMany({
+    where: {
+      ...(productId ? { productId } : { flavorId }),
+      notifyWhenInStock: true,
+      OR: [
+        { lastNotifiedAt: null },
+        { lastNotifiedAt: { lt: new Date(Date.now() - ALERT_COOLDOWN_MS) } },
+      ],
+    },
+    include: {
+      user: { select: { name: true, email: true } },
+      product: { select: { name: true, isActive: true } },
+      flavor: { select: { name: true, active: true } },
+    },
+  });
+
+  const clientUrl = process.env.CLIENT_URL || "https://licorice4good.com";
+  let sent = 0;
+  for (const item of items) {
+    const name = item.product?.name || item.flavor?.name;
+    const active = item.product ? item.product.isActive : item.flavor?.active;
+    if (!item.user.email || !name || !active) continue;
+
+    // Claim the alert so overlapping inventory updates don't both send it
+    const claimed = await prisma.wishlistItem.updateMany({
+      where: { id: item.id, lastNotifiedAt: item.lastNotifiedAt },
+      data: { lastNotifiedAt: new Date() },
+    });
+    if (claimed.count === 0) continue;
+
+    await sendBackInStockEmail(item.user.email, {
+      customerName: item.user.name || "there",
+      itemName: name,
+      itemUrl: item.productId
+        ? `${clientUrl}/products/${item.productId}`
+        : `${clientUrl}/shop`,
+    });
+    sent++;
+  }
+
+  return sent;
+};
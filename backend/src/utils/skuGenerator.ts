@@ -28,69 +28,77 @@ export const generateCategoryCode = (category: string): string => {
 };
 
 /**
- * Generate SKU for custom 3-pack
- * @param flavorNames Array of flavor names
+ * Join flavor codes, collapsing repeats ("RED","RED","BLU" → "REDx2-BLU")
+ */
+const joinFlavorCodes = (codes: string[]): string => {
+  const counts = new Map<string, number>();
+  for (const code of codes) {
+    counts.set(code, (counts.get(code) || 0) + 1);
+  }
+  return [...counts]
+    .map(([code, count]) => (count > 1 ? `${code}x${count}` : code))
+    .join("-");
+};
+
+/**
+ * Generate SKU for a custom pack
+ * @param flavorNames Array of flavor names, repeated for duplicate flavors
+ * @param size Flavors per pack
  * @returns Generated SKU (e.g., "3P-CUST-RED-BLU-FRU")
  */
-export const generateCustomSKU = (flavorNames: string[]): string => {
+export const generateCustomSKU = (
+  flavorNames: string[],
+  size: number = 3
+): string => {
   const codes = flavorNames.map((name) => generateFlavorCode(name));
-  return `3P-CUST-${codes.join("-")}`;
+  return `${size}P-CUST-${joinFlavorCodes(codes)}`;
 };
 
 /**
  * Generate SKU for predefined pack recipe
  * @param kind Category (Traditional, Sour, Sweet)
  * @param items Array of flavor items with quantities
+ * @param size Flavors per pack
  * @returns Generated SKU (e.g., "3P-TRA-REDx3")
  */
 export const generateSKU = (
   kind: string,
-  items: Array<{ flavor: { name: string }; quantity: number }>
+  items: Array<{ flavor: { name: string }; quantity: number }>,
+  size: number = 3
 ): string => {
   const kindCode = generateCategoryCode(kind);
   const components = items.map((item) => {
     const flavorCode = generateFlavorCode(item.flavor.name);
     return item.quantity > 1 ? `${flavorCode}x${item.quantity}` : flavorCode;
   });
-  return `3P-${kindCode}-${components.join("-")}`;
+  return `${size}P-${kindCode}-${components.join("-")}`;
 };
 
 /**
  * Get default price for product type
  * @param productType Product type (3-pack, 5-pack, etc.)
- * @returns Default price
+ * @returns Price from the pack definition, 0 if there is none
  */
 export const getDefaultPrice = async (productType: string): Promise<number> => {
-  // Try to get from environment variable first
-  const envPrice =
-    process.env[`DEFAULT_${productType.toUpperCase().replace("-", "_")}_PRICE`];
-  if (envPrice) {
-    return parseFloat(envPrice);
-  }
-
-  // Fallback to hardcoded defaults
-  const defaultPrices: { [key: string]: number } = {
-    "3-pack": 27.0,
-    "5-pack": 45.0,
-  };
-
-  return defaultPrices[productType] || 0;
+  const definition = await prisma.packDefinition.findUnique({
+    where: { id: productType },
+    select: { price: true },
+  });
+  return definition?.price || 0;
 };
 
 /**
  * Validate if product type is supported
  * @param productType Product type to validate
- * @returns True if supported
+ * @returns True if an active pack definition exists for it
  */
 export const isValidProductType = async (
   productType: string
 ): Promise<boolean> => {
-  // Check environment variable for supported types
-  const supportedTypes = process.env.SUPPORTED_PRODUCT_TYPES?.split(",") || [
-    "3-pack",
-    "5-pack",
-  ];
-  return supportedTypes.includes(productType);
+  const count = await prisma.packDefinition.count({
+    where: { id: productType, active: true },
+  });
+  return count > 0;
 };
 
 /**
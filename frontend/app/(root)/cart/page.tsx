@@ -5,8 +5,13 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { useCartStore } from "@/store/cartStore";
 import { useOrdersStore } from "@/store/ordersStore";
+import { useFundraisingStore } from "@/store/fundraisingStore";
 // Removed auth imports - cart is now public for guest checkout
 import CustomButton from "@/components/custom/CustomButton";
+import ReservationCountdown from "@/components/ui/cart/ReservationCountdown";
+import PromoCodeInput, {
+  AppliedPromotion,
+} from "@/components/ui/cart/PromoCodeInput";
 // Removed ShippingAddressForm import - using Stripe checkout address collection
 import axios from "axios";
 
@@ -38,13 +43,18 @@ const CartPage = () => {
     clearCart,
     getTotal,
     loadFromBackend,
+    refreshReservations,
+    promotionCode,
+    setPromotionCode,
   } = useCartStore();
 
   const { } = useOrdersStore();
+  const { referral, clearReferral } = useFundraisingStore();
   const router = useRouter();
   const [orderLoading, setOrderLoading] = useState<boolean>(false);
   const [orderError, setOrderError] = useState<string | null>(null);
   const [clearCartLoading, setClearCartLoading] = useState<boolean>(false);
+  const [refreshingHolds, setRefreshingHolds] = useState<boolean>(false);
   const [notes, setNotes] = useState("");
   const [, setRecommendedProducts] = useState<Product[]>([]);
   const [, setRecommendedLoading] = useState<boolean>(false);
@@ -80,6 +90,9 @@ const CartPage = () => {
   const [calculatingShipping, setCalculatingShipping] = useState(false);
   const [shippingError, setShippingError] = useState<string | null>(null);
   const [showShippingForm, setShowShippingForm] = useState(false);
+  const [appliedPromotion, setAppliedPromotion] = useState<AppliedPromotion | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [promoError, setPromoError] = useState<string | null>(null);
 
   const fetchRecommendedProducts = useCallback(async () => {
     setRecommendedLoading(true);
@@ -237,6 +250,69 @@ const CartPage = () => {
     await removeItem(itemId);
   };
 
+  const applyPromoCode = useCallback(
+    async (code: string) => {
+      setApplyingPromo(true);
+      setPromoError(null);
+      try {
+        const resp = await fetch(`${process.env.NEXT_PUBLIC_API_URL}/promotions/validate`, {
+          method: "POST",
+          credentials: "include",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            code,
+            items: items.map((item) => ({
+              productId: item.isCustomPack ? null : item.productId,
+              packType: item.isCustomPack ? item.productId : null,
+              productName: item.productName,
+              quantity: item.quantity,
+              price: item.price,
+              flavorIds: item.flavorIds || [],
+              customPackName: item.customPackName || null,
+            })),
+          }),
+        });
+        const data = await resp.json().catch(() => null);
+        if (!resp.ok) {
+          throw new Error(data?.message || "Promo code is not valid");
+        }
+        setAppliedPromotion(data);
+        setPromotionCode(data.code);
+      } catch (e: unknown) {
+        setAppliedPromotion(null);
+        setPromotionCode(null);
+        setPromoError(e instanceof Error ? e.message : "Promo code is not valid");
+      } finally {
+        setApplyingPromo(false);
+      }
+    },
+    [items, setPromotionCode]
+  );
+
+  // Re-check the applied code whenever the cart changes; a code kept from
+  // an earlier visit is applied again the same way
+  const appliedPromoCode = appliedPromotion?.code || promotionCode;
+  useEffect(() => {
+    if (appliedPromoCode && items.length > 0) {
+      applyPromoCode(appliedPromoCode);
+    }
+  }, [items, appliedPromoCode, applyPromoCode]);
+
+  const shippingAmount = selectedShippingRate?.amount || 0;
+  const promoDiscount = appliedPromotion
+    ? appliedPromotion.discount + (appliedPromotion.freeShipping ? shippingAmount : 0)
+    : 0;
+  const orderTotal = Math.max(0, Math.round((getTotal() + shippingAmount - promoDiscount) * 100) / 100);
+
+  const handleRefreshHolds = async () => {
+    setRefreshingHolds(true);
+    try {
+      await refreshReservations();
+    } finally {
+      setRefreshingHolds(false);
+    }
+  };
+
   const handleClearCart = async () => {
     setClearCartLoading(true);
     try {
@@ -303,6 +379,7 @@ const CartPage = () => {
 
       const orderItems = items.map((item) => ({
         productId: item.isCustomPack ? null : item.productId,
+        packType: item.isCustomPack ? item.productId : null,
         quantity: item.quantity,
         flavorIds: item.flavorIds || [],
         customPackName: item.customPackName || null,
@@ -416,6 +493,7 @@ const CartPage = () => {
       // Convert cart items to order items format expected by backend
       const orderItems = items.map((item) => ({
         productId: item.isCustomPack ? null : item.productId,  // NULL for custom packs
+        packType: item.isCustomPack ? item.productId : null,
         productName: item.productName,
         quantity: item.quantity,
         price: item.price,
@@ -425,9 +503,8 @@ const CartPage = () => {
         customPackName: item.customPackName || null,
       }));
 
-      const subtotal = getTotal();
-      const shippingCost = selectedShippingRate?.amount || 0;
-      const total = subtotal + shippingCost;
+      const shippingCost = shippingAmount;
+      const total = orderTotal;
 
       const orderData = {
         orderItems,
@@ -479,6 +556,10 @@ const CartPage = () => {
           ],
           customerEmail: shippingAddress.email,
           shippingAddress: orderData.shippingAddress,
+          promotionCode: appliedPromotion?.code,
+          fundraiser: referral
+            ? { campaignSlug: referral.campaignSlug, sellerCode: referral.sellerCode }
+            : undefined,
           selectedShippingRate: selectedShippingRate ? {
             carrier: selectedShippingRate.carrier,
             amount: selectedShippingRate.amount,
@@ -491,13 +572,9 @@ const CartPage = () => {
       });
 
       if (!resp.ok) {
-        // Try to get the actual error message from the response
-        try {
-          const errorData = await resp.json();
-          throw new Error(errorData.message || "Unable to start checkout");
-        } catch {
-          throw new Error("Unable to start checkout");
-        }
+        // Try to get the actual error message from the response (e.g. a price change)
+        const errorData = await resp.json().catch(() => null);
+        throw new Error(errorData?.message || "Unable to start checkout");
       }
 
       const data = await resp.json();
@@ -624,7 +701,7 @@ const CartPage = () => {
                         <div className="flex-shrink-0 bg-gradient-to-br from-gray-50 to-gray-100 rounded-lg p-2 flex items-center justify-center">
                           <Image
                             src={item.isCustomPack ? "/assets/images/slider.png" : normalizeImageSrc(item.imageUrl)}
-                            alt={item.isCustomPack ? "Custom 3-Pack" : item.productName}
+                            alt={item.isCustomPack ? "Custom Pack" : item.productName}
                             width={120}
                             height={120}
                             className="w-24 h-24 object-contain rounded-lg"
@@ -643,11 +720,18 @@ const CartPage = () => {
                               <h3 className="text-lg font-semibold text-gray-900 mb-1">
                                 {item.productName}
                               </h3>
-                              {item.isCustomPack && (
-                                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
-                                  Custom Pack
-                                </span>
-                              )}
+                              <div className="flex flex-wrap items-center gap-2">
+                                {item.isCustomPack && (
+                                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                                    Custom Pack
+                                  </span>
+                                )}
+                                <ReservationCountdown
+                                  deadline={item.reservationDeadline}
+                                  onRefresh={handleRefreshHolds}
+                                  refreshing={refreshingHolds}
+                                />
+                              </div>
                             </div>
                           <button
                             onClick={() => handleRemoveItem(item.id)}
@@ -943,6 +1027,19 @@ const CartPage = () => {
                           <span className="text-gray-500 italic text-xs">Calculated at checkout</span>
                         )}
                       </div>
+                      {appliedPromotion && promoDiscount > 0 && (
+                        <div className="flex justify-between text-sm">
+                          <span className="text-green-700">Discount ({appliedPromotion.code})</span>
+                          <span className="font-medium text-green-700">
+                            -${promoDiscount.toFixed(2)}
+                          </span>
+                        </div>
+                      )}
+                      {appliedPromotion?.freeShipping && !selectedShippingRate && (
+                        <div className="text-xs text-green-700 flex justify-end">
+                          Free shipping applied at checkout
+                        </div>
+                      )}
                       {selectedShippingRate && (
                         <div className="text-xs text-gray-500 flex justify-end">
                           {selectedShippingRate.carrier} - {selectedShippingRate.serviceName}
@@ -953,12 +1050,44 @@ const CartPage = () => {
                         <div className="flex justify-between items-center">
                           <span className="text-lg font-semibold text-gray-900">Total</span>
                           <span className="text-2xl font-bold text-orange-600">
-                            ${(getTotal() + (selectedShippingRate?.amount || 0)).toFixed(2)}
+                            ${orderTotal.toFixed(2)}
                           </span>
                         </div>
                       </div>
                     </div>
 
+                    {/* Fundraiser */}
+                    {referral && (
+                      <div className="mb-4 flex items-center justify-between p-3 bg-orange-50 border border-orange-200 rounded-lg">
+                        <div className="text-sm text-gray-800">
+                          Supporting <span className="font-semibold">{referral.sellerName}</span>
+                          <div className="text-xs text-gray-600">{referral.campaignName}</div>
+                        </div>
+                        <button
+                          type="button"
+                          onClick={clearReferral}
+                          className="text-xs text-gray-700 underline hover:text-gray-900"
+                        >
+                          Remove
+                        </button>
+                      </div>
+                    )}
+
+                    {/* Promo Code */}
+                    <div className="mb-4">
+                      <PromoCodeInput
+                        appliedPromotion={appliedPromotion}
+                        onApply={applyPromoCode}
+                        onRemove={() => {
+                          setAppliedPromotion(null);
+                          setPromotionCode(null);
+                          setPromoError(null);
+                        }}
+                        applying={applyingPromo}
+                        error={promoError}
+                      />
+                    </div>
+
                     {/* Order Notes */}
                     <div className="mb-4">
                       <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -3,6 +3,8 @@
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { useCartStore } from "@/store/cartStore";
+import { useFundraisingStore } from "@/store/fundraisingStore";
+import type { AppliedPromotion } from "@/components/ui/cart/PromoCodeInput";
 import axios from "axios";
 import Image from "next/image";
 import { Loader2, Package, Truck, CreditCard, MapPin } from "lucide-react";
@@ -41,7 +43,8 @@ interface RateResponse {
 
 export default function CheckoutPage() {
   const router = useRouter();
-  const { items, getTotal } = useCartStore();
+  const { items, getTotal, promotionCode } = useCartStore();
+  const { referral } = useFundraisingStore();
   
   const [calculatingShipping, setCalculatingShipping] = useState(false);
   const [processingPayment, setProcessingPayment] = useState(false);
@@ -65,6 +68,11 @@ export default function CheckoutPage() {
   const [shippingRates, setShippingRates] = useState<ShippingRate[]>([]);
   const [selectedRate, setSelectedRate] = useState<ShippingRate | null>(null);
   const [showShippingOptions, setShowShippingOptions] = useState(false);
+  // Set by the server for addresses where duties may be due on delivery
+  const [dutiesNotice, setDutiesNotice] = useState<string | null>(null);
+
+  // Promo code carried over from the cart, priced against these items
+  const [appliedPromotion, setAppliedPromotion] = useState<AppliedPromotion | null>(null);
 
   useEffect(() => {
     if (items.length === 0) {
@@ -72,9 +80,40 @@ export default function CheckoutPage() {
     }
   }, [items, router]);
 
+  useEffect(() => {
+    if (!promotionCode || items.length === 0) {
+      setAppliedPromotion(null);
+      return;
+    }
+
+    axios
+      .post(
+        `${process.env.NEXT_PUBLIC_API_URL}/promotions/validate`,
+        {
+          code: promotionCode,
+          items: items.map((item) => ({
+            productId: item.isCustomPack ? null : item.productId,
+            packType: item.isCustomPack ? item.productId : null,
+            productName: item.productName,
+            quantity: item.quantity,
+            price: item.price,
+            flavorIds: item.flavorIds || [],
+            customPackName: item.customPackName || null,
+          })),
+        },
+        { withCredentials: true }
+      )
+      .then((response) => setAppliedPromotion(response.data))
+      // A code that no longer applies is dropped rather than blocking payment
+      .catch(() => setAppliedPromotion(null));
+  }, [promotionCode, items]);
+
   const subtotal = getTotal();
   const shippingCost = selectedRate?.amount || 0;
-  const total = subtotal + shippingCost;
+  const promoDiscount = appliedPromotion
+    ? appliedPromotion.discount + (appliedPromotion.freeShipping ? shippingCost : 0)
+    : 0;
+  const total = Math.max(0, Math.round((subtotal + shippingCost - promoDiscount) * 100) / 100);
 
   // Form validation
   const isAddressValid = () => {
@@ -116,6 +155,7 @@ export default function CheckoutPage() {
           },
           orderItems: items.map((item) => ({
             productId: item.isCustomPack ? null : item.productId,
+            packType: item.isCustomPack ? item.productId : null,
             quantity: item.quantity,
             flavorIds: item.flavorIds || [],
           })),
@@ -136,6 +176,7 @@ export default function CheckoutPage() {
         }));
         
         setShippingRates(mappedRates);
+        setDutiesNotice(response.data.dutiesNotice || null);
         setShowShippingOptions(true);
         // Auto-select the cheapest rate
         const cheapestRate = mappedRates.reduce((prev: ShippingRate, curr: ShippingRate) =>
@@ -146,9 +187,13 @@ export default function CheckoutPage() {
         setError("No shipping rates available for this address");
       }
     } catch (err: unknown) {
-      const error = err as { response?: { data?: { message?: string } } };
+      const error = err as { response?: { data?: { message?: string; error?: string } } };
       console.error("Shipping calculation error:", error);
-      setError(error.response?.data?.message || "Failed to calculate shipping rates");
+      setError(
+        error.response?.data?.error ||
+          error.response?.data?.message ||
+          "Failed to calculate shipping rates"
+      );
     } finally {
       setCalculatingShipping(false);
     }
@@ -167,6 +212,7 @@ export default function CheckoutPage() {
     try {
       const orderItems = items.map((item) => ({
         productId: item.isCustomPack ? null : item.productId,
+        packType: item.isCustomPack ? item.productId : null,
         productName: item.productName,
         quantity: item.quantity,
         price: item.price,
@@ -222,6 +268,10 @@ export default function CheckoutPage() {
                 quantity: 1,
               },
             ],
+            promotionCode: appliedPromotion?.code,
+            fundraiser: referral
+              ? { campaignSlug: referral.campaignSlug, sellerCode: referral.sellerCode }
+              : undefined,
             successUrl: `${window.location.origin}/orders/success?session_id={CHECKOUT_SESSION_ID}`,
             cancelUrl: `${window.location.origin}/checkout`,
           }),
@@ -490,11 +540,19 @@ export default function CheckoutPage() {
                   })}
                 </div>
 
+                {dutiesNotice && (
+                  <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-800">
+                    <p className="font-semibold mb-1">International shipping</p>
+                    <p>{dutiesNotice}</p>
+                  </div>
+                )}
+
                 <button
                   onClick={() => {
                     setShowShippingOptions(false);
                     setSelectedRate(null);
                     setShippingRates([]);
+                    setDutiesNotice(null);
                   }}
                   className="w-full mt-4 text-[#FF5D39] font-semibold py-2 hover:underline"
                 >
@@ -568,10 +626,21 @@ export default function CheckoutPage() {
                     {selectedRate ? `$${shippingCost.toFixed(2)}` : "Calculate"}
                   </span>
                 </div>
+                {appliedPromotion && promoDiscount > 0 && (
+                  <div className="flex justify-between text-green-700">
+                    <span>Discount ({appliedPromotion.code}):</span>
+                    <span className="font-semibold">-${promoDiscount.toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-xl font-bold text-gray-900 pt-3 border-t-2 border-gray-200">
                   <span>Total:</span>
                   <span>${total.toFixed(2)}</span>
                 </div>
+                {dutiesNotice && (
+                  <p className="text-xs text-gray-500">
+                    Excludes import duties and taxes due on delivery.
+                  </p>
+                )}
               </div>
 
               {/* Proceed to Payment Button */}
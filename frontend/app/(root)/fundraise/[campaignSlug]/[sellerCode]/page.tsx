@@ -0,0 +1,164 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useFundraisingStore } from "@/store/fundraisingStore";
+import CampaignProgress from "@/components/ui/fundraising/CampaignProgress";
+import SellerLeaderboard, {
+  LeaderboardEntry,
+} from "@/components/ui/fundraising/SellerLeaderboard";
+
+type StorefrontData = {
+  campaign: {
+    name: string;
+    slug: string;
+    organization: string;
+    description?: string | null;
+    endsAt?: string | null;
+    isOpen: boolean;
+  };
+  seller: {
+    name: string;
+    code: string;
+    goalAmount?: number | null;
+    raised: number;
+    orderCount: number;
+    rank: number | null;
+  };
+  progress: {
+    goalAmount: number;
+    raised: number;
+    orderCount: number;
+  };
+};
+
+const FundraiseStorefront = () => {
+  const params = useParams<{ campaignSlug: string; sellerCode: string }>();
+  const setReferral = useFundraisingStore((state) => state.setReferral);
+  const [data, setData] = useState<StorefrontData | null>(null);
+  const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const API_URL = process.env.NEXT_PUBLIC_API_URL;
+    const { campaignSlug, sellerCode } = params;
+
+    const load = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [sellerResp, leaderboardResp] = await Promise.all([
+          fetch(`${API_URL}/fundraising/campaigns/${campaignSlug}/sellers/${sellerCode}`),
+          fetch(`${API_URL}/fundraising/campaigns/${campaignSlug}/leaderboard`),
+        ]);
+        if (!sellerResp.ok) {
+          throw new Error("This fundraiser link is not valid");
+        }
+
+        const storefront: StorefrontData = await sellerResp.json();
+        setData(storefront);
+        if (leaderboardResp.ok) {
+          const board = await leaderboardResp.json();
+          setLeaderboard(board.leaderboard || []);
+        }
+
+        // Orders placed from here on are credited to this seller
+        if (storefront.campaign.isOpen) {
+          setReferral({
+            campaignSlug: storefront.campaign.slug,
+            sellerCode: storefront.seller.code,
+            campaignName: storefront.campaign.name,
+            sellerName: storefront.seller.name,
+          });
+        }
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : "Failed to load fundraiser");
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [params, setReferral]);
+
+  if (loading) {
+    return (
+      <div className="min-h-[60vh] flex items-center justify-center text-gray-600">
+        Loading fundraiser...
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-[60vh] flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <h1 className="text-2xl font-bold text-black">Fundraiser not found</h1>
+        <p className="text-gray-600">{error}</p>
+        <Link href="/shop" className="px-6 py-3 bg-[#FF5D39] text-white rounded-lg font-semibold">
+          Visit the shop
+        </Link>
+      </div>
+    );
+  }
+
+  const { campaign, seller, progress } = data;
+
+  return (
+    <section className="w-full bg-white py-10 md:py-16 px-4 md:px-8">
+      <div className="max-w-4xl mx-auto flex flex-col gap-8">
+        <div className="text-center">
+          <p className="text-sm uppercase tracking-wide text-[#FF5D39] font-semibold">
+            {campaign.organization}
+          </p>
+          <h1 className="text-3xl md:text-5xl font-bold text-black mt-2">{campaign.name}</h1>
+          <p className="text-lg text-gray-700 mt-3">
+            Support <span className="font-semibold">{seller.name}</span> by shopping below.
+          </p>
+          {campaign.description && (
+            <p className="text-gray-600 mt-3 max-w-2xl mx-auto">{campaign.description}</p>
+          )}
+        </div>
+
+        <div className="rounded-xl border border-gray-100 shadow-sm p-6">
+          <CampaignProgress
+            raised={progress.raised}
+            goalAmount={progress.goalAmount}
+            orderCount={progress.orderCount}
+            label="Team total"
+          />
+          {seller.goalAmount ? (
+            <div className="mt-6">
+              <CampaignProgress
+                raised={seller.raised}
+                goalAmount={seller.goalAmount}
+                orderCount={seller.orderCount}
+                label={`${seller.name}'s total`}
+              />
+            </div>
+          ) : null}
+        </div>
+
+        <div className="text-center">
+          {campaign.isOpen ? (
+            <Link
+              href="/shop"
+              className="inline-block px-8 py-3 bg-[#FF5D39] text-white rounded-lg font-semibold hover:bg-[#e54d2e]"
+            >
+              Shop to support {seller.name}
+            </Link>
+          ) : (
+            <p className="text-gray-600">This fundraiser has ended. Thank you for your support!</p>
+          )}
+        </div>
+
+        <div className="rounded-xl border border-gray-100 shadow-sm p-6">
+          <h2 className="text-xl font-bold text-black mb-4">Top sellers</h2>
+          <SellerLeaderboard entries={leaderboard} highlightCode={seller.code} />
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default FundraiseStorefront;
@@ -1,9 +1,12 @@
 'use client'
-import React, { useEffect } from 'react';
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
 import { useParams, useRouter } from 'next/navigation';
 import { useUser } from '@/hooks/useUser';
 import { useOrdersStore } from '@/store/ordersStore';
 import Image from 'next/image';
+import PurchaseReviews from '@/components/ui/PurchaseReviews';
+import TrackingTimeline, { OrderTracking } from '@/components/ui/TrackingTimeline';
 
 // Reusable Badge component
 const Badge = ({ children, color = "#FF5D39", className = "" }: { children: React.ReactNode, color?: string, className?: string }) => (
@@ -74,6 +77,7 @@ const OrderDetailPage = () => {
   const { user, loading: userLoading } = useUser();
   const id = typeof params?.id === 'string' ? params.id : Array.isArray(params?.id) ? params?.id[0] : '';
   const { order, loading, error, fetchOrderById, clearOrder } = useOrdersStore();
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
 
   // Removed authentication redirect - show message instead
 
@@ -82,6 +86,16 @@ const OrderDetailPage = () => {
     return () => clearOrder();
   }, [id, fetchOrderById, clearOrder, user]);
 
+  useEffect(() => {
+    if (!id || !user) return;
+    axios
+      .get<OrderTracking>(`${process.env.NEXT_PUBLIC_API_URL}/orders/${id}/tracking`, {
+        withCredentials: true,
+      })
+      .then(({ data }) => setTracking(data))
+      .catch(() => setTracking(null));
+  }, [id, user]);
+
   // Show message if not authenticated (no redirect)
   if (!userLoading && !user) {
     return (
@@ -179,6 +193,17 @@ const OrderDetailPage = () => {
             })}
           </div>
         </div>
+        {tracking && (
+          <div className="mt-6">
+            <div className="text-lg font-bold text-black mb-2">Tracking</div>
+            <TrackingTimeline tracking={tracking} />
+          </div>
+        )}
+        {order.status === 'delivered' && (
+          <div className="mt-6">
+            <PurchaseReviews orderId={id} />
+          </div>
+        )}
       </Card>
     </div>
   );
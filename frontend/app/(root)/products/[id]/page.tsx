@@ -5,6 +5,8 @@ import Link from "next/link";
 import Image from "next/image";
 import { useCartStore } from "@/store/cartStore";
 import { useWishlistStore } from "@/store/wishlistStore";
+import StarRating from "@/components/ui/StarRating";
+import ProductReviews from "@/components/ui/ProductReviews";
 const ORANGE = "#FF5D39";
 const BLACK = "#111111";
 
@@ -20,6 +22,8 @@ type Product = {
   stock?: number;
   flavors?: Array<{ name: string; quantity: number }>;
   sku?: string;
+  ratingAverage?: number;
+  ratingCount?: number;
   updatedAt?: string;
 };
 
@@ -291,6 +295,14 @@ const ProductDetailPage = () => {
                 {product.name}
               </h1>
 
+              {/* Rating */}
+              <a href="#reviews" className="inline-block">
+                <StarRating
+                  rating={product.ratingAverage || 0}
+                  count={product.ratingCount || 0}
+                />
+              </a>
+
               {/* SKU */}
               <div className="text-xs text-gray-500 font-mono">
                 SKU: {product.sku}
@@ -507,6 +519,11 @@ const ProductDetailPage = () => {
             </div>
           </div>
         </div>
+
+        {/* Reviews */}
+        <div id="reviews">
+          <ProductReviews productId={product.id} />
+        </div>
       </div>
     </div>
   );
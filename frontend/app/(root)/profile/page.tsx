@@ -6,6 +6,8 @@ import { useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
 // Removed VerificationGuard - profile now shows login prompt instead of redirecting
 import { useCartStore } from "@/store/cartStore";
+import SubscriptionsPanel from "@/components/ui/SubscriptionsPanel";
+import NotificationPreferences from "@/components/ui/NotificationPreferences";
 
 const BLACK = "#000000";
 
@@ -15,7 +17,7 @@ const ProfileContent = () => {
   const searchParams = useSearchParams();
   const { orders, loading: ordersLoading, fetchOrders } = useOrdersStore();
   const { clearCart } = useCartStore();
-  const [activeTab, setActiveTab] = useState<"profile" | "orders">("profile");
+  const [activeTab, setActiveTab] = useState<"profile" | "orders" | "subscriptions">("profile");
   const [editMode, setEditMode] = useState(false);
   const [ordersPage, setOrdersPage] = useState<number>(1);
   const [profileForm, setProfileForm] = useState({
@@ -232,10 +234,11 @@ const ProfileContent = () => {
             {[
               { id: "profile", label: "Profile", icon: "👤" },
               { id: "orders", label: "Order History", icon: "📦" },
+              { id: "subscriptions", label: "Subscriptions", icon: "🔁" },
             ].map((tab) => (
               <button
                 key={tab.id}
-                onClick={() => setActiveTab(tab.id as "profile" | "orders")}
+                onClick={() => setActiveTab(tab.id as "profile" | "orders" | "subscriptions")}
                 className={`flex items-center gap-2 px-6 py-3 font-medium transition-colors ${
                   activeTab === tab.id
                     ? "border-b-2 border-[#FF5D39] text-[#FF5D39]"
@@ -344,6 +347,8 @@ const ProfileContent = () => {
                   </button>
                 </div>
               )}
+
+              <NotificationPreferences />
             </div>
           )}
 
@@ -648,6 +653,9 @@ const ProfileContent = () => {
               )}
             </div>
           )}
+
+          {/* Subscriptions Tab */}
+          {activeTab === "subscriptions" && <SubscriptionsPanel />}
         </div>
       </div>
   );
@@ -7,6 +7,7 @@ import { useRouter } from "next/navigation";
 import CustomPackBuilder from "@/components/ui/shop/CustomPackBuilder";
 import { useUser } from "@/hooks/useUser";
 import { useCartStore } from "@/store/cartStore";
+import StarRating from "@/components/ui/StarRating";
 
 const ORANGE = "#FF5D39";
 const BLACK = "#111111";
@@ -23,6 +24,8 @@ type Product = {
   stock?: number;
   flavors?: Array<{ name: string; quantity: number }>;
   sku?: string;
+  ratingAverage?: number;
+  ratingCount?: number;
   updatedAt?: string;
 };
 
@@ -49,6 +52,7 @@ const ShopPage = () => {
   const [retryLoading, setRetryLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showCustomBuilder, setShowCustomBuilder] = useState(false);
+  const [sortBy, setSortBy] = useState<"newest" | "rating">("newest");
   const normalizeImageSrc = (src?: string | null, updatedAt?: string) => {
     if (!src) return "/assets/images/slider.png";
 
@@ -115,7 +119,8 @@ const ShopPage = () => {
 
         const API_URL = process.env.NEXT_PUBLIC_API_URL;
 
-        const response = await fetch(`${API_URL}/products`, {
+        const query = sortBy === "rating" ? "?sort=rating" : "";
+        const response = await fetch(`${API_URL}/products${query}`, {
           method: "GET",
           credentials: "include",
           headers: {
@@ -185,7 +190,7 @@ const ShopPage = () => {
     };
 
     fetchProducts();
-  }, []); // No dependencies - fetch once on component mount
+  }, [sortBy]); // Refetch when the sort order changes
 
   const viewPackage = (id: string) => router.push(`/products/${id}`);
 
@@ -275,12 +280,21 @@ const ShopPage = () => {
         color: BLACK,
       }}
     >
-      <div className="flex items-center gap-3 mb-8 sm:mb-10">
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-8 sm:mb-10">
         <h1 className="text-2xl sm:text-3xl lg:text-4xl font-extrabold tracking-tight">
           <span className="inline-block text-shop-gradient font-extrabold drop-shadow text-white">
             Shop Packages
           </span>
         </h1>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as "newest" | "rating")}
+          aria-label="Sort products"
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+        >
+          <option value="newest">Newest</option>
+          <option value="rating">Top rated</option>
+        </select>
       </div>
 
       <div className="mb-6 sm:mb-8">
@@ -485,6 +499,17 @@ const ShopPage = () => {
                       {pkg.description}
                     </p>
 
+                    {/* Rating */}
+                    {!!pkg.ratingCount && (
+                      <div className="mb-2">
+                        <StarRating
+                          rating={pkg.ratingAverage || 0}
+                          count={pkg.ratingCount}
+                          size="sm"
+                        />
+                      </div>
+                    )}
+
                     {/* Stock Status */}
                     {pkg.stock !== undefined && (
                       <span
@@ -2,6 +2,7 @@
 import React, { useState, useEffect, Suspense } from "react";
 import axios from "axios";
 import { useRouter, useSearchParams } from "next/navigation";
+import TrackingTimeline, { OrderTracking } from "@/components/ui/TrackingTimeline";
 
 const BLACK = "#000000";
 const ORANGE = "#FF5D39";
@@ -9,11 +10,12 @@ const ORANGE = "#FF5D39";
 interface OrderItem {
   id: string;
   productId: string;
+  productName?: string;
   quantity: number;
   price: number;
   total: number;
   customPackName?: string;
-  flavorIds: string[];
+  flavorIds?: string[];
 }
 
 interface Order {
@@ -24,43 +26,54 @@ interface Order {
   status: string;
   paymentStatus: string;
   total: number;
+  // Guest lookups only get the first name and city/state/country
   shippingAddress: {
-    name: string;
-    email: string;
-    phone: string;
-    street1: string;
-    city: string;
-    state: string;
-    zip: string;
-    country: string;
-  };
+    name?: string | null;
+    email?: string;
+    phone?: string;
+    street1?: string;
+    city?: string | null;
+    state?: string | null;
+    zip?: string;
+    country?: string | null;
+  } | null;
+  tracking?: OrderTracking;
   orderNotes?: string;
   createdAt: string;
   updatedAt: string;
   orderItems: OrderItem[];
+  redacted?: boolean;
 }
 
+type LookupInput = { orderNumber?: string; email?: string; token?: string };
+
 const TrackOrderContent = () => {
   const [orderNumber, setOrderNumber] = useState("");
+  const [email, setEmail] = useState("");
   const [order, setOrder] = useState<Order | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [paying, setPaying] = useState(false);
+  const [payError, setPayError] = useState<string | null>(null);
   const router = useRouter();
   const searchParams = useSearchParams();
+  // Emailed links carry a token that also lets the order be paid for
+  const token = searchParams.get("token");
 
-  // Auto-populate and search if order param is in URL
+  // Open the order straight away from an emailed tracking link,
+  // or pre-fill the order number when one is passed in
   useEffect(() => {
     const orderParam = searchParams.get("order");
-    if (orderParam) {
+    if (token) {
+      searchOrder({ token });
+    } else if (orderParam) {
       setOrderNumber(orderParam);
-      // Automatically search for the order
-      searchOrder(orderParam);
     }
-  }, [searchParams]);
+  }, [searchParams, token]);
 
-  const searchOrder = async (orderId: string) => {
-    if (!orderId.trim()) {
-      setError("Please enter an order number");
+  const searchOrder = async (input: LookupInput) => {
+    if (!input.token && (!input.orderNumber?.trim() || !input.email?.trim())) {
+      setError("Please enter your order number and email address");
       return;
     }
 
@@ -70,8 +83,11 @@ const TrackOrderContent = () => {
 
     try {
       const API_URL = process.env.NEXT_PUBLIC_API_URL;
-      const response = await axios.get(
-        `${API_URL}/orders/${orderId.trim()}`,
+      const response = await axios.post(
+        `${API_URL}/orders/lookup`,
+        input.token
+          ? { token: input.token }
+          : { orderNumber: input.orderNumber?.trim(), email: input.email?.trim() },
         { withCredentials: true }
       );
 
@@ -79,7 +95,7 @@ const TrackOrderContent = () => {
     } catch (err: unknown) {
       const error = err as { response?: { status?: number; data?: { message?: string } } };
       if (error.response?.status === 404) {
-        setError("Order not found. Please check your order number and try again.");
+        setError("Order not found. Please check your order number and email and try again.");
       } else if (error.response?.data?.message) {
         setError(error.response.data.message);
       } else {
@@ -90,9 +106,31 @@ const TrackOrderContent = () => {
     }
   };
 
+  const handlePayNow = async () => {
+    if (!token) return;
+    setPaying(true);
+    setPayError(null);
+
+    try {
+      const API_URL = process.env.NEXT_PUBLIC_API_URL;
+      const response = await axios.post(`${API_URL}/payments/pay-order`, { token });
+      window.location.href = response.data.url;
+    } catch (err: unknown) {
+      const error = err as { response?: { data?: { message?: string } } };
+      setPayError(error.response?.data?.message || "Couldn't start payment. Please try again.");
+      setPaying(false);
+    }
+  };
+
+  const canPay =
+    !!token &&
+    !!order &&
+    ["pending", "failed"].includes(order.paymentStatus?.toLowerCase()) &&
+    order.status !== "cancelled";
+
   const handleTrackOrder = async (e: React.FormEvent) => {
     e.preventDefault();
-    searchOrder(orderNumber);
+    searchOrder({ orderNumber, email });
   };
 
   const getStatusColor = (status: string) => {
@@ -134,7 +172,7 @@ const TrackOrderContent = () => {
             Track Your Order
           </h1>
           <p className="text-lg text-gray-600">
-            Enter your order number to view order details
+            Enter your order number and the email you ordered with
           </p>
         </div>
 
@@ -161,6 +199,23 @@ const TrackOrderContent = () => {
               </p>
             </div>
 
+            <div>
+              <label
+                htmlFor="orderEmail"
+                className="block text-sm font-medium text-gray-700 mb-2"
+              >
+                Email Address
+              </label>
+              <input
+                type="email"
+                id="orderEmail"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="The email used at checkout"
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500 text-gray-900 text-base"
+              />
+            </div>
+
             {error && (
               <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
                 <p className="text-sm text-red-600">{error}</p>
@@ -226,6 +281,24 @@ const TrackOrderContent = () => {
                 )}
               </div>
 
+              {/* Payment */}
+              {canPay && (
+                <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                  <p className="text-sm text-yellow-800 mb-3">
+                    This order hasn&apos;t been paid for yet. We&apos;ll ship it as soon as it is.
+                  </p>
+                  <button
+                    onClick={handlePayNow}
+                    disabled={paying}
+                    className="px-6 py-3 rounded-lg font-semibold text-white transition-all duration-200 disabled:opacity-50"
+                    style={{ backgroundColor: ORANGE }}
+                  >
+                    {paying ? "Redirecting..." : `Pay $${order.total.toFixed(2)}`}
+                  </button>
+                  {payError && <p className="text-sm text-red-600 mt-2">{payError}</p>}
+                </div>
+              )}
+
               {/* Order Items */}
               <div>
                 <h3 className="text-xl font-bold mb-4" style={{ color: BLACK }}>
@@ -240,7 +313,7 @@ const TrackOrderContent = () => {
                       >
                         <div className="flex-1">
                           <p className="font-semibold text-gray-900">
-                            {item.customPackName || `Product #${item.productId}`}
+                            {item.productName || item.customPackName || `Product #${item.productId}`}
                           </p>
                           <p className="text-sm text-gray-600">
                             Quantity: {item.quantity || 0}
@@ -262,6 +335,16 @@ const TrackOrderContent = () => {
                 </div>
               </div>
 
+              {/* Shipment Tracking */}
+              {order.tracking && (
+                <div>
+                  <h3 className="text-xl font-bold mb-4" style={{ color: BLACK }}>
+                    Tracking
+                  </h3>
+                  <TrackingTimeline tracking={order.tracking} />
+                </div>
+              )}
+
               {/* Shipping Address */}
               <div>
                 <h3 className="text-xl font-bold mb-4" style={{ color: BLACK }}>
@@ -272,10 +355,12 @@ const TrackOrderContent = () => {
                     <p className="font-semibold text-gray-900">
                       {order.shippingAddress.name || 'N/A'}
                     </p>
-                    <p className="text-gray-600">{order.shippingAddress.street1 || 'N/A'}</p>
+                    {order.shippingAddress.street1 && (
+                      <p className="text-gray-600">{order.shippingAddress.street1}</p>
+                    )}
                     <p className="text-gray-600">
                       {order.shippingAddress.city || 'N/A'}, {order.shippingAddress.state || 'N/A'}{" "}
-                      {order.shippingAddress.zip || 'N/A'}
+                      {order.shippingAddress.zip || ''}
                     </p>
                     <p className="text-gray-600">{order.shippingAddress.country || 'N/A'}</p>
                     {order.shippingAddress.email && (
@@ -292,6 +377,11 @@ const TrackOrderContent = () => {
                 ) : (
                   <p className="text-gray-500">No shipping address available</p>
                 )}
+                {order.redacted && (
+                  <p className="text-xs text-gray-500 mt-2">
+                    Some details are hidden. Log in to the account that placed this order to see everything.
+                  </p>
+                )}
               </div>
 
               {/* Order Notes */}
@@ -0,0 +1,81 @@
+"use client";
+import React, { useEffect, useState, Suspense } from "react";
+import axios from "axios";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+
+const UnsubscribeContent = () => {
+  const searchParams = useSearchParams();
+  const [status, setStatus] = useState<"working" | "done" | "error">("working");
+  const [message, setMessage] = useState("");
+
+  useEffect(() => {
+    const token = searchParams.get("token");
+    if (!token) {
+      setStatus("error");
+      setMessage("This unsubscribe link is missing its token.");
+      return;
+    }
+
+    axios
+      .post(`${process.env.NEXT_PUBLIC_API_URL}/notifications/unsubscribe`, { token })
+      .then(({ data }) => {
+        setStatus("done");
+        setMessage(data.message);
+      })
+      .catch((err: unknown) => {
+        setStatus("error");
+        setMessage(
+          (axios.isAxiosError(err) && err.response?.data?.message) ||
+            "We couldn't unsubscribe you. Please try again later."
+        );
+      });
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-[60vh] flex items-center justify-center p-4">
+      <div className="max-w-md w-full bg-white rounded-2xl shadow-xl p-8 text-center">
+        {status === "working" ? (
+          <>
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-orange-500 mx-auto"></div>
+            <p className="mt-4 text-gray-600">Updating your email preferences...</p>
+          </>
+        ) : (
+          <>
+            <h2 className="text-2xl font-bold text-gray-900 mb-2">
+              {status === "done" ? "You're unsubscribed" : "Something went wrong"}
+            </h2>
+            <p className="text-gray-600 mb-6">{message}</p>
+            {status === "done" && (
+              <p className="text-sm text-gray-500 mb-6">
+                Changed your mind? You can turn shipping updates back on from your profile.
+              </p>
+            )}
+            <Link
+              href="/profile"
+              className="inline-block bg-[#FF5D39] text-white font-semibold px-6 py-3 rounded-lg hover:bg-[#e54d2e] transition-colors"
+            >
+              Go to Profile
+            </Link>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const UnsubscribePage = () => {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-[60vh] flex items-center justify-center">
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      }
+    >
+      <UnsubscribeContent />
+    </Suspense>
+  );
+};
+
+export default UnsubscribePage;
@@ -4,7 +4,8 @@ import { useWishlistStore, WishlistItem } from '@/store/wishlistStore';
 import { useCartStore } from '@/store/cartStore';
 import Link from 'next/link';
 import Image from 'next/image';
-import { Heart, Trash2, ShoppingCart } from 'lucide-react';
+import { Heart, Trash2, ShoppingCart, Bell, BellOff } from 'lucide-react';
+import { showErrorToast, showSuccessToast } from '@/utils/errorHandler';
 import { useRouter } from 'next/navigation';
 
 const ORANGE = '#FF5D39';
@@ -19,7 +20,9 @@ const WishlistPage = () => {
     items, 
     removeItem, 
     clearWishlist, 
-    getItemCount 
+    getItemCount,
+    synced,
+    setStockAlert
   } = useWishlistStore();
   
   const { addItem } = useCartStore();
@@ -64,10 +67,12 @@ const WishlistPage = () => {
     clearAll: boolean;
     movingToCart: { [key: string]: boolean };
     removing: { [key: string]: boolean };
+    alerting: { [key: string]: boolean };
   }>({
     clearAll: false,
     movingToCart: {},
-    removing: {}
+    removing: {},
+    alerting: {}
   });
 
   // Removed authentication check - wishlist is public
@@ -129,6 +134,29 @@ const WishlistPage = () => {
     }
   };
 
+  const handleToggleAlert = async (item: WishlistItem) => {
+    setLoadingStates(prev => ({
+      ...prev,
+      alerting: { ...prev.alerting, [item.productId]: true }
+    }));
+
+    try {
+      await setStockAlert(item.productId, !item.notifyWhenInStock);
+      showSuccessToast(
+        item.notifyWhenInStock
+          ? 'Back-in-stock alert turned off'
+          : "We'll email you when it's back in stock"
+      );
+    } catch {
+      showErrorToast('Failed to update back-in-stock alert');
+    } finally {
+      setLoadingStates(prev => ({
+        ...prev,
+        alerting: { ...prev.alerting, [item.productId]: false }
+      }));
+    }
+  };
+
   // Wishlist is now public - works with localStorage for guests
   return (
     <div className="min-h-screen bg-white">
@@ -252,8 +280,34 @@ const WishlistPage = () => {
                       <span className="text-2xl font-bold text-[#FF5D39]">
                         ${item.price.toFixed(2)}
                       </span>
+                      {item.inStock === false && (
+                        <span className="text-xs font-semibold px-2 py-1 rounded-full bg-gray-100 text-gray-700">
+                          Out of stock
+                        </span>
+                      )}
                     </div>
 
+                    {/* Back-in-stock alerts need an account to email */}
+                    {synced && (item.inStock === false || item.notifyWhenInStock) && (
+                      <button
+                        onClick={() => handleToggleAlert(item)}
+                        disabled={loadingStates.alerting[item.productId]}
+                        className="w-full mb-3 flex items-center justify-center gap-2 text-sm font-medium py-2 rounded-lg border border-gray-200 text-black hover:bg-gray-50 transition-colors disabled:opacity-60 disabled:cursor-not-allowed"
+                      >
+                        {item.notifyWhenInStock ? (
+                          <>
+                            <BellOff className="w-4 h-4" />
+                            Stop back-in-stock alerts
+                          </>
+                        ) : (
+                          <>
+                            <Bell className="w-4 h-4" />
+                            Email me when it&apos;s back
+                          </>
+                        )}
+                      </button>
+                    )}
+
                     {/* Actions */}
                     <div className="flex flex-col sm:flex-row gap-3">
                       <button
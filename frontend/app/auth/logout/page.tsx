@@ -3,6 +3,7 @@ import React, { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import axios from 'axios';
 import AuthCard from '@/components/ui/auth/AuthCard';
+import { useWishlistStore } from '@/store/wishlistStore';
 
 const LogoutPage = () => {
   const [status, setStatus] = useState('Logging out...');
@@ -14,6 +15,8 @@ const LogoutPage = () => {
       try {
         const API_URL = process.env.NEXT_PUBLIC_API_URL;
         await axios.post(`${API_URL}/auth/logout`, {}, { withCredentials: true });
+        // The account's wishlist shouldn't stay behind in this browser
+        useWishlistStore.getState().resetWishlist();
         setStatus('Logged out successfully.');
         setTimeout(() => router.replace('/'), 600);
       } catch (e: unknown) {
@@ -12,11 +12,26 @@ import { toast } from "react-toastify";
 import SimpleModal from "@/components/ui/SimpleModal";
 import EditProductModal from "@/components/ui/EditProductModal";
 import EditFlavorModal from "@/components/ui/EditFlavorModal";
+import InventoryHistory from "@/components/ui/InventoryHistory";
+import PromotionsManager from "@/components/ui/PromotionsManager";
+import PackDefinitionsManager from "@/components/ui/PackDefinitionsManager";
+import ShippingBoxesManager from "@/components/ui/ShippingBoxesManager";
+import ShippingLocationsManager from "@/components/ui/ShippingLocationsManager";
+import ShippingRulesManager from "@/components/ui/ShippingRulesManager";
+import FraudRulesManager from "@/components/ui/FraudRulesManager";
+import { FLAVOR_CATEGORIES } from "@/constant";
+import UpcomingRenewals from "@/components/ui/UpcomingRenewals";
+import ReviewModeration from "@/components/ui/ReviewModeration";
+import EmailTemplatePreview from "@/components/ui/EmailTemplatePreview";
+import EmailOutbox from "@/components/ui/EmailOutbox";
+import { appendPackedSize } from "@/components/ui/PackedSizeFields";
+import { appendCustomsInfo } from "@/components/ui/CustomsInfoFields";
 
 type Flavor = {
   id: string;
   name: string;
   aliases: string[];
+  category?: string | null;
   active: boolean;
   createdAt: string;
   updatedAt: string;
@@ -74,6 +89,12 @@ type Product = {
   stock?: number;
   sku?: string;
   flavors?: ProductFlavor[];
+  weightOz?: number | null;
+  lengthIn?: number | null;
+  widthIn?: number | null;
+  heightIn?: number | null;
+  hsCode?: string | null;
+  countryOfOrigin?: string | null;
   createdAt?: string;
   updatedAt?: string;
 };
@@ -95,7 +116,7 @@ const AdminPageContent = () => {
   const searchParams = useSearchParams();
   const router = useRouter();
   const [activeTab, setActiveTab] = useState<
-    "products" | "flavors" | "categories" | "inventory" | "config"
+    "products" | "flavors" | "categories" | "inventory" | "promotions" | "subscriptions" | "reviews" | "emails" | "config"
   >("products");
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   const [loading, setLoading] = useState(false);
@@ -272,6 +293,7 @@ const AdminPageContent = () => {
   }>({});
 
   // Config state
+  const [inventoryHistoryKey, setInventoryHistoryKey] = useState(0);
   const [systemConfig, setSystemConfig] = useState<SystemConfig | null>(null);
 
   // Products state
@@ -313,6 +335,7 @@ const AdminPageContent = () => {
   const [newFlavor, setNewFlavor] = useState({
     name: "",
     aliases: "",
+    category: "",
     active: true,
   });
   const [flavorImageFile, setFlavorImageFile] = useState<File | null>(null);
@@ -329,9 +352,9 @@ const AdminPageContent = () => {
     const tabParam = searchParams.get("tab");
     if (
       tabParam &&
-      ["products", "flavors", "categories", "inventory", "config"].includes(tabParam)
+      ["products", "flavors", "categories", "inventory", "promotions", "subscriptions", "reviews", "emails", "config"].includes(tabParam)
     ) {
-      setActiveTab(tabParam as "products" | "flavors" | "categories" | "inventory" | "config");
+      setActiveTab(tabParam as "products" | "flavors" | "categories" | "inventory" | "promotions" | "subscriptions" | "reviews" | "emails" | "config");
     }
   }, [searchParams]);
 
@@ -794,6 +817,7 @@ const AdminPageContent = () => {
       const formData = new FormData();
       formData.append("name", newFlavor.name.trim());
       formData.append("aliases", JSON.stringify(aliasesArray));
+      formData.append("category", newFlavor.category);
       formData.append("active", "true");
 
       if (flavorImageFile) {
@@ -807,7 +831,7 @@ const AdminPageContent = () => {
 
       // Refresh the flavors list to ensure we have the complete data
       await fetchFlavors();
-      setNewFlavor({ name: "", aliases: "", active: true });
+      setNewFlavor({ name: "", aliases: "", category: "", active: true });
       setFlavorImageFile(null);
       setFlavorImagePreview(null);
       toast.success("Flavor created successfully");
@@ -948,7 +972,10 @@ const AdminPageContent = () => {
       const formData = new FormData();
       formData.append("name", updatedFlavor.name);
       formData.append("aliases", JSON.stringify(updatedFlavor.aliases));
+      formData.append("category", updatedFlavor.category || "");
       formData.append("active", String(updatedFlavor.active));
+      appendPackedSize(formData, updatedFlavor);
+      appendCustomsInfo(formData, updatedFlavor);
 
       if (imageFile) {
         formData.append("flavorImage", imageFile);
@@ -1207,6 +1234,8 @@ const AdminPageContent = () => {
             normalizeFlavorsForSave(overrides.flavors ?? row.flavors)
           )
         );
+        appendPackedSize(formData, { ...row, ...overrides });
+        appendCustomsInfo(formData, { ...row, ...overrides });
         formData.append("productImage", hasFile);
 
         // Optimistic update
@@ -1255,6 +1284,15 @@ const AdminPageContent = () => {
         isActive: overrides.isActive ?? row.isActive ?? true,
         sku: overrides.sku ?? row.sku,
         flavors: normalizeFlavorsForSave(overrides.flavors ?? row.flavors),
+        weightOz: overrides.weightOz !== undefined ? overrides.weightOz : row.weightOz,
+        lengthIn: overrides.lengthIn !== undefined ? overrides.lengthIn : row.lengthIn,
+        widthIn: overrides.widthIn !== undefined ? overrides.widthIn : row.widthIn,
+        heightIn: overrides.heightIn !== undefined ? overrides.heightIn : row.heightIn,
+        hsCode: overrides.hsCode !== undefined ? overrides.hsCode : row.hsCode,
+        countryOfOrigin:
+          overrides.countryOfOrigin !== undefined
+            ? overrides.countryOfOrigin
+            : row.countryOfOrigin,
       };
 
       // Optimistic update
@@ -1389,6 +1427,7 @@ const AdminPageContent = () => {
 
       await fetchInventoryAlerts(); // Refresh alerts
       await fetchFlavors(); // Refresh flavors with updated inventory data
+      setInventoryHistoryKey((key) => key + 1); // Show the new movement
     } catch {
       setError("Failed to update inventory");
       toast.error("Failed to update inventory");
@@ -1426,6 +1465,9 @@ const AdminPageContent = () => {
         case "inventory":
           await fetchInventoryAlerts();
           break;
+        case "promotions":
+          await fetchFlavors();
+          break;
         case "config":
           await fetchSystemConfig();
           break;
@@ -1589,12 +1631,16 @@ const AdminPageContent = () => {
               { id: "flavors", label: "Flavors", icon: "🍭" },
               { id: "categories", label: "Categories", icon: "🏷️" },
               { id: "inventory", label: "Inventory", icon: "📊" },
+              { id: "promotions", label: "Promotions", icon: "🎟️" },
+              { id: "subscriptions", label: "Subscriptions", icon: "🔁" },
+              { id: "reviews", label: "Reviews", icon: "⭐" },
+              { id: "emails", label: "Emails", icon: "✉️" },
               { id: "config", label: "Config", icon: "⚙️" },
         ].map((tab) => (
           <button
             key={tab.id}
                 onClick={() => {
-                  setActiveTab(tab.id as "products" | "flavors" | "categories" | "inventory" | "config");
+                  setActiveTab(tab.id as "products" | "flavors" | "categories" | "inventory" | "promotions" | "subscriptions" | "reviews" | "emails" | "config");
                   setMenuOpen(false);
                 }}
                 className={`w-full flex items-center gap-3 px-4 py-3 text-left font-medium transition-colors ${
@@ -2227,6 +2273,24 @@ const AdminPageContent = () => {
                     className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5D39] text-sm sm:text-base text-gray-900"
                             />
                           </div>
+
+                          <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-700 mb-1 sm:mb-2">
+                              Category
+                            </label>
+                            <select
+                    value={newFlavor.category}
+                    onChange={(e) => setNewFlavor({ ...newFlavor, category: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#FF5D39] text-sm sm:text-base text-gray-900"
+                            >
+                    <option value="">No category</option>
+                    {FLAVOR_CATEGORIES.map((category) => (
+                      <option key={category} value={category}>
+                        {category}
+                      </option>
+                    ))}
+                            </select>
+                          </div>
                         </div>
 
               <div className="flex items-center gap-2">
@@ -2692,9 +2756,23 @@ const AdminPageContent = () => {
               </div>
             )}
           </div>
+
+          {/* Inventory History */}
+          <InventoryHistory flavors={flavors} refreshKey={inventoryHistoryKey} />
         </div>
       )}
 
+      {/* Promotions Tab */}
+      {activeTab === "promotions" && <PromotionsManager flavors={flavors} />}
+
+      {/* Subscriptions Tab */}
+      {activeTab === "subscriptions" && <UpcomingRenewals />}
+
+      {/* Reviews Tab */}
+      {activeTab === "reviews" && <ReviewModeration />}
+
+      {activeTab === "emails" && <EmailOutbox />}
+
       {/* System Configuration Tab */}
       {activeTab === "config" && (
         <div className="space-y-4 sm:space-y-6">
@@ -2866,6 +2944,18 @@ const AdminPageContent = () => {
         </div>
             </div>
           </div>
+
+          {/* Pack Sizes */}
+          <PackDefinitionsManager onChange={fetchSystemConfig} />
+          <ShippingBoxesManager />
+          <ShippingLocationsManager />
+          <ShippingRulesManager />
+
+          {/* Fraud Rules */}
+          <FraudRulesManager />
+
+          {/* Email Templates */}
+          <EmailTemplatePreview />
         </div>
       )}
 
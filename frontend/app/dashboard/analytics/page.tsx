@@ -3,6 +3,7 @@ import React, { useEffect, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import axios from "axios";
 import { useUser } from "@/hooks/useUser";
+import OrderReviewQueue from "@/components/ui/OrderReviewQueue";
 
 interface AnalyticsData {
   todayStats: {
@@ -101,6 +102,11 @@ const AnalyticsPage = () => {
     return new Intl.NumberFormat("en-US").format(num);
   };
 
+  // Share of scored orders, 0 when nothing has been scored yet
+  const formatRiskShare = (count: number, totalProcessed: number) => {
+    return totalProcessed > 0 ? ((count / totalProcessed) * 100).toFixed(1) : "0.0";
+  };
+
   if (userLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -324,11 +330,10 @@ const AnalyticsPage = () => {
                       {formatNumber(analyticsData.riskStats.autoApproved)}
                     </span>
                     <p className="text-xs text-gray-500">
-                      {(
-                        (analyticsData.riskStats.autoApproved /
-                          analyticsData.riskStats.totalProcessed) *
-                        100
-                      ).toFixed(1)}
+                      {formatRiskShare(
+                        analyticsData.riskStats.autoApproved,
+                        analyticsData.riskStats.totalProcessed
+                      )}
                       %
                     </p>
                   </div>
@@ -344,11 +349,10 @@ const AnalyticsPage = () => {
                       {formatNumber(analyticsData.riskStats.manualReview)}
                     </span>
                     <p className="text-xs text-gray-500">
-                      {(
-                        (analyticsData.riskStats.manualReview /
-                          analyticsData.riskStats.totalProcessed) *
-                        100
-                      ).toFixed(1)}
+                      {formatRiskShare(
+                        analyticsData.riskStats.manualReview,
+                        analyticsData.riskStats.totalProcessed
+                      )}
                       %
                     </p>
                   </div>
@@ -364,11 +368,10 @@ const AnalyticsPage = () => {
                       {formatNumber(analyticsData.riskStats.highRisk)}
                     </span>
                     <p className="text-xs text-gray-500">
-                      {(
-                        (analyticsData.riskStats.highRisk /
-                          analyticsData.riskStats.totalProcessed) *
-                        100
-                      ).toFixed(1)}
+                      {formatRiskShare(
+                        analyticsData.riskStats.highRisk,
+                        analyticsData.riskStats.totalProcessed
+                      )}
                       %
                     </p>
                   </div>
@@ -440,6 +443,9 @@ const AnalyticsPage = () => {
             </div>
           </div>
 
+          {/* Orders held by risk screening */}
+          <OrderReviewQueue onChange={fetchAnalytics} />
+
           {/* Hourly Performance Chart */}
           <div className="bg-white rounded-lg border p-6 shadow-sm">
             <h3 className="text-lg font-semibold text-black mb-4">
@@ -3,6 +3,7 @@ import React, { useEffect, useMemo, useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import axios from "axios";
 import { useUser } from "@/hooks/useUser";
+import RefundOrderModal from "@/components/ui/RefundOrderModal";
 
 type Order = {
   id: string;
@@ -12,6 +13,9 @@ type Order = {
   status: string;
   paymentStatus: string;
   total: number;
+  refundedTotal?: number;
+  riskScore?: number | null;
+  reviewStatus?: string | null;
   createdAt?: string;
   user?: { id?: string; name?: string | null; email?: string | null };
   orderItems?: Array<{
@@ -32,10 +36,24 @@ type Order = {
   shippingService?: string | null;
   shippingCost?: number | null;
   shippingError?: string | null;
+  fulfillmentLocation?: { id: string; name: string } | null;
 };
 
 type Pagination = { pages: number; total: number };
 
+type BatchLabelResult = {
+  orderId: string;
+  status: "purchased" | "existing" | "skipped" | "failed";
+  message?: string;
+  trackingNumber?: string | null;
+};
+
+type LabelBatch = {
+  message: string;
+  results: BatchLabelResult[];
+  labelledIds: string[];
+};
+
 type BulkAction =
   | "confirm"
   | "ship"
@@ -61,6 +79,8 @@ const AdminOrdersPage = () => {
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
   const [selectedOrders, setSelectedOrders] = useState<Set<string>>(new Set());
   const [bulkActionLoading, setBulkActionLoading] = useState<boolean>(false);
+  const [labelBatch, setLabelBatch] = useState<LabelBatch | null>(null);
+  const [downloading, setDownloading] = useState<"labels" | "slips" | null>(null);
   const [sortBy, setSortBy] = useState("createdAt");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
   const [dateFilter, setDateFilter] = useState("");
@@ -70,6 +90,7 @@ const AdminOrdersPage = () => {
   });
 
   // Auto-refresh for high-traffic monitoring
+  const [refundOrderId, setRefundOrderId] = useState<string | null>(null);
   const [autoRefresh, setAutoRefresh] = useState<boolean>(false);
   const [refreshInterval, setRefreshInterval] = useState<number>(30000); // 30 seconds
 
@@ -256,6 +277,100 @@ const AdminOrdersPage = () => {
     }
   };
 
+  // Paid orders that haven't gone out and aren't held for review
+  const isReadyToShip = (order: Order) =>
+    order.paymentStatus === "paid" &&
+    !["shipped", "delivered", "cancelled"].includes(order.status) &&
+    order.reviewStatus !== "under_review" &&
+    order.reviewStatus !== "rejected";
+
+  const handleSelectReadyToShip = () => {
+    setSelectedOrders(
+      new Set(adminOrders.filter(isReadyToShip).map((order) => order.id))
+    );
+  };
+
+  // Buy labels for the selected orders and mark the labelled ones shipped
+  const handleBatchLabels = async () => {
+    if (selectedOrders.size === 0) {
+      setError("Please select orders to buy labels for");
+      return;
+    }
+    if (
+      !confirm(
+        `Buy shipping labels for ${selectedOrders.size} order(s) and mark them shipped?`
+      )
+    ) {
+      return;
+    }
+
+    setBulkActionLoading(true);
+    setError(null);
+
+    try {
+      const API_URL = process.env.NEXT_PUBLIC_API_URL;
+      const { data } = await axios.post<LabelBatch>(
+        `${API_URL}/orders/admin/fulfillment/labels`,
+        { orderIds: Array.from(selectedOrders) },
+        { withCredentials: true }
+      );
+
+      setLabelBatch(data);
+      setSelectedOrders(new Set());
+      await fetchAdminOrders();
+    } catch (e) {
+      const message = axios.isAxiosError(e) ? e.response?.data?.message : null;
+      setError(message || "Failed to buy labels");
+    } finally {
+      setBulkActionLoading(false);
+    }
+  };
+
+  // PDFs come back as blobs, so errors do too
+  const downloadPdf = async (
+    kind: "labels" | "slips",
+    orderIds: string[]
+  ) => {
+    if (orderIds.length === 0) return;
+    setDownloading(kind);
+    setError(null);
+
+    try {
+      const API_URL = process.env.NEXT_PUBLIC_API_URL;
+      const path =
+        kind === "labels"
+          ? "orders/admin/fulfillment/labels/pdf"
+          : "orders/admin/fulfillment/packing-slips";
+      const { data } = await axios.post(
+        `${API_URL}/${path}`,
+        { orderIds },
+        { withCredentials: true, responseType: "blob" }
+      );
+
+      const url = URL.createObjectURL(data);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = kind === "labels" ? "labels.pdf" : "packing-slips.pdf";
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 10000);
+    } catch (e) {
+      let message: string | null = null;
+      if (axios.isAxiosError(e) && e.response?.data instanceof Blob) {
+        try {
+          message = JSON.parse(await e.response.data.text()).message;
+        } catch {
+          message = null;
+        }
+      }
+      setError(
+        message ||
+          (kind === "labels" ? "Failed to download labels" : "Failed to generate packing slips")
+      );
+    } finally {
+      setDownloading(null);
+    }
+  };
+
   // Selection handlers
   const handleSelectAll = () => {
     if (selectedOrders.size === adminOrders.length) {
@@ -298,6 +413,8 @@ const AdminOrdersPage = () => {
         return "bg-red-100 text-red-800";
       case "shipping_failed":
         return "bg-red-100 text-red-800";
+      case "under_review":
+        return "bg-orange-100 text-orange-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
@@ -311,11 +428,19 @@ const AdminOrdersPage = () => {
         return "bg-green-100 text-green-800";
       case "failed":
         return "bg-red-100 text-red-800";
+      case "partially_refunded":
+        return "bg-orange-100 text-orange-800";
+      case "refunded":
+        return "bg-purple-100 text-purple-800";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
+  // Only money that was actually captured can go back
+  const canRefund = (order: Order) =>
+    order.paymentStatus === "paid" || order.paymentStatus === "partially_refunded";
+
   if (userLoading) {
     return (
       <div className="min-h-screen bg-white flex items-center justify-center">
@@ -366,6 +491,14 @@ const AdminOrdersPage = () => {
             )}
           </div>
 
+          <button
+            onClick={handleSelectReadyToShip}
+            disabled={loading}
+            className="px-3 sm:px-4 py-2 bg-[#FF5D39] text-white rounded-lg hover:bg-[#e54d2e] transition-colors disabled:opacity-50 text-sm sm:text-base"
+          >
+            Select Ready to Ship
+          </button>
+
           <button
             onClick={fetchAdminOrders}
             disabled={loading}
@@ -425,6 +558,7 @@ const AdminOrdersPage = () => {
               <option value="delivered">Delivered</option>
               <option value="cancelled">Cancelled</option>
               <option value="shipping_failed">Shipping Failed</option>
+              <option value="under_review">Under Review</option>
             </select>
           </div>
 
@@ -449,6 +583,8 @@ const AdminOrdersPage = () => {
               <option value="pending">Pending</option>
               <option value="paid">Paid</option>
               <option value="failed">Failed</option>
+              <option value="partially_refunded">Partially refunded</option>
+              <option value="refunded">Refunded</option>
             </select>
           </div>
 
@@ -622,6 +758,20 @@ const AdminOrdersPage = () => {
                 >
                   Cancel All
                 </button>
+                <button
+                  onClick={handleBatchLabels}
+                  disabled={bulkActionLoading}
+                  className="px-3 py-1 bg-[#FF5D39] text-white text-sm rounded hover:bg-[#e54d2e] transition-colors disabled:opacity-50"
+                >
+                  {bulkActionLoading ? "Working..." : "Buy Labels & Ship"}
+                </button>
+                <button
+                  onClick={() => downloadPdf("slips", Array.from(selectedOrders))}
+                  disabled={downloading !== null}
+                  className="px-3 py-1 bg-gray-700 text-white text-sm rounded hover:bg-gray-800 transition-colors disabled:opacity-50"
+                >
+                  {downloading === "slips" ? "Generating..." : "Packing Slips"}
+                </button>
               </div>
             </div>
             <button
@@ -634,6 +784,58 @@ const AdminOrdersPage = () => {
         </div>
       )}
 
+      {/* Label Batch Results */}
+      {labelBatch && (
+        <div className="bg-white border border-gray-200 rounded-lg p-4 mb-6">
+          <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-semibold text-black">Label Batch</h3>
+              <p className="text-sm text-gray-600">{labelBatch.message}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => downloadPdf("labels", labelBatch.labelledIds)}
+                disabled={downloading !== null || labelBatch.labelledIds.length === 0}
+                className="px-3 py-1 bg-[#FF5D39] text-white text-sm rounded hover:bg-[#e54d2e] transition-colors disabled:opacity-50"
+              >
+                {downloading === "labels" ? "Merging..." : "Print Labels"}
+              </button>
+              <button
+                onClick={() => downloadPdf("slips", labelBatch.labelledIds)}
+                disabled={downloading !== null || labelBatch.labelledIds.length === 0}
+                className="px-3 py-1 bg-gray-700 text-white text-sm rounded hover:bg-gray-800 transition-colors disabled:opacity-50"
+              >
+                {downloading === "slips" ? "Generating..." : "Packing Slips"}
+              </button>
+              <button
+                onClick={() => setLabelBatch(null)}
+                className="text-gray-600 hover:text-gray-800 text-sm px-2"
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+
+          {labelBatch.results.some(
+            (result) => result.status === "failed" || result.status === "skipped"
+          ) && (
+            <ul className="mt-3 space-y-1 text-sm">
+              {labelBatch.results
+                .filter((result) => result.status === "failed" || result.status === "skipped")
+                .map((result) => (
+                  <li
+                    key={result.orderId}
+                    className={result.status === "failed" ? "text-red-700" : "text-gray-600"}
+                  >
+                    <span className="font-mono">#{result.orderId.slice(-8)}</span>{" "}
+                    {result.status === "failed" ? "failed" : "skipped"}: {result.message}
+                  </li>
+                ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Error Display */}
       {error && (
         <div className="mb-4 p-3 rounded border border-red-200 bg-red-50 text-red-700">
@@ -776,6 +978,15 @@ const AdminOrdersPage = () => {
                       >
                         {order.status}
                       </span>
+                      {order.riskScore != null && (
+                        <div
+                          className={`text-xs mt-1 ${
+                            order.riskScore >= 70 ? "text-red-600" : "text-gray-500"
+                          }`}
+                        >
+                          Risk {order.riskScore}
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <span
@@ -790,6 +1001,11 @@ const AdminOrdersPage = () => {
                       <div className="font-semibold text-black">
                         ${order.total.toFixed(2)}
                       </div>
+                      {!!order.refundedTotal && (
+                        <div className="text-xs text-purple-700">
+                          -${order.refundedTotal.toFixed(2)} refunded
+                        </div>
+                      )}
                     </td>
                     <td className="px-4 py-3">
                       <div className="text-sm text-gray-600">
@@ -859,6 +1075,11 @@ const AdminOrdersPage = () => {
                         ) : (
                           <span className="text-gray-400 text-xs">No tracking</span>
                         )}
+                        {order.fulfillmentLocation && (
+                          <div className="text-xs text-gray-500">
+                            Ships from {order.fulfillmentLocation.name}
+                          </div>
+                        )}
                       </div>
                     </td>
                     <td className="px-4 py-3">
@@ -874,6 +1095,14 @@ const AdminOrdersPage = () => {
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
                           </svg>
                         </span>
+                        {(canRefund(order) || !!order.refundedTotal) && (
+                          <button
+                            onClick={() => setRefundOrderId(order.id)}
+                            className="block mt-2 text-xs text-[#FF5D39] hover:underline"
+                          >
+                            {canRefund(order) ? "Refund" : "Refunds"}
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -925,6 +1154,11 @@ const AdminOrdersPage = () => {
                   <div className="font-semibold text-black text-lg">
                     ${order.total.toFixed(2)}
                   </div>
+                  {!!order.refundedTotal && (
+                    <div className="text-xs text-purple-700">
+                      -${order.refundedTotal.toFixed(2)} refunded
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -1032,6 +1266,14 @@ const AdminOrdersPage = () => {
                 >
                   View
                 </button>
+                {(canRefund(order) || !!order.refundedTotal) && (
+                  <button
+                    onClick={() => setRefundOrderId(order.id)}
+                    className="px-3 py-1 bg-[#FF5D39] text-white rounded text-xs hover:bg-[#e54d2e] transition-colors"
+                  >
+                    {canRefund(order) ? "Refund" : "Refunds"}
+                  </button>
+                )}
               </div>
 
               {/* Error Display */}
@@ -1109,6 +1351,12 @@ const AdminOrdersPage = () => {
           </div>
         </div>
       )}
+
+      <RefundOrderModal
+        orderId={refundOrderId}
+        onClose={() => setRefundOrderId(null)}
+        onRefunded={fetchAdminOrders}
+      />
     </div>
   );
 };
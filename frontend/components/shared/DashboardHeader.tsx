@@ -5,6 +5,7 @@ import Image from "next/image";
 import { usePathname, useRouter } from "next/navigation";
 import axios from "axios";
 import { useUser } from "@/hooks/useUser";
+import { useWishlistStore } from "@/store/wishlistStore";
 
 const NavLink = ({
   href,
@@ -64,11 +65,13 @@ export default function DashboardHeader() {
       const API_URL = process.env.NEXT_PUBLIC_API_URL;
       await axios.post(`${API_URL}/auth/logout`, {}, { withCredentials: true });
       clearUser(); // Clear user state immediately
+      useWishlistStore.getState().resetWishlist();
       router.push("/"); // Redirect to home page
     } catch (err) {
       console.error("Logout failed:", err);
       // Even if logout fails, clear local state
       clearUser();
+      useWishlistStore.getState().resetWishlist();
       router.push("/");
     } finally {
       setLogoutLoading(false);
@@ -26,7 +26,11 @@ const Header = () => {
   const API_URL = process.env.NEXT_PUBLIC_API_URL;
   const { user, loading, error, clearUser } = useUser();
   const { getItemCount } = useCartStore();
-  const { getItemCount: getWishlistItemCount } = useWishlistStore();
+  const {
+    getItemCount: getWishlistItemCount,
+    syncWithBackend: syncWishlist,
+    resetWishlist,
+  } = useWishlistStore();
   const [mobileDropdownOpen, setMobileDropdownOpen] = useState<string | null>(
     null
   );
@@ -41,15 +45,24 @@ const Header = () => {
     try {
       await axios.post(`${API_URL}/auth/logout`, {}, { withCredentials: true });
       clearUser(); // Clear user state immediately
+      resetWishlist();
       window.location.reload();
     } catch (err) {
       console.error("Logout failed:", err);
       // Even if logout fails, clear local state
       clearUser();
+      resetWishlist();
       window.location.reload();
     }
   };
 
+  // Merge the browser's wishlist into the account once signed in
+  useEffect(() => {
+    if (user?.id) {
+      syncWishlist();
+    }
+  }, [user?.id, syncWishlist]);
+
   // Close dropdown on outside click
   useEffect(() => {
     function handleClickOutside(event: MouseEvent) {
@@ -0,0 +1,73 @@
+import React from 'react';
+
+export type CustomsInfo = {
+  hsCode?: string | null;
+  countryOfOrigin?: string | null;
+};
+
+export type CustomsInfoForm = Record<keyof CustomsInfo, string>;
+
+export const toCustomsInfoForm = (info: CustomsInfo): CustomsInfoForm => ({
+  hsCode: info.hsCode || '',
+  countryOfOrigin: info.countryOfOrigin || '',
+});
+
+// Blank fields become null so customs falls back to the defaults
+export const fromCustomsInfoForm = (form: CustomsInfoForm): CustomsInfo => ({
+  hsCode: form.hsCode.trim() || null,
+  countryOfOrigin: form.countryOfOrigin.trim().toUpperCase() || null,
+});
+
+// Multipart forms send blanks, which the API reads as "clear this field"
+export const appendCustomsInfo = (formData: FormData, info: CustomsInfo) => {
+  for (const key of ['hsCode', 'countryOfOrigin'] as const) {
+    if (info[key] !== undefined) formData.append(key, info[key] || '');
+  }
+};
+
+interface CustomsInfoFieldsProps {
+  value: CustomsInfoForm;
+  onChange: (value: CustomsInfoForm) => void;
+}
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  border: '1px solid #d1d5db',
+  borderRadius: '4px',
+  fontSize: '14px',
+  color: '#1f2937',
+  backgroundColor: 'white',
+};
+
+const CustomsInfoFields: React.FC<CustomsInfoFieldsProps> = ({ value, onChange }) => (
+  <div style={{ marginBottom: '16px' }}>
+    <label style={{ display: 'block', marginBottom: '4px', fontWeight: '500', color: '#374151' }}>
+      Customs
+    </label>
+    <div style={{ display: 'grid', gridTemplateColumns: '2fr 1fr', gap: '8px' }}>
+      <input
+        type="text"
+        value={value.hsCode}
+        onChange={(e) => onChange({ ...value, hsCode: e.target.value })}
+        placeholder="HS code (e.g. 1806.90)"
+        title="HS code"
+        style={inputStyle}
+      />
+      <input
+        type="text"
+        maxLength={2}
+        value={value.countryOfOrigin}
+        onChange={(e) => onChange({ ...value, countryOfOrigin: e.target.value.toUpperCase() })}
+        placeholder="Origin (US)"
+        title="Country of origin"
+        style={inputStyle}
+      />
+    </div>
+    <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+      Declared on international labels. Origin defaults to US.
+    </p>
+  </div>
+);
+
+export default CustomsInfoFields;
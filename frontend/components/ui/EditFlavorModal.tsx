@@ -1,9 +1,21 @@
 import React, { useState, useEffect } from 'react';
+import { FLAVOR_CATEGORIES } from '@/constant';
+import PackedSizeFields, {
+  PackedSize,
+  fromPackedSizeForm,
+  toPackedSizeForm,
+} from './PackedSizeFields';
+import CustomsInfoFields, {
+  CustomsInfo,
+  fromCustomsInfoForm,
+  toCustomsInfoForm,
+} from './CustomsInfoFields';
 
-interface Flavor {
+interface Flavor extends PackedSize, CustomsInfo {
   id: string;
   name: string;
   aliases: string[];
+  category?: string | null;
   active: boolean;
   createdAt: string;
   updatedAt: string;
@@ -28,8 +40,11 @@ const EditFlavorModal: React.FC<EditFlavorModalProps> = ({
   const [formData, setFormData] = useState({
     name: '',
     aliases: '',
+    category: '',
     active: true,
   });
+  const [size, setSize] = useState(toPackedSizeForm({}));
+  const [customs, setCustoms] = useState(toCustomsInfoForm({}));
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
 
@@ -39,8 +54,11 @@ const EditFlavorModal: React.FC<EditFlavorModalProps> = ({
       setFormData({
         name: flavor.name,
         aliases: flavor.aliases.join(', '),
+        category: flavor.category || '',
         active: flavor.active,
       });
+      setSize(toPackedSizeForm(flavor));
+      setCustoms(toCustomsInfoForm(flavor));
       // Set image preview if flavor has an image
       if (flavor.imageUrl) {
         // Normalize the image URL to include the API base URL
@@ -97,7 +115,10 @@ const EditFlavorModal: React.FC<EditFlavorModalProps> = ({
         ...flavor,
         name: formData.name,
         aliases: formData.aliases.split(',').map(alias => alias.trim()).filter(alias => alias.length > 0),
+        category: formData.category || null,
         active: formData.active,
+        ...fromPackedSizeForm(size),
+        ...fromCustomsInfoForm(customs),
       }, imageFile);
     }
   };
@@ -192,6 +213,36 @@ const EditFlavorModal: React.FC<EditFlavorModalProps> = ({
             />
           </div>
 
+          <div style={{ marginBottom: '16px' }}>
+            <label style={{ display: 'block', marginBottom: '4px', fontWeight: '500', color: '#374151' }}>
+              Category
+            </label>
+            <select
+              value={formData.category}
+              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
+              style={{
+                width: '100%',
+                padding: '8px 12px',
+                border: '1px solid #d1d5db',
+                borderRadius: '4px',
+                fontSize: '14px',
+                color: '#1f2937',
+                backgroundColor: 'white',
+              }}
+            >
+              <option value="">No category</option>
+              {FLAVOR_CATEGORIES.map((category) => (
+                <option key={category} value={category}>
+                  {category}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <PackedSizeFields value={size} onChange={setSize} />
+
+          <CustomsInfoFields value={customs} onChange={setCustoms} />
+
           <div style={{ marginBottom: '24px' }}>
             <label style={{ display: 'flex', alignItems: 'center', gap: '8px', cursor: 'pointer' }}>
               <input
@@ -1,4 +1,14 @@
 import React, { useState, useEffect } from 'react';
+import PackedSizeFields, {
+  PackedSize,
+  fromPackedSizeForm,
+  toPackedSizeForm,
+} from './PackedSizeFields';
+import CustomsInfoFields, {
+  CustomsInfo,
+  fromCustomsInfoForm,
+  toCustomsInfoForm,
+} from './CustomsInfoFields';
 
 interface ProductFlavor {
   id: string;
@@ -6,7 +16,7 @@ interface ProductFlavor {
   quantity: number;
 }
 
-interface Product {
+interface Product extends PackedSize, CustomsInfo {
   id: string;
   name: string;
   description?: string | null;
@@ -47,6 +57,8 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
     sku: '',
     flavors: [] as ProductFlavor[],
   });
+  const [size, setSize] = useState(toPackedSizeForm({}));
+  const [customs, setCustoms] = useState(toCustomsInfoForm({}));
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
 
@@ -62,6 +74,8 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
         sku: product.sku || '',
         flavors: product.flavors || [],
       });
+      setSize(toPackedSizeForm(product));
+      setCustoms(toCustomsInfoForm(product));
       // Set image preview if product has an image
       if (product.imageUrl) {
         // Normalize the image URL to include the API base URL
@@ -117,6 +131,8 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
       onSave({
         ...product,
         ...formData,
+        ...fromPackedSizeForm(size),
+        ...fromCustomsInfoForm(customs),
       }, imageFile);
     }
   };
@@ -307,6 +323,10 @@ const EditProductModal: React.FC<EditProductModalProps> = ({
             />
           </div>
 
+          <PackedSizeFields value={size} onChange={setSize} />
+
+          <CustomsInfoFields value={customs} onChange={setCustoms} />
+
           {/* Flavors Section */}
           <div style={{ marginBottom: '16px' }}>
             <label style={{ display: 'block', marginBottom: '8px', fontWeight: '600', color: '#1f2937' }}>
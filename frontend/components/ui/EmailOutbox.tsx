@@ -0,0 +1,247 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { showErrorToast, showSuccessToast } from "@/utils/errorHandler";
+
+type EmailStatus = "pending" | "sending" | "retrying" | "sent" | "dead";
+
+type OutboundEmail = {
+  id: string;
+  template: string;
+  to: string;
+  bcc?: string | null;
+  subject?: string | null;
+  status: EmailStatus;
+  attempts: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string | null;
+  transport?: string | null;
+  sentAt?: string | null;
+  resentFromId?: string | null;
+  createdAt: string;
+};
+
+type EmailPreview = {
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const STATUS_COLORS: Record<EmailStatus, string> = {
+  pending: "bg-gray-100 text-gray-800",
+  sending: "bg-blue-100 text-blue-800",
+  retrying: "bg-yellow-100 text-yellow-800",
+  sent: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+};
+
+const STATUSES: EmailStatus[] = ["pending", "sending", "retrying", "sent", "dead"];
+
+const EmailOutbox = () => {
+  const [emails, setEmails] = useState<OutboundEmail[]>([]);
+  const [counts, setCounts] = useState<Partial<Record<EmailStatus, number>>>({});
+  const [status, setStatus] = useState<EmailStatus | "">("");
+  const [search, setSearch] = useState("");
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+  // undefined while loading; null when the email has no stored content
+  const [preview, setPreview] = useState<EmailPreview | null | undefined>(undefined);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchEmails = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/emails`, {
+        params: { status: status || undefined, search: search.trim() || undefined, page, limit: 25 },
+        withCredentials: true,
+      });
+      setEmails(data.emails || []);
+      setCounts(data.counts || {});
+      setPages(data.pagination?.pages || 1);
+    } catch {
+      showErrorToast("Failed to load emails");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL, status, search, page]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const toggle = async (email: OutboundEmail) => {
+    if (openId === email.id) {
+      setOpenId(null);
+      return;
+    }
+    setOpenId(email.id);
+    setPreview(undefined);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/emails/${email.id}`, {
+        withCredentials: true,
+      });
+      setPreview(data.preview);
+    } catch {
+      setPreview(null);
+      showErrorToast("Failed to load email");
+    }
+  };
+
+  const resend = async (email: OutboundEmail) => {
+    setBusyId(email.id);
+    try {
+      const { data } = await axios.post(
+        `${API_URL}/admin/emails/${email.id}/resend`,
+        {},
+        { withCredentials: true }
+      );
+      showSuccessToast(data.message);
+      await fetchEmails();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showErrorToast(message || "Failed to resend email");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-black">Email Outbox</h3>
+          <p className="text-sm text-gray-500">
+            Customer emails are queued here and retried with backoff; dead ones gave up after every attempt
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setPage(1);
+            }}
+            placeholder="Search recipient or subject"
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+          />
+          <select
+            value={status}
+            onChange={(e) => {
+              setStatus(e.target.value as EmailStatus | "");
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+          >
+            <option value="">All</option>
+            {STATUSES.map((value) => (
+              <option key={value} value={value}>
+                {value} ({counts[value] || 0})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading emails...</div>
+      ) : emails.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">No emails to show.</div>
+      ) : (
+        <div className="space-y-3">
+          {emails.map((email) => (
+            <div key={email.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <button onClick={() => toggle(email)} className="text-left min-w-0">
+                  <div className="font-semibold text-black truncate">{email.subject || email.template}</div>
+                  <div className="text-sm text-gray-600 truncate">
+                    {email.to}
+                    {email.bcc ? ` · bcc ${email.bcc}` : ""}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {email.template} · queued {new Date(email.createdAt).toLocaleString()} · attempt{" "}
+                    {email.attempts}/{email.maxAttempts}
+                    {email.sentAt && ` · sent ${new Date(email.sentAt).toLocaleString()} via ${email.transport}`}
+                    {email.status === "retrying" &&
+                      ` · next try ${new Date(email.nextAttemptAt).toLocaleString()}`}
+                    {email.resentFromId && " · resend"}
+                  </div>
+                </button>
+                <div className="flex items-center gap-2 shrink-0">
+                  <span
+                    className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[email.status]}`}
+                  >
+                    {email.status}
+                  </span>
+                  {email.status !== "sending" && (
+                    <button
+                      onClick={() => resend(email)}
+                      disabled={busyId === email.id}
+                      className="px-3 py-1.5 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+                    >
+                      {email.status === "sent" ? "Resend" : "Retry now"}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {email.lastError && (
+                <p className="mt-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded p-2 break-words">
+                  {email.lastError}
+                </p>
+              )}
+
+              {openId === email.id && (
+                <div className="mt-3 border border-gray-200 rounded-lg overflow-hidden">
+                  {preview === undefined ? (
+                    <p className="p-4 text-sm text-gray-500">Loading...</p>
+                  ) : preview ? (
+                    <iframe
+                      title={`Email ${email.id}`}
+                      srcDoc={preview.html}
+                      sandbox=""
+                      className="w-full h-[500px] bg-white"
+                    />
+                  ) : (
+                    <p className="p-4 text-sm text-gray-500">
+                      No preview. Emails with one-time codes aren&apos;t kept after sending.
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="flex justify-center items-center gap-3 mt-4 text-sm">
+          <button
+            onClick={() => setPage((p) => Math.max(p - 1, 1))}
+            disabled={page === 1}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-600">
+            Page {page} of {pages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(p + 1, pages))}
+            disabled={page === pages}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailOutbox;
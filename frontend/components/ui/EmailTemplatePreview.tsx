@@ -0,0 +1,105 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { showErrorToast } from "@/utils/errorHandler";
+
+type EmailTemplateSummary = {
+  name: string;
+  description: string;
+  subject: string;
+};
+
+type EmailPreview = {
+  name: string;
+  subject: string;
+  html: string;
+  text: string;
+};
+
+const EmailTemplatePreview = () => {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([]);
+  const [selected, setSelected] = useState("");
+  const [preview, setPreview] = useState<EmailPreview | null>(null);
+  const [format, setFormat] = useState<"html" | "text">("html");
+  const [loading, setLoading] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/admin/email-templates`, { withCredentials: true })
+      .then(({ data }) => {
+        setTemplates(data.templates || []);
+        if (data.templates?.length) setSelected(data.templates[0].name);
+      })
+      .catch(() => showErrorToast("Failed to load email templates"));
+  }, [API_URL]);
+
+  useEffect(() => {
+    if (!selected) return;
+    setLoading(true);
+    axios
+      .get(`${API_URL}/admin/email-templates/${selected}/preview`, { withCredentials: true })
+      .then(({ data }) => setPreview(data.preview))
+      .catch(() => showErrorToast("Failed to render email template"))
+      .finally(() => setLoading(false));
+  }, [API_URL, selected]);
+
+  const current = templates.find((template) => template.name === selected);
+
+  return (
+    <div className="bg-white rounded-lg border p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-black">Email Templates</h3>
+          <p className="text-sm text-gray-500">Preview customer emails rendered with sample data</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={selected}
+            onChange={(e) => setSelected(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+          >
+            {templates.map((template) => (
+              <option key={template.name} value={template.name}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as "html" | "text")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+          >
+            <option value="html">HTML</option>
+            <option value="text">Plain text</option>
+          </select>
+        </div>
+      </div>
+
+      {current && <p className="text-sm text-gray-600 mb-2">{current.description}</p>}
+
+      {loading || !preview ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Rendering...</div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <div className="px-4 py-2 bg-gray-50 border-b text-sm text-gray-900">
+            <span className="font-medium">Subject:</span> {preview.subject}
+          </div>
+          {format === "html" ? (
+            <iframe
+              title={`${preview.name} preview`}
+              srcDoc={preview.html}
+              sandbox=""
+              className="w-full h-[600px] bg-white"
+            />
+          ) : (
+            <pre className="p-4 text-sm text-gray-800 whitespace-pre-wrap font-mono">{preview.text}</pre>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailTemplatePreview;
@@ -0,0 +1,575 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "react-toastify";
+
+type FraudRule = {
+  id: string;
+  name: string;
+  condition: string;
+  threshold: number | null;
+  windowHours: number | null;
+  weight: number;
+  active: boolean;
+  sortOrder: number;
+};
+
+type Thresholds = {
+  highRiskThreshold: number;
+  autoApproveThreshold: number;
+};
+
+type Outcome = "auto_approved" | "monitor" | "held";
+
+type DryRunResult = {
+  days: number;
+  ordersScored: number;
+  current: Record<Outcome, number>;
+  proposed: Record<Outcome, number>;
+  changedCount: number;
+  changed: Array<{
+    orderId: string;
+    total: number;
+    createdAt: string;
+    currentScore: number;
+    proposedScore: number;
+    currentOutcome: Outcome;
+    proposedOutcome: Outcome;
+    proposedFlags: string[];
+  }>;
+};
+
+const OUTCOME_LABELS: Record<Outcome, string> = {
+  auto_approved: "Auto-approved",
+  monitor: "Monitor",
+  held: "Held for review",
+};
+
+const OUTCOME_COLORS: Record<Outcome, string> = {
+  auto_approved: "bg-green-100 text-green-800",
+  monitor: "bg-yellow-100 text-yellow-800",
+  held: "bg-red-100 text-red-800",
+};
+
+const CONDITION_LABELS: Record<string, string> = {
+  order_total: "Order total at least ($)",
+  account_age: "Account younger than (hours)",
+  guest_checkout: "Guest checkout",
+  address_mismatch: "Billing differs from shipping",
+  email_velocity: "Orders from the email",
+  ip_velocity: "Orders from the IP",
+  address_reuse: "Other customers at the address",
+};
+
+const BOOLEAN_CONDITIONS = ["guest_checkout", "address_mismatch"];
+
+const emptyRule: FraudRule = {
+  id: "",
+  name: "",
+  condition: "order_total",
+  threshold: null,
+  windowHours: null,
+  weight: 10,
+  active: true,
+  sortOrder: 0,
+};
+
+const FraudRulesManager: React.FC = () => {
+  const [rules, setRules] = useState<FraudRule[]>([]);
+  const [draft, setDraft] = useState<FraudRule[]>([]);
+  const [settings, setSettings] = useState<Thresholds | null>(null);
+  const [draftSettings, setDraftSettings] = useState<Thresholds | null>(null);
+  const [conditions, setConditions] = useState<string[]>([]);
+  const [windowedConditions, setWindowedConditions] = useState<string[]>([]);
+  const [newRule, setNewRule] = useState<FraudRule | null>(null);
+  const [days, setDays] = useState("30");
+  const [preview, setPreview] = useState<DryRunResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [previewing, setPreviewing] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/fraud-rules`, {
+        withCredentials: true,
+      });
+      setRules(data.rules || []);
+      setDraft(data.rules || []);
+      setSettings(data.settings);
+      setDraftSettings(data.settings);
+      setConditions(data.conditions || []);
+      setWindowedConditions(data.windowedConditions || []);
+    } catch {
+      toast.error("Failed to load fraud rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const updateDraft = (id: string, changes: Partial<FraudRule>) => {
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...changes } : rule)));
+    setPreview(null);
+  };
+
+  const changedRules = draft.filter((rule) => {
+    const saved = rules.find((r) => r.id === rule.id);
+    return (
+      saved &&
+      (saved.weight !== rule.weight ||
+        saved.threshold !== rule.threshold ||
+        saved.windowHours !== rule.windowHours ||
+        saved.active !== rule.active)
+    );
+  });
+  const settingsChanged =
+    !!settings &&
+    !!draftSettings &&
+    (settings.highRiskThreshold !== draftSettings.highRiskThreshold ||
+      settings.autoApproveThreshold !== draftSettings.autoApproveThreshold);
+  const hasChanges = changedRules.length > 0 || settingsChanged;
+
+  const runPreview = async () => {
+    setPreviewing(true);
+    try {
+      const { data } = await axios.post(
+        `${API_URL}/admin/fraud-rules/dry-run`,
+        { rules: draft, thresholds: draftSettings, days },
+        { withCredentials: true }
+      );
+      setPreview(data);
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to preview rules");
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const saveChanges = async () => {
+    setSaving(true);
+    try {
+      // Thresholds first: they're validated together, so a bad pair saves nothing
+      if (settingsChanged) {
+        await axios.put(`${API_URL}/admin/fraud-settings`, draftSettings, {
+          withCredentials: true,
+        });
+      }
+      for (const rule of changedRules) {
+        await axios.put(
+          `${API_URL}/admin/fraud-rules/${rule.id}`,
+          {
+            weight: rule.weight,
+            threshold: rule.threshold,
+            windowHours: rule.windowHours,
+            active: rule.active,
+          },
+          { withCredentials: true }
+        );
+      }
+      toast.success("Fraud rules saved");
+      setPreview(null);
+      await fetchRules();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to save fraud rules");
+      await fetchRules();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const createRule = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newRule) return;
+    setSaving(true);
+    try {
+      await axios.post(`${API_URL}/admin/fraud-rules`, newRule, {
+        withCredentials: true,
+      });
+      toast.success("Fraud rule created");
+      setNewRule(null);
+      setPreview(null);
+      await fetchRules();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to create fraud rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteRule = async (rule: FraudRule) => {
+    if (!window.confirm(`Delete the rule "${rule.name}"?`)) return;
+    try {
+      await axios.delete(`${API_URL}/admin/fraud-rules/${rule.id}`, {
+        withCredentials: true,
+      });
+      setPreview(null);
+      await fetchRules();
+    } catch {
+      toast.error("Failed to delete fraud rule");
+    }
+  };
+
+  const toNumberOrNull = (value: string) => (value === "" ? null : Number(value));
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+  const cellInputClass =
+    "w-20 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 bg-white disabled:bg-gray-100";
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-black">Fraud Rules</h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            Matching rules add their weight to an order&apos;s risk score
+          </p>
+        </div>
+        <button
+          onClick={() => setNewRule({ ...emptyRule })}
+          className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e]"
+        >
+          New Rule
+        </button>
+      </div>
+
+      {newRule && (
+        <form onSubmit={createRule} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Flag</label>
+              <input
+                type="text"
+                required
+                value={newRule.id}
+                onChange={(e) => setNewRule({ ...newRule, id: e.target.value.toUpperCase() })}
+                placeholder="e.g., LARGE_ORDER"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                required
+                value={newRule.name}
+                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Condition</label>
+              <select
+                value={newRule.condition}
+                onChange={(e) => setNewRule({ ...newRule, condition: e.target.value })}
+                className={inputClass}
+              >
+                {conditions.map((condition) => (
+                  <option key={condition} value={condition}>
+                    {CONDITION_LABELS[condition] || condition}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Weight</label>
+              <input
+                type="number"
+                min="-100"
+                max="100"
+                required
+                value={newRule.weight}
+                onChange={(e) => setNewRule({ ...newRule, weight: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </div>
+            {!BOOLEAN_CONDITIONS.includes(newRule.condition) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Threshold</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  required
+                  value={newRule.threshold ?? ""}
+                  onChange={(e) => setNewRule({ ...newRule, threshold: toNumberOrNull(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+            {windowedConditions.includes(newRule.condition) && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Window (hours)</label>
+                <input
+                  type="number"
+                  min="1"
+                  required
+                  value={newRule.windowHours ?? ""}
+                  onChange={(e) => setNewRule({ ...newRule, windowHours: toNumberOrNull(e.target.value) })}
+                  className={inputClass}
+                />
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+            >
+              {saving ? "Saving..." : "Create Rule"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setNewRule(null)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading fraud rules...</div>
+      ) : (
+        <>
+          {draftSettings && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Hold for review at score
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={draftSettings.highRiskThreshold}
+                  onChange={(e) => {
+                    setDraftSettings({ ...draftSettings, highRiskThreshold: Number(e.target.value) });
+                    setPreview(null);
+                  }}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Auto-approve at or below score
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  max="99"
+                  value={draftSettings.autoApproveThreshold}
+                  onChange={(e) => {
+                    setDraftSettings({ ...draftSettings, autoApproveThreshold: Number(e.target.value) });
+                    setPreview(null);
+                  }}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                  <th className="py-2 pr-4">Rule</th>
+                  <th className="py-2 pr-4">Threshold</th>
+                  <th className="py-2 pr-4">Window (h)</th>
+                  <th className="py-2 pr-4">Weight</th>
+                  <th className="py-2 pr-4">Active</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {draft.map((rule) => (
+                  <tr key={rule.id} className="border-b last:border-0 text-gray-900">
+                    <td className="py-2 pr-4">
+                      <div className="font-semibold">{rule.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {rule.id} · {CONDITION_LABELS[rule.condition] || rule.condition}
+                      </div>
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="number"
+                        min="0"
+                        step="any"
+                        disabled={BOOLEAN_CONDITIONS.includes(rule.condition)}
+                        value={rule.threshold ?? ""}
+                        onChange={(e) => updateDraft(rule.id, { threshold: toNumberOrNull(e.target.value) })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="number"
+                        min="1"
+                        disabled={!windowedConditions.includes(rule.condition)}
+                        value={rule.windowHours ?? ""}
+                        onChange={(e) => updateDraft(rule.id, { windowHours: toNumberOrNull(e.target.value) })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="number"
+                        min="-100"
+                        max="100"
+                        value={rule.weight}
+                        onChange={(e) => updateDraft(rule.id, { weight: Number(e.target.value) })}
+                        className={cellInputClass}
+                      />
+                    </td>
+                    <td className="py-2 pr-4">
+                      <input
+                        type="checkbox"
+                        checked={rule.active}
+                        onChange={(e) => updateDraft(rule.id, { active: e.target.checked })}
+                      />
+                    </td>
+                    <td className="py-2 text-right">
+                      <button onClick={() => deleteRule(rule)} className="text-red-600 hover:underline">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 flex flex-col sm:flex-row sm:items-center gap-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              Preview against the last
+              <input
+                type="number"
+                min="1"
+                max="365"
+                value={days}
+                onChange={(e) => setDays(e.target.value)}
+                className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 bg-white"
+              />
+              days of orders
+            </label>
+            <div className="flex gap-2 sm:ml-auto">
+              <button
+                onClick={runPreview}
+                disabled={previewing}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-60"
+              >
+                {previewing ? "Scoring..." : "Preview"}
+              </button>
+              <button
+                onClick={() => {
+                  setDraft(rules);
+                  setDraftSettings(settings);
+                  setPreview(null);
+                }}
+                disabled={!hasChanges}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200 disabled:opacity-60"
+              >
+                Reset
+              </button>
+              <button
+                onClick={saveChanges}
+                disabled={!hasChanges || saving}
+                className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+              >
+                {saving ? "Saving..." : "Save Changes"}
+              </button>
+            </div>
+          </div>
+
+          {preview && (
+            <div className="mt-6">
+              <h3 className="text-sm font-semibold text-black mb-2">
+                {preview.ordersScored} orders from the last {preview.days} days ·{" "}
+                {preview.changedCount} would score differently
+              </h3>
+              <div className="grid grid-cols-3 gap-3 mb-4">
+                {(Object.keys(OUTCOME_LABELS) as Outcome[]).map((outcome) => (
+                  <div key={outcome} className="p-3 border border-gray-200 rounded-lg">
+                    <div className="text-xs text-gray-500">{OUTCOME_LABELS[outcome]}</div>
+                    <div className="text-lg font-semibold text-black">
+                      {preview.current[outcome]} → {preview.proposed[outcome]}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              {preview.changed.length > 0 && (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                        <th className="py-2 pr-4">Order</th>
+                        <th className="py-2 pr-4">Total</th>
+                        <th className="py-2 pr-4">Score</th>
+                        <th className="py-2 pr-4">Outcome</th>
+                        <th className="py-2">Flags</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.changed.map((order) => (
+                        <tr key={order.orderId} className="border-b last:border-0 text-gray-900">
+                          <td className="py-2 pr-4">
+                            <div className="font-mono text-xs">{order.orderId}</div>
+                            <div className="text-xs text-gray-500">
+                              {new Date(order.createdAt).toLocaleString()}
+                            </div>
+                          </td>
+                          <td className="py-2 pr-4">${order.total.toFixed(2)}</td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            {order.currentScore} → {order.proposedScore}
+                          </td>
+                          <td className="py-2 pr-4 whitespace-nowrap">
+                            <span
+                              className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                                OUTCOME_COLORS[order.currentOutcome]
+                              }`}
+                            >
+                              {OUTCOME_LABELS[order.currentOutcome]}
+                            </span>
+                            {order.currentOutcome !== order.proposedOutcome && (
+                              <>
+                                {" → "}
+                                <span
+                                  className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                                    OUTCOME_COLORS[order.proposedOutcome]
+                                  }`}
+                                >
+                                  {OUTCOME_LABELS[order.proposedOutcome]}
+                                </span>
+                              </>
+                            )}
+                          </td>
+                          <td className="py-2 text-xs text-gray-600">
+                            {order.proposedFlags.join(", ") || "None"}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FraudRulesManager;
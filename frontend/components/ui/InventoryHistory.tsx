@@ -0,0 +1,231 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+
+type StockMovement = {
+  id: string;
+  flavorId: string;
+  type: string;
+  onHandDelta: number;
+  reservedDelta: number;
+  onHandAfter: number;
+  reservedAfter: number;
+  reason?: string | null;
+  orderId?: string | null;
+  cartLineId?: string | null;
+  createdAt: string;
+  flavor: { id: string; name: string };
+};
+
+interface InventoryHistoryProps {
+  flavors: Array<{ id: string; name: string }>;
+  // Bump to reload after stock is edited elsewhere on the page
+  refreshKey?: number;
+}
+
+const MOVEMENT_TYPES = [
+  "receipt",
+  "sale",
+  "reservation",
+  "release",
+  "adjustment",
+  "return",
+];
+
+const typeStyles: Record<string, string> = {
+  receipt: "bg-green-100 text-green-800",
+  sale: "bg-blue-100 text-blue-800",
+  reservation: "bg-orange-100 text-orange-800",
+  release: "bg-gray-100 text-gray-800",
+  adjustment: "bg-purple-100 text-purple-800",
+  return: "bg-teal-100 text-teal-800",
+};
+
+const formatDelta = (delta: number) => {
+  if (delta === 0) return "–";
+  return delta > 0 ? `+${delta}` : `${delta}`;
+};
+
+const deltaColor = (delta: number) =>
+  delta > 0 ? "text-green-600" : delta < 0 ? "text-red-600" : "text-gray-400";
+
+const InventoryHistory: React.FC<InventoryHistoryProps> = ({
+  flavors,
+  refreshKey = 0,
+}) => {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [flavorFilter, setFlavorFilter] = useState("");
+  const [typeFilter, setTypeFilter] = useState("");
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMovements = useCallback(async () => {
+    const API_URL = process.env.NEXT_PUBLIC_API_URL;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: "20" });
+      if (flavorFilter) params.append("flavorId", flavorFilter);
+      if (typeFilter) params.append("type", typeFilter);
+
+      const { data } = await axios.get(
+        `${API_URL}/admin/inventory/movements?${params.toString()}`,
+        { withCredentials: true }
+      );
+      setMovements(data.movements || []);
+      setPages(data.pagination?.pages || 1);
+    } catch {
+      setError("Failed to load inventory history");
+      setMovements([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, flavorFilter, typeFilter]);
+
+  useEffect(() => {
+    fetchMovements();
+  }, [fetchMovements, refreshKey]);
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-3 sm:mb-4">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <div className="w-8 h-8 sm:w-10 sm:h-10 bg-gray-800 rounded-lg flex items-center justify-center">
+            <svg className="w-4 h-4 sm:w-5 sm:h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </div>
+          <div>
+            <h2 className="text-lg sm:text-xl font-bold text-black">Inventory History</h2>
+            <p className="text-xs sm:text-sm text-gray-600">Every stock change, newest first</p>
+          </div>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <select
+            value={flavorFilter}
+            onChange={(e) => {
+              setFlavorFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+          >
+            <option value="">All flavors</option>
+            {flavors.map((flavor) => (
+              <option key={flavor.id} value={flavor.id}>
+                {flavor.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={typeFilter}
+            onChange={(e) => {
+              setTypeFilter(e.target.value);
+              setPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39] capitalize"
+          >
+            <option value="">All movements</option>
+            {MOVEMENT_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {type}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading history...</div>
+      ) : movements.length === 0 ? (
+        <div className="text-center py-8 text-gray-600 text-sm">No stock movements recorded yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                <th className="py-2 pr-4">When</th>
+                <th className="py-2 pr-4">Flavor</th>
+                <th className="py-2 pr-4">Type</th>
+                <th className="py-2 pr-4 text-right">On Hand</th>
+                <th className="py-2 pr-4 text-right">Reserved</th>
+                <th className="py-2">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => (
+                <tr key={movement.id} className="border-b last:border-0 text-gray-900">
+                  <td className="py-2 pr-4 whitespace-nowrap text-gray-600">
+                    {new Date(movement.createdAt).toLocaleString()}
+                  </td>
+                  <td className="py-2 pr-4 font-medium">{movement.flavor.name}</td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+                        typeStyles[movement.type] || "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {movement.type}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-right whitespace-nowrap">
+                    <span className={deltaColor(movement.onHandDelta)}>
+                      {formatDelta(movement.onHandDelta)}
+                    </span>
+                    <span className="text-gray-500"> → {movement.onHandAfter}</span>
+                  </td>
+                  <td className="py-2 pr-4 text-right whitespace-nowrap">
+                    <span className={deltaColor(movement.reservedDelta)}>
+                      {formatDelta(movement.reservedDelta)}
+                    </span>
+                    <span className="text-gray-500"> → {movement.reservedAfter}</span>
+                  </td>
+                  <td className="py-2 text-gray-600">
+                    {movement.reason || "–"}
+                    {movement.orderId && (
+                      <span className="block text-xs text-gray-400">
+                        Order #{movement.orderId.slice(-8)}
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-between mt-4 text-sm">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1 || loading}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-600">
+            Page {page} of {pages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(pages, p + 1))}
+            disabled={page >= pages || loading}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InventoryHistory;
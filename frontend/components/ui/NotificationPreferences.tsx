@@ -0,0 +1,64 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import axios from "axios";
+import { showErrorToast, showSuccessToast } from "@/utils/errorHandler";
+
+// Email preferences on the profile page
+const NotificationPreferences = () => {
+  const [shippingEmails, setShippingEmails] = useState<boolean | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  useEffect(() => {
+    axios
+      .get(`${API_URL}/notifications/preferences`, { withCredentials: true })
+      .then(({ data }) => setShippingEmails(data.preferences.shippingEmails))
+      .catch(() => setShippingEmails(null));
+  }, [API_URL]);
+
+  const toggleShippingEmails = async () => {
+    if (shippingEmails === null) return;
+
+    setSaving(true);
+    try {
+      const { data } = await axios.put(
+        `${API_URL}/notifications/preferences`,
+        { shippingEmails: !shippingEmails },
+        { withCredentials: true }
+      );
+      setShippingEmails(data.preferences.shippingEmails);
+      showSuccessToast(data.message);
+    } catch {
+      showErrorToast("Failed to update your email preferences");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (shippingEmails === null) return null;
+
+  return (
+    <div className="mt-8 pt-6 border-t border-gray-200">
+      <h3 className="text-lg font-bold text-black mb-3">Email Notifications</h3>
+      <label className="flex items-start gap-3 cursor-pointer">
+        <input
+          type="checkbox"
+          checked={shippingEmails}
+          disabled={saving}
+          onChange={toggleShippingEmails}
+          className="mt-1 w-4 h-4 accent-[#FF5D39]"
+        />
+        <span>
+          <span className="block text-sm font-medium text-black">Shipping updates</span>
+          <span className="block text-xs text-gray-500">
+            Emails when your order ships, is out for delivery, is delivered, or runs into a delivery problem.
+            Order confirmations and payment problems are always sent.
+          </span>
+        </span>
+      </label>
+    </div>
+  );
+};
+
+export default NotificationPreferences;
@@ -0,0 +1,193 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { showErrorToast, showSuccessToast, showWarningToast } from "@/utils/errorHandler";
+
+type ReviewOrder = {
+  id: string;
+  total: number;
+  paymentStatus: string;
+  riskScore: number | null;
+  riskRecommendations: string[];
+  riskFlagDetails: Array<{ flag: string; description: string }>;
+  guestEmail?: string | null;
+  createdAt: string;
+  user?: { name?: string | null; email?: string | null } | null;
+  orderItems: Array<{
+    id: string;
+    quantity: number;
+    customPackName?: string | null;
+    product?: { name: string } | null;
+  }>;
+};
+
+interface OrderReviewQueueProps {
+  onChange?: () => void; // Called after a decision, e.g. to refresh risk stats
+}
+
+const getRiskColor = (score: number | null) => {
+  if (score === null) return "bg-gray-100 text-gray-800";
+  if (score >= 70) return "bg-red-100 text-red-800";
+  if (score >= 40) return "bg-yellow-100 text-yellow-800";
+  return "bg-green-100 text-green-800";
+};
+
+const OrderReviewQueue: React.FC<OrderReviewQueueProps> = ({ onChange }) => {
+  const [orders, setOrders] = useState<ReviewOrder[]>([]);
+  const [total, setTotal] = useState(0);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchQueue = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/orders/admin/review`, {
+        withCredentials: true,
+      });
+      setOrders(data.orders || []);
+      setTotal(data.pagination?.total || 0);
+    } catch {
+      showErrorToast("Failed to load the review queue");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const decide = async (order: ReviewOrder, decision: "approve" | "reject") => {
+    if (
+      decision === "reject" &&
+      !window.confirm(
+        order.paymentStatus === "paid"
+          ? `Reject this order and refund $${order.total.toFixed(2)}?`
+          : "Reject and cancel this order?"
+      )
+    ) {
+      return;
+    }
+
+    setBusyId(order.id);
+    try {
+      const { data } = await axios.post(
+        `${API_URL}/orders/${order.id}/review/${decision}`,
+        { note: notes[order.id] || null },
+        { withCredentials: true }
+      );
+      if (data.shipmentError) {
+        showWarningToast(data.message);
+      } else {
+        showSuccessToast(data.message);
+      }
+      await fetchQueue();
+      onChange?.();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showErrorToast(message || `Failed to ${decision} order`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border p-6 shadow-sm">
+      <div className="flex items-center justify-between mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-black">Review Queue</h3>
+          <p className="text-sm text-gray-500">
+            High-risk orders are held here and don&apos;t ship until approved
+          </p>
+        </div>
+        <span className="inline-flex px-3 py-1 rounded-full text-sm font-medium bg-yellow-100 text-yellow-800">
+          {total} waiting
+        </span>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading review queue...</div>
+      ) : orders.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">No orders waiting for review.</div>
+      ) : (
+        <div className="space-y-4">
+          {orders.map((order) => (
+            <div key={order.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <div>
+                  <div className="font-mono text-sm text-black">{order.id}</div>
+                  <div className="text-sm text-gray-600">
+                    {order.user?.name || "Guest"} · {order.user?.email || order.guestEmail || "No email"}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(order.createdAt).toLocaleString()} · {order.paymentStatus}
+                  </div>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-black">${order.total.toFixed(2)}</span>
+                  <span
+                    className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${getRiskColor(
+                      order.riskScore
+                    )}`}
+                  >
+                    Risk {order.riskScore ?? "–"}
+                  </span>
+                </div>
+              </div>
+
+              <div className="mt-3 text-sm text-gray-700">
+                {order.orderItems
+                  .map(
+                    (item) =>
+                      `${item.quantity}× ${item.customPackName || item.product?.name || "Item"}`
+                  )
+                  .join(", ")}
+              </div>
+
+              <div className="mt-3 flex flex-wrap gap-2">
+                {order.riskFlagDetails.map(({ flag, description }) => (
+                  <span
+                    key={flag}
+                    title={flag}
+                    className="inline-flex px-2 py-0.5 rounded text-xs bg-red-50 text-red-700 border border-red-100"
+                  >
+                    {description}
+                  </span>
+                ))}
+              </div>
+
+              <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={notes[order.id] || ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [order.id]: e.target.value }))}
+                  placeholder="Review note (optional)"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+                />
+                <button
+                  onClick={() => decide(order, "approve")}
+                  disabled={busyId === order.id}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-60"
+                >
+                  Approve &amp; Ship
+                </button>
+                <button
+                  onClick={() => decide(order, "reject")}
+                  disabled={busyId === order.id}
+                  className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-60"
+                >
+                  Reject
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OrderReviewQueue;
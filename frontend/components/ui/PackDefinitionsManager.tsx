@@ -0,0 +1,340 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "react-toastify";
+import { FLAVOR_CATEGORIES } from "@/constant";
+
+type PackDefinition = {
+  id: string;
+  name: string;
+  size: number;
+  price: number;
+  allowedCategories: string[];
+  allowDuplicates: boolean;
+  active: boolean;
+  sortOrder: number;
+};
+
+type PackForm = {
+  name: string;
+  size: string;
+  price: string;
+  allowedCategories: string[];
+  allowDuplicates: boolean;
+  sortOrder: string;
+  active: boolean;
+};
+
+interface PackDefinitionsManagerProps {
+  onChange?: () => void; // Called after a pack is saved, e.g. to refresh prices
+}
+
+const emptyForm: PackForm = {
+  name: "",
+  size: "",
+  price: "",
+  allowedCategories: [],
+  allowDuplicates: false,
+  sortOrder: "0",
+  active: true,
+};
+
+const PackDefinitionsManager: React.FC<PackDefinitionsManagerProps> = ({ onChange }) => {
+  const [packs, setPacks] = useState<PackDefinition[]>([]);
+  const [form, setForm] = useState<PackForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchPacks = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/packs`, {
+        withCredentials: true,
+      });
+      setPacks(data.packs || []);
+    } catch {
+      toast.error("Failed to load pack sizes");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchPacks();
+  }, [fetchPacks]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (pack: PackDefinition) => {
+    setEditingId(pack.id);
+    setForm({
+      name: pack.name,
+      size: String(pack.size),
+      price: String(pack.price),
+      allowedCategories: pack.allowedCategories || [],
+      allowDuplicates: pack.allowDuplicates,
+      sortOrder: String(pack.sortOrder ?? 0),
+      active: pack.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const payload = {
+        name: form.name,
+        price: form.price,
+        allowedCategories: form.allowedCategories,
+        allowDuplicates: form.allowDuplicates,
+        sortOrder: form.sortOrder,
+        active: form.active,
+      };
+
+      if (editingId) {
+        await axios.put(`${API_URL}/admin/packs/${editingId}`, payload, {
+          withCredentials: true,
+        });
+        toast.success("Pack updated");
+      } else {
+        // Size is fixed once a pack exists
+        await axios.post(
+          `${API_URL}/admin/packs`,
+          { ...payload, size: form.size },
+          { withCredentials: true }
+        );
+        toast.success("Pack created");
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      await fetchPacks();
+      onChange?.();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to save pack");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (pack: PackDefinition) => {
+    try {
+      await axios.put(
+        `${API_URL}/admin/packs/${pack.id}`,
+        { active: !pack.active },
+        { withCredentials: true }
+      );
+      await fetchPacks();
+      onChange?.();
+    } catch {
+      toast.error("Failed to update pack");
+    }
+  };
+
+  const toggleCategory = (category: string) => {
+    setForm((prev) => ({
+      ...prev,
+      allowedCategories: prev.allowedCategories.includes(category)
+        ? prev.allowedCategories.filter((c) => c !== category)
+        : [...prev.allowedCategories, category],
+    }));
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-black">Pack Sizes</h2>
+          <p className="text-xs sm:text-sm text-gray-600">Packs customers can build in the shop</p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e]"
+        >
+          New Pack
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Flavors per pack</label>
+              <input
+                type="number"
+                min="1"
+                max="24"
+                required
+                disabled={!!editingId}
+                value={form.size}
+                onChange={(e) => setForm({ ...form, size: e.target.value })}
+                className={`${inputClass} disabled:bg-gray-100`}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder={form.size ? `${form.size}-Pack` : "e.g., 5-Pack"}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Price ($)</label>
+              <input
+                type="number"
+                min="0.01"
+                step="0.01"
+                required
+                value={form.price}
+                onChange={(e) => setForm({ ...form, price: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Display order</label>
+              <input
+                type="number"
+                value={form.sortOrder}
+                onChange={(e) => setForm({ ...form, sortOrder: e.target.value })}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Allowed categories</label>
+            <div className="flex flex-wrap gap-2">
+              {FLAVOR_CATEGORIES.map((category) => (
+                <button
+                  key={category}
+                  type="button"
+                  onClick={() => toggleCategory(category)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                    form.allowedCategories.includes(category)
+                      ? "bg-[#FF5D39] text-white border-[#FF5D39]"
+                      : "bg-white text-gray-700 border-gray-300"
+                  }`}
+                >
+                  {category}
+                </button>
+              ))}
+            </div>
+            <p className="mt-1 text-xs text-gray-500">Leave empty to allow every flavor.</p>
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.allowDuplicates}
+                onChange={(e) => setForm({ ...form, allowDuplicates: e.target.checked })}
+              />
+              Allow the same flavor more than once
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+            >
+              {saving ? "Saving..." : editingId ? "Update Pack" : "Create Pack"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading pack sizes...</div>
+      ) : packs.length === 0 ? (
+        <div className="text-center py-8 text-gray-600 text-sm">No packs yet.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                <th className="py-2 pr-4">Pack</th>
+                <th className="py-2 pr-4">Price</th>
+                <th className="py-2 pr-4">Flavors</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {packs.map((pack) => (
+                <tr key={pack.id} className="border-b last:border-0 text-gray-900">
+                  <td className="py-2 pr-4">
+                    <div className="font-semibold">{pack.name}</div>
+                    <div className="text-xs text-gray-500">
+                      {pack.id} · {pack.size} flavors
+                    </div>
+                  </td>
+                  <td className="py-2 pr-4">${pack.price.toFixed(2)}</td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {pack.allowedCategories.length > 0
+                      ? pack.allowedCategories.join(", ")
+                      : "Any category"}
+                    {pack.allowDuplicates && (
+                      <div className="text-xs text-gray-500">Repeats allowed</div>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        pack.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {pack.active ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="py-2 whitespace-nowrap text-right space-x-3">
+                    <button onClick={() => openEdit(pack)} className="text-blue-600 hover:underline">
+                      Edit
+                    </button>
+                    <button onClick={() => toggleActive(pack)} className="text-gray-600 hover:underline">
+                      {pack.active ? "Deactivate" : "Activate"}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PackDefinitionsManager;
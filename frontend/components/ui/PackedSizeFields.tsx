@@ -0,0 +1,80 @@
+import React from 'react';
+
+export type PackedSize = {
+  weightOz?: number | null;
+  lengthIn?: number | null;
+  widthIn?: number | null;
+  heightIn?: number | null;
+};
+
+export type PackedSizeForm = Record<keyof PackedSize, string>;
+
+const FIELDS: Array<{ key: keyof PackedSize; label: string }> = [
+  { key: 'weightOz', label: 'Weight (oz)' },
+  { key: 'lengthIn', label: 'Length (in)' },
+  { key: 'widthIn', label: 'Width (in)' },
+  { key: 'heightIn', label: 'Height (in)' },
+];
+
+export const toPackedSizeForm = (size: PackedSize): PackedSizeForm => ({
+  weightOz: size.weightOz != null ? String(size.weightOz) : '',
+  lengthIn: size.lengthIn != null ? String(size.lengthIn) : '',
+  widthIn: size.widthIn != null ? String(size.widthIn) : '',
+  heightIn: size.heightIn != null ? String(size.heightIn) : '',
+});
+
+// Blank fields become null so shipping falls back to the default size
+export const fromPackedSizeForm = (form: PackedSizeForm): PackedSize => ({
+  weightOz: form.weightOz ? Number(form.weightOz) : null,
+  lengthIn: form.lengthIn ? Number(form.lengthIn) : null,
+  widthIn: form.widthIn ? Number(form.widthIn) : null,
+  heightIn: form.heightIn ? Number(form.heightIn) : null,
+});
+
+// Multipart forms send blanks, which the API reads as "clear this measurement"
+export const appendPackedSize = (formData: FormData, size: PackedSize) => {
+  for (const { key } of FIELDS) {
+    if (size[key] !== undefined) formData.append(key, size[key] == null ? '' : String(size[key]));
+  }
+};
+
+interface PackedSizeFieldsProps {
+  value: PackedSizeForm;
+  onChange: (value: PackedSizeForm) => void;
+}
+
+const PackedSizeFields: React.FC<PackedSizeFieldsProps> = ({ value, onChange }) => (
+  <div style={{ marginBottom: '16px' }}>
+    <label style={{ display: 'block', marginBottom: '4px', fontWeight: '500', color: '#374151' }}>
+      Packed size
+    </label>
+    <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: '8px' }}>
+      {FIELDS.map(({ key, label }) => (
+        <input
+          key={key}
+          type="number"
+          min="0"
+          step="0.1"
+          value={value[key]}
+          onChange={(e) => onChange({ ...value, [key]: e.target.value })}
+          placeholder={label}
+          title={label}
+          style={{
+            width: '100%',
+            padding: '8px 12px',
+            border: '1px solid #d1d5db',
+            borderRadius: '4px',
+            fontSize: '14px',
+            color: '#1f2937',
+            backgroundColor: 'white',
+          }}
+        />
+      ))}
+    </div>
+    <p style={{ fontSize: '12px', color: '#6b7280', marginTop: '4px' }}>
+      Used to pack orders into shipping boxes. Leave blank to use the standard size.
+    </p>
+  </div>
+);
+
+export default PackedSizeFields;
@@ -0,0 +1,209 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import StarRating from "@/components/ui/StarRating";
+import ReviewForm, { MyReview } from "@/components/ui/ReviewForm";
+import { useUser } from "@/hooks/useUser";
+
+type PublishedReview = {
+  id: string;
+  rating: number;
+  title?: string | null;
+  body?: string | null;
+  reviewerName: string;
+  verifiedPurchase: boolean;
+  createdAt: string;
+};
+
+type RatingSummary = {
+  ratingAverage: number;
+  ratingCount: number;
+  breakdown: Record<number, number>;
+};
+
+interface ProductReviewsProps {
+  productId?: string;
+  flavorId?: string;
+}
+
+const PAGE_SIZE = 5;
+
+const ProductReviews: React.FC<ProductReviewsProps> = ({ productId, flavorId }) => {
+  const { user } = useUser();
+  const [reviews, setReviews] = useState<PublishedReview[]>([]);
+  const [summary, setSummary] = useState<RatingSummary | null>(null);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [canReview, setCanReview] = useState(false);
+  const [myReview, setMyReview] = useState<MyReview | null>(null);
+  const [showForm, setShowForm] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+  const target = productId ? { productId } : { flavorId };
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/reviews`, {
+        params: { productId, flavorId, page, limit: PAGE_SIZE },
+      });
+      setReviews(data.reviews || []);
+      setSummary(data.summary || null);
+      setPages(data.pagination?.pages || 1);
+    } catch (err) {
+      console.error("Failed to load reviews:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL, productId, flavorId, page]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  useEffect(() => {
+    if (!user) return;
+    axios
+      .get(`${API_URL}/reviews/eligibility`, {
+        params: { productId, flavorId },
+        withCredentials: true,
+      })
+      .then(({ data }) => {
+        setCanReview(data.canReview);
+        setMyReview(data.review || null);
+      })
+      .catch(() => setCanReview(false));
+  }, [API_URL, user, productId, flavorId]);
+
+  const ratingCount = summary?.ratingCount || 0;
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl lg:rounded-2xl shadow-lg p-4 sm:p-6 lg:p-10 mt-6">
+      <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-6 mb-6">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-black mb-2">Customer Reviews</h2>
+          <StarRating rating={summary?.ratingAverage || 0} count={ratingCount} size="lg" />
+        </div>
+
+        {ratingCount > 0 && summary && (
+          <div className="w-full sm:w-64 space-y-1">
+            {[5, 4, 3, 2, 1].map((stars) => {
+              const count = summary.breakdown[stars] || 0;
+              return (
+                <div key={stars} className="flex items-center gap-2 text-xs text-gray-600">
+                  <span className="w-10">{stars} star</span>
+                  <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className="h-full bg-[#F1A900]"
+                      style={{ width: `${(count / ratingCount) * 100}%` }}
+                    />
+                  </div>
+                  <span className="w-6 text-right">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {canReview && (
+        <div className="mb-6 border border-orange-200 bg-orange-50 rounded-lg p-4">
+          {myReview && !showForm ? (
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+              <div className="text-sm text-gray-700">
+                <StarRating rating={myReview.rating} size="sm" />
+                <span className="ml-2">
+                  {myReview.status === "pending"
+                    ? "Your review is waiting to be checked."
+                    : myReview.status === "rejected"
+                      ? `Your review wasn't published${myReview.moderationNote ? `: ${myReview.moderationNote}` : "."}`
+                      : "Thanks for reviewing!"}
+                </span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowForm(true)}
+                className="text-sm font-semibold text-[#FF5D39] hover:underline"
+              >
+                Edit your review
+              </button>
+            </div>
+          ) : showForm || !myReview ? (
+            <>
+              <h3 className="font-semibold text-black mb-3">
+                {myReview ? "Edit your review" : "You bought this — how was it?"}
+              </h3>
+              <ReviewForm
+                {...target}
+                existing={myReview}
+                onSaved={(review) => {
+                  setMyReview(review);
+                  setShowForm(false);
+                  fetchReviews();
+                }}
+              />
+            </>
+          ) : null}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-6 text-gray-500 text-sm">Loading reviews...</div>
+      ) : reviews.length === 0 ? (
+        <div className="text-center py-6 text-gray-500 text-sm">
+          No reviews yet. Reviews come from customers whose orders have been delivered.
+        </div>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {reviews.map((review) => (
+            <div key={review.id} className="py-4">
+              <div className="flex items-center gap-2 mb-1">
+                <StarRating rating={review.rating} size="sm" />
+                {review.title && (
+                  <span className="font-semibold text-sm text-black">{review.title}</span>
+                )}
+              </div>
+              <div className="text-xs text-gray-500 mb-2">
+                {review.reviewerName}
+                {review.verifiedPurchase && (
+                  <span className="ml-2 text-green-700 font-medium">✓ Verified purchase</span>
+                )}
+                <span className="ml-2">{new Date(review.createdAt).toLocaleDateString()}</span>
+              </div>
+              {review.body && (
+                <p className="text-sm text-gray-700 whitespace-pre-line">{review.body}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-4">
+          <button
+            type="button"
+            disabled={page <= 1}
+            onClick={() => setPage((p) => p - 1)}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-sm text-gray-600">
+            Page {page} of {pages}
+          </span>
+          <button
+            type="button"
+            disabled={page >= pages}
+            onClick={() => setPage((p) => p + 1)}
+            className="px-3 py-1 border border-gray-300 rounded-lg text-sm text-gray-700 disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProductReviews;
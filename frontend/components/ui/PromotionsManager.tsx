@@ -0,0 +1,479 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "react-toastify";
+
+type Promotion = {
+  id: string;
+  code: string;
+  description?: string | null;
+  type: string;
+  value: number;
+  buyQuantity?: number | null;
+  flavorIds: string[];
+  categories: string[];
+  minSubtotal?: number | null;
+  usageLimit?: number | null;
+  usageCount: number;
+  startsAt?: string | null;
+  endsAt?: string | null;
+  active: boolean;
+  _count?: { orders: number };
+};
+
+type PromotionForm = {
+  code: string;
+  description: string;
+  type: string;
+  value: string;
+  buyQuantity: string;
+  flavorIds: string[];
+  categories: string;
+  minSubtotal: string;
+  usageLimit: string;
+  startsAt: string;
+  endsAt: string;
+  active: boolean;
+};
+
+interface PromotionsManagerProps {
+  flavors: Array<{ id: string; name: string }>;
+}
+
+const PROMOTION_TYPES = [
+  { value: "percent", label: "Percent off" },
+  { value: "fixed", label: "Fixed amount off" },
+  { value: "free_shipping", label: "Free shipping" },
+  { value: "buy_n_get_one", label: "Buy N, get one free" },
+];
+
+const emptyForm: PromotionForm = {
+  code: "",
+  description: "",
+  type: "percent",
+  value: "",
+  buyQuantity: "",
+  flavorIds: [],
+  categories: "",
+  minSubtotal: "",
+  usageLimit: "",
+  startsAt: "",
+  endsAt: "",
+  active: true,
+};
+
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : "");
+
+const describeDiscount = (promotion: Promotion) => {
+  switch (promotion.type) {
+    case "percent":
+      return `${promotion.value}% off`;
+    case "fixed":
+      return `$${promotion.value.toFixed(2)} off`;
+    case "free_shipping":
+      return "Free shipping";
+    case "buy_n_get_one":
+      return `Buy ${promotion.buyQuantity}, get 1 free`;
+    default:
+      return promotion.type;
+  }
+};
+
+const PromotionsManager: React.FC<PromotionsManagerProps> = ({ flavors }) => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [form, setForm] = useState<PromotionForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchPromotions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/promotions`, {
+        withCredentials: true,
+      });
+      setPromotions(data.promotions || []);
+    } catch {
+      toast.error("Failed to load promotions");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (promotion: Promotion) => {
+    setEditingId(promotion.id);
+    setForm({
+      code: promotion.code,
+      description: promotion.description || "",
+      type: promotion.type,
+      value: String(promotion.value ?? ""),
+      buyQuantity: promotion.buyQuantity ? String(promotion.buyQuantity) : "",
+      flavorIds: promotion.flavorIds || [],
+      categories: (promotion.categories || []).join(", "),
+      minSubtotal: promotion.minSubtotal != null ? String(promotion.minSubtotal) : "",
+      usageLimit: promotion.usageLimit != null ? String(promotion.usageLimit) : "",
+      startsAt: toDateInput(promotion.startsAt),
+      endsAt: toDateInput(promotion.endsAt),
+      active: promotion.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const payload = {
+        code: form.code,
+        description: form.description,
+        type: form.type,
+        value: form.value === "" ? 0 : form.value,
+        buyQuantity: form.type === "buy_n_get_one" ? form.buyQuantity : null,
+        flavorIds: form.flavorIds,
+        categories: form.categories
+          .split(",")
+          .map((category) => category.trim())
+          .filter(Boolean),
+        minSubtotal: form.minSubtotal,
+        usageLimit: form.usageLimit,
+        startsAt: form.startsAt || null,
+        endsAt: form.endsAt || null,
+        active: form.active,
+      };
+
+      if (editingId) {
+        await axios.put(`${API_URL}/admin/promotions/${editingId}`, payload, {
+          withCredentials: true,
+        });
+        toast.success("Promotion updated");
+      } else {
+        await axios.post(`${API_URL}/admin/promotions`, payload, {
+          withCredentials: true,
+        });
+        toast.success("Promotion created");
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      await fetchPromotions();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to save promotion");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (promotion: Promotion) => {
+    try {
+      await axios.put(
+        `${API_URL}/admin/promotions/${promotion.id}`,
+        { active: !promotion.active },
+        { withCredentials: true }
+      );
+      await fetchPromotions();
+    } catch {
+      toast.error("Failed to update promotion");
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!window.confirm(`Delete promo code ${promotion.code}?`)) return;
+    try {
+      await axios.delete(`${API_URL}/admin/promotions/${promotion.id}`, {
+        withCredentials: true,
+      });
+      toast.success("Promotion deleted");
+      await fetchPromotions();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to delete promotion");
+    }
+  };
+
+  const toggleFlavor = (flavorId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      flavorIds: prev.flavorIds.includes(flavorId)
+        ? prev.flavorIds.filter((id) => id !== flavorId)
+        : [...prev.flavorIds, flavorId],
+    }));
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+          <div>
+            <h2 className="text-lg sm:text-xl font-bold text-black">Promotions</h2>
+            <p className="text-xs sm:text-sm text-gray-600">Promo codes customers can apply in the cart</p>
+          </div>
+          <button
+            onClick={openCreate}
+            className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e]"
+          >
+            New Promotion
+          </button>
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Code</label>
+                <input
+                  type="text"
+                  required
+                  value={form.code}
+                  onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  className={`${inputClass} uppercase`}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+                <select
+                  value={form.type}
+                  onChange={(e) => setForm({ ...form, type: e.target.value })}
+                  className={inputClass}
+                >
+                  {PROMOTION_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {(form.type === "percent" || form.type === "fixed") && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {form.type === "percent" ? "Percent off" : "Amount off ($)"}
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    required
+                    value={form.value}
+                    onChange={(e) => setForm({ ...form, value: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              {form.type === "buy_n_get_one" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Buy quantity</label>
+                  <input
+                    type="number"
+                    min="1"
+                    required
+                    value={form.buyQuantity}
+                    onChange={(e) => setForm({ ...form, buyQuantity: e.target.value })}
+                    className={inputClass}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Minimum subtotal ($)</label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={form.minSubtotal}
+                  onChange={(e) => setForm({ ...form, minSubtotal: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Usage limit</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={form.usageLimit}
+                  onChange={(e) => setForm({ ...form, usageLimit: e.target.value })}
+                  placeholder="Unlimited"
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Starts</label>
+                <input
+                  type="date"
+                  value={form.startsAt}
+                  onChange={(e) => setForm({ ...form, startsAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Ends</label>
+                <input
+                  type="date"
+                  value={form.endsAt}
+                  onChange={(e) => setForm({ ...form, endsAt: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                <input
+                  type="text"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Limit to categories (comma separated)
+                </label>
+                <input
+                  type="text"
+                  value={form.categories}
+                  onChange={(e) => setForm({ ...form, categories: e.target.value })}
+                  placeholder="All categories"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Limit to flavors</label>
+              <div className="flex flex-wrap gap-2">
+                {flavors.map((flavor) => (
+                  <button
+                    key={flavor.id}
+                    type="button"
+                    onClick={() => toggleFlavor(flavor.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                      form.flavorIds.includes(flavor.id)
+                        ? "bg-[#FF5D39] text-white border-[#FF5D39]"
+                        : "bg-white text-gray-700 border-gray-300"
+                    }`}
+                  >
+                    {flavor.name}
+                  </button>
+                ))}
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                Leave flavors and categories empty to apply to the whole cart.
+              </p>
+            </div>
+
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              Active
+            </label>
+
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+              >
+                {saving ? "Saving..." : editingId ? "Update Promotion" : "Create Promotion"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-600 text-sm">Loading promotions...</div>
+        ) : promotions.length === 0 ? (
+          <div className="text-center py-8 text-gray-600 text-sm">No promotions yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                  <th className="py-2 pr-4">Code</th>
+                  <th className="py-2 pr-4">Discount</th>
+                  <th className="py-2 pr-4">Uses</th>
+                  <th className="py-2 pr-4">Dates</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {promotions.map((promotion) => (
+                  <tr key={promotion.id} className="border-b last:border-0 text-gray-900">
+                    <td className="py-2 pr-4">
+                      <div className="font-semibold">{promotion.code}</div>
+                      {promotion.description && (
+                        <div className="text-xs text-gray-500">{promotion.description}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      {describeDiscount(promotion)}
+                      {promotion.minSubtotal ? (
+                        <div className="text-xs text-gray-500">
+                          Min ${promotion.minSubtotal.toFixed(2)}
+                        </div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap">
+                      {promotion.usageCount}
+                      {promotion.usageLimit != null && ` / ${promotion.usageLimit}`}
+                    </td>
+                    <td className="py-2 pr-4 whitespace-nowrap text-gray-600">
+                      {promotion.startsAt ? new Date(promotion.startsAt).toLocaleDateString() : "Any time"}
+                      {" – "}
+                      {promotion.endsAt ? new Date(promotion.endsAt).toLocaleDateString() : "No end"}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span
+                        className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                          promotion.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                        }`}
+                      >
+                        {promotion.active ? "Active" : "Inactive"}
+                      </span>
+                    </td>
+                    <td className="py-2 whitespace-nowrap text-right space-x-3">
+                      <button onClick={() => openEdit(promotion)} className="text-blue-600 hover:underline">
+                        Edit
+                      </button>
+                      <button onClick={() => toggleActive(promotion)} className="text-gray-700 hover:underline">
+                        {promotion.active ? "Deactivate" : "Activate"}
+                      </button>
+                      <button onClick={() => handleDelete(promotion)} className="text-red-600 hover:underline">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PromotionsManager;
@@ -0,0 +1,98 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import StarRating from "@/components/ui/StarRating";
+import ReviewForm, { MyReview } from "@/components/ui/ReviewForm";
+
+type ReviewablePurchase = {
+  id: string;
+  name: string;
+  imageUrl?: string | null;
+  review: MyReview | null;
+};
+
+interface PurchaseReviewsProps {
+  orderId: string;
+}
+
+const REVIEW_STATUS_LABELS: Record<MyReview["status"], string> = {
+  pending: "Awaiting approval",
+  approved: "Published",
+  rejected: "Not published",
+};
+
+// Lets a customer review the products and pack flavors in a delivered order
+const PurchaseReviews: React.FC<PurchaseReviewsProps> = ({ orderId }) => {
+  const [products, setProducts] = useState<ReviewablePurchase[]>([]);
+  const [flavors, setFlavors] = useState<ReviewablePurchase[]>([]);
+  const [openKey, setOpenKey] = useState<string | null>(null);
+
+  const fetchPurchases = useCallback(async () => {
+    try {
+      const { data } = await axios.get(
+        `${process.env.NEXT_PUBLIC_API_URL}/reviews/reviewable`,
+        { params: { orderId }, withCredentials: true }
+      );
+      setProducts(data.products || []);
+      setFlavors(data.flavors || []);
+    } catch (err) {
+      console.error("Failed to load items to review:", err);
+    }
+  }, [orderId]);
+
+  useEffect(() => {
+    fetchPurchases();
+  }, [fetchPurchases]);
+
+  const entries = [
+    ...products.map((item) => ({ key: `product:${item.id}`, target: { productId: item.id }, item })),
+    ...flavors.map((item) => ({ key: `flavor:${item.id}`, target: { flavorId: item.id }, item })),
+  ];
+  if (entries.length === 0) return null;
+
+  return (
+    <div>
+      <div className="text-lg font-bold text-black mb-2">Review Your Items</div>
+      <div className="space-y-3">
+        {entries.map(({ key, target, item }) => (
+          <div key={key} className="rounded-lg border border-gray-200 p-3">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <div className="font-semibold text-black">{item.name}</div>
+                {item.review ? (
+                  <div className="flex items-center gap-2 text-xs text-gray-500">
+                    <StarRating rating={item.review.rating} size="sm" />
+                    {REVIEW_STATUS_LABELS[item.review.status]}
+                  </div>
+                ) : (
+                  <div className="text-xs text-gray-500">Not reviewed yet</div>
+                )}
+              </div>
+              <button
+                type="button"
+                onClick={() => setOpenKey(openKey === key ? null : key)}
+                className="text-sm font-semibold text-[#FF5D39] hover:underline"
+              >
+                {openKey === key ? "Cancel" : item.review ? "Edit" : "Write a review"}
+              </button>
+            </div>
+            {openKey === key && (
+              <div className="mt-3">
+                <ReviewForm
+                  {...target}
+                  existing={item.review}
+                  onSaved={() => {
+                    setOpenKey(null);
+                    fetchPurchases();
+                  }}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PurchaseReviews;
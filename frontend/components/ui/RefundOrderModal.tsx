@@ -0,0 +1,266 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { showErrorToast, showSuccessToast } from "@/utils/errorHandler";
+
+type Refund = {
+  id: string;
+  amount: number;
+  reason?: string | null;
+  status: string;
+  source: string;
+  createdAt: string;
+};
+
+type RefundItem = {
+  id: string;
+  name: string;
+  quantity: number;
+  restockedQuantity: number;
+};
+
+interface RefundOrderModalProps {
+  orderId: string | null;
+  onClose: () => void;
+  onRefunded?: () => void; // Called after a refund is issued, e.g. to reload orders
+}
+
+const getRefundStatusColor = (status: string) => {
+  switch (status) {
+    case "succeeded":
+      return "bg-green-100 text-green-800";
+    case "pending":
+      return "bg-yellow-100 text-yellow-800";
+    default:
+      return "bg-red-100 text-red-800";
+  }
+};
+
+const RefundOrderModal: React.FC<RefundOrderModalProps> = ({
+  orderId,
+  onClose,
+  onRefunded,
+}) => {
+  const [refunds, setRefunds] = useState<Refund[]>([]);
+  const [items, setItems] = useState<RefundItem[]>([]);
+  const [refundable, setRefundable] = useState(0);
+  const [amount, setAmount] = useState("");
+  const [reason, setReason] = useState("");
+  const [restock, setRestock] = useState(false);
+  const [restockQuantities, setRestockQuantities] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchRefunds = useCallback(async () => {
+    if (!orderId) return;
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/orders/${orderId}/refunds`, {
+        withCredentials: true,
+      });
+      setRefunds(data.refunds || []);
+      setItems(data.items || []);
+      setRefundable(data.refundable || 0);
+      setAmount((data.refundable || 0).toFixed(2));
+      // Default to restocking everything that hasn't come back yet
+      setRestockQuantities(
+        Object.fromEntries(
+          (data.items || []).map((item: RefundItem) => [
+            item.id,
+            item.quantity - item.restockedQuantity,
+          ])
+        )
+      );
+    } catch {
+      showErrorToast("Failed to load refunds");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL, orderId]);
+
+  useEffect(() => {
+    setReason("");
+    setRestock(false);
+    fetchRefunds();
+  }, [fetchRefunds]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderId) return;
+    setSubmitting(true);
+    try {
+      const { data } = await axios.post(
+        `${API_URL}/orders/${orderId}/refunds`,
+        {
+          amount,
+          reason: reason || null,
+          restock,
+          items: restock
+            ? Object.entries(restockQuantities)
+                .filter(([, quantity]) => quantity > 0)
+                .map(([orderItemId, quantity]) => ({ orderItemId, quantity }))
+            : undefined,
+        },
+        { withCredentials: true }
+      );
+      showSuccessToast(data.message || "Refund issued");
+      await fetchRefunds();
+      onRefunded?.();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showErrorToast(message || "Failed to issue refund");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!orderId) return null;
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  return (
+    <div
+      className="fixed inset-0 bg-black/50 flex items-center justify-center z-[9999] p-4"
+      onClick={onClose}
+    >
+      <div
+        className="bg-white rounded-xl shadow-lg w-full max-w-lg max-h-[90vh] overflow-y-auto p-6"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between mb-4">
+          <div>
+            <h2 className="text-lg font-bold text-black">Refund Order</h2>
+            <p className="text-xs text-gray-500 font-mono">{orderId}</p>
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        {loading ? (
+          <div className="text-center py-8 text-gray-600 text-sm">Loading refunds...</div>
+        ) : (
+          <>
+            {refundable > 0 ? (
+              <form onSubmit={handleSubmit} className="space-y-4 mb-6">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Amount ($) · up to ${refundable.toFixed(2)}
+                  </label>
+                  <input
+                    type="number"
+                    min="0.01"
+                    max={refundable}
+                    step="0.01"
+                    required
+                    value={amount}
+                    onChange={(e) => setAmount(e.target.value)}
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+                  <input
+                    type="text"
+                    value={reason}
+                    onChange={(e) => setReason(e.target.value)}
+                    placeholder="Shown to the customer in the refund email"
+                    className={inputClass}
+                  />
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={restock}
+                    onChange={(e) => setRestock(e.target.checked)}
+                  />
+                  Put items back into stock
+                </label>
+                {restock && (
+                  <div className="space-y-2 pl-6">
+                    {items.map((item) => {
+                      const remaining = item.quantity - item.restockedQuantity;
+                      return (
+                        <div key={item.id} className="flex items-center justify-between gap-3 text-sm">
+                          <span className="text-gray-900">
+                            {item.name}
+                            {item.restockedQuantity > 0 && (
+                              <span className="text-xs text-gray-500">
+                                {" "}
+                                ({item.restockedQuantity} already restocked)
+                              </span>
+                            )}
+                          </span>
+                          <input
+                            type="number"
+                            min="0"
+                            max={remaining}
+                            disabled={remaining === 0}
+                            value={restockQuantities[item.id] ?? 0}
+                            onChange={(e) =>
+                              setRestockQuantities((prev) => ({
+                                ...prev,
+                                [item.id]: Math.min(
+                                  remaining,
+                                  Math.max(0, parseInt(e.target.value) || 0)
+                                ),
+                              }))
+                            }
+                            className="w-20 px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 disabled:bg-gray-100"
+                          />
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                <button
+                  type="submit"
+                  disabled={submitting}
+                  className="w-full px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+                >
+                  {submitting ? "Refunding..." : `Refund $${(parseFloat(amount) || 0).toFixed(2)}`}
+                </button>
+              </form>
+            ) : (
+              <div className="mb-6 p-3 bg-gray-50 rounded-lg text-sm text-gray-600">
+                This order has been fully refunded.
+              </div>
+            )}
+
+            <h3 className="text-sm font-semibold text-black mb-2">Refund history</h3>
+            {refunds.length === 0 ? (
+              <p className="text-sm text-gray-500">No refunds yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {refunds.map((refund) => (
+                  <li key={refund.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+                    <div>
+                      <div className="font-medium text-black">${refund.amount.toFixed(2)}</div>
+                      <div className="text-xs text-gray-500">
+                        {new Date(refund.createdAt).toLocaleString()}
+                        {refund.source === "stripe" && " · from Stripe"}
+                        {refund.reason && ` · ${refund.reason}`}
+                      </div>
+                    </div>
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${getRefundStatusColor(
+                        refund.status
+                      )}`}
+                    >
+                      {refund.status}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RefundOrderModal;
@@ -0,0 +1,93 @@
+"use client";
+import React, { useState } from "react";
+import axios from "axios";
+import StarRating from "@/components/ui/StarRating";
+import { showErrorToast, showSuccessToast } from "@/utils/errorHandler";
+
+export type MyReview = {
+  id: string;
+  rating: number;
+  title?: string | null;
+  body?: string | null;
+  status: "pending" | "approved" | "rejected";
+  moderationNote?: string | null;
+};
+
+interface ReviewFormProps {
+  productId?: string;
+  flavorId?: string;
+  existing?: MyReview | null; // Pre-fills the form when editing
+  onSaved?: (review: MyReview) => void;
+}
+
+const ReviewForm: React.FC<ReviewFormProps> = ({
+  productId,
+  flavorId,
+  existing,
+  onSaved,
+}) => {
+  const [rating, setRating] = useState(existing?.rating || 0);
+  const [title, setTitle] = useState(existing?.title || "");
+  const [body, setBody] = useState(existing?.body || "");
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (rating < 1) {
+      showErrorToast("Choose a star rating");
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data } = await axios.post(
+        `${process.env.NEXT_PUBLIC_API_URL}/reviews`,
+        { productId, flavorId, rating, title, body },
+        { withCredentials: true }
+      );
+      showSuccessToast(data.message);
+      onSaved?.(data.review);
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showErrorToast(message || "Failed to save your review");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <StarRating rating={rating} size="lg" onChange={setRating} />
+      <input
+        type="text"
+        value={title}
+        maxLength={120}
+        onChange={(e) => setTitle(e.target.value)}
+        placeholder="Headline (optional)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+      />
+      <textarea
+        value={body}
+        maxLength={2000}
+        rows={3}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="What did you think? (optional)"
+        className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+      />
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-xs text-gray-500">
+          Reviews are checked before they appear{existing ? "; editing sends yours back for checking" : ""}.
+        </p>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-semibold hover:bg-[#e54d2e] disabled:opacity-60"
+        >
+          {saving ? "Saving..." : existing ? "Update Review" : "Submit Review"}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export default ReviewForm;
@@ -0,0 +1,202 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import StarRating from "@/components/ui/StarRating";
+import { showErrorToast, showSuccessToast } from "@/utils/errorHandler";
+
+type ReviewStatus = "pending" | "approved" | "rejected";
+
+type AdminReview = {
+  id: string;
+  rating: number;
+  title?: string | null;
+  body?: string | null;
+  status: ReviewStatus;
+  moderationNote?: string | null;
+  createdAt: string;
+  user: { name?: string | null; email?: string | null };
+  product?: { id: string; name: string } | null;
+  flavor?: { id: string; name: string } | null;
+  orderItem: { orderId: string };
+};
+
+const STATUS_COLORS: Record<ReviewStatus, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  approved: "bg-green-100 text-green-800",
+  rejected: "bg-red-100 text-red-800",
+};
+
+const ReviewModeration = () => {
+  const [reviews, setReviews] = useState<AdminReview[]>([]);
+  const [status, setStatus] = useState<ReviewStatus | "">("pending");
+  const [total, setTotal] = useState(0);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchReviews = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/reviews`, {
+        params: { status: status || undefined, limit: 50 },
+        withCredentials: true,
+      });
+      setReviews(data.reviews || []);
+      setTotal(data.pagination?.total || 0);
+    } catch {
+      showErrorToast("Failed to load reviews");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL, status]);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [fetchReviews]);
+
+  const moderate = async (review: AdminReview, decision: "approved" | "rejected") => {
+    setBusyId(review.id);
+    try {
+      const { data } = await axios.put(
+        `${API_URL}/admin/reviews/${review.id}`,
+        { status: decision, note: notes[review.id] || null },
+        { withCredentials: true }
+      );
+      showSuccessToast(data.message);
+      await fetchReviews();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      showErrorToast(message || "Failed to moderate review");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const remove = async (review: AdminReview) => {
+    if (!window.confirm("Delete this review permanently?")) return;
+
+    setBusyId(review.id);
+    try {
+      await axios.delete(`${API_URL}/admin/reviews/${review.id}`, {
+        withCredentials: true,
+      });
+      showSuccessToast("Review deleted");
+      await fetchReviews();
+    } catch {
+      showErrorToast("Failed to delete review");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg border p-6 shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h3 className="text-lg font-semibold text-black">Customer Reviews</h3>
+          <p className="text-sm text-gray-500">
+            Only approved reviews are shown on the shop and count towards ratings
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as ReviewStatus | "")}
+            className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+          >
+            <option value="pending">Pending</option>
+            <option value="approved">Approved</option>
+            <option value="rejected">Rejected</option>
+            <option value="">All</option>
+          </select>
+          <span className="text-sm text-gray-600">{total} reviews</span>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading reviews...</div>
+      ) : reviews.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 text-sm">No reviews to show.</div>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map((review) => (
+            <div key={review.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <div>
+                  <div className="font-semibold text-black">
+                    {review.product?.name || review.flavor?.name || "Deleted item"}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {review.product ? "Product" : "Flavor"}
+                    </span>
+                  </div>
+                  <div className="text-sm text-gray-600">
+                    {review.user.name || "Customer"} · {review.user.email}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {new Date(review.createdAt).toLocaleString()} · Order{" "}
+                    <span className="font-mono">{review.orderItem.orderId.slice(0, 8)}</span>
+                  </div>
+                </div>
+                <span
+                  className={`inline-flex px-2 py-1 rounded-full text-xs font-medium ${STATUS_COLORS[review.status]}`}
+                >
+                  {review.status}
+                </span>
+              </div>
+
+              <div className="mt-3">
+                <StarRating rating={review.rating} size="sm" />
+                {review.title && <div className="font-medium text-sm text-black mt-1">{review.title}</div>}
+                {review.body && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-line">{review.body}</p>
+                )}
+                {review.moderationNote && (
+                  <p className="text-xs text-gray-500 mt-1">Note: {review.moderationNote}</p>
+                )}
+              </div>
+
+              <div className="mt-3 flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  value={notes[review.id] || ""}
+                  onChange={(e) => setNotes((prev) => ({ ...prev, [review.id]: e.target.value }))}
+                  placeholder="Note to the customer (optional)"
+                  className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white"
+                />
+                {review.status !== "approved" && (
+                  <button
+                    onClick={() => moderate(review, "approved")}
+                    disabled={busyId === review.id}
+                    className="px-4 py-2 bg-green-600 text-white rounded-lg text-sm font-medium hover:bg-green-700 disabled:opacity-60"
+                  >
+                    Approve
+                  </button>
+                )}
+                {review.status !== "rejected" && (
+                  <button
+                    onClick={() => moderate(review, "rejected")}
+                    disabled={busyId === review.id}
+                    className="px-4 py-2 bg-red-600 text-white rounded-lg text-sm font-medium hover:bg-red-700 disabled:opacity-60"
+                  >
+                    Reject
+                  </button>
+                )}
+                <button
+                  onClick={() => remove(review)}
+                  disabled={busyId === review.id}
+                  className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-50 disabled:opacity-60"
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReviewModeration;
@@ -0,0 +1,285 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "react-toastify";
+
+type ShippingBox = {
+  id: string;
+  name: string;
+  lengthIn: number;
+  widthIn: number;
+  heightIn: number;
+  emptyWeightOz: number;
+  maxWeightOz: number;
+  active: boolean;
+  sortOrder: number;
+};
+
+type BoxForm = {
+  name: string;
+  lengthIn: string;
+  widthIn: string;
+  heightIn: string;
+  emptyWeightOz: string;
+  maxWeightOz: string;
+  sortOrder: string;
+  active: boolean;
+};
+
+const emptyForm: BoxForm = {
+  name: "",
+  lengthIn: "",
+  widthIn: "",
+  heightIn: "",
+  emptyWeightOz: "0",
+  maxWeightOz: "",
+  sortOrder: "0",
+  active: true,
+};
+
+const ShippingBoxesManager = () => {
+  const [boxes, setBoxes] = useState<ShippingBox[]>([]);
+  const [form, setForm] = useState<BoxForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchBoxes = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/shipping-boxes`, {
+        withCredentials: true,
+      });
+      setBoxes(data.boxes || []);
+    } catch {
+      toast.error("Failed to load shipping boxes");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchBoxes();
+  }, [fetchBoxes]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (box: ShippingBox) => {
+    setEditingId(box.id);
+    setForm({
+      name: box.name,
+      lengthIn: String(box.lengthIn),
+      widthIn: String(box.widthIn),
+      heightIn: String(box.heightIn),
+      emptyWeightOz: String(box.emptyWeightOz),
+      maxWeightOz: String(box.maxWeightOz),
+      sortOrder: String(box.sortOrder ?? 0),
+      active: box.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (editingId) {
+        await axios.put(`${API_URL}/admin/shipping-boxes/${editingId}`, form, {
+          withCredentials: true,
+        });
+        toast.success("Box updated");
+      } else {
+        await axios.post(`${API_URL}/admin/shipping-boxes`, form, {
+          withCredentials: true,
+        });
+        toast.success("Box created");
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      await fetchBoxes();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to save box");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (box: ShippingBox) => {
+    try {
+      await axios.put(
+        `${API_URL}/admin/shipping-boxes/${box.id}`,
+        { active: !box.active },
+        { withCredentials: true }
+      );
+      await fetchBoxes();
+    } catch {
+      toast.error("Failed to update box");
+    }
+  };
+
+  const deleteBox = async (box: ShippingBox) => {
+    if (!confirm(`Delete the ${box.name} box?`)) return;
+    try {
+      await axios.delete(`${API_URL}/admin/shipping-boxes/${box.id}`, {
+        withCredentials: true,
+      });
+      toast.success("Box deleted");
+      await fetchBoxes();
+    } catch {
+      toast.error("Failed to delete box");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  const numberField = (label: string, field: keyof Omit<BoxForm, "name" | "active">, step = "0.1") => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type="number"
+        min="0"
+        step={step}
+        required={field !== "sortOrder"}
+        value={form[field]}
+        onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-black">Shipping Boxes</h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            Orders are packed into the smallest active boxes that fit, splitting into several parcels when needed
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e]"
+        >
+          New Box
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Medium mailer"
+                className={inputClass}
+              />
+            </div>
+            {numberField("Length (in)", "lengthIn")}
+            {numberField("Width (in)", "widthIn")}
+            {numberField("Height (in)", "heightIn")}
+            {numberField("Empty weight (oz)", "emptyWeightOz")}
+            {numberField("Max contents (oz)", "maxWeightOz")}
+            {numberField("Display order", "sortOrder", "1")}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setForm({ ...form, active: e.target.checked })}
+            />
+            Active
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+            >
+              {saving ? "Saving..." : editingId ? "Update Box" : "Create Box"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading shipping boxes...</div>
+      ) : boxes.length === 0 ? (
+        <div className="text-center py-8 text-gray-600 text-sm">
+          No boxes yet. Orders ship in the built-in small, medium and large sizes.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                <th className="py-2 pr-4">Box</th>
+                <th className="py-2 pr-4">Inside (in)</th>
+                <th className="py-2 pr-4">Weight (oz)</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {boxes.map((box) => (
+                <tr key={box.id} className="border-b last:border-0 text-gray-900">
+                  <td className="py-2 pr-4 font-semibold">{box.name}</td>
+                  <td className="py-2 pr-4">
+                    {box.lengthIn} × {box.widthIn} × {box.heightIn}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">
+                    {box.emptyWeightOz} empty · holds {box.maxWeightOz}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        box.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {box.active ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="py-2 whitespace-nowrap text-right space-x-3">
+                    <button onClick={() => openEdit(box)} className="text-blue-600 hover:underline">
+                      Edit
+                    </button>
+                    <button onClick={() => toggleActive(box)} className="text-gray-600 hover:underline">
+                      {box.active ? "Deactivate" : "Activate"}
+                    </button>
+                    <button onClick={() => deleteBox(box)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShippingBoxesManager;
@@ -0,0 +1,438 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "react-toastify";
+
+type ShippingLocation = {
+  id: string;
+  name: string;
+  contactName: string;
+  company?: string | null;
+  email: string;
+  phone?: string | null;
+  street1: string;
+  street2?: string | null;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  isDefault: boolean;
+  active: boolean;
+  sortOrder: number;
+  _count?: { orders: number };
+};
+
+type LocationStock = {
+  flavorId: string;
+  name: string;
+  active: boolean;
+  totalOnHand: number;
+  onHand: number;
+};
+
+type LocationForm = {
+  name: string;
+  contactName: string;
+  company: string;
+  email: string;
+  phone: string;
+  street1: string;
+  street2: string;
+  city: string;
+  state: string;
+  zip: string;
+  country: string;
+  sortOrder: string;
+  isDefault: boolean;
+  active: boolean;
+};
+
+const emptyForm: LocationForm = {
+  name: "",
+  contactName: "",
+  company: "",
+  email: "",
+  phone: "",
+  street1: "",
+  street2: "",
+  city: "",
+  state: "",
+  zip: "",
+  country: "US",
+  sortOrder: "0",
+  isDefault: false,
+  active: true,
+};
+
+const TEXT_FIELDS: Array<{ key: keyof LocationForm; label: string; required?: boolean }> = [
+  { key: "name", label: "Location name", required: true },
+  { key: "contactName", label: "Contact name", required: true },
+  { key: "company", label: "Company" },
+  { key: "email", label: "Email", required: true },
+  { key: "phone", label: "Phone" },
+  { key: "street1", label: "Street", required: true },
+  { key: "street2", label: "Street line 2" },
+  { key: "city", label: "City", required: true },
+  { key: "state", label: "State", required: true },
+  { key: "zip", label: "ZIP", required: true },
+  { key: "country", label: "Country (2-letter)", required: true },
+  { key: "sortOrder", label: "Priority (lower ships first)" },
+];
+
+const ShippingLocationsManager = () => {
+  const [locations, setLocations] = useState<ShippingLocation[]>([]);
+  const [form, setForm] = useState<LocationForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [stockLocationId, setStockLocationId] = useState<string | null>(null);
+  const [stock, setStock] = useState<LocationStock[]>([]);
+  const [stockEdits, setStockEdits] = useState<Record<string, string>>({});
+  const [stockLoading, setStockLoading] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchLocations = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/shipping-locations`, {
+        withCredentials: true,
+      });
+      setLocations(data.locations || []);
+    } catch {
+      toast.error("Failed to load shipping locations");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchLocations();
+  }, [fetchLocations]);
+
+  const fetchStock = async (locationId: string) => {
+    setStockLoading(true);
+    try {
+      const { data } = await axios.get(
+        `${API_URL}/admin/shipping-locations/${locationId}/inventory`,
+        { withCredentials: true }
+      );
+      setStock(data.inventory || []);
+      setStockEdits({});
+    } catch {
+      toast.error("Failed to load location stock");
+    } finally {
+      setStockLoading(false);
+    }
+  };
+
+  const toggleStock = (location: ShippingLocation) => {
+    if (stockLocationId === location.id) {
+      setStockLocationId(null);
+      return;
+    }
+    setStockLocationId(location.id);
+    fetchStock(location.id);
+  };
+
+  const saveStock = async (row: LocationStock) => {
+    if (!stockLocationId) return;
+    try {
+      await axios.put(
+        `${API_URL}/admin/shipping-locations/${stockLocationId}/inventory/${row.flavorId}`,
+        { onHand: stockEdits[row.flavorId], movementType: "adjustment" },
+        { withCredentials: true }
+      );
+      toast.success(`${row.name} stock updated`);
+      await fetchStock(stockLocationId);
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to update stock");
+    }
+  };
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (location: ShippingLocation) => {
+    setEditingId(location.id);
+    setForm({
+      name: location.name,
+      contactName: location.contactName,
+      company: location.company || "",
+      email: location.email,
+      phone: location.phone || "",
+      street1: location.street1,
+      street2: location.street2 || "",
+      city: location.city,
+      state: location.state,
+      zip: location.zip,
+      country: location.country,
+      sortOrder: String(location.sortOrder ?? 0),
+      isDefault: location.isDefault,
+      active: location.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (editingId) {
+        await axios.put(`${API_URL}/admin/shipping-locations/${editingId}`, form, {
+          withCredentials: true,
+        });
+        toast.success("Location updated");
+      } else {
+        await axios.post(`${API_URL}/admin/shipping-locations`, form, {
+          withCredentials: true,
+        });
+        toast.success("Location created");
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      await fetchLocations();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to save location");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateLocation = async (location: ShippingLocation, changes: Partial<ShippingLocation>) => {
+    try {
+      await axios.put(`${API_URL}/admin/shipping-locations/${location.id}`, changes, {
+        withCredentials: true,
+      });
+      await fetchLocations();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to update location");
+    }
+  };
+
+  const deleteLocation = async (location: ShippingLocation) => {
+    if (!confirm(`Delete ${location.name}?`)) return;
+    try {
+      await axios.delete(`${API_URL}/admin/shipping-locations/${location.id}`, {
+        withCredentials: true,
+      });
+      toast.success("Location deleted");
+      if (stockLocationId === location.id) setStockLocationId(null);
+      await fetchLocations();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to delete location");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-black">Ship-From Locations</h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            Each order ships from the first location that stocks all of its flavors, otherwise the default
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e]"
+        >
+          New Location
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {TEXT_FIELDS.map(({ key, label, required }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+                <input
+                  type={key === "email" ? "email" : key === "sortOrder" ? "number" : "text"}
+                  required={required}
+                  value={form[key] as string}
+                  onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-6">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.isDefault}
+                onChange={(e) => setForm({ ...form, isDefault: e.target.checked })}
+              />
+              Default location
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.active}
+                onChange={(e) => setForm({ ...form, active: e.target.checked })}
+              />
+              Active
+            </label>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+            >
+              {saving ? "Saving..." : editingId ? "Update Location" : "Create Location"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading shipping locations...</div>
+      ) : locations.length === 0 ? (
+        <div className="text-center py-8 text-gray-600 text-sm">No locations yet.</div>
+      ) : (
+        <div className="space-y-3">
+          {locations.map((location) => (
+            <div key={location.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-3">
+                <div className="text-sm text-gray-900">
+                  <div className="font-semibold">
+                    {location.name}
+                    {location.isDefault && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Default
+                      </span>
+                    )}
+                    {!location.active && (
+                      <span className="ml-2 inline-flex px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-gray-600">
+                    {location.contactName}
+                    {location.company ? `, ${location.company}` : ""}
+                  </div>
+                  <div className="text-gray-600">
+                    {location.street1}
+                    {location.street2 ? `, ${location.street2}` : ""}, {location.city}, {location.state}{" "}
+                    {location.zip} {location.country}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Priority {location.sortOrder} · {location._count?.orders || 0} orders
+                  </div>
+                </div>
+                <div className="flex flex-wrap gap-3 text-sm whitespace-nowrap">
+                  <button onClick={() => toggleStock(location)} className="text-blue-600 hover:underline">
+                    {stockLocationId === location.id ? "Hide stock" : "Stock"}
+                  </button>
+                  <button onClick={() => openEdit(location)} className="text-blue-600 hover:underline">
+                    Edit
+                  </button>
+                  {!location.isDefault && (
+                    <>
+                      <button
+                        onClick={() => updateLocation(location, { isDefault: true, active: true })}
+                        className="text-gray-600 hover:underline"
+                      >
+                        Make default
+                      </button>
+                      <button
+                        onClick={() => updateLocation(location, { active: !location.active })}
+                        className="text-gray-600 hover:underline"
+                      >
+                        {location.active ? "Deactivate" : "Activate"}
+                      </button>
+                      <button onClick={() => deleteLocation(location)} className="text-red-600 hover:underline">
+                        Delete
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {stockLocationId === location.id && (
+                <div className="mt-4 overflow-x-auto">
+                  {stockLoading ? (
+                    <p className="text-sm text-gray-500">Loading stock...</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                          <th className="py-2 pr-4">Flavor</th>
+                          <th className="py-2 pr-4">All locations</th>
+                          <th className="py-2 pr-4">Here</th>
+                          <th className="py-2"></th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {stock.map((row) => (
+                          <tr key={row.flavorId} className="border-b last:border-0 text-gray-900">
+                            <td className="py-2 pr-4">
+                              {row.name}
+                              {!row.active && <span className="ml-1 text-xs text-gray-500">(inactive)</span>}
+                            </td>
+                            <td className="py-2 pr-4 text-gray-600">{row.totalOnHand}</td>
+                            <td className="py-2 pr-4">
+                              <input
+                                type="number"
+                                min="0"
+                                value={stockEdits[row.flavorId] ?? String(row.onHand)}
+                                onChange={(e) =>
+                                  setStockEdits({ ...stockEdits, [row.flavorId]: e.target.value })
+                                }
+                                className="w-24 px-2 py-1 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+                              />
+                            </td>
+                            <td className="py-2 text-right">
+                              {stockEdits[row.flavorId] !== undefined &&
+                                stockEdits[row.flavorId] !== String(row.onHand) && (
+                                  <button
+                                    onClick={() => saveStock(row)}
+                                    className="text-blue-600 hover:underline"
+                                  >
+                                    Save
+                                  </button>
+                                )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <p className="mt-2 text-xs text-gray-500">
+                    Changing stock here moves the flavor&apos;s total by the same amount.
+                  </p>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShippingLocationsManager;
@@ -0,0 +1,372 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+import { toast } from "react-toastify";
+
+type ShippingRuleType =
+  | "free_shipping"
+  | "flat_rate"
+  | "carrier_filter"
+  | "handling_fee"
+  | "region_restriction";
+
+type ShippingRule = {
+  id: string;
+  name: string;
+  type: ShippingRuleType;
+  label?: string | null;
+  minSubtotal?: number | null;
+  amount?: number | null;
+  percent?: number | null;
+  estimatedDays?: number | null;
+  carriers: string[];
+  services: string[];
+  countries: string[];
+  states: string[];
+  active: boolean;
+  sortOrder: number;
+};
+
+type RuleForm = {
+  name: string;
+  type: ShippingRuleType;
+  label: string;
+  minSubtotal: string;
+  amount: string;
+  percent: string;
+  estimatedDays: string;
+  carriers: string;
+  services: string;
+  countries: string;
+  states: string;
+  sortOrder: string;
+  active: boolean;
+};
+
+const TYPE_LABELS: Record<ShippingRuleType, string> = {
+  free_shipping: "Free shipping",
+  flat_rate: "Flat rate",
+  carrier_filter: "Carrier / service allow-list",
+  handling_fee: "Handling fee",
+  region_restriction: "Ship-to regions",
+};
+
+const TYPE_HELP: Record<ShippingRuleType, string> = {
+  free_shipping: "Adds a free option once the item subtotal reaches the minimum. The label is bought with the cheapest listed carrier/service.",
+  flat_rate: "Adds a fixed-price option. The label is bought with the cheapest listed carrier/service.",
+  carrier_filter: "Only carrier rates matching these carriers and services are offered.",
+  handling_fee: "Adds a fixed amount and/or a percentage to every carrier rate.",
+  region_restriction: "Checkout is refused for destinations outside every ship-to region.",
+};
+
+const emptyForm: RuleForm = {
+  name: "",
+  type: "free_shipping",
+  label: "",
+  minSubtotal: "",
+  amount: "",
+  percent: "",
+  estimatedDays: "",
+  carriers: "",
+  services: "",
+  countries: "",
+  states: "",
+  sortOrder: "0",
+  active: true,
+};
+
+const toText = (value?: number | null) => (value != null ? String(value) : "");
+
+const describeRule = (rule: ShippingRule) => {
+  const parts: string[] = [];
+  if (rule.type === "free_shipping") parts.push(`Orders over $${(rule.minSubtotal || 0).toFixed(2)}`);
+  if (rule.type === "flat_rate") {
+    parts.push(`$${(rule.amount || 0).toFixed(2)}`);
+    if (rule.minSubtotal != null) parts.push(`orders over $${rule.minSubtotal.toFixed(2)}`);
+  }
+  if (rule.type === "handling_fee") {
+    if (rule.amount) parts.push(`+$${rule.amount.toFixed(2)}`);
+    if (rule.percent) parts.push(`+${rule.percent}%`);
+  }
+  if (rule.carriers.length > 0) parts.push(`carriers: ${rule.carriers.join(", ")}`);
+  if (rule.services.length > 0) parts.push(`services: ${rule.services.join(", ")}`);
+  const regions = [...rule.countries, ...rule.states];
+  parts.push(regions.length > 0 ? regions.join(", ") : "everywhere");
+  return parts.join(" · ");
+};
+
+const ShippingRulesManager = () => {
+  const [rules, setRules] = useState<ShippingRule[]>([]);
+  const [form, setForm] = useState<RuleForm>(emptyForm);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await axios.get(`${API_URL}/admin/shipping-rules`, {
+        withCredentials: true,
+      });
+      setRules(data.rules || []);
+    } catch {
+      toast.error("Failed to load shipping rules");
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const openCreate = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setShowForm(true);
+  };
+
+  const openEdit = (rule: ShippingRule) => {
+    setEditingId(rule.id);
+    setForm({
+      name: rule.name,
+      type: rule.type,
+      label: rule.label || "",
+      minSubtotal: toText(rule.minSubtotal),
+      amount: toText(rule.amount),
+      percent: toText(rule.percent),
+      estimatedDays: toText(rule.estimatedDays),
+      carriers: rule.carriers.join(", "),
+      services: rule.services.join(", "),
+      countries: rule.countries.join(", "),
+      states: rule.states.join(", "),
+      sortOrder: String(rule.sortOrder ?? 0),
+      active: rule.active,
+    });
+    setShowForm(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      if (editingId) {
+        await axios.put(`${API_URL}/admin/shipping-rules/${editingId}`, form, {
+          withCredentials: true,
+        });
+        toast.success("Rule updated");
+      } else {
+        await axios.post(`${API_URL}/admin/shipping-rules`, form, {
+          withCredentials: true,
+        });
+        toast.success("Rule created");
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      await fetchRules();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      toast.error(message || "Failed to save rule");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleActive = async (rule: ShippingRule) => {
+    try {
+      await axios.put(
+        `${API_URL}/admin/shipping-rules/${rule.id}`,
+        { active: !rule.active },
+        { withCredentials: true }
+      );
+      await fetchRules();
+    } catch {
+      toast.error("Failed to update rule");
+    }
+  };
+
+  const deleteRule = async (rule: ShippingRule) => {
+    if (!confirm(`Delete the rule "${rule.name}"?`)) return;
+    try {
+      await axios.delete(`${API_URL}/admin/shipping-rules/${rule.id}`, {
+        withCredentials: true,
+      });
+      toast.success("Rule deleted");
+      await fetchRules();
+    } catch {
+      toast.error("Failed to delete rule");
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  const field = (label: string, key: keyof Omit<RuleForm, "type" | "active">, placeholder = "", type = "text") => (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-1">{label}</label>
+      <input
+        type={type}
+        min={type === "number" ? "0" : undefined}
+        step={type === "number" ? "0.01" : undefined}
+        value={form[key]}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+        placeholder={placeholder}
+        className={inputClass}
+      />
+    </div>
+  );
+
+  const isOption = form.type === "free_shipping" || form.type === "flat_rate";
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-black">Shipping Rules</h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            Applied to carrier quotes at checkout and again when labels are bought
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e]"
+        >
+          New Rule
+        </button>
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g., Free shipping over $50"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as ShippingRuleType })}
+                className={inputClass}
+              >
+                {(Object.keys(TYPE_LABELS) as ShippingRuleType[]).map((type) => (
+                  <option key={type} value={type}>
+                    {TYPE_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {field("Priority", "sortOrder", "0", "number")}
+
+            {isOption && field("Name at checkout", "label", "e.g., Free Standard Shipping")}
+            {isOption && field("Minimum subtotal ($)", "minSubtotal", "", "number")}
+            {form.type === "flat_rate" && field("Price ($)", "amount", "", "number")}
+            {form.type === "flat_rate" && field("Estimated days", "estimatedDays", "", "number")}
+            {form.type === "handling_fee" && field("Fixed fee ($)", "amount", "", "number")}
+            {form.type === "handling_fee" && field("Percent of rate (%)", "percent", "", "number")}
+
+            {(isOption || form.type === "carrier_filter") &&
+              field("Carriers", "carriers", "e.g., USPS, UPS (blank for any)")}
+            {(isOption || form.type === "carrier_filter") &&
+              field("Services", "services", "e.g., Ground Advantage (blank for any)")}
+            {field("Countries", "countries", "e.g., US, CA (blank for all)")}
+            {field("States", "states", "e.g., AK, HI (blank for all)")}
+          </div>
+
+          <p className="text-xs text-gray-500">{TYPE_HELP[form.type]}</p>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={form.active}
+              onChange={(e) => setForm({ ...form, active: e.target.checked })}
+            />
+            Active
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-4 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60"
+            >
+              {saving ? "Saving..." : editingId ? "Update Rule" : "Create Rule"}
+            </button>
+            <button
+              type="button"
+              onClick={() => setShowForm(false)}
+              className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg text-sm font-medium hover:bg-gray-200"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading shipping rules...</div>
+      ) : rules.length === 0 ? (
+        <div className="text-center py-8 text-gray-600 text-sm">
+          No rules yet. Customers see every carrier rate at cost.
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                <th className="py-2 pr-4">Rule</th>
+                <th className="py-2 pr-4">Settings</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((rule) => (
+                <tr key={rule.id} className="border-b last:border-0 text-gray-900">
+                  <td className="py-2 pr-4">
+                    <div className="font-semibold">{rule.name}</div>
+                    <div className="text-xs text-gray-500">{TYPE_LABELS[rule.type] || rule.type}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-600">{describeRule(rule)}</td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className={`inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${
+                        rule.active ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {rule.active ? "Active" : "Inactive"}
+                    </span>
+                  </td>
+                  <td className="py-2 whitespace-nowrap text-right space-x-3">
+                    <button onClick={() => openEdit(rule)} className="text-blue-600 hover:underline">
+                      Edit
+                    </button>
+                    <button onClick={() => toggleActive(rule)} className="text-gray-600 hover:underline">
+                      {rule.active ? "Deactivate" : "Activate"}
+                    </button>
+                    <button onClick={() => deleteRule(rule)} className="text-red-600 hover:underline">
+                      Delete
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShippingRulesManager;
@@ -0,0 +1,71 @@
+"use client";
+import React from "react";
+
+interface StarRatingProps {
+  rating: number; // 0–5, may be fractional for averages
+  count?: number; // Number of reviews, shown after the stars
+  size?: "sm" | "md" | "lg";
+  onChange?: (rating: number) => void; // Makes the stars clickable
+}
+
+const SIZES = { sm: "w-3.5 h-3.5", md: "w-5 h-5", lg: "w-7 h-7" };
+
+const STAR_PATH =
+  "M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z";
+
+const StarRating: React.FC<StarRatingProps> = ({
+  rating,
+  count,
+  size = "md",
+  onChange,
+}) => {
+  return (
+    <div className="inline-flex items-center gap-1">
+      <div
+        className="flex"
+        role={onChange ? "radiogroup" : "img"}
+        aria-label={`${rating.toFixed(1)} out of 5 stars`}
+      >
+        {[1, 2, 3, 4, 5].map((star) => {
+          // How much of this star is filled, to the nearest quarter
+          const fill = Math.max(0, Math.min(1, Math.round((rating - star + 1) * 4) / 4));
+          const icon = (
+            <span className={`relative inline-block ${SIZES[size]}`}>
+              <svg className={`absolute inset-0 ${SIZES[size]} text-gray-300`} fill="currentColor" viewBox="0 0 20 20">
+                <path d={STAR_PATH} />
+              </svg>
+              <span className="absolute inset-0 overflow-hidden" style={{ width: `${fill * 100}%` }}>
+                <svg className={`${SIZES[size]} text-[#F1A900]`} fill="currentColor" viewBox="0 0 20 20">
+                  <path d={STAR_PATH} />
+                </svg>
+              </span>
+            </span>
+          );
+
+          return onChange ? (
+            <button
+              key={star}
+              type="button"
+              role="radio"
+              aria-checked={Math.round(rating) === star}
+              aria-label={`${star} star${star > 1 ? "s" : ""}`}
+              onClick={() => onChange(star)}
+              className="cursor-pointer hover:scale-110 transition-transform"
+            >
+              {icon}
+            </button>
+          ) : (
+            <span key={star}>{icon}</span>
+          );
+        })}
+      </div>
+      {count !== undefined && (
+        <span className="text-xs text-gray-500">
+          {count > 0 ? `${rating.toFixed(1)} (${count})` : "No reviews yet"}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default StarRating;
@@ -0,0 +1,384 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+
+type Subscription = {
+  id: string;
+  recipeId?: string | null;
+  quantity: number;
+  cadence: string;
+  status: string;
+  nextRenewalAt: string;
+  lastRenewalAt?: string | null;
+  lastError?: string | null;
+  packRecipe?: { id: string; title: string; kind: string } | null;
+  flavors: Array<{ id: string; name: string }>;
+};
+
+type Recipe = { id: string; title: string; kind: string };
+type Flavor = { id: string; name: string; active: boolean };
+
+const cadenceLabels: Record<string, string> = {
+  weekly: "Every week",
+  biweekly: "Every 2 weeks",
+  monthly: "Every month",
+  bimonthly: "Every 2 months",
+};
+
+const statusStyles: Record<string, string> = {
+  active: "bg-green-100 text-green-800",
+  paused: "bg-yellow-100 text-yellow-800",
+};
+
+const emptyAddress = {
+  name: "",
+  street: "",
+  city: "",
+  state: "",
+  zipCode: "",
+  country: "US",
+};
+
+const SubscriptionsPanel: React.FC = () => {
+  const [subscriptions, setSubscriptions] = useState<Subscription[]>([]);
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [flavors, setFlavors] = useState<Flavor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [packChoice, setPackChoice] = useState<"recipe" | "custom">("recipe");
+  const [recipeId, setRecipeId] = useState("");
+  const [flavorIds, setFlavorIds] = useState<string[]>([]);
+  const [quantity, setQuantity] = useState(1);
+  const [cadence, setCadence] = useState("monthly");
+  const [address, setAddress] = useState(emptyAddress);
+  const [notice, setNotice] = useState<{ type: "success" | "error"; text: string } | null>(null);
+
+  const API_URL = process.env.NEXT_PUBLIC_API_URL;
+
+  const fetchSubscriptions = useCallback(async () => {
+    try {
+      const { data } = await axios.get(`${API_URL}/subscriptions`, {
+        withCredentials: true,
+      });
+      setSubscriptions(data.subscriptions || []);
+    } catch {
+      setNotice({ type: "error", text: "Failed to load subscriptions" });
+    } finally {
+      setLoading(false);
+    }
+  }, [API_URL]);
+
+  useEffect(() => {
+    fetchSubscriptions();
+  }, [fetchSubscriptions]);
+
+  // Packs to choose from are only needed once the form is opened
+  useEffect(() => {
+    if (!showForm || recipes.length > 0) return;
+    const loadOptions = async () => {
+      try {
+        const [productResp, flavorsResp] = await Promise.all([
+          axios.get(`${API_URL}/3pack/product`),
+          axios.get(`${API_URL}/3pack/flavors`),
+        ]);
+        setRecipes(productResp.data.variants || []);
+        setFlavors((flavorsResp.data || []).filter((flavor: Flavor) => flavor.active));
+      } catch {
+        setNotice({ type: "error", text: "Failed to load packs" });
+      }
+    };
+    loadOptions();
+  }, [showForm, recipes.length, API_URL]);
+
+  const runAction = async (id: string, action: "skip" | "pause" | "resume" | "cancel") => {
+    if (action === "cancel" && !window.confirm("Cancel this subscription?")) return;
+    setBusyId(id);
+    try {
+      const { data } = await axios.post(
+        `${API_URL}/subscriptions/${id}/${action}`,
+        {},
+        { withCredentials: true }
+      );
+      setNotice({ type: "success", text: data.message });
+      await fetchSubscriptions();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      setNotice({ type: "error", text: message || "Failed to update subscription" });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const toggleFlavor = (id: string) => {
+    setFlavorIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((flavorId) => flavorId !== id)
+        : prev.length < 3
+          ? [...prev, id]
+          : prev
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      await axios.post(
+        `${API_URL}/subscriptions`,
+        {
+          recipeId: packChoice === "recipe" ? recipeId : undefined,
+          flavorIds: packChoice === "custom" ? flavorIds : undefined,
+          quantity,
+          cadence,
+          shippingAddress: address,
+        },
+        { withCredentials: true }
+      );
+      setNotice({ type: "success", text: "Subscription created" });
+      setShowForm(false);
+      setRecipeId("");
+      setFlavorIds([]);
+      setAddress(emptyAddress);
+      await fetchSubscriptions();
+    } catch (err: unknown) {
+      const message = axios.isAxiosError(err) ? err.response?.data?.message : null;
+      setNotice({ type: "error", text: message || "Failed to create subscription" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass =
+    "w-full px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]";
+
+  return (
+    <div className="bg-white rounded-xl lg:rounded-2xl shadow-lg border p-4 sm:p-6 lg:p-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-6">
+        <div>
+          <h2 className="text-lg sm:text-xl lg:text-2xl font-bold text-black">Subscriptions</h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            Licorice of the month, delivered on your schedule
+          </p>
+        </div>
+        <button
+          onClick={() => setShowForm(!showForm)}
+          className="px-4 py-2 rounded-lg bg-[#FF5D39] text-white text-sm font-medium hover:bg-[#e54d2e] transition-colors cursor-pointer"
+        >
+          {showForm ? "Close" : "New Subscription"}
+        </button>
+      </div>
+
+      {notice && (
+        <div
+          className={`mb-4 p-3 rounded-lg text-sm border ${
+            notice.type === "error"
+              ? "bg-red-50 border-red-200 text-red-700"
+              : "bg-green-50 border-green-200 text-green-700"
+          }`}
+        >
+          {notice.text}
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className="mb-6 p-4 border border-gray-200 rounded-lg space-y-4">
+          <div className="flex gap-4 text-sm text-gray-800">
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={packChoice === "recipe"}
+                onChange={() => setPackChoice("recipe")}
+              />
+              Pick a pack
+            </label>
+            <label className="flex items-center gap-2">
+              <input
+                type="radio"
+                checked={packChoice === "custom"}
+                onChange={() => setPackChoice("custom")}
+              />
+              Build my own trio
+            </label>
+          </div>
+
+          {packChoice === "recipe" ? (
+            <select
+              required
+              value={recipeId}
+              onChange={(e) => setRecipeId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Select a pack</option>
+              {recipes.map((recipe) => (
+                <option key={recipe.id} value={recipe.id}>
+                  {recipe.title} ({recipe.kind})
+                </option>
+              ))}
+            </select>
+          ) : (
+            <div>
+              <p className="text-xs text-gray-600 mb-2">Choose 3 flavors ({flavorIds.length}/3)</p>
+              <div className="flex flex-wrap gap-2">
+                {flavors.map((flavor) => (
+                  <button
+                    key={flavor.id}
+                    type="button"
+                    onClick={() => toggleFlavor(flavor.id)}
+                    className={`px-3 py-1 rounded-full text-xs font-medium border ${
+                      flavorIds.includes(flavor.id)
+                        ? "bg-[#FF5D39] text-white border-[#FF5D39]"
+                        : "bg-white text-gray-700 border-gray-300"
+                    }`}
+                  >
+                    {flavor.name}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">How often</label>
+              <select value={cadence} onChange={(e) => setCadence(e.target.value)} className={inputClass}>
+                {Object.entries(cadenceLabels).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Packs per delivery</label>
+              <input
+                type="number"
+                min={1}
+                max={10}
+                value={quantity}
+                onChange={(e) => setQuantity(parseInt(e.target.value) || 1)}
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {(
+              [
+                ["name", "Full name"],
+                ["street", "Street address"],
+                ["city", "City"],
+                ["state", "State"],
+                ["zipCode", "ZIP code"],
+                ["country", "Country"],
+              ] as const
+            ).map(([field, label]) => (
+              <input
+                key={field}
+                type="text"
+                required
+                placeholder={label}
+                value={address[field]}
+                onChange={(e) => setAddress({ ...address, [field]: e.target.value })}
+                className={inputClass}
+              />
+            ))}
+          </div>
+
+          <button
+            type="submit"
+            disabled={saving || (packChoice === "custom" && flavorIds.length !== 3)}
+            className="px-6 py-2 bg-[#FF5D39] text-white rounded-lg text-sm font-medium hover:bg-[#e54d2e] disabled:opacity-60 disabled:cursor-not-allowed"
+          >
+            {saving ? "Subscribing..." : "Subscribe"}
+          </button>
+        </form>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600">Loading subscriptions...</div>
+      ) : subscriptions.length === 0 ? (
+        <div className="text-center py-8 text-gray-600">
+          You don&apos;t have any subscriptions yet.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {subscriptions.map((subscription) => (
+            <div key={subscription.id} className="border border-gray-200 rounded-lg p-4">
+              <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="text-sm sm:text-base font-semibold text-black">
+                      {subscription.packRecipe?.title ||
+                        subscription.flavors.map((flavor) => flavor.name).join(", ")}
+                    </h3>
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+                        statusStyles[subscription.status] || "bg-gray-100 text-gray-800"
+                      }`}
+                    >
+                      {subscription.status}
+                    </span>
+                  </div>
+                  <p className="text-xs sm:text-sm text-gray-600 mt-1">
+                    {subscription.quantity} pack{subscription.quantity !== 1 ? "s" : ""} ·{" "}
+                    {cadenceLabels[subscription.cadence] || subscription.cadence}
+                  </p>
+                  {subscription.status === "active" && (
+                    <p className="text-xs sm:text-sm text-gray-600">
+                      Next order: {new Date(subscription.nextRenewalAt).toLocaleDateString()}
+                    </p>
+                  )}
+                  {subscription.lastError && (
+                    <p className="text-xs text-red-600 mt-1">
+                      Last renewal failed: {subscription.lastError}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2 text-xs sm:text-sm">
+                  {subscription.status === "active" && (
+                    <>
+                      <button
+                        onClick={() => runAction(subscription.id, "skip")}
+                        disabled={busyId === subscription.id}
+                        className="px-3 py-1 rounded border border-gray-300 text-black hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Skip next
+                      </button>
+                      <button
+                        onClick={() => runAction(subscription.id, "pause")}
+                        disabled={busyId === subscription.id}
+                        className="px-3 py-1 rounded border border-gray-300 text-black hover:bg-gray-50 disabled:opacity-50"
+                      >
+                        Pause
+                      </button>
+                    </>
+                  )}
+                  {subscription.status === "paused" && (
+                    <button
+                      onClick={() => runAction(subscription.id, "resume")}
+                      disabled={busyId === subscription.id}
+                      className="px-3 py-1 rounded border border-gray-300 text-black hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Resume
+                    </button>
+                  )}
+                  <button
+                    onClick={() => runAction(subscription.id, "cancel")}
+                    disabled={busyId === subscription.id}
+                    className="px-3 py-1 rounded border border-red-300 text-red-600 hover:bg-red-50 disabled:opacity-50"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SubscriptionsPanel;
@@ -0,0 +1,206 @@
+"use client";
+import React from "react";
+
+export type TrackingEvent = {
+  id: string;
+  trackingNumber?: string | null;
+  status: string; // PRE_TRANSIT, TRANSIT, DELIVERED, RETURNED, FAILURE, UNKNOWN
+  substatus?: string | null;
+  statusDetails?: string | null;
+  location?: string | null;
+  occurredAt: string;
+};
+
+export type OrderTracking = {
+  orderStatus: string;
+  shippingStatus?: string | null;
+  carrier?: string | null;
+  service?: string | null;
+  trackingNumber?: string | null;
+  trackingUrl?: string | null;
+  parcels?: TrackingParcel[]; // One per box; labels only for the order's own customer
+  eta?: string | null;
+  events: TrackingEvent[];
+};
+
+export type TrackingParcel = {
+  trackingNumber: string;
+  labelUrl?: string | null;
+};
+
+interface TrackingTimelineProps {
+  tracking: OrderTracking;
+}
+
+const STEPS = [
+  { key: "ordered", label: "Ordered" },
+  { key: "shipped", label: "Shipped" },
+  { key: "out_for_delivery", label: "Out for delivery" },
+  { key: "delivered", label: "Delivered" },
+];
+
+const getEventLabel = (event: TrackingEvent) => {
+  if (event.substatus === "out_for_delivery") return "Out for delivery";
+  switch (event.status) {
+    case "PRE_TRANSIT":
+      return "Label created";
+    case "TRANSIT":
+      return "In transit";
+    case "DELIVERED":
+      return "Delivered";
+    case "RETURNED":
+      return "Returned to sender";
+    case "FAILURE":
+      return "Delivery problem";
+    default:
+      return "Carrier update";
+  }
+};
+
+const getEventColor = (event: TrackingEvent) => {
+  if (event.status === "DELIVERED") return "bg-green-500";
+  if (event.status === "FAILURE" || event.status === "RETURNED") return "bg-red-500";
+  return "bg-[#FF5D39]";
+};
+
+// How far along the stepper the order is
+const getStepIndex = (tracking: OrderTracking) => {
+  if (tracking.orderStatus === "delivered" || tracking.shippingStatus === "delivered") return 3;
+  if (tracking.shippingStatus === "out_for_delivery") return 2;
+  if (tracking.orderStatus === "shipped" || tracking.events.some((e) => e.status !== "PRE_TRANSIT")) return 1;
+  return 0;
+};
+
+const TrackingTimeline: React.FC<TrackingTimelineProps> = ({ tracking }) => {
+  const stepIndex = getStepIndex(tracking);
+  const parcels = tracking.parcels?.length
+    ? tracking.parcels
+    : tracking.trackingNumber
+      ? [{ trackingNumber: tracking.trackingNumber }]
+      : [];
+  const isMultiParcel = parcels.length > 1;
+  const getParcelNumber = (event: TrackingEvent) =>
+    parcels.findIndex((parcel) => parcel.trackingNumber === event.trackingNumber) + 1;
+  const hasProblem = tracking.shippingStatus === "failure" || tracking.shippingStatus === "returned";
+
+  return (
+    <div className="space-y-5">
+      {/* Progress */}
+      <div className="flex items-center">
+        {STEPS.map((step, index) => (
+          <React.Fragment key={step.key}>
+            <div className="flex flex-col items-center text-center min-w-0">
+              <div
+                className={`w-7 h-7 rounded-full flex items-center justify-center text-xs font-bold ${
+                  index <= stepIndex ? "bg-[#FF5D39] text-white" : "bg-gray-200 text-gray-500"
+                }`}
+              >
+                {index < stepIndex || stepIndex === STEPS.length - 1 ? "✓" : index + 1}
+              </div>
+              <span className="mt-1 text-[11px] sm:text-xs text-gray-700">{step.label}</span>
+            </div>
+            {index < STEPS.length - 1 && (
+              <div className={`flex-1 h-1 mx-1 sm:mx-2 rounded ${index < stepIndex ? "bg-[#FF5D39]" : "bg-gray-200"}`} />
+            )}
+          </React.Fragment>
+        ))}
+      </div>
+
+      {hasProblem && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          The carrier reported a problem with this delivery. Contact us at{" "}
+          <a href="mailto:support@licorice4good.com" className="underline font-semibold">
+            support@licorice4good.com
+          </a>{" "}
+          and we&apos;ll help sort it out.
+        </div>
+      )}
+
+      {/* Shipment */}
+      {tracking.trackingNumber && (
+        <div className="p-4 bg-gray-50 rounded-lg flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <p className="font-semibold text-gray-900">
+              {[tracking.carrier, tracking.service].filter(Boolean).join(" · ") || "Shipment"}
+            </p>
+            {parcels.map((parcel, index) => (
+              <p key={parcel.trackingNumber} className="text-gray-600 text-sm">
+                {isMultiParcel && <span className="mr-1">Parcel {index + 1}:</span>}
+                <span className="font-mono">{parcel.trackingNumber}</span>
+                {parcel.labelUrl && (
+                  <a
+                    href={parcel.labelUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="ml-2 text-[#FF5D39] hover:underline"
+                  >
+                    Label
+                  </a>
+                )}
+              </p>
+            ))}
+            {tracking.eta && stepIndex < 3 && (
+              <p className="text-sm text-gray-600 mt-1">
+                Estimated delivery:{" "}
+                {new Date(tracking.eta).toLocaleDateString("en-US", {
+                  weekday: "short",
+                  month: "short",
+                  day: "numeric",
+                })}
+              </p>
+            )}
+          </div>
+          {tracking.trackingUrl && (
+            <a
+              href={tracking.trackingUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-4 py-2 rounded-lg font-semibold text-white text-sm text-center bg-[#FF5D39] hover:bg-[#e54d2e]"
+            >
+              Carrier Tracking
+            </a>
+          )}
+        </div>
+      )}
+
+      {/* Events */}
+      {tracking.events.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {tracking.trackingNumber
+            ? "No carrier scans yet. Updates appear here as the parcel moves."
+            : "Tracking details will appear here once your order ships."}
+        </p>
+      ) : (
+        <ol className="relative border-l-2 border-gray-200 ml-2">
+          {tracking.events.map((event, index) => (
+            <li key={event.id} className="ml-5 pb-4 last:pb-0">
+              <span
+                className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ring-4 ring-white ${
+                  index === 0 ? getEventColor(event) : "bg-gray-300"
+                }`}
+              />
+              <p className={`text-sm font-semibold ${index === 0 ? "text-gray-900" : "text-gray-600"}`}>
+                {getEventLabel(event)}
+                {isMultiParcel && getParcelNumber(event) > 0 && (
+                  <span className="ml-1 font-normal text-gray-500">· Parcel {getParcelNumber(event)}</span>
+                )}
+              </p>
+              {event.statusDetails && <p className="text-sm text-gray-600">{event.statusDetails}</p>}
+              <p className="text-xs text-gray-500">
+                {new Date(event.occurredAt).toLocaleString("en-US", {
+                  month: "short",
+                  day: "numeric",
+                  hour: "numeric",
+                  minute: "2-digit",
+                })}
+                {event.location ? ` · ${event.location}` : ""}
+              </p>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default TrackingTimeline;
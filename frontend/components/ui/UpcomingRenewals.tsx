@@ -0,0 +1,157 @@
+"use client";
+import React, { useCallback, useEffect, useState } from "react";
+import axios from "axios";
+
+type Renewal = {
+  id: string;
+  quantity: number;
+  cadence: string;
+  nextRenewalAt: string;
+  failedAttempts: number;
+  lastError?: string | null;
+  packRecipe?: { id: string; title: string } | null;
+  flavors: Array<{ id: string; name: string }>;
+  user: { id: string; name?: string | null; email?: string | null };
+};
+
+const WINDOWS = [7, 14, 30, 60];
+
+const UpcomingRenewals: React.FC = () => {
+  const [renewals, setRenewals] = useState<Renewal[]>([]);
+  const [days, setDays] = useState(14);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRenewals = useCallback(async () => {
+    const API_URL = process.env.NEXT_PUBLIC_API_URL;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({
+        days: String(days),
+        page: String(page),
+        limit: "25",
+      });
+      const { data } = await axios.get(
+        `${API_URL}/admin/subscriptions/upcoming?${params.toString()}`,
+        { withCredentials: true }
+      );
+      setRenewals(data.subscriptions || []);
+      setPages(data.pagination?.pages || 1);
+      setTotal(data.pagination?.total || 0);
+    } catch {
+      setError("Failed to load upcoming renewals");
+      setRenewals([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [days, page]);
+
+  useEffect(() => {
+    fetchRenewals();
+  }, [fetchRenewals]);
+
+  return (
+    <div className="bg-white rounded-lg sm:rounded-xl shadow-lg border p-4 sm:p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg sm:text-xl font-bold text-black">Upcoming Renewals</h2>
+          <p className="text-xs sm:text-sm text-gray-600">
+            {total} active subscription{total !== 1 ? "s" : ""} renewing in the next {days} days
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => {
+            setDays(Number(e.target.value));
+            setPage(1);
+          }}
+          className="px-3 py-2 border border-gray-300 rounded-lg text-sm text-gray-900 bg-white focus:outline-none focus:ring-2 focus:ring-[#FF5D39]"
+        >
+          {WINDOWS.map((windowDays) => (
+            <option key={windowDays} value={windowDays}>
+              Next {windowDays} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <div className="mb-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-8 text-gray-600 text-sm">Loading renewals...</div>
+      ) : renewals.length === 0 ? (
+        <div className="text-center py-8 text-gray-600 text-sm">No renewals due in this window.</div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                <th className="py-2 pr-4">Renews</th>
+                <th className="py-2 pr-4">Customer</th>
+                <th className="py-2 pr-4">Pack</th>
+                <th className="py-2 pr-4 text-right">Qty</th>
+                <th className="py-2 pr-4">Cadence</th>
+                <th className="py-2">Notes</th>
+              </tr>
+            </thead>
+            <tbody>
+              {renewals.map((renewal) => (
+                <tr key={renewal.id} className="border-b last:border-0 text-gray-900">
+                  <td className="py-2 pr-4 whitespace-nowrap">
+                    {new Date(renewal.nextRenewalAt).toLocaleDateString()}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <div className="font-medium">{renewal.user.name || "—"}</div>
+                    <div className="text-xs text-gray-500">{renewal.user.email}</div>
+                  </td>
+                  <td className="py-2 pr-4">
+                    {renewal.packRecipe?.title ||
+                      renewal.flavors.map((flavor) => flavor.name).join(", ")}
+                  </td>
+                  <td className="py-2 pr-4 text-right">{renewal.quantity}</td>
+                  <td className="py-2 pr-4 capitalize">{renewal.cadence}</td>
+                  <td className="py-2 text-xs text-red-600">
+                    {renewal.failedAttempts > 0 &&
+                      `Retry ${renewal.failedAttempts}: ${renewal.lastError || "failed"}`}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {pages > 1 && (
+        <div className="flex items-center justify-end gap-2 mt-4 text-sm">
+          <button
+            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            disabled={page <= 1}
+            className="px-3 py-1 rounded border border-gray-300 text-black disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span className="text-gray-700">
+            Page {page} of {pages}
+          </span>
+          <button
+            onClick={() => setPage((p) => Math.min(pages, p + 1))}
+            disabled={page >= pages}
+            className="px-3 py-1 rounded border border-gray-300 text-black disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpcomingRenewals;
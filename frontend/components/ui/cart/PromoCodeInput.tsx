@@ -0,0 +1,83 @@
+"use client";
+import React, { useState } from "react";
+
+export interface AppliedPromotion {
+  code: string;
+  description?: string | null;
+  type: string;
+  discount: number;
+  freeShipping: boolean;
+}
+
+interface PromoCodeInputProps {
+  appliedPromotion: AppliedPromotion | null;
+  onApply: (code: string) => void;
+  onRemove: () => void;
+  applying?: boolean;
+  error?: string | null;
+}
+
+const PromoCodeInput: React.FC<PromoCodeInputProps> = ({
+  appliedPromotion,
+  onApply,
+  onRemove,
+  applying = false,
+  error,
+}) => {
+  const [code, setCode] = useState("");
+
+  if (appliedPromotion) {
+    return (
+      <div className="flex items-center justify-between p-3 bg-green-50 border border-green-200 rounded-lg">
+        <div>
+          <div className="text-sm font-semibold text-green-800">
+            {appliedPromotion.code} applied
+          </div>
+          {appliedPromotion.description && (
+            <div className="text-xs text-green-700">{appliedPromotion.description}</div>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={onRemove}
+          className="text-xs text-green-800 underline hover:text-green-900"
+        >
+          Remove
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 mb-2">
+        Promo Code
+      </label>
+      <form
+        className="flex gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (code.trim()) onApply(code.trim());
+        }}
+      >
+        <input
+          type="text"
+          value={code}
+          onChange={(e) => setCode(e.target.value.toUpperCase())}
+          placeholder="Enter code"
+          className="flex-1 px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-lg focus:ring-2 focus:ring-orange-500 focus:border-orange-500 placeholder:text-gray-400 uppercase"
+        />
+        <button
+          type="submit"
+          disabled={applying || !code.trim()}
+          className="px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-lg hover:bg-gray-800 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          {applying ? "Applying..." : "Apply"}
+        </button>
+      </form>
+      {error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default PromoCodeInput;
@@ -0,0 +1,69 @@
+"use client";
+import React, { useEffect, useState } from "react";
+
+interface ReservationCountdownProps {
+  // Client-side timestamp (ms) when the stock hold lapses
+  deadline?: number | null;
+  onRefresh: () => void;
+  refreshing?: boolean;
+}
+
+const formatRemaining = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  const rest = seconds % 60;
+  return `${minutes}:${rest.toString().padStart(2, "0")}`;
+};
+
+const ReservationCountdown: React.FC<ReservationCountdownProps> = ({
+  deadline,
+  onRefresh,
+  refreshing = false,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!deadline) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  // Items stored only in the browser have no hold to show
+  if (deadline === undefined) return null;
+
+  const secondsLeft = deadline
+    ? Math.max(0, Math.floor((deadline - now) / 1000))
+    : 0;
+
+  if (secondsLeft > 0) {
+    return (
+      <div
+        className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium ${
+          secondsLeft <= 120
+            ? "bg-red-100 text-red-700"
+            : "bg-green-100 text-green-700"
+        }`}
+      >
+        <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+        </svg>
+        Reserved for {formatRemaining(secondsLeft)}
+      </div>
+    );
+  }
+
+  return (
+    <div className="inline-flex items-center gap-2 px-2 py-1 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+      <span>Hold expired - stock not reserved</span>
+      <button
+        type="button"
+        onClick={onRefresh}
+        disabled={refreshing}
+        className="underline hover:text-yellow-900 disabled:opacity-60 disabled:cursor-not-allowed"
+      >
+        {refreshing ? "Holding..." : "Hold again"}
+      </button>
+    </div>
+  );
+};
+
+export default ReservationCountdown;
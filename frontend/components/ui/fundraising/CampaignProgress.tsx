@@ -0,0 +1,44 @@
+"use client";
+import React from "react";
+
+interface CampaignProgressProps {
+  raised: number;
+  goalAmount: number;
+  orderCount: number;
+  label?: string;
+}
+
+const CampaignProgress: React.FC<CampaignProgressProps> = ({
+  raised,
+  goalAmount,
+  orderCount,
+  label = "Raised so far",
+}) => {
+  const percent = goalAmount > 0 ? Math.min(100, (raised / goalAmount) * 100) : 0;
+
+  return (
+    <div className="w-full">
+      <div className="flex items-end justify-between mb-2">
+        <div>
+          <div className="text-xs uppercase tracking-wide text-gray-500">{label}</div>
+          <div className="text-2xl md:text-3xl font-bold text-black">${raised.toFixed(2)}</div>
+        </div>
+        <div className="text-right text-sm text-gray-600">
+          of ${goalAmount.toFixed(2)} goal
+          <div className="text-xs text-gray-500">
+            {orderCount} {orderCount === 1 ? "order" : "orders"}
+          </div>
+        </div>
+      </div>
+      <div className="w-full h-3 bg-gray-100 rounded-full overflow-hidden">
+        <div
+          className="h-full bg-[#FF5D39] rounded-full transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      <div className="mt-1 text-xs text-gray-500">{percent.toFixed(0)}% of goal</div>
+    </div>
+  );
+};
+
+export default CampaignProgress;
@@ -0,0 +1,47 @@
+"use client";
+import React from "react";
+
+export type LeaderboardEntry = {
+  rank: number;
+  name: string;
+  code: string;
+  raised: number;
+  orderCount: number;
+};
+
+interface SellerLeaderboardProps {
+  entries: LeaderboardEntry[];
+  highlightCode?: string;
+}
+
+const SellerLeaderboard: React.FC<SellerLeaderboardProps> = ({ entries, highlightCode }) => {
+  if (entries.length === 0) {
+    return <p className="text-sm text-gray-600">No sellers yet.</p>;
+  }
+
+  return (
+    <ol className="divide-y divide-gray-100">
+      {entries.map((entry) => (
+        <li
+          key={entry.code}
+          className={`flex items-center justify-between py-2 px-2 rounded ${
+            entry.code === highlightCode ? "bg-orange-50" : ""
+          }`}
+        >
+          <div className="flex items-center gap-3">
+            <span className="w-6 text-sm font-semibold text-gray-500">{entry.rank}</span>
+            <span className="text-sm font-medium text-black">{entry.name}</span>
+          </div>
+          <div className="text-right">
+            <div className="text-sm font-semibold text-black">${entry.raised.toFixed(2)}</div>
+            <div className="text-xs text-gray-500">
+              {entry.orderCount} {entry.orderCount === 1 ? "order" : "orders"}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default SellerLeaderboard;
@@ -11,11 +11,33 @@ type Flavor = {
   name: string;
   aliases: string[];
   imageUrl?: string;
+  category?: string | null;
   active: boolean;
+  ratingAverage?: number;
+  ratingCount?: number;
   createdAt: string;
   updatedAt: string;
 };
 
+type PackDefinition = {
+  id: string;
+  name: string;
+  size: number;
+  price: number;
+  allowedCategories: string[];
+  allowDuplicates: boolean;
+};
+
+// Used until the pack list loads, matching the backend's original pack
+const DEFAULT_PACK: PackDefinition = {
+  id: "3-pack",
+  name: "3-Pack",
+  size: 3,
+  price: 27,
+  allowedCategories: [],
+  allowDuplicates: false,
+};
+
 type FlavorInventory = {
   flavorId: string;
   onHand: number;
@@ -27,6 +49,8 @@ const CustomPackBuilder = () => {
   const router = useRouter();
   const [flavors, setFlavors] = useState<Flavor[]>([]);
   const [inventory, setInventory] = useState<FlavorInventory[]>([]);
+  const [packs, setPacks] = useState<PackDefinition[]>([]);
+  const [selectedPackId, setSelectedPackId] = useState<string | null>(null);
   const [selectedFlavors, setSelectedFlavors] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [addingToCart, setAddingToCart] = useState(false);
@@ -57,6 +81,23 @@ const CustomPackBuilder = () => {
         );
         setFlavors(activeFlavors);
 
+        // Pack sizes come from the admin's pack definitions
+        try {
+          const packsResponse = await axios.get(`${API_URL}/3pack/packs`, {
+            withCredentials: true,
+          });
+          const packList: PackDefinition[] = packsResponse.data?.packs || [];
+          setPacks(packList);
+          if (packList.length > 0) {
+            setSelectedPackId(
+              packList.find((p) => p.id === DEFAULT_PACK.id)?.id ||
+                packList[0].id
+            );
+          }
+        } catch (packsErr) {
+          console.warn("Failed to load pack sizes, using 3-pack:", packsErr);
+        }
+
         // Try to fetch inventory data (optional - don't fail if endpoint doesn't exist)
         try {
           const inventoryResponse = await axios.get(
@@ -130,23 +171,46 @@ const CustomPackBuilder = () => {
     return flavorInventory.onHand - flavorInventory.reserved > 0;
   };
 
+  const pack = packs.find((p) => p.id === selectedPackId) || DEFAULT_PACK;
+  const packSize = pack.size;
+  const isPackFull = selectedFlavors.length >= packSize;
+
+  // Only flavors from the pack's categories can go in it
+  const packFlavors =
+    pack.allowedCategories.length > 0
+      ? flavors.filter(
+          (flavor) =>
+            !!flavor.category && pack.allowedCategories.includes(flavor.category)
+        )
+      : flavors;
+
+  const selectPack = (packId: string) => {
+    setSelectedPackId(packId);
+    setSelectedFlavors([]);
+    setError(null);
+  };
+
   const toggleFlavor = (flavorId: string) => {
-    if (selectedFlavors.includes(flavorId)) {
-      // Remove flavor
-      setSelectedFlavors((prev) => prev.filter((id) => id !== flavorId));
-    } else if (selectedFlavors.length < 3) {
-      // Add flavor (only if less than 3 selected)
+    const isSelected = selectedFlavors.includes(flavorId);
+    if (isSelected && (!pack.allowDuplicates || isPackFull)) {
+      // Remove flavor (one scoop at a time when duplicates are allowed)
+      const index = selectedFlavors.lastIndexOf(flavorId);
+      setSelectedFlavors((prev) => prev.filter((_, i) => i !== index));
+    } else if (!isPackFull) {
+      // Add flavor (only while the pack has room)
       setSelectedFlavors((prev) => [...prev, flavorId]);
     }
   };
 
-  const removeFlavor = (flavorId: string) => {
-    setSelectedFlavors((prev) => prev.filter((id) => id !== flavorId));
+  const removeFlavor = (index: number) => {
+    setSelectedFlavors((prev) => prev.filter((_, i) => i !== index));
   };
 
   const addCustomPackToCart = async () => {
-    if (selectedFlavors.length !== 3) {
-      setError("Please select exactly 3 flavors for your custom pack.");
+    if (selectedFlavors.length !== packSize) {
+      setError(
+        `Please select exactly ${packSize} flavors for your custom pack.`
+      );
       return;
     }
 
@@ -155,7 +219,7 @@ const CustomPackBuilder = () => {
 
     try {
       // Use the cart store's addCustomPack method
-      await addCustomPack(selectedFlavors, 1);
+      await addCustomPack(selectedFlavors, 1, pack.id);
 
       // Show success message
       setSuccess(true);
@@ -198,13 +262,34 @@ const CustomPackBuilder = () => {
           <span className="text-3xl">🎨</span>
         </div>
         <h2 className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-gray-900 to-gray-700 bg-clip-text text-transparent mb-3">
-          Build Your Custom 3-Pack
+          Build Your Custom {pack.name}
         </h2>
         <p className="text-gray-600 text-base sm:text-lg max-w-2xl mx-auto">
-          Choose exactly 3 flavors to create your perfect licorice combination
+          Choose exactly {packSize} flavors to create your perfect licorice combination
+          {pack.allowDuplicates && " - pick a favorite more than once if you like"}
         </p>
       </div>
 
+      {/* Pack Size Selector */}
+      {packs.length > 1 && (
+        <div className="mb-6 flex flex-wrap justify-center gap-3">
+          {packs.map((p) => (
+            <button
+              key={p.id}
+              type="button"
+              onClick={() => selectPack(p.id)}
+              className={`px-5 py-2.5 rounded-full border-2 font-semibold transition-all duration-200 ${
+                p.id === pack.id
+                  ? "bg-[#FF5D39] border-[#FF5D39] text-white shadow-md"
+                  : "bg-white border-gray-200 text-gray-700 hover:border-[#FF5D39]"
+              }`}
+            >
+              {p.name} · ${p.price.toFixed(2)}
+            </button>
+          ))}
+        </div>
+      )}
+
       {error && (
         <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
           <p className="text-red-700 text-sm">{error}</p>
@@ -238,10 +323,10 @@ const CustomPackBuilder = () => {
       <div className="mb-6 text-center">
         <div className="inline-flex items-center gap-3 bg-gradient-to-r from-gray-50 to-gray-100 rounded-full px-6 py-3 shadow-md border border-gray-200">
           <span className="text-sm sm:text-base font-bold text-gray-800">
-            {selectedFlavors.length} of 3 flavors selected
+            {selectedFlavors.length} of {packSize} flavors selected
           </span>
           <div className="flex gap-2">
-            {[1, 2, 3].map((num) => (
+            {Array.from({ length: packSize }, (_, i) => i + 1).map((num) => (
               <div
                 key={num}
                 className={`w-3 h-3 rounded-full transition-all duration-300 ${
@@ -261,14 +346,14 @@ const CustomPackBuilder = () => {
             Your Selection:
           </h3>
           <div className="flex flex-wrap gap-3">
-            {selectedFlavorObjects.map((flavor) => (
+            {selectedFlavorObjects.map((flavor, index) => (
               <div
-                key={flavor.id}
+                key={`${flavor.id}-${index}`}
                 className="flex items-center gap-2 bg-gradient-to-r from-[#FF5D39] to-[#FF4520] text-white px-4 py-2.5 rounded-full text-sm sm:text-base font-semibold shadow-lg hover:shadow-xl transition-all duration-200 hover:scale-105"
               >
                 <span>{flavor.name}</span>
                 <button
-                  onClick={() => removeFlavor(flavor.id)}
+                  onClick={() => removeFlavor(index)}
                   className="hover:bg-white/30 rounded-full p-1.5 transition-all duration-200 hover:rotate-90"
                   title="Remove flavor"
                 >
@@ -289,11 +374,11 @@ const CustomPackBuilder = () => {
             Available Flavors
           </h3>
           <span className="text-sm text-gray-500 bg-gray-100 px-3 py-1 rounded-full">
-            {flavors.length} flavors
+            {packFlavors.length} flavors
           </span>
         </div>
         <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-4 sm:gap-6">
-          {flavors.map((flavor) => {
+          {packFlavors.map((flavor) => {
             const isSelected = selectedFlavors.includes(flavor.id);
             const inStock = isFlavorInStock(flavor.id);
             const stockCount = getFlavorStock(flavor.id);
@@ -306,7 +391,7 @@ const CustomPackBuilder = () => {
                 inStock={inStock}
                 stockCount={stockCount}
                 onClick={() => toggleFlavor(flavor.id)}
-                disabled={selectedFlavors.length >= 3 && !isSelected}
+                disabled={isPackFull && !isSelected}
               />
             );
           })}
@@ -324,7 +409,7 @@ const CustomPackBuilder = () => {
 
           const getButtonClassName = () => {
             if (success) return "!bg-green-500 !text-white";
-            if (selectedFlavors.length === 3)
+            if (selectedFlavors.length === packSize)
               return "!bg-[#FF5D39] !text-white hover:opacity-90";
             return "!bg-gray-300 !text-gray-500 cursor-not-allowed";
           };
@@ -334,14 +419,14 @@ const CustomPackBuilder = () => {
               title={getButtonTitle()}
               className={`w-full md:w-auto px-8 py-3 font-bold ${getButtonClassName()}`}
               onClick={addCustomPackToCart}
-              disabled={selectedFlavors.length !== 3 || addingToCart || success}
+              disabled={selectedFlavors.length !== packSize || addingToCart || success}
             />
           );
         })()}
 
-        {selectedFlavors.length !== 3 && (
+        {selectedFlavors.length !== packSize && (
           <p className="text-sm text-gray-500 mt-2">
-            Select exactly 3 flavors to add to cart
+            Select exactly {packSize} flavors to add to cart
           </p>
         )}
       </div>
@@ -1,6 +1,7 @@
 "use client";
 import React from "react";
 import Image from "next/image";
+import StarRating from "@/components/ui/StarRating";
 
 type Flavor = {
   id: string;
@@ -8,6 +9,8 @@ type Flavor = {
   aliases: string[];
   imageUrl?: string;
   active: boolean;
+  ratingAverage?: number;
+  ratingCount?: number;
 };
 
 interface FlavorCardProps {
@@ -109,6 +112,17 @@ const FlavorCard: React.FC<FlavorCardProps> = ({
         </p>
       )}
 
+      {/* Rating */}
+      {!!flavor.ratingCount && (
+        <div className="mb-1">
+          <StarRating
+            rating={flavor.ratingAverage || 0}
+            count={flavor.ratingCount}
+            size="sm"
+          />
+        </div>
+      )}
+
       {/* Stock Status */}
       <div className="flex items-center justify-between mt-auto pt-2">
         {(() => {
@@ -27,3 +27,6 @@ export const Links = [
     href: "/terms-and-conditions",
   }
 ];
+
+// Flavor categories; packs can be limited to some of them
+export const FLAVOR_CATEGORIES = ["Traditional", "Sour", "Sweet"];
@@ -16,19 +16,29 @@ export type CartItem = {
   isCustomPack?: boolean;
   flavorIds?: string[];
   customPackName?: string;
+  // When the backend's stock hold lapses (ms timestamp), null once expired
+  reservationDeadline?: number | null;
 };
 
 type CartState = {
   items: CartItem[];
   loading: boolean;
   error: string | null;
+  // Promo code applied in the cart, carried through to payment
+  promotionCode: string | null;
   // Actions
+  setPromotionCode: (code: string | null) => void;
   addItem: (item: Omit<CartItem, "id">) => Promise<void>;
   addPreDefinedPack: (recipeId: string, quantity?: number) => Promise<void>;
-  addCustomPack: (flavorIds: string[], quantity?: number) => Promise<void>;
+  addCustomPack: (
+    flavorIds: string[],
+    quantity?: number,
+    packType?: string
+  ) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   removeItem: (itemId: string) => Promise<void>;
   clearCart: () => Promise<void>;
+  refreshReservations: () => Promise<void>;
   syncWithBackend: () => Promise<void>;
   loadFromBackend: () => Promise<void>;
   // Computed
@@ -42,6 +52,11 @@ export const useCartStore = create<CartState>()(
       items: [],
       loading: false,
       error: null,
+      promotionCode: null,
+
+      setPromotionCode: (code) => {
+        set({ promotionCode: code });
+      },
 
       addItem: async (newItem) => {
         const { loading } = get();
@@ -154,7 +169,7 @@ export const useCartStore = create<CartState>()(
         }
       },
 
-      addCustomPack: async (flavorIds, quantity = 1) => {
+      addCustomPack: async (flavorIds, quantity = 1, packType = "3-pack") => {
         const { loading } = get();
         if (loading) return; // Prevent multiple simultaneous requests
 
@@ -169,7 +184,7 @@ export const useCartStore = create<CartState>()(
           const response = await axios.post(
             `${API_URL}/3pack/cart/add`,
             {
-              product_id: "3-pack",
+              product_id: packType,
               flavor_ids: flavorIds,
               qty: quantity,
             },
@@ -203,15 +218,6 @@ export const useCartStore = create<CartState>()(
               set({
                 error: "Please select flavors for your custom pack.",
               });
-            } else if (
-              errorMessage?.includes(
-                "flavor_ids must contain exactly 3 unique flavors"
-              )
-            ) {
-              set({
-                error:
-                  "Please select exactly 3 different flavors for your custom pack.",
-              });
             } else if (errorMessage?.includes("Insufficient stock")) {
               set({ error: errorMessage });
             } else {
@@ -317,7 +323,7 @@ export const useCartStore = create<CartState>()(
       clearCart: async () => {
         set({ loading: true, error: null });
         try {
-          set({ items: [] });
+          set({ items: [], promotionCode: null });
 
           // Try to clear from backend, but don't fail if it's not available
           try {
@@ -341,6 +347,30 @@ export const useCartStore = create<CartState>()(
         }
       },
 
+      refreshReservations: async () => {
+        set({ error: null });
+        try {
+          const API_URL = process.env.NEXT_PUBLIC_API_URL;
+          const { data } = await axios.post(
+            `${API_URL}/3pack/cart/refresh`,
+            {},
+            { withCredentials: true }
+          );
+
+          if (Array.isArray(data?.unavailable) && data.unavailable.length > 0) {
+            set({ error: data.unavailable[0].message });
+          }
+        } catch (error) {
+          const message =
+            (error as { response?: { data?: { message?: string } } })?.response
+              ?.data?.message || "Failed to reserve cart items";
+          set({ error: message });
+        }
+
+        // Reload cart to pick up the new hold times
+        await get().loadFromBackend();
+      },
+
       syncWithBackend: async () => {
         try {
           const API_URL = process.env.NEXT_PUBLIC_API_URL;
@@ -385,6 +415,7 @@ export const useCartStore = create<CartState>()(
                 quantity?: number;
                 unit_price?: number;
                 sku?: string;
+                reservation_seconds_remaining?: number;
                 items?: Array<{
                   flavor_id: string;
                   flavor_name: string;
@@ -394,20 +425,30 @@ export const useCartStore = create<CartState>()(
               return {
                 id: typedItem.id || `${typedItem.product_id}-${Date.now()}`,
                 productId: typedItem.product_id || "3-pack",
-                productName: typedItem.recipe_title || "Custom 3-Pack",
+                productName: typedItem.recipe_title || "Custom Pack",
                 quantity: typedItem.quantity || 1,
                 price: typedItem.unit_price || 0,
                 sku: typedItem.sku,
                 isCustomPack: typedItem.recipe_kind === "Custom",
                 flavorIds: typedItem.items?.map((item) => item.flavor_id) || [],
                 customPackName: typedItem.recipe_title,
+                reservationDeadline:
+                  typeof typedItem.reservation_seconds_remaining === "number"
+                    ? typedItem.reservation_seconds_remaining > 0
+                      ? Date.now() + typedItem.reservation_seconds_remaining * 1000
+                      : null
+                    : undefined,
               };
             });
 
             // Merge backend items with existing local items
             const { items: currentItems } = get();
+            const packTypes = new Set<string>([
+              "3-pack",
+              ...backendItems.map((item: CartItem) => item.productId),
+            ]);
             const localItems = currentItems.filter(
-              (item) => item.productId !== "3-pack"
+              (item) => !packTypes.has(item.productId)
             );
             const mergedItems = [...localItems, ...backendItems];
             set({ items: mergedItems });
@@ -438,7 +479,7 @@ export const useCartStore = create<CartState>()(
     }),
     {
       name: "cart-storage",
-      partialize: (state) => ({ items: state.items }),
+      partialize: (state) => ({ items: state.items, promotionCode: state.promotionCode }),
     }
   )
 );
@@ -0,0 +1,37 @@
+import { create } from "zustand";
+import { persist } from "zustand/middleware";
+
+// The fundraiser a shopper arrived from via /fundraise/:campaignSlug/:sellerCode
+export type FundraisingReferral = {
+  campaignSlug: string;
+  sellerCode: string;
+  campaignName: string;
+  sellerName: string;
+  savedAt: number;
+};
+
+type FundraisingState = {
+  referral: FundraisingReferral | null;
+  // Actions
+  setReferral: (referral: Omit<FundraisingReferral, "savedAt">) => void;
+  clearReferral: () => void;
+};
+
+export const useFundraisingStore = create<FundraisingState>()(
+  persist(
+    (set) => ({
+      referral: null,
+
+      setReferral: (referral) => {
+        set({ referral: { ...referral, savedAt: Date.now() } });
+      },
+
+      clearReferral: () => {
+        set({ referral: null });
+      },
+    }),
+    {
+      name: "fundraising-storage",
+    }
+  )
+);
@@ -1,5 +1,9 @@
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import axios from "axios";
+
+// Guests keep their wishlist in localStorage; once signed in it is merged
+// into the account and the server copy wins
 
 export type WishlistItem = {
   id: string;
@@ -9,31 +13,70 @@ export type WishlistItem = {
   imageUrl?: string;
   sku?: string;
   category?: string;
+  // Only known once synced with an account
+  notifyWhenInStock?: boolean;
+  inStock?: boolean;
+};
+
+type ServerWishlistItem = {
+  id: string;
+  productId: string | null;
+  notifyWhenInStock: boolean;
+  inStock: boolean;
+  product: {
+    id: string;
+    name: string;
+    price: number;
+    imageUrl?: string | null;
+    sku?: string | null;
+    category: string;
+  } | null;
 };
 
 type WishlistState = {
   items: WishlistItem[];
   loading: boolean;
   error: string | null;
+  synced: boolean; // True while the list mirrors a signed-in account
   // Actions
   addItem: (item: Omit<WishlistItem, "id">) => void;
   removeItem: (productId: string) => void;
   clearWishlist: () => void;
   isInWishlist: (productId: string) => boolean;
+  syncWithBackend: () => Promise<void>;
+  setStockAlert: (productId: string, enabled: boolean) => Promise<void>;
+  resetWishlist: () => void;
   // Computed
   getItemCount: () => number;
   getTotal: () => number;
 };
 
+// Flavor entries have no product page, so the shop's wishlist lists products only
+const fromServerItems = (items: ServerWishlistItem[]): WishlistItem[] =>
+  items
+    .filter((item) => item.product)
+    .map((item) => ({
+      id: item.id,
+      productId: item.product!.id,
+      productName: item.product!.name,
+      price: item.product!.price,
+      imageUrl: item.product!.imageUrl || undefined,
+      sku: item.product!.sku || undefined,
+      category: item.product!.category,
+      notifyWhenInStock: item.notifyWhenInStock,
+      inStock: item.inStock,
+    }));
+
 export const useWishlistStore = create<WishlistState>()(
   persist(
     (set, get) => ({
       items: [],
       loading: false,
       error: null,
+      synced: false,
 
       addItem: (newItem) => {
-        const { items } = get();
+        const { items, synced } = get();
         const existingItem = items.find(
           (item) => item.productId === newItem.productId
         );
@@ -44,19 +87,107 @@ export const useWishlistStore = create<WishlistState>()(
             id: `${newItem.productId}-${Date.now()}`,
           };
           set({ items: [...items, itemWithId] });
+
+          if (synced) {
+            const API_URL = process.env.NEXT_PUBLIC_API_URL;
+            axios
+              .post(
+                `${API_URL}/wishlist`,
+                { productId: newItem.productId },
+                { withCredentials: true }
+              )
+              .then(({ data }) => set({ items: fromServerItems(data.items || []) }))
+              .catch((error) => {
+                console.error("Failed to save wishlist item:", error);
+              });
+          }
         }
       },
 
       removeItem: (productId) => {
-        const { items } = get();
+        const { items, synced } = get();
         const updatedItems = items.filter(
           (item) => item.productId !== productId
         );
         set({ items: updatedItems });
+
+        if (synced) {
+          const API_URL = process.env.NEXT_PUBLIC_API_URL;
+          axios
+            .delete(`${API_URL}/wishlist`, {
+              params: { productId },
+              withCredentials: true,
+            })
+            .catch((error) => {
+              console.error("Failed to remove wishlist item:", error);
+            });
+        }
       },
 
       clearWishlist: () => {
         set({ items: [] });
+
+        if (get().synced) {
+          const API_URL = process.env.NEXT_PUBLIC_API_URL;
+          axios
+            .delete(`${API_URL}/wishlist/all`, { withCredentials: true })
+            .catch((error) => {
+              console.error("Failed to clear wishlist:", error);
+            });
+        }
+      },
+
+      syncWithBackend: async () => {
+        const { loading, items } = get();
+        if (loading) return;
+
+        set({ loading: true, error: null });
+        try {
+          const API_URL = process.env.NEXT_PUBLIC_API_URL;
+          const { data } = await axios.post(
+            `${API_URL}/wishlist/merge`,
+            {
+              items: items.map((item) => ({
+                productId: item.productId,
+                notifyWhenInStock: item.notifyWhenInStock,
+              })),
+            },
+            { withCredentials: true }
+          );
+          set({ items: fromServerItems(data.items || []), synced: true });
+        } catch (error) {
+          // Not signed in: keep the local list
+          set({ synced: false });
+          if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+            set({ error: "Failed to sync wishlist" });
+          }
+        } finally {
+          set({ loading: false });
+        }
+      },
+
+      setStockAlert: async (productId, enabled) => {
+        const { items, synced } = get();
+        const item = items.find((i) => i.productId === productId);
+        if (!item || !synced) {
+          throw new Error("Sign in to get back-in-stock alerts");
+        }
+
+        const API_URL = process.env.NEXT_PUBLIC_API_URL;
+        await axios.put(
+          `${API_URL}/wishlist/${item.id}`,
+          { notifyWhenInStock: enabled },
+          { withCredentials: true }
+        );
+        set({
+          items: get().items.map((i) =>
+            i.productId === productId ? { ...i, notifyWhenInStock: enabled } : i
+          ),
+        });
+      },
+
+      resetWishlist: () => {
+        set({ items: [], synced: false, error: null });
       },
 
       isInWishlist: (productId) => {